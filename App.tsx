@@ -1,166 +1,438 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Upload, Info, Leaf, Trash2, AlertCircle, Shield, Bug, FileImage, Droplets, History, ChevronRight, Eye, Search, Target, BrainCircuit, CheckCircle2, Bookmark } from 'lucide-react';
+import { Camera, Upload, Info, Leaf, Trash2, AlertCircle, Shield, Bug, FileImage, Droplets, History, ChevronRight, Cloud, Cpu, WifiOff, Video, FolderOpen, Sprout, Layers, Download, FileUp, Languages, Ruler, Gauge, ImagePlus, Images, X, Crop, SunMedium, Eraser } from 'lucide-react';
 import { DISEASE_DATABASE } from './constants';
-import { AnalysisResult, DiseaseStage, ImageQuality, HistoryItem } from './types';
-import { analyzeImageQuality, calculateSeverity } from './imageProcessor';
-import { analyzePlantImage } from './geminiService';
-
-const SeverityBadge: React.FC<{ severity: number }> = ({ severity }) => {
-  const badges = [
-    { text: 'Healthy / No Disease', color: 'bg-green-100 text-green-800 border-green-300' },
-    { text: 'Low Severity', color: 'bg-yellow-100 text-yellow-800 border-yellow-300' },
-    { text: 'Medium Severity', color: 'bg-orange-100 text-orange-800 border-orange-300' },
-    { text: 'High Severity', color: 'bg-red-100 text-red-800 border-red-300' }
-  ];
-  const badge = badges[severity] || badges[0];
-  return (
-    <span className={`px-3 py-1 rounded-full text-xs font-bold border ${badge.color}`}>
-      {badge.text}
-    </span>
-  );
-};
-
-const ConfidenceGauge: React.FC<{ confidence: number }> = ({ confidence }) => {
-  const percentage = Math.round(confidence * 100);
-  let color = 'bg-rose-500';
-  let label = 'Low Confidence';
-  if (percentage >= 85) { color = 'bg-emerald-500'; label = 'High Confidence'; }
-  else if (percentage >= 70) { color = 'bg-amber-500'; label = 'Medium Confidence'; }
-
-  return (
-    <div className="w-full space-y-1">
-      <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-slate-400">
-        <span>AI Reliability</span>
-        <span className={percentage >= 70 ? 'text-slate-600' : 'text-rose-500'}>{label}</span>
-      </div>
-      <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
-        <div 
-          className={`h-full transition-all duration-1000 ease-out ${color}`} 
-          style={{ width: `${percentage}%` }}
-        />
-      </div>
-      <p className="text-[10px] text-slate-500 italic">
-        The model is {percentage}% sure based on current visual evidence.
-      </p>
-    </div>
-  );
-};
+import { AnalysisResult, ImageQuality, HistoryItem, DiagnosisProviderId, ScanRecord, Plant, TreatmentLog, CropId, Locale, ReferenceObjectId, SeverityScaleId, ScanLabel, ReliabilityCurves, OutboxItem, PreprocessingOptions } from './types';
+import { CROP_REGISTRY, formatCropList, getCrop, loadCropPreference, saveCropPreference } from './crops';
+import { getFailedQualityChecks, compressImage, loadPreprocessingPreference, savePreprocessingPreference } from './imageProcessor';
+import { DIAGNOSIS_PROVIDERS, loadProviderPreference, saveProviderPreference, resolveProvider, supportsCrop, providerName, providerDescription } from './diagnosisProviders';
+import { analyzeConsensus, analyzeImage, analyzeLeaves, describeAnalysisError } from './analysisPipeline';
+import { MAX_LEAVES, loadPerLeafPreference, savePerLeafPreference } from './leaves';
+import { AccuracyReport, buildAccuracyReport, buildReliabilityCurves, loadAbstentionThreshold, loadReliabilityCurves, saveAbstentionThreshold, saveReliabilityCurves } from './calibration';
+import CalibrationPanel from './CalibrationPanel';
+import OutboxPanel from './OutboxPanel';
+import { drainOutbox, queueScan } from './outbox';
+import { MAX_CONSENSUS_SHOTS, VIEWS_PER_PHOTO, loadConsensusViewsPreference, saveConsensusViewsPreference } from './consensus';
+import { SEVERITY_SCALES, isSeverityScaleId, loadSeverityScalePreference, saveSeverityScalePreference } from './severityScales';
+import { severityScaleName } from './severityScaleNames';
+import { REFERENCE_OBJECTS, getReferenceObject, isReferenceObjectId, loadReferencePreference, referenceName, saveReferencePreference } from './referenceObjects';
+import CameraCapture from './CameraCapture';
+import ScanImageViewer from './ScanImageViewer';
+import ResultCard from './ResultCard';
+import { getDisease, getDiseaseInfo, guideAnchor } from './diseases';
+import { LOCALES, getLocale, setLocale, t } from './i18n';
+import HistoryDetail from './HistoryDetail';
+import PlantTracker from './PlantTracker';
+import TreatmentTracker, { RemindersPanel } from './TreatmentTracker';
+import WeatherRiskPanel from './WeatherRiskPanel';
+import BatchPanel from './BatchPanel';
+import Encyclopedia from './Encyclopedia';
+import { validateImageFile, readFileAsDataUrl, collectDroppedFiles } from './fileInput';
+import { exportHistoryCsv, exportHistoryJson } from './exportService';
+import { previewImport, importBackup, BackupImportError, ImportMode, ImportPreview } from './importService';
+import { collectReminders, createTreatmentLog, needsFollowUp, scheduleReminderNotifications } from './reminders';
+import { getAllScans, saveScan, clearScans, migrateLegacyHistory, requestPersistentStorage, toHistoryItem, toStoredResult, getAllPlants, setScanPlant, getAllTreatmentLogs, getTreatmentLog, saveTreatmentLog, clearTreatmentLogs, setScanLabel, getAllOutboxItems, deleteOutboxItem } from './historyStore';
 
 const App: React.FC = () => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  // More photos of the same plant to vote alongside the selected one
+  const [extraPhotos, setExtraPhotos] = useState<string[]>([]);
+  const [multiView, setMultiView] = useState<boolean>(loadConsensusViewsPreference);
+  const [perLeaf, setPerLeaf] = useState<boolean>(loadPerLeafPreference);
+  const [preprocessing, setPreprocessing] = useState<PreprocessingOptions>(loadPreprocessingPreference);
   const [analyzing, setAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [activeTab, setActiveTab] = useState<'scanner' | 'database' | 'history'>('scanner');
+  const [activeTab, setActiveTab] = useState<'scanner' | 'database' | 'history' | 'plants'>('scanner');
   const [imageQuality, setImageQuality] = useState<ImageQuality | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [showOverlay, setShowOverlay] = useState(false);
+  const [providerId, setProviderId] = useState<DiagnosisProviderId>(loadProviderPreference);
+  const [cropId, setCropId] = useState<CropId>(loadCropPreference);
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const [referenceId, setReferenceId] = useState<ReferenceObjectId | undefined>(loadReferencePreference);
+  const [severityScaleId, setSeverityScaleId] = useState<SeverityScaleId>(loadSeverityScalePreference);
+  const [abstentionThreshold, setAbstentionThreshold] = useState<number>(loadAbstentionThreshold);
+  const [reliabilityCurves, setReliabilityCurves] = useState<ReliabilityCurves>(loadReliabilityCurves);
+  const [accuracyReport, setAccuracyReport] = useState<AccuracyReport | null>(null);
+  const [historyCropFilter, setHistoryCropFilter] = useState<CropId | 'all'>('all');
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [openScanId, setOpenScanId] = useState<string | null>(null);
+  const [plants, setPlants] = useState<Plant[]>([]);
+  const [activePlantId, setActivePlantId] = useState<string>('');
+  const [currentScan, setCurrentScan] = useState<ScanRecord | null>(null);
+  const [treatmentLogs, setTreatmentLogs] = useState<TreatmentLog[]>([]);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  // Scans captured offline, waiting for a connection to be analysed
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const extraPhotoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const selectProvider = (id: DiagnosisProviderId) => {
+    setProviderId(id);
+    saveProviderPreference(id);
+  };
+
+  const selectCrop = (id: CropId) => {
+    setCropId(id);
+    saveCropPreference(id);
+  };
+
+  const selectReference = (id?: ReferenceObjectId) => {
+    setReferenceId(id);
+    saveReferencePreference(id);
+  };
+
+  // Screens grade severity with the saved scale on render; this state only triggers the re-render
+  const selectSeverityScale = (id: SeverityScaleId) => {
+    setSeverityScaleId(id);
+    saveSeverityScalePreference(id);
+  };
+
+  const selectAbstentionThreshold = (threshold: number) => {
+    setAbstentionThreshold(threshold);
+    saveAbstentionThreshold(threshold);
+  };
+
+  const selectMultiView = (enabled: boolean) => {
+    setMultiView(enabled);
+    saveConsensusViewsPreference(enabled);
+  };
+
+  const selectPerLeaf = (enabled: boolean) => {
+    setPerLeaf(enabled);
+    savePerLeafPreference(enabled);
+  };
+
+  // The pipeline reads the saved options when it prepares each image
+  const selectPreprocessing = (change: Partial<PreprocessingOptions>) => {
+    const next = { ...preprocessing, ...change };
+    setPreprocessing(next);
+    savePreprocessingPreference(next);
+  };
+
+  // Every screen reads the active locale on render, so re-rendering from here is enough
+  const selectLocale = (id: Locale) => {
+    setLocale(id);
+    setLocaleState(id);
+  };
+
+  // A registered plant already knows its crop
+  const selectPlant = (plantId: string) => {
+    setActivePlantId(plantId);
+    const plant = plants.find((p) => p.id === plantId);
+    if (plant?.cropId) selectCrop(plant.cropId);
+  };
+
+  // Later analyses are calibrated against whatever the labelled scans in history say
+  const refreshCalibration = (records: ScanRecord[]) => {
+    const curves = buildReliabilityCurves(records);
+    saveReliabilityCurves(curves);
+    setReliabilityCurves(curves);
+    setAccuracyReport(buildAccuracyReport(records));
+  };
+
+  const loadHistory = async () => {
+    try {
+      const records = await getAllScans();
+      setHistory(records.map(toHistoryItem));
+      refreshCalibration(records);
+    } catch (e) {
+      console.error("Failed to load history", e);
+    }
+  };
 
   // Load history on mount
   useEffect(() => {
-    const savedHistory = localStorage.getItem('kangkung_analysis_history');
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch (e) {
-        console.error("Failed to load history", e);
+    migrateLegacyHistory()
+      .catch((e) => console.error("Failed to migrate legacy history", e))
+      .then(loadHistory);
+    loadPlants();
+    loadTreatmentLogs();
+    loadOutbox();
+    requestPersistentStorage();
+  }, []);
+
+  // Whatever was queued offline is analysed as soon as the connection is back
+  useEffect(() => {
+    if (isOnline) processOutbox();
+  }, [isOnline]);
+
+  const reminders = collectReminders(treatmentLogs);
+
+  useEffect(() => scheduleReminderNotifications(reminders), [treatmentLogs]);
+
+  const loadTreatmentLogs = async () => {
+    try {
+      setTreatmentLogs(await getAllTreatmentLogs());
+    } catch (e) {
+      console.error("Failed to load treatment logs", e);
+    }
+  };
+
+  const loadPlants = async () => {
+    try {
+      setPlants(await getAllPlants());
+    } catch (e) {
+      console.error("Failed to load plants", e);
+    }
+  };
+
+  const loadOutbox = async () => {
+    try {
+      setOutbox(await getAllOutboxItems());
+    } catch (e) {
+      console.error("Failed to load outbox", e);
+    }
+  };
+
+  const saveToHistory = async (res: AnalysisResult, image: string, plantId?: string, createdAt = Date.now()): Promise<ScanRecord | null> => {
+    try {
+      const record: ScanRecord = {
+        id: crypto.randomUUID(),
+        createdAt,
+        result: toStoredResult(res),
+        image: await compressImage(image, 1600),
+        thumbnail: await compressImage(image, 160, 0.7),
+        plantId,
+      };
+      await saveScan(record);
+      setHistory((prev) => [toHistoryItem(record), ...prev]);
+      // Verdicts awaiting review get no treatment plan until someone confirms them
+      if (!res.needsReview && needsFollowUp(res.stage, plantId)) {
+        await saveTreatmentLog(createTreatmentLog(record.id, res.stage, record.createdAt, plantId, res.diseaseId));
+        loadTreatmentLogs();
       }
+      return record;
+    } catch (e) {
+      console.error("Failed to save scan", e);
+      return null;
     }
-  }, []);
+  };
 
-  const saveToHistory = (res: AnalysisResult) => {
-    const newItem: HistoryItem = {
-      id: crypto.randomUUID(),
-      timestamp: res.timestamp,
-      stage: res.stage,
-      diseaseName: res.disease.name,
-      confidence: res.confidence,
-      severityScore: res.severityScore,
-    };
+  // Queued scans keep the time they were taken, not the time they were analysed
+  const processOutbox = async () => {
+    try {
+      await drainOutbox(async (output, item) => {
+        const res = { ...output.result, timestamp: new Date(item.createdAt).toLocaleString() };
+        // Throwing keeps the scan queued rather than losing it
+        if (!await saveToHistory(res, output.image ?? item.photos[0], item.plantId, item.createdAt)) {
+          throw new Error("Could not save the analysed scan");
+        }
+      }, loadOutbox);
+    } catch (e) {
+      console.error("Failed to process outbox", e);
+      alert(t('outbox.drainFailed'));
+      loadOutbox();
+    }
+    await loadHistory();
+  };
+
+  const removeOutboxItem = async (id: string) => {
+    await deleteOutboxItem(id);
+    loadOutbox();
+  };
+
+  const changeScanPlant = async (scanId: string, plantId: string | undefined) => {
+    await setScanPlant(scanId, plantId);
+    const log = await getTreatmentLog(scanId);
+    if (log) {
+      await saveTreatmentLog({ ...log, plantId });
+      loadTreatmentLogs();
+    }
+    setHistory((prev) => prev.map((item) => item.id === scanId ? { ...item, plantId } : item));
+  };
+
+  const labelScan = async (scanId: string, label: ScanLabel | undefined) => {
+    await setScanLabel(scanId, label);
+    await loadHistory();
+  };
 
-    const updatedHistory = [newItem, ...history].slice(0, 50);
-    setHistory(updatedHistory);
-    localStorage.setItem('kangkung_analysis_history', JSON.stringify(updatedHistory));
+  const openScan = (scanId: string) => {
+    setActiveTab('history');
+    setOpenScanId(scanId);
   };
 
-  const clearHistory = () => {
-    if (window.confirm("Are you sure you want to clear your entire analysis history?")) {
+  const clearHistory = async () => {
+    if (window.confirm(t('history.confirmClear'))) {
+      await clearScans();
+      await clearTreatmentLogs();
       setHistory([]);
-      localStorage.removeItem('kangkung_analysis_history');
+      refreshCalibration([]);
+      setTreatmentLogs([]);
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const exportHistory = async (format: 'csv' | 'json') => {
+    try {
+      const records = await getAllScans();
+      if (format === 'csv') exportHistoryCsv(records, plants);
+      else exportHistoryJson(records, plants, await getAllTreatmentLogs());
+    } catch (e) {
+      console.error("Failed to export history", e);
+      alert(t('history.exportFailed'));
+    }
+  };
+
+  const handleBackupSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) {
-        alert('Please upload an image file.');
-        return;
-      }
-      if (file.size > 10 * 1024 * 1024) {
-        alert('Image file is too large (max 10MB).');
-        return;
-      }
-      
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = reader.result as string;
-        setSelectedImage(base64);
-        setResult(null);
-        setImageQuality(null);
-        setShowOverlay(false);
-      };
-      reader.readAsDataURL(file);
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportPreview(await previewImport(await file.text()));
+    } catch (err) {
+      alert(err instanceof BackupImportError ? err.message : t('import.unreadable'));
+    }
+  };
+
+  const confirmImport = async (mode: ImportMode) => {
+    if (!importPreview) return;
+    if (mode === 'replace' && !window.confirm(t('import.confirmReplace'))) return;
+    try {
+      const summary = await importBackup(importPreview.backup, mode);
+      alert(t('import.done', {
+        scans: summary.scansAdded,
+        plants: summary.plantsAdded,
+        treatments: summary.treatmentsAdded,
+        duplicates: summary.duplicatesSkipped,
+        invalid: summary.invalidSkipped,
+      }));
+    } catch (e) {
+      console.error("Failed to import backup", e);
+      alert(t('import.failed'));
+    } finally {
+      setImportPreview(null);
+      loadHistory();
+      loadPlants();
+      loadTreatmentLogs();
+    }
+  };
+
+  // A single image goes through the interactive scanner; several are queued as a batch
+  const handleFiles = async (files: File[]) => {
+    const images = files.filter((f) => f.type.startsWith('image/'));
+    if (images.length > 1) {
+      setBatchFiles(images);
+      return;
+    }
+
+    const file = images[0] ?? files[0];
+    if (!file) return;
+    const invalid = validateImageFile(file);
+    if (invalid) {
+      alert(`${invalid}.`);
+      return;
+    }
+    loadImage(await readFileAsDataUrl(file));
+  };
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    handleFiles(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const loadImage = (base64: string) => {
+    setSelectedImage(base64);
+    setExtraPhotos([]);
+    setResult(null);
+    setCurrentScan(null);
+    setImageQuality(null);
+    setShowOverlay(false);
+    setCameraOpen(false);
+  };
+
+  const handleExtraPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const invalid = files.map(validateImageFile).find(Boolean);
+    if (invalid) {
+      alert(`${invalid}.`);
+      return;
     }
+    const added = await Promise.all(files.map(readFileAsDataUrl));
+    setExtraPhotos((prev) => [...prev, ...added].slice(0, MAX_CONSENSUS_SHOTS - 1));
+    setResult(null);
+    setCurrentScan(null);
   };
 
-  const runAnalysis = async () => {
+  const removeExtraPhoto = (index: number) => setExtraPhotos((prev) => prev.filter((_, i) => i !== index));
+
+  const runAnalysis = async (skipQualityGate = false) => {
     if (!selectedImage) return;
     setAnalyzing(true);
     setShowOverlay(false);
+    const provider = resolveProvider(providerId, navigator.onLine, cropId);
+    const photos = [selectedImage, ...extraPhotos];
+    const reference = getReferenceObject(referenceId);
+    if (provider.requiresNetwork && !navigator.onLine) {
+      await queueCurrentScan(photos);
+      setAnalyzing(false);
+      return;
+    }
     
     try {
-      const quality = await analyzeImageQuality(selectedImage);
+      // Consensus takes precedence: several photos of the plant already cover its leaves
+      const { result: finalResult, quality, image } = photos.length > 1 || multiView
+        ? await analyzeConsensus(photos, provider, getCrop(cropId), { multiView, skipQualityGate, reference })
+        : perLeaf
+          ? await analyzeLeaves(selectedImage, provider, getCrop(cropId), skipQualityGate, reference)
+          : await analyzeImage(selectedImage, provider, getCrop(cropId), skipQualityGate, reference);
+      // A rejected first photo hands the scan over to the photo that was measured
+      const scanImage = image ?? selectedImage;
+      if (scanImage !== selectedImage) {
+        setSelectedImage(scanImage);
+        setExtraPhotos(photos.filter((photo) => photo !== scanImage));
+      }
       setImageQuality(quality);
-
-      const aiResult = await analyzePlantImage(selectedImage);
-      const stage = aiResult.stage as DiseaseStage;
-      const severityScore = calculateSeverity(stage, aiResult.lesionCount, aiResult.avgLesionSize);
-
-      const finalResult: AnalysisResult = {
-        stage,
-        confidence: aiResult.confidence,
-        disease: DISEASE_DATABASE[stage],
-        lesionCount: aiResult.stage === 'N0' || aiResult.stage === 'H0' ? 0 : aiResult.lesionCount,
-        avgLesionSize: aiResult.stage === 'N0' || aiResult.stage === 'H0' ? 0 : aiResult.avgLesionSize,
-        severityScore,
-        timestamp: new Date().toLocaleString(),
-        qualityIssues: quality.isTooDark || quality.hasShadows || quality.isLowRes || quality.hasOverexposure ? {
-          tooDark: quality.isTooDark,
-          shadows: quality.hasShadows,
-          lowRes: quality.isLowRes,
-          overexposed: quality.hasOverexposure
-        } : null,
-        aiExplanation: aiResult.explanation,
-        detectedSymptoms: aiResult.detectedSymptoms || [],
-        visualEvidenceRegions: aiResult.visualEvidenceRegions || ""
-      };
-
       setResult(finalResult);
-      saveToHistory(finalResult);
-      if (stage !== 'H0' && stage !== 'N0') {
+      setCurrentScan(await saveToHistory(finalResult, scanImage, activePlantId || undefined));
+      if (finalResult.stage !== 'H0' && finalResult.stage !== 'N0') {
         setTimeout(() => setShowOverlay(true), 1500);
       }
     } catch (error) {
-      alert("Failed to analyze image. Please check your internet connection and try again.");
+      // A connection lost mid-analysis queues the scan instead of dropping it
+      if (provider.requiresNetwork && !navigator.onLine) await queueCurrentScan(photos);
+      else alert(describeAnalysisError(provider));
     } finally {
       setAnalyzing(false);
     }
   };
 
+  const queueCurrentScan = async (photos: string[]) => {
+    try {
+      await queueScan({ photos, multiView, perLeaf, cropId, providerId, referenceId, plantId: activePlantId || undefined });
+      await loadOutbox();
+      resetScanner();
+      alert(t('outbox.queued'));
+    } catch (e) {
+      console.error("Failed to queue scan", e);
+      alert(t('outbox.queueFailed'));
+    }
+  };
+
   const navigateToEncyclopedia = (targetId: string) => {
     setActiveTab('database');
+    setOpenScanId(null);
     setTimeout(() => {
       const element = document.getElementById(targetId);
       if (element) {
@@ -173,12 +445,18 @@ const App: React.FC = () => {
 
   const resetScanner = () => {
     setSelectedImage(null);
+    setExtraPhotos([]);
     setResult(null);
+    setCurrentScan(null);
     setImageQuality(null);
     setShowOverlay(false);
+    setCameraOpen(false);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Browsers only expose folder picking through this non-standard attribute
+  const folderInputProps = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Header */}
@@ -190,35 +468,70 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-xl md:text-2xl font-bold tracking-tight">PhytoScan</h1>
-              <p className="text-emerald-100 text-xs opacity-90 text-nowrap">Expert Cercospora Diagnosis</p>
+              <p className="text-emerald-100 text-xs opacity-90 text-nowrap">{t('app.tagline')}</p>
             </div>
           </div>
           
-          <nav className="flex bg-emerald-800/50 p-1 rounded-xl overflow-x-auto no-scrollbar">
-            <button
-              onClick={() => setActiveTab('scanner')}
-              className={`flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-semibold transition-all shrink-0 ${activeTab === 'scanner' ? 'bg-white text-emerald-800 shadow-md' : 'text-emerald-100 hover:text-white'}`}
-            >
-              <Camera className="w-4 h-4" /> Scanner
-            </button>
-            <button
-              onClick={() => setActiveTab('history')}
-              className={`flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-semibold transition-all shrink-0 ${activeTab === 'history' ? 'bg-white text-emerald-800 shadow-md' : 'text-emerald-100 hover:text-white'}`}
-            >
-              <History className="w-4 h-4" /> History
-            </button>
-            <button
-              onClick={() => setActiveTab('database')}
-              className={`flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-semibold transition-all shrink-0 ${activeTab === 'database' ? 'bg-white text-emerald-800 shadow-md' : 'text-emerald-100 hover:text-white'}`}
-            >
-              <Info className="w-4 h-4" /> Encyclopedia
-            </button>
-          </nav>
+          <div className="flex items-center gap-3">
+            <nav className="flex bg-emerald-800/50 p-1 rounded-xl overflow-x-auto no-scrollbar">
+              <button
+                onClick={() => setActiveTab('scanner')}
+                className={`flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-semibold transition-all shrink-0 ${activeTab === 'scanner' ? 'bg-white text-emerald-800 shadow-md' : 'text-emerald-100 hover:text-white'}`}
+              >
+                <Camera className="w-4 h-4" /> {t('nav.scanner')}
+              </button>
+              <button
+                onClick={() => { setActiveTab('history'); setOpenScanId(null); }}
+                className={`flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-semibold transition-all shrink-0 ${activeTab === 'history' ? 'bg-white text-emerald-800 shadow-md' : 'text-emerald-100 hover:text-white'}`}
+              >
+                <History className="w-4 h-4" /> {t('nav.history')}
+                {outbox.length > 0 && (
+                  <span className="px-1.5 rounded-full bg-amber-400 text-amber-950 text-[10px] font-black">{outbox.length}</span>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('database')}
+                className={`flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-semibold transition-all shrink-0 ${activeTab === 'database' ? 'bg-white text-emerald-800 shadow-md' : 'text-emerald-100 hover:text-white'}`}
+              >
+                <Info className="w-4 h-4" /> {t('nav.encyclopedia')}
+              </button>
+              <button
+                onClick={() => setActiveTab('plants')}
+                className={`flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-semibold transition-all shrink-0 ${activeTab === 'plants' ? 'bg-white text-emerald-800 shadow-md' : 'text-emerald-100 hover:text-white'}`}
+              >
+                <Sprout className="w-4 h-4" /> {t('nav.plants')}
+              </button>
+            </nav>
+            <label className="flex items-center gap-1 shrink-0" title={t('app.language')}>
+              <Languages className="w-4 h-4 text-emerald-100" />
+              <select
+                value={locale}
+                onChange={(e) => selectLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                className="bg-emerald-800/50 text-white text-xs font-bold rounded-lg px-2 py-2 border border-emerald-600"
+              >
+                {Object.values(LOCALES).map((l) => (
+                  <option key={l.id} value={l.id}>{l.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8">
-        {activeTab === 'scanner' ? (
+        {activeTab === 'scanner' && batchFiles ? (
+          <BatchPanel
+            files={batchFiles}
+            providerId={providerId}
+            cropId={cropId}
+            referenceId={referenceId}
+            plantId={activePlantId || undefined}
+            onSave={saveToHistory}
+            onOpenScan={openScan}
+            onClose={() => setBatchFiles(null)}
+          />
+        ) : activeTab === 'scanner' ? (
           <div className="grid lg:grid-cols-2 gap-8">
             {/* Input Section */}
             <div className="space-y-6">
@@ -226,7 +539,7 @@ const App: React.FC = () => {
                 <div className="p-6">
                   <div className="flex items-center justify-between mb-6">
                     <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
-                      <Upload className="w-5 h-5 text-emerald-600" /> Image Input
+                      <Upload className="w-5 h-5 text-emerald-600" /> {t('scanner.imageInput')}
                     </h2>
                     {selectedImage && (
                       <button onClick={resetScanner} className="text-rose-500 hover:bg-rose-50 p-2 rounded-full transition-colors">
@@ -235,79 +548,233 @@ const App: React.FC = () => {
                     )}
                   </div>
 
-                  {!selectedImage ? (
-                    <div className="group relative border-2 border-dashed border-slate-300 rounded-2xl p-12 text-center hover:border-emerald-500 transition-all cursor-pointer bg-slate-50">
-                      <input
-                        ref={fileInputRef}
-                        type="file"
-                        accept="image/*"
-                        onChange={handleImageUpload}
-                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                      />
-                      <div className="flex flex-col items-center gap-4">
-                        <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center group-hover:scale-110 transition-transform">
-                          <Upload className="w-10 h-10 text-emerald-600" />
-                        </div>
-                        <div>
-                          <p className="text-slate-800 font-bold">Select Leaf Image</p>
-                          <p className="text-slate-500 text-sm mt-1">Upload a clear photo of the infected leaf</p>
+                  <div className="flex bg-slate-100 p-1 rounded-xl mb-3">
+                    {Object.values(CROP_REGISTRY).map((crop) => (
+                      <button
+                        key={crop.id}
+                        onClick={() => selectCrop(crop.id)}
+                        className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold transition-all ${cropId === crop.id ? 'bg-white text-emerald-800 shadow' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        {crop.name} <span className="font-medium opacity-60">({crop.englishName})</span>
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-2 mb-4">
+                    <Sprout className="w-4 h-4 text-emerald-600 shrink-0" />
+                    {plants.length > 0 ? (
+                      <select
+                        value={activePlantId}
+                        onChange={(e) => selectPlant(e.target.value)}
+                        className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white"
+                      >
+                        <option value="">{t('scanner.noPlant')}</option>
+                        {plants.map((p) => (
+                          <option key={p.id} value={p.id}>{p.name}{p.location ? ` (${p.location})` : ''}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <button onClick={() => setActiveTab('plants')} className="text-xs font-bold text-emerald-700 hover:underline">
+                        {t('scanner.registerPlantHint')}
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2 mb-4">
+                    <Ruler className="w-4 h-4 text-emerald-600 shrink-0" />
+                    <select
+                      value={referenceId ?? ''}
+                      onChange={(e) => selectReference(isReferenceObjectId(e.target.value) ? e.target.value : undefined)}
+                      aria-label={t('reference.label')}
+                      className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white"
+                    >
+                      <option value="">{t('reference.none')}</option>
+                      {Object.values(REFERENCE_OBJECTS).map((r) => (
+                        <option key={r.id} value={r.id}>{referenceName(r.id)}</option>
+                      ))}
+                    </select>
+                    <Gauge className="w-4 h-4 text-emerald-600 shrink-0" />
+                    <select
+                      value={severityScaleId}
+                      onChange={(e) => isSeverityScaleId(e.target.value) && selectSeverityScale(e.target.value)}
+                      aria-label={t('scale.label')}
+                      className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white"
+                    >
+                      {Object.values(SEVERITY_SCALES).map((scale) => (
+                        <option key={scale.id} value={scale.id}>{severityScaleName(scale.id)}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {cameraOpen ? (
+                    <CameraCapture onCapture={loadImage} onClose={() => setCameraOpen(false)} />
+                  ) : !selectedImage ? (
+                    <div className="space-y-3">
+                      <div
+                        onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+                        onDragLeave={() => setDragActive(false)}
+                        onDrop={handleDrop}
+                        className={`group relative border-2 border-dashed rounded-2xl p-12 text-center hover:border-emerald-500 transition-all cursor-pointer ${dragActive ? 'border-emerald-500 bg-emerald-50' : 'border-slate-300 bg-slate-50'}`}
+                      >
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept="image/*"
+                          multiple
+                          onChange={handleImageUpload}
+                          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                        />
+                        <div className="flex flex-col items-center gap-4">
+                          <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center group-hover:scale-110 transition-transform">
+                            <Upload className="w-10 h-10 text-emerald-600" />
+                          </div>
+                          <div>
+                            <p className="text-slate-800 font-bold">{t('scanner.selectImage')}</p>
+                            <p className="text-slate-500 text-sm mt-1">{t('scanner.selectImageHint')}</p>
+                          </div>
+                          <span className="px-6 py-2 bg-emerald-600 text-white rounded-xl font-bold text-sm">{t('scanner.browse')}</span>
                         </div>
-                        <span className="px-6 py-2 bg-emerald-600 text-white rounded-xl font-bold text-sm">Browse Files</span>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => setCameraOpen(true)}
+                          className="py-3 bg-slate-900 text-white rounded-xl font-bold text-sm hover:bg-slate-800 transition-all flex items-center justify-center gap-2"
+                        >
+                          <Video className="w-4 h-4" /> {t('scanner.liveCamera')}
+                        </button>
+                        <button
+                          onClick={() => folderInputRef.current?.click()}
+                          className="py-3 bg-white text-slate-700 border border-slate-200 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all flex items-center justify-center gap-2"
+                        >
+                          <Layers className="w-4 h-4" /> {t('scanner.analyzeFolder')}
+                        </button>
+                        <input ref={folderInputRef} type="file" multiple onChange={handleImageUpload} className="hidden" {...folderInputProps} />
                       </div>
                     </div>
                   ) : (
                     <div className="space-y-4">
-                      <div className="relative rounded-2xl overflow-hidden bg-slate-100 border border-slate-200 h-80 flex items-center justify-center group">
-                        <img src={selectedImage} alt="Kangkung leaf" className="max-h-full object-contain" />
-                        
-                        {showOverlay && result && result.stage !== 'H0' && result.stage !== 'N0' && (
-                          <div className="absolute inset-0 bg-rose-500/20 pointer-events-none animate-pulse flex items-center justify-center">
-                             <div className="border-4 border-rose-500 w-32 h-32 rounded-full blur-xl opacity-50 bg-rose-500" />
-                             <div className="absolute top-4 left-4 bg-rose-600 text-white text-[10px] px-2 py-1 rounded font-black flex items-center gap-1 shadow-lg">
-                                <Target className="w-3 h-3" /> AI DETECTED ANOMALY
-                             </div>
-                             <div className="absolute w-full h-0.5 bg-emerald-400 shadow-[0_0_15px_rgba(52,211,153,0.8)] top-0 left-0 animate-[scan_3s_infinite]" />
-                          </div>
-                        )}
+                      <ScanImageViewer
+                        image={selectedImage}
+                        result={result}
+                        showOverlay={showOverlay}
+                        onToggleOverlay={() => setShowOverlay(!showOverlay)}
+                        resolution={imageQuality?.resolution}
+                      />
 
-                        <div className="absolute bottom-3 left-3 flex gap-2">
-                           {result && (result.stage !== 'H0' && result.stage !== 'N0') && (
-                             <button 
-                               onClick={() => setShowOverlay(!showOverlay)}
-                               className={`p-2 rounded-lg backdrop-blur flex items-center gap-2 text-[10px] font-bold shadow-lg transition-all ${showOverlay ? 'bg-emerald-600 text-white' : 'bg-white/80 text-slate-700'}`}
-                             >
-                               <Eye className="w-3 h-3" /> {showOverlay ? 'HIDE AI HEATMAP' : 'SHOW AI HEATMAP'}
-                             </button>
-                           )}
+                      {imageQuality && getFailedQualityChecks(imageQuality).length > 0 && (
+                        <div className="bg-amber-50 border border-amber-200 p-4 rounded-xl flex gap-3">
+                          <AlertCircle className="w-5 h-5 text-amber-600 shrink-0" />
+                          <div>
+                            <p className="text-amber-800 text-sm font-bold">{t('scanner.qualityConcerns')}</p>
+                            <p className="text-amber-700 text-xs mt-1">{t('scanner.qualityConcernsDetail', { issues: getFailedQualityChecks(imageQuality).join(', ') })}</p>
+                          </div>
                         </div>
+                      )}
 
-                        {imageQuality && (
-                          <div className="absolute bottom-3 right-3 bg-slate-900/80 backdrop-blur text-white text-[10px] px-2 py-1 rounded-lg uppercase tracking-wider font-bold">
-                            {imageQuality.resolution.width} × {imageQuality.resolution.height}
+                      <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                            <input type="checkbox" checked={multiView} onChange={(e) => selectMultiView(e.target.checked)} className="accent-emerald-600" />
+                            <Images className="w-4 h-4 text-emerald-600" /> {t('consensus.multiView')}
+                          </label>
+                          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                            <input type="checkbox" checked={perLeaf} onChange={(e) => selectPerLeaf(e.target.checked)} className="accent-emerald-600" />
+                            <Leaf className="w-4 h-4 text-emerald-600" /> {t('leaves.perLeaf')}
+                          </label>
+                          <button
+                            onClick={() => extraPhotoInputRef.current?.click()}
+                            disabled={extraPhotos.length >= MAX_CONSENSUS_SHOTS - 1}
+                            className="flex items-center gap-1 text-xs font-bold text-emerald-700 hover:underline disabled:opacity-50"
+                          >
+                            <ImagePlus className="w-4 h-4" /> {t('consensus.addPhoto')}
+                          </button>
+                          <input ref={extraPhotoInputRef} type="file" accept="image/*" multiple onChange={handleExtraPhotos} className="hidden" />
+                        </div>
+                        {extraPhotos.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {extraPhotos.map((photo, i) => (
+                              <div key={i} className="relative">
+                                <img src={photo} alt={t('consensus.extraPhoto', { index: i + 2 })} className="w-12 h-12 rounded-lg object-cover border border-slate-200" />
+                                <button
+                                  onClick={() => removeExtraPhoto(i)}
+                                  aria-label={t('consensus.removePhoto')}
+                                  className="absolute -top-1.5 -right-1.5 bg-white rounded-full p-0.5 shadow border border-slate-200 text-slate-500 hover:text-rose-500"
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </div>
+                            ))}
                           </div>
                         )}
+                        <p className="text-[10px] text-slate-500 leading-snug">
+                          {extraPhotos.length > 0 || multiView
+                            ? t('consensus.shotCount', { shots: Math.min((extraPhotos.length + 1) * (multiView ? VIEWS_PER_PHOTO : 1), MAX_CONSENSUS_SHOTS) })
+                            : perLeaf ? t('leaves.hint', { max: MAX_LEAVES }) : t('consensus.hint')}
+                        </p>
                       </div>
 
-                      {imageQuality && (imageQuality.isTooDark || imageQuality.hasShadows || imageQuality.isLowRes) && (
-                        <div className="bg-amber-50 border border-amber-200 p-4 rounded-xl flex gap-3">
-                          <AlertCircle className="w-5 h-5 text-amber-600 shrink-0" />
-                          <div>
-                            <p className="text-amber-800 text-sm font-bold">Quality Concerns Detected</p>
-                            <p className="text-amber-700 text-xs mt-1">Poor quality images may yield inaccurate results.</p>
-                          </div>
+                      <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                            <input type="checkbox" checked={preprocessing.cropToLeaf} onChange={(e) => selectPreprocessing({ cropToLeaf: e.target.checked })} className="accent-emerald-600" />
+                            <Crop className="w-4 h-4 text-emerald-600" /> {t('preprocessing.cropToLeaf')}
+                          </label>
+                          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                            <input type="checkbox" checked={preprocessing.removeBackground} onChange={(e) => selectPreprocessing({ removeBackground: e.target.checked })} className="accent-emerald-600" />
+                            <Eraser className="w-4 h-4 text-emerald-600" /> {t('preprocessing.removeBackground')}
+                          </label>
+                          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                            <input type="checkbox" checked={preprocessing.whiteBalance} onChange={(e) => selectPreprocessing({ whiteBalance: e.target.checked })} className="accent-emerald-600" />
+                            <SunMedium className="w-4 h-4 text-emerald-600" /> {t('preprocessing.whiteBalance')}
+                          </label>
+                        </div>
+                        <p className="text-[10px] text-slate-500 leading-snug">{t('preprocessing.hint')}</p>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-2">
+                        {Object.values(DIAGNOSIS_PROVIDERS).map((p) => {
+                          const isSelected = providerId === p.id;
+                          const isUnavailable = p.requiresNetwork && !isOnline;
+                          const isUnsupported = !supportsCrop(p, cropId);
+                          return (
+                            <button
+                              key={p.id}
+                              onClick={() => selectProvider(p.id)}
+                              className={`p-3 rounded-xl border text-left transition-all ${isSelected ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 bg-white hover:border-emerald-200'} ${isUnsupported ? 'opacity-60' : ''}`}
+                            >
+                              <div className="flex items-center gap-2 text-xs font-bold text-slate-800">
+                                {p.requiresNetwork ? <Cloud className="w-4 h-4 text-emerald-600" /> : <Cpu className="w-4 h-4 text-emerald-600" />}
+                                {providerName(p.id)}
+                              </div>
+                              <p className="text-[10px] text-slate-500 mt-1 leading-snug">
+                                {isUnsupported
+                                  ? t('provider.unsupportedCrop', { crop: getCrop(cropId).name })
+                                  : isUnavailable ? t('provider.offlineFallback', { provider: providerName(DIAGNOSIS_PROVIDERS.local.id) }) : providerDescription(p.id)}
+                              </p>
+                            </button>
+                          );
+                        })}
+                      </div>
+
+                      {!isOnline && (
+                        <div className="bg-slate-100 border border-slate-200 p-3 rounded-xl flex items-center gap-2 text-xs text-slate-600 font-medium">
+                          <WifiOff className="w-4 h-4 shrink-0" />
+                          {Object.values(DIAGNOSIS_PROVIDERS).some((p) => !p.requiresNetwork && supportsCrop(p, cropId))
+                            ? t('scanner.offlineLocal')
+                            : t('scanner.offlineNoModel', { crop: getCrop(cropId).name })}
                         </div>
                       )}
 
                       <div className="flex gap-3">
                         <button
-                          onClick={runAnalysis}
+                          onClick={() => runAnalysis()}
                           disabled={analyzing}
                           className="flex-1 bg-emerald-600 text-white py-4 rounded-xl font-bold hover:bg-emerald-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                         >
                           {analyzing ? (
-                            <><div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> Analyzing...</>
+                            <><div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> {t('scanner.analyzing')}</>
                           ) : (
-                            <><Camera className="w-5 h-5" /> Start AI Detection</>
+                            <><Camera className="w-5 h-5" /> {t('scanner.start')}</>
                           )}
                         </button>
                       </div>
@@ -318,27 +785,36 @@ const App: React.FC = () => {
 
               <div className="bg-blue-50 border border-blue-100 rounded-3xl p-6 shadow-sm">
                 <h3 className="font-bold text-blue-900 flex items-center gap-2 mb-4 text-sm">
-                  <Shield className="w-4 h-4" /> Capture Guidelines
+                  <Shield className="w-4 h-4" /> {t('guidelines.title')}
                 </h3>
                 <div className="grid grid-cols-2 gap-4 text-xs text-blue-800">
                   <div className="flex gap-2">
                     <span className="text-blue-500 font-bold">●</span>
-                    <span>Use direct, natural sunlight</span>
+                    <span>{t('guidelines.sunlight')}</span>
                   </div>
                   <div className="flex gap-2">
                     <span className="text-blue-500 font-bold">●</span>
-                    <span>Hold camera 15-20cm away</span>
+                    <span>{t('guidelines.distance')}</span>
                   </div>
                   <div className="flex gap-2">
                     <span className="text-blue-500 font-bold">●</span>
-                    <span>Keep leaf flat and clean</span>
+                    <span>{t('guidelines.flat')}</span>
                   </div>
                   <div className="flex gap-2">
                     <span className="text-blue-500 font-bold">●</span>
-                    <span>Focus on main lesion area</span>
+                    <span>{t('guidelines.focus')}</span>
                   </div>
+                  {referenceId && (
+                    <div className="flex gap-2 col-span-2">
+                      <span className="text-blue-500 font-bold">●</span>
+                      <span>{t('guidelines.reference')}</span>
+                    </div>
+                  )}
                 </div>
               </div>
+
+              <RemindersPanel reminders={reminders} plants={plants} onOpenScan={openScan} />
+              <WeatherRiskPanel />
             </div>
 
             {/* Results Section */}
@@ -348,206 +824,197 @@ const App: React.FC = () => {
                    <div className="w-24 h-24 bg-slate-50 rounded-full flex items-center justify-center mb-6">
                     <Leaf className="w-12 h-12 opacity-20" />
                    </div>
-                   <h3 className="text-lg font-bold text-slate-700">Ready for Analysis</h3>
-                   <p className="text-sm mt-2 max-w-xs">Upload an image and run the AI scanner to see detailed disease diagnostic data.</p>
+                   <h3 className="text-lg font-bold text-slate-700">{t('scanner.readyTitle')}</h3>
+                   <p className="text-sm mt-2 max-w-xs">{t('scanner.readyHint')}</p>
                 </div>
               ) : (
-                <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-6 pb-8">
-                  {/* Summary Card */}
-                  <div className={`${result.disease.bgColor} ${result.disease.borderColor} border-2 rounded-3xl p-6 shadow-sm overflow-hidden relative`}>
-                    <div className="flex items-start justify-between mb-6">
-                      <div className="flex items-center gap-4">
-                        <div className={`p-3 rounded-2xl bg-white shadow-sm`}>
-                          <result.disease.icon className={`w-8 h-8 ${result.disease.color}`} />
-                        </div>
-                        <div>
-                          <p className="text-[10px] font-black tracking-widest text-slate-400 uppercase">Detection Result</p>
-                          <h3 className={`text-2xl font-black ${result.disease.color}`}>{result.disease.name}</h3>
-                          <div className="mt-1"><SeverityBadge severity={result.disease.severity} /></div>
-                        </div>
-                      </div>
-                    </div>
-
-                    <div className="mb-6 p-4 bg-white/40 border border-white/60 rounded-2xl">
-                      <ConfidenceGauge confidence={result.confidence} />
-                    </div>
-
-                    <p className="text-slate-700 text-sm leading-relaxed mb-6 font-medium">
-                      {result.disease.description}
-                    </p>
-
-                    {result.lesionCount > 0 && (
-                      <div className="grid grid-cols-3 gap-3 mb-6">
-                        <div className="bg-white/80 backdrop-blur-sm p-3 rounded-2xl border border-white/50">
-                          <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">Lesions</p>
-                          <p className="text-lg font-black text-slate-800">{result.lesionCount}</p>
-                        </div>
-                        <div className="bg-white/80 backdrop-blur-sm p-3 rounded-2xl border border-white/50">
-                          <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">Avg Size</p>
-                          <p className="text-lg font-black text-slate-800">{result.avgLesionSize.toFixed(1)}mm</p>
-                        </div>
-                        <div className="bg-white/80 backdrop-blur-sm p-3 rounded-2xl border border-white/50">
-                          <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">Severity</p>
-                          <p className="text-lg font-black text-rose-600">{result.severityScore}%</p>
-                        </div>
-                      </div>
-                    )}
-
-                    <div className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
-                      Analyzed on {result.timestamp}
-                    </div>
-                  </div>
-
-                  {/* Refactored Detailed Symptom Breakdown */}
-                  <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm overflow-hidden">
-                    <div className="flex items-center justify-between mb-6">
-                       <h4 className="font-black text-slate-800 flex items-center gap-2">
-                        <BrainCircuit className="w-5 h-5 text-indigo-600" /> Diagnostic Breakdown
-                      </h4>
-                      <div className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase">
-                         <Bookmark className="w-3 h-3" /> Click markers to view guide
-                      </div>
-                    </div>
-                    
-                    <div className="space-y-6">
-                       {result.detectedSymptoms.length > 0 && (
-                         <div className="animate-in slide-in-from-left duration-500">
-                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Visible Markers Detected</p>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                               {result.detectedSymptoms.map((sym, i) => (
-                                 <button 
-                                   key={i} 
-                                   onClick={() => navigateToEncyclopedia(result.stage)}
-                                   className="group flex items-center justify-between p-3 bg-indigo-50/50 hover:bg-indigo-100 text-left rounded-xl border border-indigo-100 transition-all hover:scale-[1.02]"
-                                 >
-                                    <div className="flex items-center gap-3">
-                                      <div className="w-6 h-6 rounded-lg bg-white flex items-center justify-center shadow-sm group-hover:text-indigo-600 transition-colors">
-                                        <Search className="w-3.5 h-3.5" />
-                                      </div>
-                                      <span className="text-xs font-bold text-indigo-900 leading-tight">{sym}</span>
-                                    </div>
-                                    <ChevronRight className="w-4 h-4 text-indigo-300 group-hover:text-indigo-600 transition-colors" />
-                                 </button>
-                               ))}
-                            </div>
-                         </div>
-                       )}
-
-                       <div className="grid md:grid-cols-2 gap-4">
-                         {result.visualEvidenceRegions && (
-                           <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
-                              <div className="flex items-center gap-2 mb-2">
-                                <Target className="w-4 h-4 text-rose-500" />
-                                <p className="text-[10px] font-black text-slate-400 uppercase">Evidence Location</p>
-                              </div>
-                              <p className="text-sm text-slate-700 font-medium">Primarily concentrated in the <strong>{result.visualEvidenceRegions}</strong>.</p>
-                           </div>
-                         )}
-
-                         {result.aiExplanation && (
-                           <div className="p-4 bg-emerald-50 rounded-2xl border border-emerald-100">
-                             <div className="flex items-center gap-2 mb-2">
-                                <CheckCircle2 className="w-4 h-4 text-emerald-600" />
-                                <p className="text-[10px] font-black text-emerald-600 uppercase">Model Verification</p>
-                             </div>
-                             <p className="text-xs text-slate-700 italic leading-relaxed">"{result.aiExplanation}"</p>
-                           </div>
-                         )}
-                       </div>
-                    </div>
-                  </div>
-
-                  {/* Treatment Protocol */}
-                  <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm">
-                    <h4 className="font-black text-slate-800 flex items-center gap-2 mb-4">
-                      <Shield className="w-5 h-5 text-emerald-600" /> Management Steps
-                    </h4>
-                    <div className="space-y-4">
-                      {result.disease.treatment.immediate.map((step, i) => (
-                        <div key={i} className="flex gap-3 items-start group">
-                          <div className="w-6 h-6 rounded-full bg-emerald-100 flex items-center justify-center shrink-0 mt-0.5 group-hover:bg-emerald-600 group-hover:text-white transition-colors">
-                            <span className="text-[10px] font-bold">{i+1}</span>
-                          </div>
-                          <p className="text-sm text-slate-700 leading-snug">{step}</p>
-                        </div>
-                      ))}
-                    </div>
-                    <button
-                      onClick={() => navigateToEncyclopedia(result.stage)}
-                      className="w-full mt-6 py-4 bg-emerald-50 hover:bg-emerald-100 text-emerald-800 rounded-2xl font-bold text-sm transition-all border border-emerald-100 flex items-center justify-center gap-2"
-                    >
-                      Explore Complete Diagnosis Guide <ChevronRight className="w-4 h-4" />
-                    </button>
-                  </div>
-                </div>
+                <>
+                  <ResultCard
+                    result={result}
+                    onOpenGuide={navigateToEncyclopedia}
+                    onAnalyzeAnyway={() => runAnalysis(true)}
+                    analyzing={analyzing}
+                  />
+                  {currentScan && result.stage !== 'N0' && !result.needsReview && (
+                    <TreatmentTracker
+                      key={currentScan.id}
+                      scanId={currentScan.id}
+                      stage={result.stage}
+                      diseaseId={result.diseaseId}
+                      scannedAt={currentScan.createdAt}
+                      plantId={currentScan.plantId}
+                      onChanged={loadTreatmentLogs}
+                    />
+                  )}
+                </>
               )}
             </div>
           </div>
+        ) : activeTab === 'history' && openScanId ? (
+          <HistoryDetail
+            scanId={openScanId}
+            providerId={providerId}
+            onBack={() => setOpenScanId(null)}
+            onOpenGuide={navigateToEncyclopedia}
+            onSaveResult={saveToHistory}
+            plants={plants}
+            onPlantChanged={changeScanPlant}
+            onLabelChanged={labelScan}
+            onTreatmentChanged={loadTreatmentLogs}
+          />
+        ) : activeTab === 'plants' ? (
+          <PlantTracker
+            plants={plants}
+            onPlantsChanged={loadPlants}
+            onOpenScan={openScan}
+          />
         ) : activeTab === 'history' ? (
           /* History View */
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
             <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-lg flex flex-col md:flex-row md:items-center justify-between gap-6">
               <div>
-                <h2 className="text-3xl font-black text-slate-900 mb-2">Analysis History</h2>
+                <h2 className="text-3xl font-black text-slate-900 mb-2">{t('history.title')}</h2>
                 <p className="text-slate-500 max-w-xl leading-relaxed">
-                  Review your previous plant health assessments. Your history is stored locally on this device.
+                  {t('history.subtitle')}
                 </p>
               </div>
-              {history.length > 0 && (
-                <button 
-                  onClick={clearHistory}
-                  className="flex items-center gap-2 px-6 py-3 bg-rose-50 text-rose-600 rounded-2xl font-bold text-sm hover:bg-rose-100 transition-all border border-rose-100"
+              <div className="flex flex-wrap gap-2">
+                {history.length > 0 && (
+                  <select
+                    value={historyCropFilter}
+                    onChange={(e) => setHistoryCropFilter(e.target.value as CropId | 'all')}
+                    className="px-4 py-3 rounded-2xl border border-slate-200 text-sm font-bold text-slate-700 bg-white"
+                  >
+                    <option value="all">{t('crops.all')}</option>
+                    {Object.values(CROP_REGISTRY).map((crop) => (
+                      <option key={crop.id} value={crop.id}>{crop.name}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => backupInputRef.current?.click()}
+                  className="flex items-center gap-2 px-6 py-3 bg-slate-100 text-slate-700 rounded-2xl font-bold text-sm hover:bg-slate-200 transition-all border border-slate-200"
                 >
-                  <Trash2 className="w-4 h-4" /> Clear All History
+                  <FileUp className="w-4 h-4" /> {t('history.import')}
                 </button>
-              )}
+                <input ref={backupInputRef} type="file" accept="application/json,.json" onChange={handleBackupSelected} className="hidden" />
+                {history.length > 0 && (['csv', 'json'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => exportHistory(format)}
+                      className="flex items-center gap-2 px-6 py-3 bg-emerald-50 text-emerald-700 rounded-2xl font-bold text-sm hover:bg-emerald-100 transition-all border border-emerald-100"
+                    >
+                      <Download className="w-4 h-4" /> {format === 'json' ? t('history.backupJson') : t('history.exportCsv')}
+                    </button>
+                  ))}
+                {history.length > 0 && (
+                  <button 
+                    onClick={clearHistory}
+                    className="flex items-center gap-2 px-6 py-3 bg-rose-50 text-rose-600 rounded-2xl font-bold text-sm hover:bg-rose-100 transition-all border border-rose-100"
+                  >
+                    <Trash2 className="w-4 h-4" /> {t('history.clear')}
+                  </button>
+                )}
+              </div>
             </div>
 
+            {importPreview && (
+              <div className="bg-indigo-50 border border-indigo-200 rounded-3xl p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                  <p className="font-black text-indigo-900">{t('import.ready')}</p>
+                  <p className="text-sm text-indigo-700 mt-1">
+                    {t('import.previewCounts', { scans: importPreview.backup.scans.length, plants: importPreview.backup.plants.length })}
+                    {importPreview.backup.exportedAt && t('import.previewExportedAt', { date: new Date(importPreview.backup.exportedAt).toLocaleString(locale) })}.
+                    {' '}{t('import.previewDuplicates', { count: importPreview.duplicateCount })}{importPreview.invalidCount > 0 && t('import.previewInvalid', { count: importPreview.invalidCount })}.
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => confirmImport('merge')} className="px-5 py-2 bg-indigo-600 text-white rounded-xl font-bold text-sm hover:bg-indigo-700 transition-all">{t('import.merge')}</button>
+                  <button onClick={() => confirmImport('replace')} className="px-5 py-2 bg-white text-rose-600 border border-rose-200 rounded-xl font-bold text-sm hover:bg-rose-50 transition-all">{t('import.replace')}</button>
+                  <button onClick={() => setImportPreview(null)} className="px-5 py-2 text-slate-500 rounded-xl font-bold text-sm hover:bg-white transition-all">{t('common.cancel')}</button>
+                </div>
+              </div>
+            )}
+
+            {outbox.length > 0 && (
+              <OutboxPanel items={outbox} online={isOnline} onRetry={processOutbox} onRemove={removeOutboxItem} />
+            )}
+
+            {history.length > 0 && (
+              <CalibrationPanel curves={reliabilityCurves} accuracy={accuracyReport} threshold={abstentionThreshold} onThresholdChange={selectAbstentionThreshold} />
+            )}
+
             {history.length === 0 ? (
               <div className="bg-white rounded-3xl border border-slate-200 p-16 flex flex-col items-center text-center">
                 <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center mb-6">
                   <History className="w-10 h-10 text-slate-300" />
                 </div>
-                <h3 className="text-xl font-bold text-slate-800">No History Yet</h3>
-                <p className="text-slate-500 mt-2 max-w-xs">Your successful disease analyses will appear here once you start scanning.</p>
+                <h3 className="text-xl font-bold text-slate-800">{t('history.emptyTitle')}</h3>
+                <p className="text-slate-500 mt-2 max-w-xs">{t('history.emptyHint')}</p>
                 <button 
                   onClick={() => setActiveTab('scanner')}
                   className="mt-8 px-8 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-md"
                 >
-                  Start Scanning
+                  {t('history.startScanning')}
                 </button>
               </div>
             ) : (
               <div className="grid gap-4">
-                {history.map((item) => {
-                  const disease = DISEASE_DATABASE[item.stage];
+                {history.filter((item) => historyCropFilter === 'all' || item.cropId === historyCropFilter).map((item) => {
+                  const disease = getDiseaseInfo(item.stage, item.diseaseId);
                   return (
                     <div 
                       key={item.id} 
                       className="group bg-white rounded-2xl border border-slate-200 p-4 md:p-6 flex flex-col md:flex-row md:items-center gap-4 hover:shadow-md transition-all hover:border-emerald-200"
                     >
-                      <div className={`w-16 h-16 rounded-2xl ${disease.bgColor} flex items-center justify-center shrink-0 border border-white shadow-sm`}>
-                        <disease.icon className={`w-8 h-8 ${disease.color}`} />
-                      </div>
+                      {item.thumbnail ? (
+                        <img src={item.thumbnail} alt={disease.name} className="w-16 h-16 rounded-2xl object-cover shrink-0 border border-slate-200 shadow-sm" />
+                      ) : (
+                        <div className={`w-16 h-16 rounded-2xl ${disease.bgColor} flex items-center justify-center shrink-0 border border-white shadow-sm`}>
+                          <disease.icon className={`w-8 h-8 ${disease.color}`} />
+                        </div>
+                      )}
                       
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-1">
-                          <h4 className="font-black text-slate-800">{item.diseaseName}</h4>
+                          <h4 className="font-black text-slate-800">{disease.name}</h4>
                           <span className="text-[10px] font-black text-slate-400 bg-slate-100 px-2 py-0.5 rounded uppercase">{item.stage}</span>
+                          <span className="text-[10px] font-black text-lime-700 bg-lime-50 px-2 py-0.5 rounded">{getCrop(item.cropId).name}</span>
+                          {item.plantId && plants.find((p) => p.id === item.plantId) && (
+                            <span className="text-[10px] font-black text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded flex items-center gap-1">
+                              <Sprout className="w-3 h-3" /> {plants.find((p) => p.id === item.plantId)!.name}
+                            </span>
+                          )}
                         </div>
                         <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
                           <p className="text-xs text-slate-500 font-medium">{item.timestamp}</p>
-                          <p className="text-xs text-emerald-600 font-bold">{(item.confidence * 100).toFixed(1)}% Confidence</p>
-                          <p className="text-xs text-rose-500 font-bold">{item.severityScore}% Severity</p>
+                          <p className="text-xs text-emerald-600 font-bold">{t('history.confidence', { value: (item.confidence * 100).toFixed(1) })}</p>
+                          <p className="text-xs text-rose-500 font-bold">{t('history.severity', { value: item.severityScore })}</p>
+                          {item.needsReview && (
+                            <p className="text-xs text-amber-600 font-bold">{t('history.needsReview')}</p>
+                          )}
+                          {item.review && (
+                            <p className={`text-xs font-bold ${item.review === 'verified' ? 'text-indigo-600' : 'text-rose-600'}`}>
+                              {item.review === 'verified' ? t('history.verified') : t('history.corrected')}
+                            </p>
+                          )}
                         </div>
                       </div>
 
-                      <button 
-                        onClick={() => navigateToEncyclopedia(item.stage)}
-                        className="flex items-center gap-2 px-6 py-3 bg-slate-50 text-slate-600 rounded-xl font-bold text-sm hover:bg-slate-200 transition-all border border-slate-100 self-end md:self-center"
-                      >
-                        View Guide <ChevronRight className="w-4 h-4" />
-                      </button>
+                      <div className="flex gap-2 self-end md:self-center">
+                        <button 
+                          onClick={() => navigateToEncyclopedia(guideAnchor(item.stage, item.diseaseId))}
+                          className="flex items-center gap-2 px-6 py-3 bg-slate-50 text-slate-600 rounded-xl font-bold text-sm hover:bg-slate-200 transition-all border border-slate-100"
+                        >
+                          {t('history.viewGuide')} <ChevronRight className="w-4 h-4" />
+                        </button>
+                        <button 
+                          onClick={() => setOpenScanId(item.id)}
+                          className="flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold text-sm hover:bg-emerald-700 transition-all"
+                        >
+                          <FolderOpen className="w-4 h-4" /> {t('history.openScan')}
+                        </button>
+                      </div>
                     </div>
                   );
                 })}
@@ -555,94 +1022,7 @@ const App: React.FC = () => {
             )}
           </div>
         ) : (
-          /* Database View */
-          <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-lg">
-              <h2 className="text-3xl font-black text-slate-900 mb-2">Staging Encyclopedia</h2>
-              <p className="text-slate-500 max-w-2xl leading-relaxed">
-                Standardized H0-E3 classification system for Cercospora leaf spot in Water Spinach (Ipomoea aquatica). 
-                Identifying the pathogen Cercospora spp. for effective management.
-              </p>
-            </div>
-
-            <div className="grid gap-6 pb-12">
-              {Object.entries(DISEASE_DATABASE).map(([code, d]) => (
-                <div key={code} id={code} className="bg-white rounded-3xl border border-slate-200 overflow-hidden shadow-sm hover:shadow-md transition-all scroll-mt-24">
-                  <div className={`${d.bgColor} p-6 border-b border-slate-100`}>
-                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-                      <div className="flex items-center gap-4">
-                        <div className="bg-white p-3 rounded-2xl shadow-sm">
-                          <d.icon className={`w-8 h-8 ${d.color}`} />
-                        </div>
-                        <div>
-                          <p className="text-[10px] font-black tracking-widest text-slate-400 uppercase">Stage {code}</p>
-                          <h3 className={`text-2xl font-black ${d.color}`}>{d.name}</h3>
-                        </div>
-                      </div>
-                      <SeverityBadge severity={d.severity} />
-                    </div>
-                  </div>
-
-                  <div className="p-6 grid md:grid-cols-3 gap-8">
-                    <div className="md:col-span-2 space-y-6">
-                      <section>
-                        <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
-                          <Bug className="w-3 h-3 text-rose-500" /> Observable Symptoms
-                        </h4>
-                        <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                          {d.symptoms.map((s, i) => (
-                            <li key={i} className="flex items-center gap-2 text-sm text-slate-600 bg-slate-50 p-2 rounded-lg border border-slate-100">
-                              <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" /> {s}
-                            </li>
-                          ))}
-                        </ul>
-                      </section>
-
-                      <section>
-                        <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
-                          <Droplets className="w-3 h-3 text-blue-500" /> Protocol
-                        </h4>
-                        <div className="space-y-3">
-                          {Object.entries(d.treatment).slice(0, 3).map(([cat, steps]) => (
-                            <div key={cat} className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
-                              <p className="text-[10px] font-black text-slate-500 uppercase mb-2 tracking-tighter">{cat}</p>
-                              <ul className="space-y-1.5">
-                                {(steps as string[]).map((step, i) => (
-                                  <li key={i} className="text-xs text-slate-600 flex items-start gap-2">
-                                    <span className="text-emerald-600 font-bold leading-none mt-0.5">›</span>
-                                    <span>{step}</span>
-                                  </li>
-                                ))}
-                              </ul>
-                            </div>
-                          ))}
-                        </div>
-                      </section>
-                    </div>
-
-                    <div className="space-y-6">
-                      <div className="bg-indigo-50/50 rounded-2xl p-5 border border-indigo-100">
-                        <h4 className="text-[10px] font-black text-indigo-400 uppercase mb-2 tracking-widest">Biological Note</h4>
-                        <p className="text-xs text-indigo-900 leading-relaxed font-medium">{d.biologicalInterpretation}</p>
-                      </div>
-                      
-                      {d.prognosis && (
-                        <div className="bg-purple-50/50 rounded-2xl p-5 border border-purple-100">
-                          <h4 className="text-[10px] font-black text-purple-400 uppercase mb-2 tracking-widest">Prognosis</h4>
-                          <p className="text-xs text-purple-900 font-bold">{d.prognosis}</p>
-                        </div>
-                      )}
-
-                      <div className="bg-slate-900 text-white rounded-2xl p-5">
-                         <h4 className="text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">Visual Marker</h4>
-                         <p className="text-xs text-slate-100 leading-relaxed">{d.visualDescription}</p>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
+          <Encyclopedia />
         )}
       </main>
 
@@ -654,31 +1034,30 @@ const App: React.FC = () => {
               <Leaf className="w-6 h-6 text-emerald-500" />
               <span className="text-lg font-black tracking-tighter">PhytoScan</span>
             </div>
-            <p className="leading-relaxed">Advanced AI-driven diagnosis for Ipomoea aquatica, providing precision tools for modern agriculture.</p>
+            <p className="leading-relaxed">{t('footer.about', { crops: formatCropList() })}</p>
           </div>
           <div className="space-y-3">
-            <h4 className="text-white font-bold uppercase tracking-widest text-[10px]">Staging Standards</h4>
-            <p>H0: Healthy Baseline</p>
-            <p>E1: Early Penetration (1-3mm)</p>
-            <p>E2: Mid Sporulation (5-12mm)</p>
-            <p>E3: Late Necrosis (>12mm)</p>
+            <h4 className="text-white font-bold uppercase tracking-widest text-[10px]">{t('footer.stagingStandards')}</h4>
+            <p>{t('footer.stageH0')}</p>
+            <p>{t('footer.stageE1')}</p>
+            <p>{t('footer.stageE2')}</p>
+            <p>{t('footer.stageE3')}</p>
           </div>
           <div className="space-y-3">
-            <h4 className="text-white font-bold uppercase tracking-widest text-[10px]">Pathogen Profile</h4>
-            <p>Agent: Cercospora spp.</p>
-            <p>Class: Deuteromycetes</p>
-            <p>Survival: Mycelia on debris</p>
-            <p>Risk: High humidity spread</p>
+            <h4 className="text-white font-bold uppercase tracking-widest text-[10px]">{t('footer.conditions')}</h4>
+            {Object.values(DISEASE_DATABASE).map((d) => (
+              <p key={d.id}>{getDisease(d.id).name} <span className="opacity-50">({t(`category.${d.category}`)})</span></p>
+            ))}
           </div>
           <div className="space-y-4">
-            <h4 className="text-white font-bold uppercase tracking-widest text-[10px]">Support</h4>
-            <p>Documentation</p>
-            <p>Research Citation</p>
-            <p className="pt-2 text-[10px] opacity-50 uppercase font-black">Powered by Gemini 3 Flash</p>
+            <h4 className="text-white font-bold uppercase tracking-widest text-[10px]">{t('footer.support')}</h4>
+            <p>{t('footer.documentation')}</p>
+            <p>{t('footer.citation')}</p>
+            <p className="pt-2 text-[10px] opacity-50 uppercase font-black">{t('footer.poweredBy')}</p>
           </div>
         </div>
         <div className="max-w-7xl mx-auto px-4 mt-12 pt-8 border-t border-slate-800 text-center">
-          <p className="text-[10px] uppercase font-bold tracking-widest opacity-40">© 2024 PhytoScan Initiative • Professional Diagnosis Advised</p>
+          <p className="text-[10px] uppercase font-bold tracking-widest opacity-40">{t('footer.copyright')}</p>
         </div>
       </footer>
 
@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Layers, Play, Square, X, CheckCircle2, AlertCircle, Loader2, RotateCw, Clock, ChevronRight } from 'lucide-react';
+import { AnalysisResult, CropId, DiagnosisProviderId, DiseaseId, ReferenceObjectId, ScanRecord } from './types';
+import { getCrop } from './crops';
+import { resolveProvider } from './diagnosisProviders';
+import { getReferenceObject } from './referenceObjects';
+import { getSeverityScale } from './severityScales';
+import { severityScaleName } from './severityScaleNames';
+import { analyzeImage, describeAnalysisError, isRetryableAnalysisError, summarizeResults } from './analysisPipeline';
+import { BatchJobStatus, runBatch } from './batchRunner';
+import { readFileAsDataUrl, validateImageFile } from './fileInput';
+import { DIAGNOSIS_STAGES, describeDiagnosis, getDisease, getDiseaseInfo } from './diseases';
+import { MessageKey } from './messages';
+import { t } from './i18n';
+
+interface BatchJob {
+  file: File;
+  previewUrl: string;
+  status: BatchJobStatus;
+  attempt: number;
+  result?: AnalysisResult;
+  scanId?: string;
+  error?: string;
+}
+
+const CLOUD_CONCURRENCY = 3;
+// The on-device model is CPU bound, so images are run one at a time
+const LOCAL_CONCURRENCY = 1;
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+
+const STATUS_LABELS: Record<BatchJobStatus, MessageKey> = {
+  queued: 'batch.status.queued',
+  running: 'batch.status.running',
+  retrying: 'batch.status.retrying',
+  done: 'batch.status.done',
+  failed: 'batch.status.failed',
+};
+
+const StatusIcon: React.FC<{ status: BatchJobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'done': return <CheckCircle2 className="w-4 h-4 text-emerald-600" />;
+    case 'failed': return <AlertCircle className="w-4 h-4 text-rose-500" />;
+    case 'running': return <Loader2 className="w-4 h-4 text-indigo-500 animate-spin" />;
+    case 'retrying': return <RotateCw className="w-4 h-4 text-amber-500 animate-spin" />;
+    default: return <Clock className="w-4 h-4 text-slate-300" />;
+  }
+};
+
+const BatchPanel: React.FC<{
+  files: File[];
+  providerId: DiagnosisProviderId;
+  cropId: CropId;
+  referenceId?: ReferenceObjectId;
+  plantId?: string;
+  onSave: (result: AnalysisResult, image: string, plantId?: string) => Promise<ScanRecord | null>;
+  onOpenScan: (scanId: string) => void;
+  onClose: () => void;
+}> = ({ files, providerId, cropId, referenceId, plantId, onSave, onOpenScan, onClose }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>(() => files.map((file) => {
+    const invalid = validateImageFile(file);
+    return {
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: invalid ? 'failed' : 'queued',
+      attempt: 0,
+      error: invalid || undefined
+    };
+  }));
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    jobs.forEach((job) => URL.revokeObjectURL(job.previewUrl));
+  }, []);
+
+  const updateJob = (index: number, patch: Partial<BatchJob>) =>
+    setJobs((prev) => prev.map((job, i) => i === index ? { ...job, ...patch } : job));
+
+  const start = async () => {
+    const provider = resolveProvider(providerId, navigator.onLine, cropId);
+    const pending = jobs.map((job, index) => ({ job, index })).filter(({ job }) => job.status === 'queued' || (job.status === 'failed' && !validateImageFile(job.file)));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+
+    await runBatch(
+      pending,
+      async ({ job, index }) => {
+        const image = await readFileAsDataUrl(job.file);
+        const { result } = await analyzeImage(image, provider, getCrop(cropId), false, getReferenceObject(referenceId));
+        const record = await onSave(result, image, plantId);
+        updateJob(index, { scanId: record?.id });
+        return result;
+      },
+      {
+        concurrency: provider.requiresNetwork ? CLOUD_CONCURRENCY : LOCAL_CONCURRENCY,
+        maxRetries: MAX_RETRIES,
+        baseDelayMs: BASE_RETRY_DELAY_MS,
+        isRetryable: () => isRetryableAnalysisError(provider),
+        signal: controller.signal,
+        onProgress: ({ index, status, attempt, result, error }) => updateJob(pending[index].index, {
+          status,
+          attempt,
+          result,
+          error: status === 'failed' ? `${describeAnalysisError(provider)} (${error})` : undefined
+        })
+      }
+    );
+
+    setRunning(false);
+  };
+
+  const stop = () => abortRef.current?.abort();
+
+  const finished = jobs.filter((j) => j.status === 'done' || j.status === 'failed').length;
+  const results = jobs.flatMap((j) => j.result ? [j.result] : []);
+  const scale = getSeverityScale();
+  const summary = summarizeResults(results, scale);
+  const failedCount = jobs.filter((j) => j.status === 'failed').length;
+  const diseaseCounts = Object.entries(summary.diseaseCounts) as [DiseaseId, number][];
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-6">
+      <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-lg flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-900 flex items-center gap-2">
+            <Layers className="w-6 h-6 text-emerald-600" /> {t('batch.title')}
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">{t('batch.progress', { total: jobs.length, finished })}{failedCount > 0 && ` • ${t('batch.failed', { count: failedCount })}`}</p>
+        </div>
+        <div className="flex gap-2">
+          {running ? (
+            <button onClick={stop} className="flex items-center gap-2 px-6 py-3 bg-rose-50 text-rose-600 rounded-xl font-bold text-sm hover:bg-rose-100 transition-all border border-rose-100">
+              <Square className="w-4 h-4" /> {t('batch.stop')}
+            </button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={finished === jobs.length && failedCount === 0}
+              className="flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold text-sm hover:bg-emerald-700 transition-all disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" /> {finished > 0 ? t('batch.resume') : t('batch.start')}
+            </button>
+          )}
+          <button onClick={onClose} disabled={running} className="p-3 rounded-xl bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all disabled:opacity-50">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-emerald-500 transition-all duration-500" style={{ width: `${jobs.length ? (finished / jobs.length) * 100 : 0}%` }} />
+      </div>
+
+      <div className="grid lg:grid-cols-[1fr_22rem] gap-6">
+        <div className="bg-white rounded-3xl border border-slate-200 divide-y divide-slate-100 overflow-hidden">
+          {jobs.map((job, i) => (
+            <div key={i} className="flex items-center gap-3 p-3">
+              <img src={job.previewUrl} alt={job.file.name} className="w-12 h-12 rounded-xl object-cover bg-slate-100 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-slate-700 truncate">{job.file.name}</p>
+                {job.result ? (
+                  <p className={`text-xs font-bold ${job.result.disease.color}`}>
+                    {job.result.stage} • {describeDiagnosis(job.result.stage, job.result.diseaseId, job.result.coInfections)} • {job.result.severityScore}%
+                    {job.result.needsReview && <span className="text-amber-600"> • {t('history.needsReview')}</span>}
+                  </p>
+                ) : job.error ? (
+                  <p className="text-[10px] text-rose-500 truncate">{job.error}</p>
+                ) : (
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">{t(STATUS_LABELS[job.status as BatchJobStatus])}{job.attempt > 1 && ` ${t('batch.attempt', { count: job.attempt })}`}</p>
+                )}
+              </div>
+              <StatusIcon status={job.status} />
+              {job.scanId && (
+                <button onClick={() => onOpenScan(job.scanId!)} className="p-1 text-slate-300 hover:text-emerald-600 transition-colors">
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-6 h-fit">
+          <h4 className="font-black text-slate-800">{t('batch.summary')}</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-slate-50 p-3 rounded-2xl border border-slate-100">
+              <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t('batch.incidence')}</p>
+              <p className="text-lg font-black text-rose-600">{(summary.incidenceRate * 100).toFixed(1)}%</p>
+              <p className="text-[10px] text-slate-400">{t('batch.diseased', { diseased: summary.diseasedCount, total: summary.diagnosticCount })}</p>
+            </div>
+            <div className="bg-slate-50 p-3 rounded-2xl border border-slate-100">
+              <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t('batch.meanSeverity')}</p>
+              <p className="text-lg font-black text-slate-800">{summary.meanSeverity.toFixed(1)}%</p>
+              <p className="text-[10px] text-slate-400">{t('batch.excludesN0')}</p>
+            </div>
+            <div className="col-span-2 bg-slate-50 p-3 rounded-2xl border border-slate-100">
+              <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t('plants.severityIndex')}</p>
+              <p className="text-lg font-black text-slate-800">{summary.severityIndex.toFixed(1)}</p>
+              <p className="text-[10px] text-slate-400">{severityScaleName(scale.id)}, 0–100</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('batch.stageDistribution')}</p>
+            {DIAGNOSIS_STAGES.map((stage) => {
+              const count = summary.stageCounts[stage];
+              const share = summary.total ? count / summary.total : 0;
+              return (
+                <div key={stage} className="flex items-center gap-3 text-xs">
+                  <span className="w-6 font-black text-slate-500">{stage}</span>
+                  <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className={`h-full ${getDiseaseInfo(stage).bgColor.replace('-50', '-400')}`} style={{ width: `${share * 100}%` }} />
+                  </div>
+                  <span className="w-8 text-right font-bold text-slate-600">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+          {diseaseCounts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('batch.conditionsFound')}</p>
+              {diseaseCounts.map(([id, count]) => (
+                <div key={id} className="flex items-center justify-between text-xs">
+                  <span className="font-bold text-slate-600">{getDisease(id).name}</span>
+                  <span className="font-black text-slate-800">{t('batch.imageCount', { count })}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
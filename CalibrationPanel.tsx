@@ -0,0 +1,125 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { ReliabilityCurves } from './types';
+import { ABSTENTION_THRESHOLD_RANGE, AccuracyReport, curveTotals } from './calibration';
+import { DIAGNOSIS_STAGES, getDiseaseInfo } from './diseases';
+import { t } from './i18n';
+
+// Confusion of AI stage against expert stage; the diagonal is where the model was right
+const AccuracyTable: React.FC<{ accuracy: AccuracyReport }> = ({ accuracy }) => (
+  <div className="space-y-2">
+    <div className="flex flex-wrap items-baseline justify-between gap-2">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('accuracy.title')}</p>
+      <p className="text-xs font-bold text-slate-700">
+        {t('accuracy.summary', { correct: accuracy.correct, total: accuracy.total, percent: Math.round((accuracy.correct / accuracy.total) * 100) })}
+      </p>
+    </div>
+    <div className="overflow-x-auto">
+      <table className="text-xs w-full">
+        <thead>
+          <tr className="text-[10px] text-slate-400 uppercase">
+            <th className="text-left font-black p-1">{t('accuracy.aiStage')} ↓ / {t('accuracy.expertStage')} →</th>
+            {DIAGNOSIS_STAGES.map((stage) => <th key={stage} className="font-black p-1">{stage}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {DIAGNOSIS_STAGES.map((predicted) => (
+            <tr key={predicted} className="border-t border-slate-100">
+              <td className="font-black text-slate-500 p-1">{predicted}</td>
+              {DIAGNOSIS_STAGES.map((actual) => {
+                const count = accuracy.confusion[predicted][actual];
+                const tone = !count ? 'text-slate-300' : predicted === actual ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700';
+                return <td key={actual} className={`text-center font-bold p-1 rounded ${tone}`}>{count}</td>;
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+    {accuracy.diseaseMismatches > 0 && (
+      <p className="text-[10px] text-slate-500">{t('accuracy.diseaseMismatches', { count: accuracy.diseaseMismatches })}</p>
+    )}
+  </div>
+);
+
+const CalibrationPanel: React.FC<{
+  curves: ReliabilityCurves;
+  accuracy: AccuracyReport | null;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+}> = ({ curves, accuracy, threshold, onThresholdChange }) => {
+  const stages = DIAGNOSIS_STAGES.filter((stage) => curves[stage]);
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="font-black text-slate-800 flex items-center gap-2">
+            <Activity className="w-5 h-5 text-indigo-600" /> {t('calibration.title')}
+          </h3>
+          <p className="text-xs text-slate-500 mt-1 max-w-xl">{t('calibration.subtitle')}</p>
+        </div>
+        <div className="md:w-64 shrink-0">
+          <label className="flex justify-between text-[10px] font-black text-slate-500 uppercase">
+            {t('calibration.threshold')} <span className="text-slate-800">{Math.round(threshold * 100)}%</span>
+          </label>
+          <input
+            type="range"
+            min={ABSTENTION_THRESHOLD_RANGE.min}
+            max={ABSTENTION_THRESHOLD_RANGE.max}
+            step={ABSTENTION_THRESHOLD_RANGE.step}
+            value={threshold}
+            onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+            className="w-full accent-emerald-600"
+          />
+          <p className="text-[10px] text-slate-500 leading-snug">{t('calibration.thresholdHint', { percent: Math.round(threshold * 100) })}</p>
+        </div>
+      </div>
+
+      {accuracy && accuracy.total > 0 && <AccuracyTable accuracy={accuracy} />}
+
+      {stages.length === 0 ? (
+        <p className="text-xs text-slate-400 font-bold">{t('calibration.empty')}</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {stages.map((stage) => {
+            const bins = curves[stage]!;
+            const { count, correct } = curveTotals(bins);
+            return (
+              <div key={stage} className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
+                <div className="flex items-center justify-between mb-3">
+                  <span className={`text-xs font-black ${getDiseaseInfo(stage).color}`}>{stage}</span>
+                  <span className="text-[10px] font-bold text-slate-500">
+                    {t('calibration.stageSummary', { count, percent: Math.round((correct / count) * 100) })}
+                  </span>
+                </div>
+                <div className="flex items-end gap-1 h-20">
+                  {bins.map((bin) => (
+                    <div
+                      key={bin.min}
+                      title={t('calibration.bin', { range: `${Math.round(bin.min * 100)}–${Math.round(bin.max * 100)}%`, correct: bin.correct, count: bin.count })}
+                      className="relative flex-1 h-full bg-white rounded-sm border border-slate-100"
+                    >
+                      {bin.count > 0 && (
+                        <>
+                          <div className="absolute bottom-0 inset-x-0 bg-indigo-400 rounded-sm" style={{ height: `${(bin.correct / bin.count) * 100}%` }} />
+                          <div className="absolute inset-x-0 h-0.5 bg-rose-500" style={{ bottom: `${bin.meanConfidence * 100}%` }} />
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-[9px] font-bold text-slate-400 mt-1">
+                  <span>0%</span><span>50%</span><span>100%</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <p className="text-[10px] text-slate-400">{t('calibration.legend')}</p>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
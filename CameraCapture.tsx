@@ -0,0 +1,147 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Camera, X, AlertCircle, CheckCircle2, Lightbulb } from 'lucide-react';
+import { ImageQuality } from './types';
+import { measureImageQuality, getFailedQualityChecks, qualitySampleSize } from './imageProcessor';
+import { getDiseaseInfo } from './diseases';
+import { t } from './i18n';
+
+// Live checks run on a frame downscaled like an upload; resolution is taken from the full video track
+const QUALITY_CHECK_INTERVAL_MS = 500;
+
+const CameraCapture: React.FC<{ onCapture: (image: string) => void; onClose: () => void }> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement>(document.createElement('canvas'));
+  const [quality, setQuality] = useState<ImageQuality | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError(t('camera.unsupported'));
+      return;
+    }
+
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    }).then((s) => {
+      if (cancelled) {
+        s.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      stream = s;
+      if (videoRef.current) {
+        videoRef.current.srcObject = s;
+        videoRef.current.play().catch(() => undefined);
+      }
+    }).catch((error) => {
+      console.error("Camera access error:", error);
+      setCameraError(t('camera.denied'));
+    });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+      const canvas = sampleCanvasRef.current;
+      const size = qualitySampleSize(video.videoWidth, video.videoHeight);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      setQuality(measureImageQuality(frame, { width: video.videoWidth, height: video.videoHeight }));
+    }, QUALITY_CHECK_INTERVAL_MS);
+
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const failedChecks = quality ? getFailedQualityChecks(quality) : [];
+  const canCapture = quality !== null && failedChecks.length === 0;
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !canCapture) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.92));
+  };
+
+  const tips = getDiseaseInfo('N0').treatment.photographyTips || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="relative rounded-2xl overflow-hidden bg-slate-900 border border-slate-200 h-80 flex items-center justify-center">
+        {cameraError ? (
+          <div className="text-center p-6">
+            <AlertCircle className="w-10 h-10 text-rose-400 mx-auto mb-3" />
+            <p className="text-sm text-white font-bold">{cameraError}</p>
+          </div>
+        ) : (
+          <video ref={videoRef} playsInline muted className="max-h-full w-full object-contain" />
+        )}
+
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 rounded-full bg-slate-900/70 text-white hover:bg-slate-900 transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        {!cameraError && quality && (
+          <div className={`absolute top-3 left-3 text-[10px] px-2 py-1 rounded-lg font-black uppercase tracking-wider flex items-center gap-1 shadow-lg ${canCapture ? 'bg-emerald-600 text-white' : 'bg-amber-500 text-white'}`}>
+            {canCapture ? <><CheckCircle2 className="w-3 h-3" /> {t('camera.frameOk')}</> : <><AlertCircle className="w-3 h-3" /> {failedChecks.join(' • ')}</>}
+          </div>
+        )}
+
+        {quality && (
+          <div className="absolute bottom-3 right-3 bg-slate-900/80 backdrop-blur text-white text-[10px] px-2 py-1 rounded-lg uppercase tracking-wider font-bold">
+            {quality.resolution.width} × {quality.resolution.height}
+          </div>
+        )}
+      </div>
+
+      {!cameraError && !canCapture && (
+        <div className="bg-amber-50 border border-amber-200 p-4 rounded-xl">
+          <p className="text-amber-800 text-sm font-bold flex items-center gap-2 mb-2">
+            <Lightbulb className="w-4 h-4" /> {t('camera.adjust')}
+          </p>
+          <ul className="space-y-1">
+            {tips.map((tip, i) => (
+              <li key={i} className="text-xs text-amber-700 flex items-start gap-2">
+                <span className="text-amber-500 font-bold leading-none mt-0.5">›</span>
+                <span>{tip}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        onClick={capture}
+        disabled={!canCapture}
+        className="w-full bg-emerald-600 text-white py-4 rounded-xl font-bold hover:bg-emerald-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        <Camera className="w-5 h-5" /> {canCapture ? t('camera.capture') : t('camera.waiting')}
+      </button>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Bug, Droplets } from 'lucide-react';
+import { DISEASE_DATABASE } from './constants';
+import { CropId, DiseaseId, DiseaseInfo, InfectionStage } from './types';
+import { CROP_REGISTRY, cropsWithDisease, formatCropList, getDiseaseAgent } from './crops';
+import { getDisease, getDiseaseInfo, guideAnchor } from './diseases';
+import { t } from './i18n';
+import { SeverityBadge } from './ResultCard';
+
+const StageEntry: React.FC<{ anchor: string; code: string; d: DiseaseInfo }> = ({ anchor, code, d }) => (
+  <div id={anchor} className="bg-white rounded-3xl border border-slate-200 overflow-hidden shadow-sm hover:shadow-md transition-all scroll-mt-24">
+    <div className={`${d.bgColor} p-6 border-b border-slate-100`}>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="bg-white p-3 rounded-2xl shadow-sm">
+            <d.icon className={`w-8 h-8 ${d.color}`} />
+          </div>
+          <div>
+            <p className="text-[10px] font-black tracking-widest text-slate-400 uppercase">{t('guide.stage', { code })}</p>
+            <h3 className={`text-2xl font-black ${d.color}`}>{d.name}</h3>
+          </div>
+        </div>
+        <SeverityBadge severity={d.severity} />
+      </div>
+    </div>
+
+    <div className="p-6 grid md:grid-cols-3 gap-8">
+      <div className="md:col-span-2 space-y-6">
+        <section>
+          <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+            <Bug className="w-3 h-3 text-rose-500" /> {t('guide.symptoms')}
+          </h4>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {d.symptoms.map((s, i) => (
+              <li key={i} className="flex items-center gap-2 text-sm text-slate-600 bg-slate-50 p-2 rounded-lg border border-slate-100">
+                <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" /> {s}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section>
+          <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+            <Droplets className="w-3 h-3 text-blue-500" /> {t('guide.protocol')}
+          </h4>
+          <div className="space-y-3">
+            {(Object.entries(d.treatment) as [keyof DiseaseInfo['treatment'], string[]][]).slice(0, 3).map(([cat, steps]) => (
+              <div key={cat} className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
+                <p className="text-[10px] font-black text-slate-500 uppercase mb-2 tracking-tighter">{t(`treatment.${cat}`)}</p>
+                <ul className="space-y-1.5">
+                  {steps.map((step, i) => (
+                    <li key={i} className="text-xs text-slate-600 flex items-start gap-2">
+                      <span className="text-emerald-600 font-bold leading-none mt-0.5">›</span>
+                      <span>{step}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+
+      <div className="space-y-6">
+        <div className="bg-indigo-50/50 rounded-2xl p-5 border border-indigo-100">
+          <h4 className="text-[10px] font-black text-indigo-400 uppercase mb-2 tracking-widest">{t('guide.biologicalNote')}</h4>
+          <p className="text-xs text-indigo-900 leading-relaxed font-medium">{d.biologicalInterpretation}</p>
+        </div>
+
+        {d.prognosis && (
+          <div className="bg-purple-50/50 rounded-2xl p-5 border border-purple-100">
+            <h4 className="text-[10px] font-black text-purple-400 uppercase mb-2 tracking-widest">{t('guide.prognosis')}</h4>
+            <p className="text-xs text-purple-900 font-bold">{d.prognosis}</p>
+          </div>
+        )}
+
+        <div className="bg-slate-900 text-white rounded-2xl p-5">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">{t('guide.visualMarker')}</h4>
+          <p className="text-xs text-slate-100 leading-relaxed">{d.visualDescription}</p>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+const Encyclopedia: React.FC = () => {
+  const [cropFilter, setCropFilter] = useState<CropId | 'all'>('all');
+  const diseaseIds: DiseaseId[] = cropFilter === 'all' ? Object.keys(DISEASE_DATABASE) as DiseaseId[] : CROP_REGISTRY[cropFilter].diseases;
+  const diseases = diseaseIds.map((id) => getDisease(id));
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-lg">
+        <h2 className="text-3xl font-black text-slate-900 mb-2">{t('guide.title')}</h2>
+        <p className="text-slate-500 max-w-2xl leading-relaxed">
+          {t('guide.intro', { crops: formatCropList() })} {t('guide.introStages')}
+        </p>
+        <div className="flex flex-wrap bg-slate-100 p-1 rounded-xl mt-6 w-fit">
+          {(['all', ...Object.keys(CROP_REGISTRY)] as (CropId | 'all')[]).map((id) => (
+            <button
+              key={id}
+              onClick={() => setCropFilter(id)}
+              className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${cropFilter === id ? 'bg-white text-emerald-800 shadow' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {id === 'all' ? t('crops.all') : CROP_REGISTRY[id].name}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4">
+          {diseases.map((disease) => (
+            <a
+              key={disease.id}
+              href={`#${disease.id}`}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-50 rounded-xl text-xs font-bold text-slate-600 border border-slate-100 hover:bg-emerald-50 hover:text-emerald-700 transition-all"
+            >
+              <disease.icon className="w-3.5 h-3.5" /> {disease.name}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-6">
+        {(['H0', 'N0'] as const).map((code) => (
+          <StageEntry key={code} anchor={guideAnchor(code)} code={code} d={getDiseaseInfo(code)} />
+        ))}
+      </div>
+
+      {diseases.map((disease) => (
+        <section key={disease.id} id={disease.id} className="space-y-6 scroll-mt-24">
+          <div className="bg-slate-900 text-white rounded-3xl p-6 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="bg-white/10 p-3 rounded-2xl shrink-0">
+              <disease.icon className="w-8 h-8 text-emerald-400" />
+            </div>
+            <div>
+              <p className="text-[10px] font-black tracking-widest text-slate-400 uppercase">
+                {t(`category.${disease.category}`)} • <em className="normal-case">{cropFilter === 'all' ? disease.agent : getDiseaseAgent(disease.id, cropFilter)}</em>
+              </p>
+              <h3 className="text-2xl font-black">{disease.name}</h3>
+              <p className="text-sm text-slate-300 mt-1 max-w-3xl">{disease.overview}</p>
+              <div className="flex flex-wrap gap-1.5 mt-3">
+                {cropsWithDisease(disease.id).map((crop) => (
+                  <span key={crop.id} className="text-[10px] font-black bg-white/10 text-emerald-300 px-2 py-0.5 rounded">
+                    {crop.name}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+          {(Object.entries(disease.stages) as [InfectionStage, DiseaseInfo][]).map(([code, d]) => (
+            <StageEntry key={code} anchor={guideAnchor(code, disease.id)} code={code} d={d} />
+          ))}
+        </section>
+      ))}
+      <div className="pb-12" />
+    </div>
+  );
+};
+
+export default Encyclopedia;
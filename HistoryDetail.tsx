@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, RefreshCw, ArrowRight, Save, ImageOff, Sprout, Printer } from 'lucide-react';
+import { AnalysisResult, DiagnosisProviderId, Plant, ScanLabel, ScanRecord } from './types';
+import { getScan, getTreatmentLog, toAnalysisResult } from './historyStore';
+import { printScanReport } from './exportService';
+import { resolveProvider, providerName } from './diagnosisProviders';
+import { analyzeImage, describeAnalysisError } from './analysisPipeline';
+import ScanImageViewer from './ScanImageViewer';
+import ResultCard from './ResultCard';
+import TreatmentTracker from './TreatmentTracker';
+import ReviewPanel from './ReviewPanel';
+import { describeDiagnosis } from './diseases';
+import { getCrop } from './crops';
+import { getReferenceObject } from './referenceObjects';
+import { t } from './i18n';
+
+const describeChange = (before: AnalysisResult, after: AnalysisResult) => {
+  if (before.stage === after.stage) {
+    return before.diseaseId === after.diseaseId
+      ? { text: t('review.compareSame'), color: 'bg-slate-100 text-slate-700 border-slate-200' }
+      : { text: t('review.compareDifferentDisease'), color: 'bg-amber-100 text-amber-700 border-amber-200' };
+  }
+  if (before.stage === 'N0' || after.stage === 'N0') return { text: t('review.compareInconclusive'), color: 'bg-gray-100 text-gray-700 border-gray-200' };
+  const stages = { from: before.stage, to: after.stage };
+  return after.disease.severity > before.disease.severity
+    ? { text: t('review.compareWorse', stages), color: 'bg-rose-100 text-rose-700 border-rose-200' }
+    : { text: t('review.compareMilder', stages), color: 'bg-emerald-100 text-emerald-700 border-emerald-200' };
+};
+
+const VerdictComparison: React.FC<{ before: AnalysisResult; after: AnalysisResult }> = ({ before, after }) => {
+  const change = describeChange(before, after);
+  const rows: { label: string; before: string; after: string }[] = [
+    { label: t('review.compareStage'), before: before.stage, after: after.stage },
+    { label: t('review.compareDiagnosis'), before: describeDiagnosis(before.stage, before.diseaseId, before.coInfections), after: describeDiagnosis(after.stage, after.diseaseId, after.coInfections) },
+    { label: t('review.compareConfidence'), before: `${(before.confidence * 100).toFixed(1)}%`, after: `${(after.confidence * 100).toFixed(1)}%` },
+    { label: t('result.lesions'), before: `${before.lesionCount}`, after: `${after.lesionCount}` },
+    { label: t('result.severity'), before: `${before.severityScore}%`, after: `${after.severityScore}%` },
+    { label: t('review.compareModel'), before: providerName(before.provider), after: providerName(after.provider) }
+  ];
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-black text-slate-800">{t('review.compareTitle')}</h4>
+        <span className={`px-3 py-1 rounded-full text-xs font-bold border ${change.color}`}>{change.text}</span>
+      </div>
+      <div className="divide-y divide-slate-100">
+        {rows.map((row) => (
+          <div key={row.label} className="grid grid-cols-[6rem_1fr_auto_1fr] items-center gap-3 py-2 text-xs">
+            <span className="text-[10px] font-black text-slate-400 uppercase">{row.label}</span>
+            <span className="font-bold text-slate-600">{row.before}</span>
+            <ArrowRight className="w-3 h-3 text-slate-300" />
+            <span className={`font-bold ${row.before !== row.after ? 'text-indigo-700' : 'text-slate-600'}`}>{row.after}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const HistoryDetail: React.FC<{
+  scanId: string;
+  providerId: DiagnosisProviderId;
+  onBack: () => void;
+  onOpenGuide: (targetId: string) => void;
+  onSaveResult: (result: AnalysisResult, image: string, plantId?: string) => Promise<unknown>;
+  plants: Plant[];
+  onPlantChanged: (scanId: string, plantId: string | undefined) => Promise<void>;
+  onLabelChanged: (scanId: string, label: ScanLabel | undefined) => Promise<void>;
+  onTreatmentChanged: () => void;
+}> = ({ scanId, providerId, onBack, onOpenGuide, onSaveResult, plants, onPlantChanged, onLabelChanged, onTreatmentChanged }) => {
+  const [record, setRecord] = useState<ScanRecord | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [rerunResult, setRerunResult] = useState<AnalysisResult | null>(null);
+  const [viewing, setViewing] = useState<'original' | 'rerun'>('original');
+  const [rerunning, setRerunning] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [showOverlay, setShowOverlay] = useState(true);
+
+  useEffect(() => {
+    getScan(scanId)
+      .then((r) => r ? setRecord(r) : setLoadFailed(true))
+      .catch((e) => {
+        console.error("Failed to load scan", e);
+        setLoadFailed(true);
+      });
+  }, [scanId]);
+
+  if (loadFailed) {
+    return (
+      <div className="bg-white rounded-3xl border border-slate-200 p-16 text-center">
+        <p className="text-slate-700 font-bold">{t('detail.notFound')}</p>
+        <button onClick={onBack} className="mt-6 px-6 py-3 bg-slate-100 rounded-xl font-bold text-sm">{t('detail.back')}</button>
+      </div>
+    );
+  }
+  if (!record) return null;
+
+  const original = toAnalysisResult(record.result);
+  const shown = viewing === 'rerun' && rerunResult ? rerunResult : original;
+
+  const rerun = async () => {
+    if (!record.image) return;
+    const crop = getCrop(record.result.cropId);
+    const provider = resolveProvider(providerId, navigator.onLine, crop.id);
+    setRerunning(true);
+    try {
+      // The photo still shows whatever reference was chosen when it was taken
+      const reference = getReferenceObject(record.result.measurement?.referenceId);
+      const { result } = await analyzeImage(record.image, provider, crop, true, reference);
+      setRerunResult(result);
+      setViewing('rerun');
+      setSaved(false);
+    } catch (error) {
+      alert(describeAnalysisError(provider));
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const saveRerun = async () => {
+    if (!rerunResult || !record.image) return;
+    await onSaveResult(rerunResult, record.image, record.plantId);
+    setSaved(true);
+  };
+
+  const printReport = async () => {
+    printScanReport(record, plants.find((p) => p.id === record.plantId), await getTreatmentLog(record.id));
+  };
+
+  const changePlant = async (plantId: string) => {
+    await onPlantChanged(record.id, plantId || undefined);
+    setRecord({ ...record, plantId: plantId || undefined });
+  };
+
+  const changeLabel = async (label: ScanLabel | undefined) => {
+    await onLabelChanged(record.id, label);
+    setRecord({ ...record, label });
+  };
+
+  // A reviewed scan is treated for the expert verdict; one still awaiting review is not treated at all
+  const treated = record.label ?? (original.needsReview ? null : original);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm font-bold text-slate-600 hover:text-emerald-700 transition-colors">
+          <ArrowLeft className="w-4 h-4" /> {t('detail.back')}
+        </button>
+        <div className="flex gap-2">
+          {rerunResult && (
+            <div className="flex bg-slate-100 p-1 rounded-xl">
+              {(['original', 'rerun'] as const).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setViewing(v)}
+                  className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${viewing === v ? 'bg-white text-emerald-800 shadow' : 'text-slate-500'}`}
+                >
+                  {v === 'original' ? t('detail.original') : t('detail.rerun')}
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={printReport}
+            className="flex items-center gap-2 px-5 py-2 bg-white text-slate-700 border border-slate-200 rounded-xl font-bold text-sm hover:bg-slate-50 transition-all"
+          >
+            <Printer className="w-4 h-4" /> {t('detail.print')}
+          </button>
+          <button
+            onClick={rerun}
+            disabled={rerunning || !record.image}
+            className="flex items-center gap-2 px-5 py-2 bg-emerald-600 text-white rounded-xl font-bold text-sm hover:bg-emerald-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${rerunning ? 'animate-spin' : ''}`} /> {rerunning ? t('scanner.analyzing') : t('detail.rerunAnalysis')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="bg-white rounded-3xl shadow-xl overflow-hidden border border-slate-200 p-6">
+            {record.image ? (
+              <ScanImageViewer
+                image={record.image}
+                result={shown}
+                showOverlay={showOverlay}
+                onToggleOverlay={() => setShowOverlay(!showOverlay)}
+              />
+            ) : (
+              <div className="h-80 rounded-2xl bg-slate-100 flex flex-col items-center justify-center text-slate-400 text-center p-6">
+                <ImageOff className="w-10 h-10 mb-3" />
+                <p className="text-sm font-bold text-slate-600">{t('detail.noImage')}</p>
+                <p className="text-xs mt-1">{t('detail.noImageHint')}</p>
+              </div>
+            )}
+          </div>
+
+          {plants.length > 0 && (
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 flex items-center gap-3">
+              <Sprout className="w-4 h-4 text-emerald-600 shrink-0" />
+              <span className="text-[10px] font-black text-slate-400 uppercase">{t('detail.plant')}</span>
+              <select
+                value={record.plantId || ''}
+                onChange={(e) => changePlant(e.target.value)}
+                className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white"
+              >
+                <option value="">{t('detail.untagged')}</option>
+                {plants.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <ReviewPanel key={record.id} record={record} onSave={changeLabel} />
+
+          {rerunResult && (
+            <>
+              <VerdictComparison before={original} after={rerunResult} />
+              <button
+                onClick={saveRerun}
+                disabled={saved}
+                className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold text-sm hover:bg-slate-800 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" /> {saved ? t('detail.saved') : t('detail.saveRerun')}
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <ResultCard result={shown} label={viewing === 'original' ? record.label : undefined} onOpenGuide={onOpenGuide} />
+          {treated && treated.stage !== 'N0' && (
+            <TreatmentTracker
+              key={`${record.id}:${record.plantId}:${treated.stage}:${treated.diseaseId}`}
+              scanId={record.id}
+              stage={treated.stage}
+              diseaseId={treated.diseaseId}
+              scannedAt={record.createdAt}
+              plantId={record.plantId}
+              onChanged={onTreatmentChanged}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDetail;
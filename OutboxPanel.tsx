@@ -0,0 +1,81 @@
+import React from 'react';
+import { CloudOff, Loader2, RefreshCw, Trash2, AlertCircle } from 'lucide-react';
+import { OutboxItem } from './types';
+import { getCrop } from './crops';
+import { getLocale, t } from './i18n';
+
+const OutboxStatusLine: React.FC<{ item: OutboxItem }> = ({ item }) => {
+  if (item.status === 'analyzing') {
+    return (
+      <span className="flex items-center gap-1 text-xs font-bold text-emerald-700">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" /> {t('outbox.statusAnalyzing')}
+      </span>
+    );
+  }
+  if (item.status === 'failed') {
+    return (
+      <span className="flex items-start gap-1 text-xs font-bold text-rose-600">
+        <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+        <span>{t('outbox.statusFailed', { count: item.attempts })}{item.error && <span className="font-medium text-rose-500"> • {item.error}</span>}</span>
+      </span>
+    );
+  }
+  return <span className="text-xs font-bold text-amber-700">{t('outbox.statusQueued')}</span>;
+};
+
+const OutboxPanel: React.FC<{
+  items: OutboxItem[];
+  online: boolean;
+  onRetry: () => void;
+  onRemove: (id: string) => void;
+}> = ({ items, online, onRetry, onRemove }) => {
+  const busy = items.some((item) => item.status === 'analyzing');
+
+  return (
+    <div className="bg-amber-50 rounded-3xl p-6 border border-amber-200 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="font-black text-amber-900 flex items-center gap-2">
+            <CloudOff className="w-5 h-5 text-amber-600" /> {t('outbox.title')}
+          </h3>
+          <p className="text-xs text-amber-800 mt-1 max-w-xl">{online ? t('outbox.subtitle') : t('outbox.offlineHint')}</p>
+        </div>
+        {online && (
+          <button
+            onClick={onRetry}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-xl font-bold text-xs hover:bg-amber-700 transition-all disabled:opacity-50 shrink-0"
+          >
+            <RefreshCw className="w-3.5 h-3.5" /> {t('outbox.retry')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid gap-2">
+        {items.map((item) => (
+          <div key={item.id} className="bg-white rounded-2xl border border-amber-100 p-3 flex items-center gap-3">
+            <img src={item.photos[0]} alt="" className="w-14 h-14 rounded-xl object-cover shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-slate-800">
+                {getCrop(item.cropId).name}
+                {item.photos.length > 1 && <span className="text-slate-400 font-medium"> • {t('outbox.photos', { count: item.photos.length })}</span>}
+              </p>
+              <p className="text-[10px] text-slate-500 mb-1">{new Date(item.createdAt).toLocaleString(getLocale())}</p>
+              <OutboxStatusLine item={item} />
+            </div>
+            <button
+              onClick={() => onRemove(item.id)}
+              disabled={item.status === 'analyzing'}
+              title={t('outbox.remove')}
+              className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-full transition-colors disabled:opacity-30"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OutboxPanel;
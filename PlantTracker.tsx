@@ -0,0 +1,306 @@
+import React, { useState, useEffect } from 'react';
+import { Sprout, Plus, Trash2, TrendingUp, TrendingDown, MapPin, ChevronRight, LayoutGrid } from 'lucide-react';
+import { CropId, DiseaseStage, Plant, ScanRecord } from './types';
+import { CROP_REGISTRY, getCrop, loadCropPreference } from './crops';
+import { savePlant, deletePlant, getScansForPlant } from './historyStore';
+import { detectProgressions, latestDiagnosticScan, latestSurvey, toTimelinePoints } from './progression';
+import { describeDiagnosis, getDiseaseInfo } from './diseases';
+import { diseaseSeverityIndex, getSeverityScale, gradeSeverity } from './severityScales';
+import { severityScaleName, severityScaleShortName } from './severityScaleNames';
+import { getLocale, t } from './i18n';
+
+const STAGE_LEVELS: DiseaseStage[] = ['H0', 'E1', 'E2', 'E3'];
+const CHART = { width: 640, height: 240, left: 40, right: 44, top: 16, bottom: 32 };
+
+const ProgressionChart: React.FC<{ scans: ScanRecord[] }> = ({ scans }) => {
+  const points = toTimelinePoints(scans);
+  const diagnostic = points.filter((p) => p.stage !== 'N0');
+  const worsened = new Set(detectProgressions(scans).filter((e) => e.direction === 'worsened').map((e) => e.scanId));
+
+  const plotWidth = CHART.width - CHART.left - CHART.right;
+  const plotHeight = CHART.height - CHART.top - CHART.bottom;
+  const minDate = points[0]?.date ?? 0;
+  const span = Math.max((points[points.length - 1]?.date ?? 0) - minDate, 1);
+  const x = (date: number) => CHART.left + (points.length > 1 ? ((date - minDate) / span) * plotWidth : plotWidth / 2);
+  const yStage = (stage: DiseaseStage) => CHART.top + plotHeight - (getDiseaseInfo(stage).severity / 3) * plotHeight;
+  const ySeverity = (severity: number) => CHART.top + plotHeight - (Math.min(severity, 100) / 100) * plotHeight;
+
+  // Stage is categorical, so it is drawn as a step line
+  const stagePath = diagnostic.map((p, i) => {
+    const px = x(p.date);
+    const py = yStage(p.stage);
+    return i === 0 ? `M${px},${py}` : `H${px} V${py}`;
+  }).join(' ');
+  const severityPath = diagnostic.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date)},${ySeverity(p.severity)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto">
+      {STAGE_LEVELS.map((stage) => (
+        <g key={stage}>
+          <line x1={CHART.left} x2={CHART.width - CHART.right} y1={yStage(stage)} y2={yStage(stage)} className="stroke-slate-100" strokeWidth={1} />
+          <text x={CHART.left - 8} y={yStage(stage) + 4} textAnchor="end" className="fill-slate-400 text-[10px] font-bold">{stage}</text>
+        </g>
+      ))}
+      {[0, 50, 100].map((v) => (
+        <text key={v} x={CHART.width - CHART.right + 8} y={ySeverity(v) + 4} className="fill-rose-300 text-[10px] font-bold">{v}%</text>
+      ))}
+
+      <path d={severityPath} fill="none" className="stroke-rose-300" strokeWidth={2} strokeDasharray="4 4" />
+      <path d={stagePath} fill="none" className="stroke-emerald-600" strokeWidth={3} />
+
+      {points.map((p) => p.stage === 'N0' ? (
+        <circle key={p.scanId} cx={x(p.date)} cy={CHART.top + plotHeight} r={4} className="fill-white stroke-slate-300" strokeWidth={2}>
+          <title>{t('plants.chartNotDiagnostic', { date: new Date(p.date).toLocaleDateString(getLocale()) })}</title>
+        </circle>
+      ) : (
+        <circle key={p.scanId} cx={x(p.date)} cy={yStage(p.stage)} r={worsened.has(p.scanId) ? 7 : 5} className={worsened.has(p.scanId) ? 'fill-rose-600 stroke-white' : 'fill-emerald-600 stroke-white'} strokeWidth={2}>
+          <title>{t('plants.chartPoint', { date: new Date(p.date).toLocaleDateString(getLocale()), stage: p.stage, severity: p.severity.toFixed(1) })}</title>
+        </circle>
+      ))}
+
+      {points.length > 0 && (
+        <>
+          <text x={CHART.left} y={CHART.height - 8} className="fill-slate-400 text-[10px] font-bold">{new Date(minDate).toLocaleDateString(getLocale())}</text>
+          <text x={CHART.width - CHART.right} y={CHART.height - 8} textAnchor="end" className="fill-slate-400 text-[10px] font-bold">{new Date(minDate + span).toLocaleDateString(getLocale())}</text>
+        </>
+      )}
+    </svg>
+  );
+};
+
+const PlantTracker: React.FC<{
+  plants: Plant[];
+  onPlantsChanged: () => void;
+  onOpenScan: (scanId: string) => void;
+}> = ({ plants, onPlantsChanged, onOpenScan }) => {
+  const [selectedPlantId, setSelectedPlantId] = useState<string | null>(null);
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<Plant['kind']>('plant');
+  const [newLocation, setNewLocation] = useState('');
+  const [newCropId, setNewCropId] = useState<CropId>(loadCropPreference);
+
+  const selectedPlant = plants.find((p) => p.id === selectedPlantId) || null;
+  const latest = latestDiagnosticScan(scans);
+
+  useEffect(() => {
+    if (!selectedPlantId) {
+      setScans([]);
+      return;
+    }
+    getScansForPlant(selectedPlantId)
+      .then(setScans)
+      .catch((e) => console.error("Failed to load plant scans", e));
+  }, [selectedPlantId]);
+
+  const addPlant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const plant: Plant = {
+      id: crypto.randomUUID(),
+      name: newName.trim(),
+      kind: newKind,
+      cropId: newCropId,
+      location: newLocation.trim() || undefined,
+      createdAt: Date.now()
+    };
+    await savePlant(plant);
+    setNewName('');
+    setNewLocation('');
+    onPlantsChanged();
+    setSelectedPlantId(plant.id);
+  };
+
+  const removePlant = async (plant: Plant) => {
+    if (!window.confirm(t('plants.confirmRemove', { name: plant.name }))) return;
+    await deletePlant(plant.id);
+    if (selectedPlantId === plant.id) setSelectedPlantId(null);
+    onPlantsChanged();
+  };
+
+  const progressions = detectProgressions(scans);
+  const scale = getSeverityScale();
+  const survey = latestSurvey(scans);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-lg">
+        <h2 className="text-3xl font-black text-slate-900 mb-2">{t('plants.title')}</h2>
+        <p className="text-slate-500 max-w-xl leading-relaxed">
+          {t('plants.subtitle')}
+        </p>
+        <form onSubmit={addPlant} className="mt-6 grid md:grid-cols-[1fr_auto_auto_1fr_auto] gap-3">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t('plants.namePlaceholder')}
+            className="px-4 py-3 rounded-xl border border-slate-200 text-sm focus:outline-none focus:border-emerald-500"
+          />
+          <select
+            value={newKind}
+            onChange={(e) => setNewKind(e.target.value as Plant['kind'])}
+            className="px-4 py-3 rounded-xl border border-slate-200 text-sm bg-white"
+          >
+            <option value="plant">{t('plants.kindPlant')}</option>
+            <option value="plot">{t('plants.kindPlot')}</option>
+          </select>
+          <select
+            value={newCropId}
+            onChange={(e) => setNewCropId(e.target.value as CropId)}
+            className="px-4 py-3 rounded-xl border border-slate-200 text-sm bg-white"
+          >
+            {Object.values(CROP_REGISTRY).map((crop) => (
+              <option key={crop.id} value={crop.id}>{crop.name}</option>
+            ))}
+          </select>
+          <input
+            value={newLocation}
+            onChange={(e) => setNewLocation(e.target.value)}
+            placeholder={t('plants.locationPlaceholder')}
+            className="px-4 py-3 rounded-xl border border-slate-200 text-sm focus:outline-none focus:border-emerald-500"
+          />
+          <button type="submit" className="flex items-center justify-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold text-sm hover:bg-emerald-700 transition-all">
+            <Plus className="w-4 h-4" /> {t('plants.register')}
+          </button>
+        </form>
+      </div>
+
+      {plants.length === 0 ? (
+        <div className="bg-white rounded-3xl border border-slate-200 p-16 flex flex-col items-center text-center">
+          <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center mb-6">
+            <Sprout className="w-10 h-10 text-slate-300" />
+          </div>
+          <h3 className="text-xl font-bold text-slate-800">{t('plants.emptyTitle')}</h3>
+          <p className="text-slate-500 mt-2 max-w-xs">{t('plants.emptyHint')}</p>
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-[20rem_1fr] gap-6">
+          <div className="space-y-3">
+            {plants.map((plant) => (
+              <button
+                key={plant.id}
+                onClick={() => setSelectedPlantId(plant.id)}
+                className={`w-full text-left p-4 rounded-2xl border transition-all flex items-center gap-3 ${selectedPlantId === plant.id ? 'bg-emerald-50 border-emerald-300' : 'bg-white border-slate-200 hover:border-emerald-200'}`}
+              >
+                <div className="w-10 h-10 rounded-xl bg-emerald-100 flex items-center justify-center shrink-0">
+                  {plant.kind === 'plot' ? <LayoutGrid className="w-5 h-5 text-emerald-600" /> : <Sprout className="w-5 h-5 text-emerald-600" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-800 truncate">{plant.name}</p>
+                  <p className="text-[10px] font-bold text-lime-700">{getCrop(plant.cropId).name}</p>
+                  {plant.location && (
+                    <p className="text-[10px] text-slate-500 flex items-center gap-1 truncate"><MapPin className="w-3 h-3" /> {plant.location}</p>
+                  )}
+                </div>
+                <ChevronRight className="w-4 h-4 text-slate-300" />
+              </button>
+            ))}
+          </div>
+
+          {selectedPlant ? (
+            <div className="space-y-6">
+              <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <p className="text-[10px] font-black tracking-widest text-slate-400 uppercase">{selectedPlant.kind === 'plot' ? t('plants.plotTimeline') : t('plants.plantTimeline')}</p>
+                    <h3 className="text-2xl font-black text-slate-800">{selectedPlant.name}</h3>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {t('plants.scanCount', { count: scans.length })}
+                      {latest && <> • {t('plants.currently')} <strong>{describeDiagnosis(latest.result.stage, latest.result.diseaseId, latest.result.coInfections)}</strong></>}
+                    </p>
+                  </div>
+                  <button onClick={() => removePlant(selectedPlant)} className="text-rose-500 hover:bg-rose-50 p-2 rounded-full transition-colors">
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+                {selectedPlant.kind === 'plot' && survey.length > 0 && (
+                  <div className="mb-4 p-4 bg-slate-50 rounded-2xl border border-slate-100 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-[10px] font-black text-slate-500 uppercase">{t('plants.severityIndex')}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {t('plants.survey', { count: survey.length, date: new Date(survey[0].createdAt).toLocaleDateString(getLocale()) })} • {severityScaleName(scale.id)}
+                      </p>
+                    </div>
+                    <p className="text-2xl font-black text-slate-800">
+                      {diseaseSeverityIndex(survey.map((scan) => parseFloat(scan.result.severityScore) || 0), scale).toFixed(1)}
+                    </p>
+                  </div>
+                )}
+                {scans.length === 0 ? (
+                  <p className="text-sm text-slate-500 py-8 text-center">{selectedPlant.kind === 'plot' ? t('plants.noScansPlot') : t('plants.noScansPlant')}</p>
+                ) : (
+                  <>
+                    <ProgressionChart scans={scans} />
+                    <div className="flex gap-4 text-[10px] font-bold text-slate-500 uppercase mt-2">
+                      <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-emerald-600" /> {t('plants.legendStage')}</span>
+                      <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-rose-300" /> {t('plants.legendSeverity')}</span>
+                      <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-rose-600" /> {t('plants.legendProgression')}</span>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {progressions.length > 0 && (
+                <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm space-y-3">
+                  <h4 className="font-black text-slate-800">{t('plants.stageChanges')}</h4>
+                  {progressions.map((event) => (
+                    <div
+                      key={event.scanId}
+                      className={`p-4 rounded-2xl border flex gap-3 ${event.direction === 'worsened' ? 'bg-rose-50 border-rose-100' : 'bg-emerald-50 border-emerald-100'}`}
+                    >
+                      {event.direction === 'worsened'
+                        ? <TrendingUp className="w-5 h-5 text-rose-600 shrink-0" />
+                        : <TrendingDown className="w-5 h-5 text-emerald-600 shrink-0" />}
+                      <div>
+                        <p className={`text-sm font-bold ${event.direction === 'worsened' ? 'text-rose-800' : 'text-emerald-800'}`}>
+                          {t(event.direction === 'worsened' ? 'plants.progressed' : 'plants.improved', { from: event.from, to: event.to, date: new Date(event.date).toLocaleDateString(getLocale()) })}
+                        </p>
+                        {event.note && <p className="text-xs text-rose-700 mt-1">{event.note}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {scans.length > 0 && (
+                <div className="grid gap-3">
+                  {[...scans].reverse().map((scan) => {
+                    const disease = getDiseaseInfo(scan.result.stage, scan.result.diseaseId);
+                    return (
+                      <button
+                        key={scan.id}
+                        onClick={() => onOpenScan(scan.id)}
+                        className="bg-white rounded-2xl border border-slate-200 p-3 flex items-center gap-3 hover:border-emerald-200 transition-all text-left"
+                      >
+                        {scan.thumbnail ? (
+                          <img src={scan.thumbnail} alt={disease.name} className="w-12 h-12 rounded-xl object-cover" />
+                        ) : (
+                          <div className={`w-12 h-12 rounded-xl ${disease.bgColor} flex items-center justify-center`}>
+                            <disease.icon className={`w-6 h-6 ${disease.color}`} />
+                          </div>
+                        )}
+                        <div className="flex-1">
+                          <p className="text-sm font-bold text-slate-800">{describeDiagnosis(scan.result.stage, scan.result.diseaseId, scan.result.coInfections)}</p>
+                          <p className="text-xs text-slate-500">
+                            {scan.result.timestamp} • {t('plants.scanSeverity', { severity: scan.result.severityScore, scale: severityScaleShortName(scale.id), grade: gradeSeverity(parseFloat(scan.result.severityScore) || 0, scale).grade })}
+                          </p>
+                        </div>
+                        <ChevronRight className="w-4 h-4 text-slate-300" />
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="bg-white rounded-3xl border border-slate-200 p-12 text-center text-slate-400 text-sm">
+              {t('plants.selectHint')}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlantTracker;
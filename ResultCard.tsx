@@ -0,0 +1,442 @@
+import React from 'react';
+import { AlertCircle, Shield, ChevronRight, Search, Target, BrainCircuit, CheckCircle2, Bookmark, Layers, Ruler, Images, UserCheck, ClipboardCheck, Leaf } from 'lucide-react';
+import { AnalysisResult, ConsensusSummary, LeafDiagnosis, LeafSegmentationSummary, LeafSummary, LesionMeasurement, PreprocessingSummary, ScanLabel } from './types';
+import { getDiseaseAgent } from './crops';
+import { providerName as getProviderName } from './diagnosisProviders';
+import { referenceName } from './referenceObjects';
+import { HIGH_CONFIDENCE, effectiveConfidence, loadAbstentionThreshold } from './calibration';
+import { diseaseSeverityIndex, formatSeverityClass, getSeverityScale, gradeSeverity } from './severityScales';
+import { severityScaleShortName } from './severityScaleNames';
+import { describeDiagnosis, getDiseaseInfo, guideAnchor } from './diseases';
+import { getReviewStatus } from './review';
+import { t } from './i18n';
+
+export const SeverityBadge: React.FC<{ severity: number }> = ({ severity }) => {
+  const badges = [
+    { text: t('severity.0'), color: 'bg-green-100 text-green-800 border-green-300' },
+    { text: t('severity.1'), color: 'bg-yellow-100 text-yellow-800 border-yellow-300' },
+    { text: t('severity.2'), color: 'bg-orange-100 text-orange-800 border-orange-300' },
+    { text: t('severity.3'), color: 'bg-red-100 text-red-800 border-red-300' }
+  ];
+  const badge = badges[severity] || badges[0];
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-bold border ${badge.color}`}>
+      {badge.text}
+    </span>
+  );
+};
+
+const formatKilobytes = (bytes: number) => `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// What the model was actually sent, so a smaller upload or a cropped frame is never a surprise
+const describePreprocessing = (summary: PreprocessingSummary) => [
+  t('result.preprocessedSent', {
+    format: summary.mimeType.replace('image/', '').toUpperCase(),
+    width: summary.width,
+    height: summary.height,
+    size: formatKilobytes(summary.bytes),
+    original: formatKilobytes(summary.sourceBytes),
+  }),
+  summary.orientation > 1 && t('result.preprocessedRotated'),
+  summary.leafCrop && t('result.preprocessedCropped'),
+  summary.whiteBalanced && t('result.preprocessedWhiteBalanced'),
+  summary.backgroundRemoved && t('result.preprocessedBackgroundRemoved'),
+].filter(Boolean).join(' • ');
+
+// Low starts at the abstention threshold so the gauge agrees with the review flag
+const ConfidenceGauge: React.FC<{ confidence: number; rawConfidence?: number; threshold: number }> = ({ confidence, rawConfidence, threshold }) => {
+  const percentage = Math.round(confidence * 100);
+  const isLow = confidence < threshold;
+  let color = 'bg-rose-500';
+  let label = t('confidence.low');
+  if (confidence >= HIGH_CONFIDENCE) { color = 'bg-emerald-500'; label = t('confidence.high'); }
+  else if (!isLow) { color = 'bg-amber-500'; label = t('confidence.medium'); }
+
+  return (
+    <div className="w-full space-y-1">
+      <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <span>{t('result.reliability')}</span>
+        <span className={isLow ? 'text-rose-500' : 'text-slate-600'}>{label}</span>
+      </div>
+      <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+        <div 
+          className={`h-full transition-all duration-1000 ease-out ${color}`} 
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      <p className="text-[10px] text-slate-500 italic">
+        {rawConfidence === undefined
+          ? t('result.confidenceNote', { percent: percentage })
+          : t('result.calibratedNote', { percent: percentage, raw: Math.round(rawConfidence * 100) })}
+      </p>
+    </div>
+  );
+};
+
+const MeasurementPanel: React.FC<{ measurement: LesionMeasurement; leaf?: LeafSegmentationSummary }> = ({ measurement, leaf }) => {
+  const stats = [
+    { label: t('result.diseasedArea'), value: `${measurement.diseasedAreaPercent}%` },
+    leaf ? { label: t('result.leafCoverage'), value: `${leaf.coveragePercent}%` } : null,
+    { label: t('result.measuredLesions'), value: String(measurement.lesionCount) },
+    measurement.meanLesionDiameterMm !== undefined
+      ? { label: t('result.meanDiameter'), value: `${measurement.meanLesionDiameterMm}mm` }
+      : null,
+    measurement.leafAreaMm2 !== undefined
+      ? { label: t('result.leafArea'), value: `${(measurement.leafAreaMm2 / 100).toFixed(1)}cm²` }
+      : null
+  ].filter((stat): stat is { label: string; value: string } => stat !== null);
+
+  const calibration = !measurement.referenceId
+    ? t('result.uncalibrated')
+    : measurement.pxPerMm
+      ? t('result.calibratedWith', { reference: referenceName(measurement.referenceId), pxPerMm: measurement.pxPerMm })
+      : t('result.referenceMissing', { reference: referenceName(measurement.referenceId) });
+
+  return (
+    <div className="mb-6 p-4 bg-white/60 border border-white rounded-2xl space-y-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+        <Ruler className="w-3 h-3" /> {t('result.measurement')}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <p className="text-[10px] text-slate-500 font-bold uppercase">{stat.label}</p>
+            <p className="text-sm font-black text-slate-800">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {calibration}{measurement.lesionCount > 0 && ` ${t('result.severityMeasured')}`}
+      </p>
+    </div>
+  );
+};
+
+// Every distinct verdict the shots gave, so a split vote is visible rather than hidden behind one answer
+const ConsensusPanel: React.FC<{ consensus: ConsensusSummary; onOpenGuide: (targetId: string) => void }> = ({ consensus, onOpenGuide }) => {
+  const split = consensus.votes.length > 1;
+  return (
+    <div className={`mb-6 p-4 border rounded-2xl space-y-2 ${split ? 'bg-amber-50 border-amber-200' : 'bg-white/60 border-white'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+          <Images className="w-3 h-3" /> {t('result.consensus', { shots: consensus.shots, photos: consensus.photos })}
+        </p>
+        <span className={`text-[10px] font-black ${split ? 'text-amber-700' : 'text-emerald-700'}`}>
+          {t('result.agreement', { percent: Math.round(consensus.agreement * 100) })}
+        </span>
+      </div>
+      {consensus.votes.map((vote) => {
+        const info = getDiseaseInfo(vote.stage, vote.diseaseId);
+        return (
+          <button
+            key={`${vote.diseaseId ?? ''}:${vote.stage}`}
+            onClick={() => onOpenGuide(guideAnchor(vote.stage, vote.diseaseId))}
+            className="w-full flex items-center justify-between gap-3 text-left group"
+          >
+            <span className={`text-sm font-bold ${info.color}`}>{vote.stage} • {info.name}</span>
+            <span className="flex items-center gap-1 text-[10px] font-bold text-slate-500">
+              {t('result.votes', { count: vote.count, confidence: Math.round(vote.meanConfidence * 100) })} <ChevronRight className="w-3 h-3 group-hover:text-emerald-600" />
+            </span>
+          </button>
+        );
+      })}
+      <p className={`text-[10px] ${split ? 'text-amber-800 font-bold' : 'text-slate-500'}`}>
+        {split ? t('result.consensusSplit') : t('result.consensusUnanimous')}
+        {consensus.abstained > 0 && ` ${t('result.abstained', { count: consensus.abstained })}`}
+      </p>
+    </div>
+  );
+};
+
+// Plant summary over the leaves of one photo, then a card per leaf numbered as on the photo
+const LeavesPanel: React.FC<{ leaves: LeafDiagnosis[]; summary: LeafSummary; onOpenGuide: (targetId: string) => void }> = ({ leaves, summary, onOpenGuide }) => {
+  const scale = getSeverityScale();
+  const index = diseaseSeverityIndex(leaves.filter((leaf) => leaf.stage !== 'N0').map((leaf) => parseFloat(leaf.severityScore) || 0), scale);
+  return (
+    <div className="mb-6 p-4 bg-white/60 border border-white rounded-2xl space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+          <Leaf className="w-3 h-3" /> {t('leaves.title', { count: summary.leafCount })}
+        </p>
+        <span className="text-[10px] font-black text-slate-700">
+          {t('leaves.incidence', { diseased: summary.diseasedLeaves, assessed: summary.assessedLeaves, percent: Math.round(summary.incidence * 100) })}
+          {' • '}{t('leaves.severityIndex', { scale: severityScaleShortName(scale.id), index: index.toFixed(1) })}
+        </span>
+      </div>
+      <div className="grid sm:grid-cols-2 gap-2">
+        {leaves.map((leaf) => {
+          const info = getDiseaseInfo(leaf.stage, leaf.diseaseId);
+          const worst = leaf.index === summary.worstLeaf;
+          return (
+            <button
+              key={leaf.index}
+              onClick={() => onOpenGuide(guideAnchor(leaf.stage, leaf.diseaseId))}
+              className={`p-3 rounded-xl border text-left group transition-all ${worst ? 'bg-rose-50 border-rose-200' : 'bg-white border-slate-100 hover:border-emerald-200'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] font-black text-slate-500 uppercase">{t('leaves.leaf', { index: leaf.index })}</span>
+                {worst && <span className="text-[9px] font-black text-rose-700 uppercase">{t('leaves.worst')}</span>}
+              </div>
+              <p className={`text-sm font-bold ${info.color}`}>{leaf.stage} • {describeDiagnosis(leaf.stage, leaf.diseaseId, leaf.coInfections)}</p>
+              <p className="text-[10px] font-bold text-slate-500 flex items-center gap-1">
+                {t('leaves.detail', { confidence: Math.round(leaf.confidence * 100), lesions: leaf.lesionCount, severity: leaf.severityScore })}
+                <ChevronRight className="w-3 h-3 group-hover:text-emerald-600" />
+              </p>
+            </button>
+          );
+        })}
+      </div>
+      {summary.failedLeaves > 0 && (
+        <p className="text-[10px] text-slate-500">{t('leaves.failed', { count: summary.failedLeaves })}</p>
+      )}
+    </div>
+  );
+};
+
+const ResultCard: React.FC<{
+  result: AnalysisResult;
+  onOpenGuide: (targetId: string) => void;
+  onAnalyzeAnyway?: () => void;
+  analyzing?: boolean;
+  // An expert review of a stored scan; its verdict drives the management steps
+  label?: ScanLabel;
+}> = ({ result, onOpenGuide, onAnalyzeAnyway, analyzing, label }) => {
+  // Looked up on render rather than read from result.disease so it follows the language setting
+  const disease = getDiseaseInfo(result.stage, result.diseaseId);
+  const reviewStatus = getReviewStatus({ result, label });
+  const treated = label ?? result;
+  const treatedDisease = getDiseaseInfo(treated.stage, treated.diseaseId);
+  const awaitingReview = result.needsReview && !label;
+  const providerName = getProviderName(result.provider);
+  const scale = getSeverityScale();
+  const grade = gradeSeverity(parseFloat(result.severityScore) || 0, scale);
+  const threshold = loadAbstentionThreshold();
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-6 pb-8">
+      {/* Summary Card */}
+      <div className={`${disease.bgColor} ${disease.borderColor} border-2 rounded-3xl p-6 shadow-sm overflow-hidden relative`}>
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className={`p-3 rounded-2xl bg-white shadow-sm`}>
+              <disease.icon className={`w-8 h-8 ${disease.color}`} />
+            </div>
+            <div>
+              <p className="text-[10px] font-black tracking-widest text-slate-400 uppercase">
+                {t('result.detection')}{result.diseaseId && ` • ${getDiseaseAgent(result.diseaseId, result.cropId)}`}
+              </p>
+              <h3 className={`text-2xl font-black ${disease.color}`}>{disease.name}</h3>
+              <div className="mt-1"><SeverityBadge severity={disease.severity} /></div>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-6 p-4 bg-white/40 border border-white/60 rounded-2xl">
+          <ConfidenceGauge
+            confidence={effectiveConfidence(result)}
+            rawConfidence={result.calibratedConfidence === undefined ? undefined : result.confidence}
+            threshold={threshold}
+          />
+        </div>
+
+        {label && (
+          <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-2xl flex gap-3">
+            <ClipboardCheck className="w-5 h-5 text-indigo-600 shrink-0" />
+            <div>
+              <p className="text-sm font-black text-indigo-900">
+                {reviewStatus === 'verified'
+                  ? t('result.reviewVerified')
+                  : t('result.reviewCorrected', { verdict: `${label.stage} • ${describeDiagnosis(label.stage, label.diseaseId)}` })}
+              </p>
+              <p className="text-xs text-indigo-700 mt-1">
+                {label.reviewer ? t('result.reviewedBy', { reviewer: label.reviewer, date: new Date(label.labelledAt).toLocaleDateString() }) : t('result.reviewedOn', { date: new Date(label.labelledAt).toLocaleDateString() })}
+              </p>
+              {label.notes && <p className="text-xs text-indigo-800 italic mt-1">"{label.notes}"</p>}
+            </div>
+          </div>
+        )}
+
+        {awaitingReview && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-2xl flex gap-3">
+            <UserCheck className="w-5 h-5 text-amber-600 shrink-0" />
+            <div>
+              <p className="text-sm font-black text-amber-800">{t('result.needsReview')}</p>
+              <p className="text-xs text-amber-700 mt-1">{t('result.needsReviewDetail', { threshold: Math.round(threshold * 100) })}</p>
+            </div>
+          </div>
+        )}
+
+        {result.consensus && <ConsensusPanel consensus={result.consensus} onOpenGuide={onOpenGuide} />}
+        {result.leaves && result.leafSummary && <LeavesPanel leaves={result.leaves} summary={result.leafSummary} onOpenGuide={onOpenGuide} />}
+
+        <p className="text-slate-700 text-sm leading-relaxed mb-6 font-medium">
+          {disease.description}
+        </p>
+
+        {result.lesionCount > 0 && (
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            <div className="bg-white/80 backdrop-blur-sm p-3 rounded-2xl border border-white/50">
+              <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t('result.lesions')}</p>
+              <p className="text-lg font-black text-slate-800">{result.lesionCount}</p>
+            </div>
+            <div className="bg-white/80 backdrop-blur-sm p-3 rounded-2xl border border-white/50">
+              <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t('result.avgSize')}</p>
+              <p className="text-lg font-black text-slate-800">{result.avgLesionSize.toFixed(1)}mm</p>
+            </div>
+            <div className="bg-white/80 backdrop-blur-sm p-3 rounded-2xl border border-white/50">
+              <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t('result.severity')}</p>
+              <p className="text-lg font-black text-rose-600">{result.severityScore}%</p>
+              <p className="text-[10px] text-slate-500 font-bold">
+                {t('result.grade', { scale: severityScaleShortName(scale.id), grade: grade.grade, range: formatSeverityClass(grade) })}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {result.measurement && <MeasurementPanel measurement={result.measurement} leaf={result.leaf} />}
+
+        {result.coInfections && result.coInfections.length > 0 && (
+          <div className="mb-6 p-4 bg-white/60 border border-white rounded-2xl space-y-2">
+            <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+              <Layers className="w-3 h-3" /> {t('result.coInfection')}
+            </p>
+            {result.coInfections.map((finding) => {
+              const info = getDiseaseInfo(finding.stage, finding.diseaseId);
+              return (
+                <button
+                  key={finding.diseaseId}
+                  onClick={() => onOpenGuide(guideAnchor(finding.stage, finding.diseaseId))}
+                  className="w-full flex items-center justify-between gap-3 text-left group"
+                >
+                  <span className={`text-sm font-bold ${info.color}`}>{info.name}</span>
+                  <span className="flex items-center gap-1 text-[10px] font-bold text-slate-500">
+                    {(finding.confidence * 100).toFixed(0)}% <ChevronRight className="w-3 h-3 group-hover:text-emerald-600" />
+                  </span>
+                </button>
+              );
+            })}
+            <p className="text-[10px] text-slate-500">{t('result.coInfectionNote')}</p>
+          </div>
+        )}
+
+        {result.rejectedByQualityGate && onAnalyzeAnyway && (
+          <div className="mb-6 p-4 bg-white/60 border border-white rounded-2xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <p className="text-xs text-slate-600 font-medium">{t('result.qualityRejected')}</p>
+            <button
+              onClick={onAnalyzeAnyway}
+              disabled={analyzing}
+              className="px-4 py-2 bg-slate-900 text-white rounded-xl font-bold text-xs hover:bg-slate-800 transition-all disabled:opacity-50 shrink-0"
+            >
+              {t('result.analyzeAnyway')}
+            </button>
+          </div>
+        )}
+
+        <div className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
+          {t('result.analyzedOn', { time: result.timestamp, provider: providerName })}
+        </div>
+        {result.preprocessing && (
+          <div className="text-[10px] text-slate-400 -mt-1">{describePreprocessing(result.preprocessing)}</div>
+        )}
+      </div>
+
+      {/* Refactored Detailed Symptom Breakdown */}
+      <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm overflow-hidden">
+        <div className="flex items-center justify-between mb-6">
+           <h4 className="font-black text-slate-800 flex items-center gap-2">
+            <BrainCircuit className="w-5 h-5 text-indigo-600" /> {t('result.breakdown')}
+          </h4>
+          <div className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase">
+             <Bookmark className="w-3 h-3" /> {t('result.markerHint')}
+          </div>
+        </div>
+        
+        <div className="space-y-6">
+           {result.detectedSymptoms.length > 0 && (
+             <div className="animate-in slide-in-from-left duration-500">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">{t('result.visibleMarkers')}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                   {result.detectedSymptoms.map((sym, i) => (
+                     <button 
+                       key={i} 
+                       onClick={() => onOpenGuide(guideAnchor(result.stage, result.diseaseId))}
+                       className="group flex items-center justify-between p-3 bg-indigo-50/50 hover:bg-indigo-100 text-left rounded-xl border border-indigo-100 transition-all hover:scale-[1.02]"
+                     >
+                        <div className="flex items-center gap-3">
+                          <div className="w-6 h-6 rounded-lg bg-white flex items-center justify-center shadow-sm group-hover:text-indigo-600 transition-colors">
+                            <Search className="w-3.5 h-3.5" />
+                          </div>
+                          <span className="text-xs font-bold text-indigo-900 leading-tight">{sym}</span>
+                        </div>
+                        <ChevronRight className="w-4 h-4 text-indigo-300 group-hover:text-indigo-600 transition-colors" />
+                     </button>
+                   ))}
+                </div>
+             </div>
+           )}
+
+           <div className="grid md:grid-cols-2 gap-4">
+             {result.visualEvidenceRegions && (
+               <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Target className="w-4 h-4 text-rose-500" />
+                    <p className="text-[10px] font-black text-slate-400 uppercase">{t('result.evidenceLocation')}</p>
+                  </div>
+                  <p className="text-sm text-slate-700 font-medium">{t('result.evidenceConcentrated', { region: result.visualEvidenceRegions })}</p>
+               </div>
+             )}
+
+             {result.aiExplanation && (
+               <div className="p-4 bg-emerald-50 rounded-2xl border border-emerald-100">
+                 <div className="flex items-center gap-2 mb-2">
+                    <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+                    <p className="text-[10px] font-black text-emerald-600 uppercase">{t('result.modelVerification')}</p>
+                 </div>
+                 <p className="text-xs text-slate-700 italic leading-relaxed">"{result.aiExplanation}"</p>
+               </div>
+             )}
+           </div>
+
+           {result.repairedFields.length > 0 && (
+             <div className="p-4 bg-amber-50 rounded-2xl border border-amber-100">
+               <div className="flex items-center gap-2 mb-2">
+                 <AlertCircle className="w-4 h-4 text-amber-600" />
+                 <p className="text-[10px] font-black text-amber-700 uppercase">{t('result.responseCorrected', { count: result.repairedFields.length })}</p>
+               </div>
+               <ul className="space-y-1">
+                 {result.repairedFields.map((repair, i) => (
+                   <li key={i} className="text-xs text-amber-800 font-mono leading-snug">{repair}</li>
+                 ))}
+               </ul>
+             </div>
+           )}
+        </div>
+      </div>
+
+      {/* Treatment Protocol */}
+      <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm">
+        <h4 className="font-black text-slate-800 flex items-center gap-2 mb-4">
+          <Shield className="w-5 h-5 text-emerald-600" /> {awaitingReview ? t('result.precautions') : t('result.managementSteps')}
+        </h4>
+        <div className="space-y-4">
+          {(awaitingReview ? [t('review.isolate'), t('review.retake'), t('review.holdSprays')] : treatedDisease.treatment.immediate).map((step, i) => (
+            <div key={i} className="flex gap-3 items-start group">
+              <div className="w-6 h-6 rounded-full bg-emerald-100 flex items-center justify-center shrink-0 mt-0.5 group-hover:bg-emerald-600 group-hover:text-white transition-colors">
+                <span className="text-[10px] font-bold">{i+1}</span>
+              </div>
+              <p className="text-sm text-slate-700 leading-snug">{step}</p>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => onOpenGuide(guideAnchor(treated.stage, treated.diseaseId))}
+          className="w-full mt-6 py-4 bg-emerald-50 hover:bg-emerald-100 text-emerald-800 rounded-2xl font-bold text-sm transition-all border border-emerald-100 flex items-center justify-center gap-2"
+        >
+          {t('result.exploreGuide')} <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResultCard;
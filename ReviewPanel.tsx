@@ -0,0 +1,245 @@
+import React, { useRef, useState } from 'react';
+import { ClipboardCheck, CheckCircle2, PenLine, Copy, X } from 'lucide-react';
+import { DiseaseId, DiseaseStage, LesionBox, LesionRegion, ScanLabel, ScanRecord } from './types';
+import { DIAGNOSIS_STAGES, describeDiagnosis, getDisease, isDiagnosisStage, isInfectionStage } from './diseases';
+import { getCrop } from './crops';
+import { getReviewStatus, loadReviewerName, saveReviewerName } from './review';
+import { getLocale, t } from './i18n';
+
+// Boxes smaller than this share of the image side are stray clicks, not lesions
+const MIN_BOX_SIZE = 0.01;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Drag on the photo to outline lesions; the AI boxes stay visible, dashed, for reference
+const LesionAnnotator: React.FC<{
+  image: string;
+  aiLesions: LesionRegion[];
+  boxes: LesionBox[];
+  onChange: (boxes: LesionBox[]) => void;
+}> = ({ image, aiLesions, boxes, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const toBox = (d: { x0: number; y0: number; x1: number; y1: number }): LesionBox => ({
+    x: Math.min(d.x0, d.x1),
+    y: Math.min(d.y0, d.y1),
+    width: Math.abs(d.x1 - d.x0),
+    height: Math.abs(d.y1 - d.y0),
+  });
+
+  const startDraft = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointAt(e);
+    setDraft({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const moveDraft = (e: React.PointerEvent) => {
+    if (!draft) return;
+    const { x, y } = pointAt(e);
+    setDraft({ ...draft, x1: x, y1: y });
+  };
+
+  const finishDraft = () => {
+    if (!draft) return;
+    const box = toBox(draft);
+    if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) onChange([...boxes, box]);
+    setDraft(null);
+  };
+
+  const boxStyle = (box: LesionBox) => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-xl overflow-hidden bg-slate-100 border border-slate-200 flex justify-center">
+        <div
+          ref={containerRef}
+          onPointerDown={startDraft}
+          onPointerMove={moveDraft}
+          onPointerUp={finishDraft}
+          className="relative cursor-crosshair touch-none select-none"
+        >
+          <img src={image} alt={t('review.annotateAlt')} draggable={false} className="max-h-72 w-auto block" />
+          {aiLesions.map((lesion, i) => (
+            <div key={`ai-${i}`} className="absolute border border-dashed border-slate-100/80 pointer-events-none" style={boxStyle(lesion)} />
+          ))}
+          {boxes.map((box, i) => (
+            <div key={i} className="absolute border-2 border-indigo-500 bg-indigo-500/10 rounded-sm" style={boxStyle(box)}>
+              <button
+                type="button"
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onChange(boxes.filter((_, j) => j !== i))}
+                className="absolute -top-2 -right-2 w-4 h-4 rounded-full bg-indigo-600 text-white flex items-center justify-center shadow"
+              >
+                <X className="w-2.5 h-2.5" />
+              </button>
+            </div>
+          ))}
+          {draft && <div className="absolute border-2 border-indigo-300 bg-indigo-300/20 pointer-events-none" style={boxStyle(toBox(draft))} />}
+        </div>
+      </div>
+      <div className="flex items-center justify-between text-[10px] text-slate-500">
+        <span>{t('review.outlined', { count: boxes.length })}</span>
+        {aiLesions.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(aiLesions.map(({ x, y, width, height }) => ({ x, y, width, height })))}
+            className="flex items-center gap-1 font-bold text-indigo-600 hover:underline"
+          >
+            <Copy className="w-3 h-3" /> {t('review.startFromModel')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Expert review of a stored scan: confirm the AI verdict or override it, outline lesions
+ * and leave notes. The AI result is never changed; the review is kept beside it as the label.
+ */
+const ReviewPanel: React.FC<{ record: ScanRecord; onSave: (label: ScanLabel | undefined) => Promise<void> }> = ({ record, onSave }) => {
+  const { result, label } = record;
+  const crop = getCrop(result.cropId);
+  const [stage, setStage] = useState<DiseaseStage>(label?.stage ?? result.stage);
+  const [diseaseId, setDiseaseId] = useState<DiseaseId>(label?.diseaseId ?? result.diseaseId ?? crop.diseases[0]);
+  const [notes, setNotes] = useState(label?.notes ?? '');
+  const [lesions, setLesions] = useState<LesionBox[]>(label?.lesions ?? []);
+  const [reviewer, setReviewer] = useState(label?.reviewer ?? loadReviewerName());
+  const [annotating, setAnnotating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const status = getReviewStatus(record);
+
+  const save = async (verdict: { stage: DiseaseStage; diseaseId?: DiseaseId } | null) => {
+    setSaving(true);
+    try {
+      saveReviewerName(reviewer.trim());
+      await onSave(verdict ? {
+        stage: verdict.stage,
+        diseaseId: isInfectionStage(verdict.stage) ? verdict.diseaseId : undefined,
+        labelledAt: Date.now(),
+        reviewer: reviewer.trim() || undefined,
+        notes: notes.trim() || undefined,
+        lesions: lesions.length > 0 ? lesions : undefined,
+      } : undefined);
+      if (verdict) {
+        setStage(verdict.stage);
+        if (verdict.diseaseId) setDiseaseId(verdict.diseaseId);
+      }
+      setAnnotating(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-[10px] font-black text-slate-400 uppercase flex items-center gap-1">
+          <ClipboardCheck className="w-3 h-3 text-indigo-600" /> {t('review.title')}
+        </span>
+        {status && (
+          <span className={`text-[10px] font-black px-2 py-0.5 rounded ${status === 'verified' ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+            {status === 'verified' ? t('review.verified') : t('review.corrected')}
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {t('review.aiVerdict')} <span className="font-bold text-slate-700">{result.stage} • {describeDiagnosis(result.stage, result.diseaseId, result.coInfections)}</span>
+        {label && status === 'corrected' && (
+          <> <br />{t('review.expertVerdict')} <span className="font-bold text-indigo-700">{label.stage} • {describeDiagnosis(label.stage, label.diseaseId)}</span></>
+        )}
+      </p>
+
+      <div className="flex gap-2">
+        <select
+          value={stage}
+          onChange={(e) => isDiagnosisStage(e.target.value) && setStage(e.target.value)}
+          className="px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white"
+        >
+          {DIAGNOSIS_STAGES.map((s) => <option key={s} value={s}>{s}</option>)}
+        </select>
+        {isInfectionStage(stage) && (
+          <select
+            value={diseaseId}
+            onChange={(e) => setDiseaseId(e.target.value as DiseaseId)}
+            className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white"
+          >
+            {crop.diseases.map((id) => <option key={id} value={id}>{getDisease(id).name}</option>)}
+          </select>
+        )}
+      </div>
+
+      <input
+        value={reviewer}
+        onChange={(e) => setReviewer(e.target.value)}
+        placeholder={t('review.reviewerName')}
+        className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm"
+      />
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder={t('review.notes')}
+        rows={2}
+        className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm resize-none"
+      />
+
+      {record.image && (annotating ? (
+        <LesionAnnotator image={record.image} aiLesions={result.lesions} boxes={lesions} onChange={setLesions} />
+      ) : (
+        <button
+          onClick={() => setAnnotating(true)}
+          className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:underline"
+        >
+          <PenLine className="w-3.5 h-3.5" /> {lesions.length > 0 ? t('review.editLesions', { count: lesions.length }) : t('review.outlineLesions')}
+        </button>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => save({ stage: result.stage, diseaseId: result.diseaseId })}
+          disabled={saving}
+          className="flex items-center gap-1 px-4 py-2 bg-emerald-600 text-white rounded-xl font-bold text-xs hover:bg-emerald-700 transition-all disabled:opacity-50"
+        >
+          <CheckCircle2 className="w-3.5 h-3.5" /> {t('review.confirm')}
+        </button>
+        <button
+          onClick={() => save({ stage, diseaseId })}
+          disabled={saving}
+          className="flex-1 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs hover:bg-indigo-700 transition-all disabled:opacity-50"
+        >
+          {t('review.save')}
+        </button>
+        {label && (
+          <button
+            onClick={() => save(null)}
+            disabled={saving}
+            className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl font-bold text-xs hover:bg-slate-200 transition-all disabled:opacity-50"
+          >
+            {t('review.clear')}
+          </button>
+        )}
+      </div>
+      {label && (
+        <p className="text-[10px] text-slate-400">
+          {label.reviewer
+            ? t('review.reviewedBy', { date: new Date(label.labelledAt).toLocaleString(getLocale()), reviewer: label.reviewer })
+            : t('review.reviewedOn', { date: new Date(label.labelledAt).toLocaleString(getLocale()) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Eye, Target, ScanEye } from 'lucide-react';
+import { AnalysisResult, LeafDiagnosis, LesionRegion } from './types';
+import { t } from './i18n';
+
+const LesionOverlay: React.FC<{ lesions: LesionRegion[] }> = ({ lesions }) => {
+  const [activeLesion, setActiveLesion] = useState<number | null>(null);
+
+  return (
+    <div className="absolute inset-0">
+      {lesions.map((lesion, i) => {
+        const isActive = activeLesion === i;
+        return (
+          <button
+            key={i}
+            type="button"
+            onMouseEnter={() => setActiveLesion(i)}
+            onMouseLeave={() => setActiveLesion(null)}
+            onClick={() => setActiveLesion(isActive ? null : i)}
+            className={`absolute rounded-md border-2 transition-all ${isActive ? 'border-amber-300 bg-amber-300/20 z-20' : 'border-rose-500 bg-rose-500/10 z-10'}`}
+            style={{
+              left: `${lesion.x * 100}%`,
+              top: `${lesion.y * 100}%`,
+              width: `${lesion.width * 100}%`,
+              height: `${lesion.height * 100}%`
+            }}
+          >
+            <span className="absolute -top-2 -left-2 w-4 h-4 rounded-full bg-rose-600 text-white text-[8px] font-black flex items-center justify-center shadow">
+              {i + 1}
+            </span>
+            {isActive && (
+              <span className={`absolute left-1/2 -translate-x-1/2 ${lesion.y > 0.7 ? 'bottom-full mb-2' : 'top-full mt-2'} bg-slate-900/90 backdrop-blur text-white text-[10px] px-2 py-1.5 rounded-lg font-bold whitespace-nowrap shadow-lg text-left`}>
+                <span className="block uppercase tracking-wider text-amber-300">{t('viewer.lesion', { index: i + 1 })}</span>
+                <span className="block">{t('viewer.diameter', { size: `${lesion.measured ? '' : '~'}${lesion.sizeMm.toFixed(1)}` })}</span>
+                <span className="block">{t('viewer.confidence', { percent: Math.round(lesion.confidence * 100) })}</span>
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+// Numbers each diagnosed leaf on the photo to match its card; the worst leaf is outlined in red
+const LeafOutlines: React.FC<{ leaves: LeafDiagnosis[]; worstLeaf?: number }> = ({ leaves, worstLeaf }) => (
+  <div className="absolute inset-0 pointer-events-none">
+    {leaves.map((leaf) => (
+      <div
+        key={leaf.index}
+        className={`absolute border-2 border-dashed rounded-lg ${leaf.index === worstLeaf ? 'border-rose-400' : 'border-emerald-300'}`}
+        style={{
+          left: `${leaf.box.x * 100}%`,
+          top: `${leaf.box.y * 100}%`,
+          width: `${leaf.box.width * 100}%`,
+          height: `${leaf.box.height * 100}%`
+        }}
+      >
+        <span className={`absolute top-1 left-1 px-1.5 rounded text-[9px] font-black uppercase text-white shadow ${leaf.index === worstLeaf ? 'bg-rose-600' : 'bg-emerald-700'}`}>
+          {t('leaves.leaf', { index: leaf.index })} • {leaf.stage}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+const ScanImageViewer: React.FC<{
+  image: string;
+  result: AnalysisResult | null;
+  showOverlay: boolean;
+  onToggleOverlay: () => void;
+  resolution?: { width: number; height: number };
+}> = ({ image, result, showOverlay, onToggleOverlay, resolution }) => {
+  const [showMask, setShowMask] = useState(false);
+  const mask = result?.leaf?.mask;
+
+  return (
+    <div className="relative rounded-2xl overflow-hidden bg-slate-100 border border-slate-200 h-80 flex items-center justify-center group">
+      <div className="relative max-h-full">
+        <img src={image} alt={t('viewer.imageAlt')} className="max-h-80 w-auto object-contain block" />
+        {showMask && mask && (
+          <img src={mask} alt="" className="absolute inset-0 w-full h-full pointer-events-none" />
+        )}
+        {result?.leaves && <LeafOutlines leaves={result.leaves} worstLeaf={result.leafSummary?.worstLeaf} />}
+        {showOverlay && result && result.stage !== 'H0' && result.stage !== 'N0' && (
+          <LesionOverlay lesions={result.lesions} />
+        )}
+      </div>
+
+      {showOverlay && result && result.stage !== 'H0' && result.stage !== 'N0' && (
+        <div className="absolute inset-0 pointer-events-none overflow-hidden">
+           <div className="absolute top-4 left-4 bg-rose-600 text-white text-[10px] px-2 py-1 rounded font-black uppercase flex items-center gap-1 shadow-lg">
+              <Target className="w-3 h-3" /> {result.lesions.length > 0 ? t('viewer.lesionsLocalized', { count: result.lesions.length }) : t('viewer.noLesions')}
+           </div>
+           <div className="absolute w-full h-0.5 bg-emerald-400 shadow-[0_0_15px_rgba(52,211,153,0.8)] top-0 left-0 animate-[scan_3s_infinite]" />
+        </div>
+      )}
+
+      <div className="absolute bottom-3 left-3 flex gap-2">
+         {result && (result.stage !== 'H0' && result.stage !== 'N0') && (
+           <button 
+             onClick={onToggleOverlay}
+             className={`p-2 rounded-lg backdrop-blur flex items-center gap-2 text-[10px] font-bold uppercase shadow-lg transition-all ${showOverlay ? 'bg-emerald-600 text-white' : 'bg-white/80 text-slate-700'}`}
+           >
+             <Eye className="w-3 h-3" /> {showOverlay ? t('viewer.hideLesionMap') : t('viewer.showLesionMap')}
+           </button>
+         )}
+         {mask && (
+           <button
+             onClick={() => setShowMask(!showMask)}
+             className={`p-2 rounded-lg backdrop-blur flex items-center gap-2 text-[10px] font-bold uppercase shadow-lg transition-all ${showMask ? 'bg-emerald-600 text-white' : 'bg-white/80 text-slate-700'}`}
+           >
+             <ScanEye className="w-3 h-3" /> {showMask ? t('viewer.hideLeafMask') : t('viewer.leafMask', { percent: result!.leaf!.coveragePercent })}
+           </button>
+         )}
+      </div>
+
+      {resolution && (
+        <div className="absolute bottom-3 right-3 bg-slate-900/80 backdrop-blur text-white text-[10px] px-2 py-1 rounded-lg uppercase tracking-wider font-bold">
+          {resolution.width} × {resolution.height}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanImageViewer;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, FlaskConical, CalendarClock, Bell, BellOff, Plus, Check, Sprout } from 'lucide-react';
+import { DiseaseId, DiseaseInfo, DiseaseStage, Plant, TreatmentApplication, TreatmentLog } from './types';
+import { getDiseaseInfo, getFollowUpSchedule } from './diseases';
+import { getTreatmentLog, saveTreatmentLog } from './historyStore';
+import { Reminder, createTreatmentLog, nextSprayAfter, describeReminder, notificationsEnabled, requestNotificationPermission } from './reminders';
+import { getLocale, t } from './i18n';
+
+const toDateInput = (date: number) => new Date(date - new Date(date).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+const fromDateInput = (value: string) => new Date(`${value}T08:00`).getTime();
+
+const TreatmentTracker: React.FC<{
+  scanId: string;
+  stage: DiseaseStage;
+  diseaseId?: DiseaseId;
+  scannedAt: number;
+  plantId?: string;
+  onChanged: () => void;
+}> = ({ scanId, stage, diseaseId, scannedAt, plantId, onChanged }) => {
+  const [log, setLog] = useState<TreatmentLog | null>(null);
+  const [product, setProduct] = useState('');
+  const [concentration, setConcentration] = useState('');
+  const [appliedOn, setAppliedOn] = useState(toDateInput(Date.now()));
+  const [canNotify, setCanNotify] = useState(notificationsEnabled);
+
+  useEffect(() => {
+    getTreatmentLog(scanId)
+      .then((saved) => setLog(saved || createTreatmentLog(scanId, stage, scannedAt, plantId, diseaseId)))
+      .catch((e) => console.error("Failed to load treatment log", e));
+  }, [scanId]);
+
+  if (!log) return null;
+
+  const protocol = getDiseaseInfo(stage, diseaseId).treatment;
+  const schedule = getFollowUpSchedule(stage, diseaseId);
+
+  const persist = async (updated: TreatmentLog) => {
+    const next = { ...updated, updatedAt: Date.now() };
+    setLog(next);
+    await saveTreatmentLog(next);
+    onChanged();
+  };
+
+  const toggleStep = (key: string) => {
+    const completedSteps = log.completedSteps.includes(key)
+      ? log.completedSteps.filter((k) => k !== key)
+      : [...log.completedSteps, key];
+    persist({ ...log, completedSteps });
+  };
+
+  const addApplication = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product.trim()) return;
+    const application: TreatmentApplication = {
+      id: crypto.randomUUID(),
+      date: fromDateInput(appliedOn),
+      product: product.trim(),
+      concentration: concentration.trim()
+    };
+    const applications = [...log.applications, application].sort((a, b) => a.date - b.date);
+    const latest = applications[applications.length - 1];
+    persist({ ...log, applications, nextSprayDate: nextSprayAfter(stage, latest.date, diseaseId) });
+    setProduct('');
+    setConcentration('');
+  };
+
+  const updateDate = (field: 'nextSprayDate' | 'rescanDate', value: string) => {
+    if (!value) return;
+    persist({ ...log, [field]: fromDateInput(value) });
+  };
+
+  const enableNotifications = async () => {
+    setCanNotify(await requestNotificationPermission());
+  };
+
+  const categories = (Object.entries(protocol) as [keyof DiseaseInfo['treatment'], string[]][]).filter(([cat]) => cat !== 'photographyTips' && cat !== 'tips');
+  const totalSteps = categories.reduce((n, [, steps]) => n + steps.length, 0);
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="font-black text-slate-800 flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-emerald-600" /> {t('treatmentLog.title')}
+        </h4>
+        <span className="text-[10px] font-black text-slate-400 uppercase">{t('treatmentLog.stepsDone', { done: log.completedSteps.length, total: totalSteps })}</span>
+      </div>
+
+      <div className="space-y-4">
+        {categories.map(([cat, steps]) => (
+          <div key={cat}>
+            <p className="text-[10px] font-black text-slate-500 uppercase mb-2 tracking-tighter">{t(`treatment.${cat}`)}</p>
+            <div className="space-y-1.5">
+              {steps.map((step, i) => {
+                const key = `${cat}:${i}`;
+                const done = log.completedSteps.includes(key);
+                return (
+                  <button
+                    key={key}
+                    onClick={() => toggleStep(key)}
+                    className="w-full flex items-start gap-3 text-left group"
+                  >
+                    <span className={`w-5 h-5 rounded-md border-2 flex items-center justify-center shrink-0 mt-0.5 transition-colors ${done ? 'bg-emerald-600 border-emerald-600 text-white' : 'border-slate-300 group-hover:border-emerald-400'}`}>
+                      {done && <Check className="w-3 h-3" />}
+                    </span>
+                    <span className={`text-xs leading-snug ${done ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{step}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {schedule.sprayIntervalDays && (
+        <div className="border-t border-slate-100 pt-6">
+          <p className="text-[10px] font-black text-slate-500 uppercase mb-3 tracking-tighter flex items-center gap-1">
+            <FlaskConical className="w-3 h-3" /> {t('treatmentLog.applications')}
+          </p>
+          {log.applications.length > 0 && (
+            <ul className="space-y-2 mb-4">
+              {log.applications.map((a) => (
+                <li key={a.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100 text-xs">
+                  <span className="font-bold text-slate-700">{a.product}{a.concentration && <span className="font-medium text-slate-500"> • {a.concentration}</span>}</span>
+                  <span className="text-slate-500">{new Date(a.date).toLocaleDateString(getLocale())}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={addApplication} className="grid grid-cols-2 md:grid-cols-[1fr_8rem_9rem_auto] gap-2">
+            <input
+              value={product}
+              onChange={(e) => setProduct(e.target.value)}
+              placeholder={t('treatmentLog.productPlaceholder')}
+              className="col-span-2 md:col-span-1 px-3 py-2 rounded-xl border border-slate-200 text-xs focus:outline-none focus:border-emerald-500"
+            />
+            <input
+              value={concentration}
+              onChange={(e) => setConcentration(e.target.value)}
+              placeholder={t('treatmentLog.concentrationPlaceholder')}
+              className="px-3 py-2 rounded-xl border border-slate-200 text-xs focus:outline-none focus:border-emerald-500"
+            />
+            <input
+              type="date"
+              value={appliedOn}
+              onChange={(e) => setAppliedOn(e.target.value)}
+              className="px-3 py-2 rounded-xl border border-slate-200 text-xs"
+            />
+            <button type="submit" className="col-span-2 md:col-span-1 flex items-center justify-center gap-1 px-4 py-2 bg-emerald-600 text-white rounded-xl font-bold text-xs hover:bg-emerald-700 transition-all">
+              <Plus className="w-3 h-3" /> {t('treatmentLog.log')}
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="border-t border-slate-100 pt-6 space-y-3">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-tighter flex items-center gap-1">
+          <CalendarClock className="w-3 h-3" /> {t('treatmentLog.followUp')}
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          {schedule.sprayIntervalDays && (
+            <label className="p-3 bg-amber-50 rounded-xl border border-amber-100 block">
+              <span className="text-[10px] font-black text-amber-700 uppercase block mb-1">{t('treatmentLog.nextSpray')}</span>
+              {log.nextSprayDate ? (
+                <input
+                  type="date"
+                  value={toDateInput(log.nextSprayDate)}
+                  onChange={(e) => updateDate('nextSprayDate', e.target.value)}
+                  className="bg-transparent text-sm font-bold text-amber-900 w-full"
+                />
+              ) : (
+                <span className="text-xs text-amber-700">{t('treatmentLog.nextSprayPending', { days: schedule.sprayIntervalDays })}</span>
+              )}
+            </label>
+          )}
+          <label className="p-3 bg-indigo-50 rounded-xl border border-indigo-100 block">
+            <span className="text-[10px] font-black text-indigo-700 uppercase block mb-1">{t('treatmentLog.rescan')}</span>
+            <input
+              type="date"
+              value={toDateInput(log.rescanDate)}
+              onChange={(e) => updateDate('rescanDate', e.target.value)}
+              className="bg-transparent text-sm font-bold text-indigo-900 w-full"
+            />
+          </label>
+        </div>
+        {!canNotify && (
+          <button onClick={enableNotifications} className="w-full py-2 bg-slate-50 text-slate-600 rounded-xl font-bold text-xs hover:bg-slate-100 transition-all border border-slate-100 flex items-center justify-center gap-2">
+            <Bell className="w-3 h-3" /> {t('treatmentLog.enableNotifications')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const RemindersPanel: React.FC<{
+  reminders: Reminder[];
+  plants: Plant[];
+  onOpenScan: (scanId: string) => void;
+}> = ({ reminders, plants, onOpenScan }) => {
+  const now = Date.now();
+  const upcoming = reminders.slice(0, 5);
+  if (upcoming.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm">
+      <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-4 text-sm">
+        {notificationsEnabled() ? <Bell className="w-4 h-4 text-emerald-600" /> : <BellOff className="w-4 h-4 text-slate-400" />} {t('reminders.title')}
+      </h3>
+      <div className="space-y-2">
+        {upcoming.map((r) => {
+          const overdue = r.due <= now;
+          const plant = plants.find((p) => p.id === r.plantId);
+          return (
+            <button
+              key={r.key}
+              onClick={() => onOpenScan(r.scanId)}
+              className={`w-full text-left p-3 rounded-xl border flex items-center justify-between gap-3 transition-all hover:scale-[1.01] ${overdue ? 'bg-rose-50 border-rose-100' : 'bg-slate-50 border-slate-100'}`}
+            >
+              <div>
+                <p className={`text-xs font-bold ${overdue ? 'text-rose-800' : 'text-slate-700'}`}>{describeReminder(r)}</p>
+                {plant && <p className="text-[10px] text-slate-500 flex items-center gap-1"><Sprout className="w-3 h-3" /> {plant.name}</p>}
+              </div>
+              <span className={`text-[10px] font-black uppercase shrink-0 ${overdue ? 'text-rose-600' : 'text-slate-500'}`}>
+                {overdue ? t('reminders.due') : new Date(r.due).toLocaleDateString(getLocale())}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TreatmentTracker;
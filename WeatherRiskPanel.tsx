@@ -0,0 +1,236 @@
+import React, { useRef, useState } from 'react';
+import { CloudRain, Download, FileUp, Plus, Droplets, AlertCircle } from 'lucide-react';
+import { RiskLevel, WeatherObservation, WeatherSourceId } from './types';
+import { buildSprayAdvisory, loadWeatherObservations, saveWeatherObservations, scoreDailyRisk } from './weatherRisk';
+import {
+  WEATHER_SOURCES, WeatherCsvError, loadWeatherSourcePreference, parseWeatherCsv,
+  saveWeatherSourcePreference, toDateKey, weatherSourceDescription, weatherSourceName
+} from './weatherSources';
+import { getLocale, t } from './i18n';
+import { MessageKey } from './messages';
+
+// Days fetched from a source and shown in the trend
+const TREND_DAYS = 7;
+
+const LEVEL_STYLES: Record<RiskLevel, { badge: string; bar: string; label: MessageKey }> = {
+  low: { badge: 'bg-emerald-50 text-emerald-700', bar: 'bg-emerald-400', label: 'weather.level.low' },
+  moderate: { badge: 'bg-amber-50 text-amber-700', bar: 'bg-amber-400', label: 'weather.level.moderate' },
+  high: { badge: 'bg-orange-50 text-orange-700', bar: 'bg-orange-500', label: 'weather.level.high' },
+  severe: { badge: 'bg-rose-50 text-rose-700', bar: 'bg-rose-600', label: 'weather.level.severe' },
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00`).toLocaleDateString(getLocale());
+
+const EMPTY_READING = { temperatureC: '', relativeHumidity: '', rainfallMm: '', leafWetnessHours: '' };
+
+const ReadingForm: React.FC<{ onSave: (observation: WeatherObservation) => void }> = ({ onSave }) => {
+  const [date, setDate] = useState(toDateKey(Date.now()));
+  const [reading, setReading] = useState(EMPTY_READING);
+  const fields: { key: keyof typeof EMPTY_READING; label: MessageKey; max: number }[] = [
+    { key: 'temperatureC', label: 'weather.field.temperature', max: 50 },
+    { key: 'relativeHumidity', label: 'weather.field.humidity', max: 100 },
+    { key: 'rainfallMm', label: 'weather.field.rain', max: 500 },
+    { key: 'leafWetnessHours', label: 'weather.field.wetness', max: 24 },
+  ];
+  const values = fields.map(({ key }) => parseFloat(reading[key]));
+  const valid = Boolean(date) && values.every((value, i) => Number.isFinite(value) && value <= fields[i].max && (fields[i].key === 'temperatureC' || value >= 0));
+
+  const save = () => {
+    const [temperatureC, relativeHumidity, rainfallMm, leafWetnessHours] = values;
+    onSave({ date, temperatureC, relativeHumidity, rainfallMm, leafWetnessHours, origin: 'manual' });
+    setReading(EMPTY_READING);
+  };
+
+  return (
+    <div className="bg-slate-50 rounded-2xl border border-slate-100 p-3 space-y-2">
+      <input
+        type="date"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white"
+      />
+      <div className="grid grid-cols-4 gap-2">
+        {fields.map(({ key, label, max }) => (
+          <label key={key} className="text-[10px] font-black text-slate-500 uppercase">
+            {t(label)}
+            <input
+              type="number"
+              inputMode="decimal"
+              step="0.1"
+              max={max}
+              value={reading[key]}
+              onChange={(e) => setReading({ ...reading, [key]: e.target.value })}
+              className="w-full mt-1 px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-medium normal-case bg-white"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={save}
+        disabled={!valid}
+        className="w-full py-2 bg-sky-600 text-white rounded-xl font-bold text-xs hover:bg-sky-700 transition-all disabled:opacity-50"
+      >
+        {t('weather.saveReading')}
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Daily Cercospora infection risk from field weather, with what to do about it. Readings come
+ * from manual entry, a CSV export or a weather source, and are kept on the device.
+ */
+const WeatherRiskPanel: React.FC = () => {
+  const [observations, setObservations] = useState<WeatherObservation[]>(loadWeatherObservations);
+  const [sourceId, setSourceId] = useState<WeatherSourceId>(loadWeatherSourcePreference);
+  const [showForm, setShowForm] = useState(false);
+  const [fetching, setFetching] = useState(false);
+  const [notice, setNotice] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const risks = observations.map(scoreDailyRisk);
+  const latest: WeatherObservation | undefined = observations[observations.length - 1];
+  const latestRisk = risks[risks.length - 1];
+  const advisory = latest ? buildSprayAdvisory(risks, latest) : null;
+  const trend = risks.slice(-TREND_DAYS);
+  const stale = latest && latest.date < toDateKey(Date.now());
+
+  const store = (added: WeatherObservation[]) => setObservations(saveWeatherObservations(added));
+
+  const fetchFromSource = async () => {
+    setFetching(true);
+    setNotice(null);
+    try {
+      saveWeatherSourcePreference(sourceId);
+      const fetched = await WEATHER_SOURCES[sourceId].fetchObservations(TREND_DAYS);
+      store(fetched);
+      setNotice({ error: false, text: t('weather.loaded', { count: fetched.length, source: weatherSourceName(sourceId) }) });
+    } catch (e) {
+      console.error("Weather fetch failed", e);
+      setNotice({ error: true, text: t('weather.fetchFailed', { source: weatherSourceName(sourceId) }) });
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const importCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { observations: imported, skippedRows } = parseWeatherCsv(await file.text());
+      store(imported);
+      setNotice({
+        error: false,
+        text: skippedRows
+          ? t('weather.importedSkipped', { count: imported.length, skipped: skippedRows })
+          : t('weather.imported', { count: imported.length }),
+      });
+    } catch (err) {
+      if (!(err instanceof WeatherCsvError)) console.error("Weather CSV import failed", err);
+      setNotice({ error: true, text: err instanceof WeatherCsvError ? err.message : t('weather.readFailed') });
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl p-6 shadow-sm space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2 text-sm">
+          <CloudRain className="w-4 h-4 text-sky-600" /> {t('weather.title')}
+        </h3>
+        {advisory && (
+          <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded ${LEVEL_STYLES[advisory.level].badge}`}>
+            {t(LEVEL_STYLES[advisory.level].label)}
+          </span>
+        )}
+      </div>
+
+      {latest && advisory ? (
+        <div className="space-y-3">
+          <div className="flex items-end gap-4">
+            <div>
+              <p className="text-3xl font-black text-slate-800">{latestRisk.score}<span className="text-sm text-slate-400">/100</span></p>
+              <p className="text-[10px] text-slate-500">
+                {formatDate(latest.date)}{stale && ` • ${t('weather.latestReading')}`}
+              </p>
+            </div>
+            <div className="flex-1 flex items-end gap-1 h-12">
+              {trend.map((risk) => (
+                <div key={risk.date} title={`${risk.date}: ${risk.score}`} className="flex-1 h-full bg-slate-50 rounded-sm flex items-end">
+                  <div className={`w-full rounded-sm ${LEVEL_STYLES[risk.level].bar}`} style={{ height: `${Math.max(risk.score, 4)}%` }} />
+                </div>
+              ))}
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-500 flex items-center gap-1">
+            <Droplets className="w-3 h-3 text-sky-500" />
+            {t('weather.conditions', {
+              temperature: latest.temperatureC,
+              humidity: latest.relativeHumidity,
+              rain: latest.rainfallMm,
+              wetness: latest.leafWetnessHours,
+            })}
+          </p>
+          <div className="bg-slate-50 rounded-2xl border border-slate-100 p-3">
+            <p className="text-xs font-bold text-slate-800 mb-1">{advisory.headline}</p>
+            <ul className="text-xs text-slate-600 space-y-1 list-disc pl-4">
+              {advisory.actions.map((action) => <li key={action}>{action}</li>)}
+            </ul>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          {t('weather.empty')}
+        </p>
+      )}
+
+      {notice && (
+        <p className={`text-[10px] font-bold flex items-center gap-1 ${notice.error ? 'text-rose-600' : 'text-emerald-700'}`}>
+          {notice.error && <AlertCircle className="w-3 h-3" />} {notice.text}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={sourceId}
+          onChange={(e) => setSourceId(e.target.value as WeatherSourceId)}
+          title={weatherSourceDescription(sourceId)}
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-slate-200 text-xs bg-white"
+        >
+          {Object.values(WEATHER_SOURCES).map((source) => <option key={source.id} value={source.id}>{weatherSourceName(source.id)}</option>)}
+        </select>
+        <button
+          onClick={fetchFromSource}
+          disabled={fetching}
+          className="flex items-center gap-1 px-3 py-2 bg-sky-600 text-white rounded-xl font-bold text-xs hover:bg-sky-700 transition-all disabled:opacity-50"
+        >
+          <Download className="w-3.5 h-3.5" /> {t('weather.fetch')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-3 py-2 bg-slate-100 text-slate-700 rounded-xl font-bold text-xs hover:bg-slate-200 transition-all"
+        >
+          <FileUp className="w-3.5 h-3.5" /> {t('weather.csv')}
+        </button>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-1 px-3 py-2 bg-slate-100 text-slate-700 rounded-xl font-bold text-xs hover:bg-slate-200 transition-all"
+        >
+          <Plus className="w-3.5 h-3.5" /> {t('weather.reading')}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={importCsv} className="hidden" />
+      </div>
+
+      {showForm && (
+        <ReadingForm
+          onSave={(observation) => {
+            store([observation]);
+            setNotice({ error: false, text: t('weather.saved', { date: formatDate(observation.date) }) });
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WeatherRiskPanel;
@@ -0,0 +1,293 @@
+import { AnalysisResult, ConsensusSummary, CropDefinition, Diagnosis, DiagnosisProvider, DiseaseId, DiseaseStage, ImageQuality, LeafDiagnosis, PreprocessingSummary, ReferenceObject, SeverityScale } from './types';
+import { loadImageSample, measureImageQuality, measureLesions, getRejectionReasons, buildQualityRejection, buildQualityIssues, buildShotViews, loadPreprocessingPreference, preprocessImage, uncropRegions, segmentLeaf, summarizeLeafSegmentation, LeafSegmentation, findLeaves, extractLeaf, mergeLeafSegmentations } from './imageProcessor';
+import { MAX_LEAVES, pickWorstLeaf, summarizeLeaves } from './leaves';
+import { MAX_CONSENSUS_SHOTS, buildConsensus } from './consensus';
+import { calibrateConfidence, loadAbstentionThreshold, loadReliabilityCurves, shouldAbstain } from './calibration';
+import { calculateSeverity, diseaseSeverityIndex } from './severityScales';
+import { runValidatedDiagnosis } from './diagnosisValidator';
+import { DIAGNOSIS_PROVIDERS, providerName } from './diagnosisProviders';
+import { DIAGNOSIS_STAGES, getDiseaseInfo, isInfectionStage } from './diseases';
+import { t } from './i18n';
+
+export interface PipelineOutput {
+  result: AnalysisResult;
+  quality: ImageQuality;
+  // The photo the result was measured on, when several were analysed together
+  image?: string;
+}
+
+interface ResultExtras {
+  reference?: ReferenceObject;
+  consensus?: ConsensusSummary;
+  preprocessing?: PreprocessingSummary;
+  // Per-leaf runs measure the worst leaf but mask every leaf that was diagnosed
+  measuredLeaf?: LeafSegmentation;
+  maskedLeaves?: LeafSegmentation;
+  leaves?: LeafDiagnosis[];
+  failedLeaves?: number;
+}
+
+// Measures the lesions on the analysed pixels and folds them into the verdict
+const assembleResult = (
+  aiResult: Diagnosis,
+  repairs: string[],
+  sample: ImageData,
+  quality: ImageQuality,
+  provider: DiagnosisProvider,
+  crop: CropDefinition,
+  rejectedByQualityGate: boolean,
+  { reference, consensus, preprocessing, measuredLeaf, maskedLeaves, leaves, failedLeaves }: ResultExtras = {}
+): AnalysisResult => {
+  const stage = aiResult.stage;
+  const segmentation = measuredLeaf ?? (rejectedByQualityGate ? null : segmentLeaf(sample));
+  const masked = maskedLeaves ?? segmentation;
+  // Healthy and invalid verdicts have no lesions to measure
+  const measured = isInfectionStage(stage) ? measureLesions(sample, segmentation, reference, aiResult.lesions) : null;
+  const severityScore = calculateSeverity(stage, measured?.measurement, aiResult.affectedAreaPercent);
+  const calibratedConfidence = rejectedByQualityGate ? undefined : calibrateConfidence(aiResult.confidence, stage, loadReliabilityCurves());
+
+  return {
+    cropId: crop.id,
+    stage,
+    diseaseId: aiResult.diseaseId,
+    confidence: aiResult.confidence,
+    calibratedConfidence,
+    needsReview: !rejectedByQualityGate && shouldAbstain(stage, calibratedConfidence ?? aiResult.confidence, loadAbstentionThreshold()),
+    disease: getDiseaseInfo(stage, aiResult.diseaseId),
+    lesionCount: aiResult.lesionCount,
+    avgLesionSize: measured?.measurement.meanLesionDiameterMm || aiResult.avgLesionSize,
+    severityScore,
+    timestamp: new Date().toLocaleString(),
+    qualityIssues: buildQualityIssues(quality),
+    aiExplanation: aiResult.explanation,
+    detectedSymptoms: aiResult.detectedSymptoms,
+    visualEvidenceRegions: aiResult.visualEvidenceRegions,
+    lesions: measured?.lesions ?? aiResult.lesions,
+    measurement: measured?.measurement,
+    leaf: masked ? summarizeLeafSegmentation(masked) : undefined,
+    leaves,
+    leafSummary: leaves && summarizeLeaves(leaves, failedLeaves),
+    consensus,
+    preprocessing,
+    coInfections: aiResult.coInfections,
+    provider: provider.id,
+    repairedFields: repairs,
+    rejectedByQualityGate
+  };
+};
+
+// Sends the model a preprocessed copy and moves its lesion boxes back onto the original photo
+const diagnoseShot = async (provider: DiagnosisProvider, image: string, crop: CropDefinition) => {
+  const prepared = await preprocessImage(image, loadPreprocessingPreference());
+  const { diagnosis, repairs } = await runValidatedDiagnosis(provider, prepared.image, crop);
+  return {
+    diagnosis: { ...diagnosis, lesions: uncropRegions(diagnosis.lesions, prepared.summary.leafCrop) },
+    repairs,
+    preprocessing: prepared.summary,
+  };
+};
+
+// Quality check, optional pre-rejection, provider call, validation and lesion measurement for a single image
+export const analyzeImage = async (
+  image: string,
+  provider: DiagnosisProvider,
+  crop: CropDefinition,
+  skipQualityGate = false,
+  reference?: ReferenceObject
+): Promise<PipelineOutput> => {
+  const { pixels, resolution } = await loadImageSample(image);
+  const quality = measureImageQuality(pixels, resolution);
+
+  const rejectionReasons = skipQualityGate ? [] : getRejectionReasons(quality);
+  const { diagnosis, repairs, preprocessing } = rejectionReasons.length > 0
+    ? { diagnosis: buildQualityRejection(rejectionReasons), repairs: [], preprocessing: undefined }
+    : await diagnoseShot(provider, image, crop);
+
+  const result = assembleResult(diagnosis, repairs, pixels, quality, provider, crop, rejectionReasons.length > 0, { reference, preprocessing });
+  return { result, quality };
+};
+
+// Cloud shots go out together; the on-device model is CPU bound, so its shots run one at a time
+const settleShots = async <T>(tasks: (() => Promise<T>)[], parallel: boolean): Promise<PromiseSettledResult<T>[]> => {
+  if (parallel) return Promise.allSettled(tasks.map((task) => task()));
+  const outcomes: PromiseSettledResult<T>[] = [];
+  for (const task of tasks) {
+    outcomes.push(await task().then(
+      (value): PromiseSettledResult<T> => ({ status: 'fulfilled', value }),
+      (reason): PromiseSettledResult<T> => ({ status: 'rejected', reason })
+    ));
+  }
+  return outcomes;
+};
+
+export interface ConsensusOptions {
+  // Diagnose a centre crop and a mirror image of each photo alongside the full frame
+  multiView: boolean;
+  skipQualityGate?: boolean;
+  reference?: ReferenceObject;
+}
+
+/**
+ * Diagnoses several photos of one plant, optionally in several views each, and votes on
+ * the verdict. Photos that fail the quality gate and shots whose call fails abstain.
+ * The first usable photo is the one measured, stored and shown with lesion boxes.
+ */
+export const analyzeConsensus = async (
+  photos: string[],
+  provider: DiagnosisProvider,
+  crop: CropDefinition,
+  { multiView, skipQualityGate = false, reference }: ConsensusOptions
+): Promise<PipelineOutput> => {
+  const checked = await Promise.all(photos.map(async (image) => {
+    const { pixels, resolution } = await loadImageSample(image);
+    const quality = measureImageQuality(pixels, resolution);
+    return { image, pixels, quality, rejected: !skipQualityGate && getRejectionReasons(quality).length > 0 };
+  }));
+  const usable = checked.filter((photo) => !photo.rejected);
+  // With nothing to vote on, report the first photo's rejection as a single scan would
+  if (usable.length === 0) return analyzeImage(photos[0], provider, crop, false, reference);
+
+  const views = multiView ? await Promise.all(usable.map((photo) => buildShotViews(photo.image))) : usable.map((photo) => [photo.image]);
+  const shots = views.flatMap((photoViews, photo) => photoViews.map((image, view) => ({ image, photo, view })))
+    .slice(0, MAX_CONSENSUS_SHOTS);
+  const outcomes = await settleShots(shots.map((shot) => () => diagnoseShot(provider, shot.image, crop)), provider.requiresNetwork);
+  const answered = shots.flatMap((shot, i) => {
+    const outcome = outcomes[i];
+    return outcome.status === 'fulfilled' ? [{ ...shot, ...outcome.value }] : [];
+  });
+  if (answered.length === 0) throw (outcomes[0] as PromiseRejectedResult).reason;
+
+  const { diagnosis, summary, agreeing } = buildConsensus(answered.map((a) => a.diagnosis), usable.length, shots.length - answered.length);
+  // Lesion boxes and the model's region wording only match the photo they describe, so they come
+  // from its full-frame shot; a crop or mirror would say "left edge" about a different part of it
+  const framed = agreeing.map((i) => answered[i]).find((a) => a.photo === 0 && a.view === 0);
+  const repairs = answered.flatMap((a, i) => a.repairs.map((repair) => `shot ${i + 1}: ${repair}`));
+  const primary = usable[0];
+
+  const result = assembleResult(
+    {
+      ...diagnosis,
+      lesions: framed?.diagnosis.lesions ?? [],
+      explanation: framed?.diagnosis.explanation ?? '',
+      visualEvidenceRegions: framed?.diagnosis.visualEvidenceRegions ?? '',
+    },
+    repairs, primary.pixels, primary.quality, provider, crop, false,
+    { reference, consensus: summary, preprocessing: framed?.preprocessing }
+  );
+  return { result, quality: primary.quality, image: primary.image };
+};
+
+/**
+ * Finds every leaf in the photo and diagnoses each on its own, cut out of the frame. The plant
+ * verdict is the worst leaf's; lesion boxes from every leaf are mapped back onto the photo.
+ * A photo with a single leaf, or one the quality gate rejects, is analysed as an ordinary scan.
+ */
+export const analyzeLeaves = async (
+  image: string,
+  provider: DiagnosisProvider,
+  crop: CropDefinition,
+  skipQualityGate = false,
+  reference?: ReferenceObject
+): Promise<PipelineOutput> => {
+  const { pixels, resolution } = await loadImageSample(image);
+  const quality = measureImageQuality(pixels, resolution);
+  const found = findLeaves(pixels, MAX_LEAVES);
+  if (found.length < 2 || (!skipQualityGate && getRejectionReasons(quality).length > 0)) {
+    return analyzeImage(image, provider, crop, skipQualityGate, reference);
+  }
+
+  const cutouts = await Promise.all(found.map((leaf) => extractLeaf(image, leaf)));
+  const outcomes = await settleShots(cutouts.map((cutout) => () => diagnoseShot(provider, cutout.image, crop)), provider.requiresNetwork);
+  const answered = found.flatMap((segmentation, i) => {
+    const outcome = outcomes[i];
+    if (outcome.status !== 'fulfilled') return [];
+    const { diagnosis, repairs, preprocessing } = outcome.value;
+    const lesions = uncropRegions(diagnosis.lesions, cutouts[i].crop);
+    const measured = isInfectionStage(diagnosis.stage) ? measureLesions(pixels, segmentation, reference, lesions) : null;
+    const leaf: LeafDiagnosis = {
+      index: i + 1,
+      box: segmentation.box,
+      stage: diagnosis.stage,
+      diseaseId: diagnosis.diseaseId,
+      confidence: diagnosis.confidence,
+      lesionCount: diagnosis.lesionCount,
+      severityScore: calculateSeverity(diagnosis.stage, measured?.measurement, diagnosis.affectedAreaPercent),
+      coInfections: diagnosis.coInfections,
+    };
+    return [{ leaf, segmentation, diagnosis: { ...diagnosis, lesions: measured?.lesions ?? lesions }, repairs, preprocessing }];
+  });
+  if (answered.length === 0) throw (outcomes[0] as PromiseRejectedResult).reason;
+
+  const leaves = answered.map((a) => a.leaf);
+  const worstLeaf = pickWorstLeaf(leaves);
+  const worst = answered.find((a) => a.leaf === worstLeaf)!;
+  const repairs = answered.flatMap((a) => a.repairs.map((repair) => `leaf ${a.leaf.index}: ${repair}`));
+
+  const result = assembleResult(
+    { ...worst.diagnosis, lesions: answered.flatMap((a) => a.diagnosis.lesions) },
+    repairs, pixels, quality, provider, crop, false,
+    {
+      reference,
+      preprocessing: worst.preprocessing,
+      measuredLeaf: worst.segmentation,
+      maskedLeaves: mergeLeafSegmentations(answered.map((a) => a.segmentation)),
+      leaves,
+      failedLeaves: found.length - answered.length,
+    }
+  );
+  return { result, quality };
+};
+
+export const describeAnalysisError = (provider: DiagnosisProvider): string =>
+  provider.requiresNetwork
+    ? t('analysis.networkError', { provider: providerName(provider.id), fallback: providerName(DIAGNOSIS_PROVIDERS.local.id) })
+    : t('analysis.localError', { provider: providerName(provider.id) });
+
+// Network hiccups are worth retrying; a local model that failed to load will fail again
+export const isRetryableAnalysisError = (provider: DiagnosisProvider) => provider.requiresNetwork;
+
+export interface ResultSummary {
+  total: number;
+  stageCounts: Record<DiseaseStage, number>;
+  // Images each disease was found on, as the primary diagnosis or a co-infection
+  diseaseCounts: Partial<Record<DiseaseId, number>>;
+  // Scans that say something about plant health (everything except N0)
+  diagnosticCount: number;
+  diseasedCount: number;
+  incidenceRate: number;
+  meanSeverity: number;
+  // McKinney index on the chosen scale over the diagnostic scans, healthy leaves included
+  severityIndex: number;
+}
+
+export const summarizeResults = (results: AnalysisResult[], scale: SeverityScale): ResultSummary => {
+  const stageCounts = DIAGNOSIS_STAGES.reduce(
+    (counts, stage) => ({ ...counts, [stage]: 0 }),
+    {} as Record<DiseaseStage, number>
+  );
+  const diseaseCounts: Partial<Record<DiseaseId, number>> = {};
+  const severities: number[] = [];
+
+  for (const result of results) {
+    stageCounts[result.stage]++;
+    const found = [result.diseaseId, ...(result.coInfections ?? []).map((c) => c.diseaseId)];
+    for (const id of new Set(found)) {
+      if (id) diseaseCounts[id] = (diseaseCounts[id] ?? 0) + 1;
+    }
+    if (result.stage !== 'N0') severities.push(parseFloat(result.severityScore) || 0);
+  }
+
+  const diagnosticCount = results.length - stageCounts.N0;
+  const diseasedCount = stageCounts.E1 + stageCounts.E2 + stageCounts.E3;
+
+  return {
+    total: results.length,
+    stageCounts,
+    diseaseCounts,
+    diagnosticCount,
+    diseasedCount,
+    incidenceRate: diagnosticCount ? diseasedCount / diagnosticCount : 0,
+    meanSeverity: diagnosticCount ? severities.reduce((sum, s) => sum + s, 0) / diagnosticCount : 0,
+    severityIndex: diseaseSeverityIndex(severities, scale)
+  };
+};
@@ -0,0 +1,73 @@
+export type BatchJobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface BatchProgress<R> {
+  index: number;
+  status: BatchJobStatus;
+  attempt: number;
+  result?: R;
+  error?: string;
+}
+
+export interface BatchOptions<R> {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  onProgress: (progress: BatchProgress<R>) => void;
+  // Errors for which another attempt cannot help, e.g. a missing local model
+  isRetryable?: (error: unknown) => boolean;
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = window.setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      window.clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// Exponential backoff with full jitter so parallel workers don't retry in lockstep
+export const backoffDelay = (attempt: number, baseDelayMs: number) =>
+  Math.random() * baseDelayMs * 2 ** (attempt - 1);
+
+/**
+ * Runs `worker` over every item with at most `concurrency` jobs in flight.
+ * Failed jobs are retried with backoff; progress is reported per item and
+ * the promise resolves once every job has finished or failed.
+ */
+export const runBatch = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: BatchOptions<R>
+): Promise<void> => {
+  const { concurrency, maxRetries, baseDelayMs, onProgress, isRetryable = () => true, signal } = options;
+  let next = 0;
+
+  const runJob = async (index: number) => {
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) return;
+      onProgress({ index, status: attempt === 1 ? 'running' : 'retrying', attempt });
+      try {
+        const result = await worker(items[index], index);
+        onProgress({ index, status: 'done', attempt, result });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt > maxRetries || !isRetryable(error)) {
+          onProgress({ index, status: 'failed', attempt, error: message });
+          return;
+        }
+        await sleep(backoffDelay(attempt, baseDelayMs), signal);
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await runJob(next++);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, lane));
+};
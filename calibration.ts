@@ -0,0 +1,118 @@
+import { DIAGNOSIS_STAGES, isInfectionStage } from './diseases';
+import { AnalysisResult, DiseaseStage, ReliabilityBin, ReliabilityCurves, ScanRecord } from './types';
+
+// Verdicts the calibrated confidence puts below this are held back for expert review
+export const DEFAULT_ABSTENTION_THRESHOLD = 0.6;
+export const ABSTENTION_THRESHOLD_RANGE = { min: 0.3, max: 0.9, step: 0.05 };
+// Confidence at or above this is shown as high
+export const HIGH_CONFIDENCE = 0.85;
+
+const RELIABILITY_BIN_COUNT = 10;
+// Pseudo-count pulling a sparsely labelled bin toward the raw confidence instead of trusting a handful of scans
+const CALIBRATION_PRIOR = 5;
+
+const ABSTENTION_STORAGE_KEY = 'phytoscan_abstention_threshold';
+const RELIABILITY_STORAGE_KEY = 'phytoscan_reliability_curves';
+
+export const loadAbstentionThreshold = (): number => {
+  const saved = parseFloat(localStorage.getItem(ABSTENTION_STORAGE_KEY) ?? '');
+  return saved >= ABSTENTION_THRESHOLD_RANGE.min && saved <= ABSTENTION_THRESHOLD_RANGE.max ? saved : DEFAULT_ABSTENTION_THRESHOLD;
+};
+
+export const saveAbstentionThreshold = (threshold: number) => {
+  localStorage.setItem(ABSTENTION_STORAGE_KEY, String(threshold));
+};
+
+// Curves are rebuilt from history whenever labels change and cached so analysis need not read every scan
+export const loadReliabilityCurves = (): ReliabilityCurves => {
+  try {
+    return JSON.parse(localStorage.getItem(RELIABILITY_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveReliabilityCurves = (curves: ReliabilityCurves) => {
+  localStorage.setItem(RELIABILITY_STORAGE_KEY, JSON.stringify(curves));
+};
+
+// The disease only has to match when both verdicts name one
+export const isLabelCorrect = (record: Pick<ScanRecord, 'label' | 'result'>): boolean =>
+  !!record.label && record.label.stage === record.result.stage &&
+  (!isInfectionStage(record.label.stage) || record.label.diseaseId === record.result.diseaseId);
+
+const binIndex = (confidence: number) =>
+  Math.min(Math.max(Math.floor(confidence * RELIABILITY_BIN_COUNT), 0), RELIABILITY_BIN_COUNT - 1);
+
+/**
+ * Per predicted stage, how often labelled scans at each raw confidence were right.
+ * Quality-gate rejections never reached the model, so they are left out.
+ */
+export const buildReliabilityCurves = (records: ScanRecord[]): ReliabilityCurves => {
+  const curves: ReliabilityCurves = {};
+  for (const record of records) {
+    if (!record.label || record.result.rejectedByQualityGate) continue;
+    const { stage, confidence } = record.result;
+    const bins = curves[stage] ??= Array.from({ length: RELIABILITY_BIN_COUNT }, (_, i) => ({
+      min: i / RELIABILITY_BIN_COUNT,
+      max: (i + 1) / RELIABILITY_BIN_COUNT,
+      count: 0,
+      correct: 0,
+      meanConfidence: 0,
+    }));
+    const bin = bins[binIndex(confidence)];
+    bin.meanConfidence = (bin.meanConfidence * bin.count + confidence) / (bin.count + 1);
+    bin.count++;
+    if (isLabelCorrect(record)) bin.correct++;
+  }
+  return curves;
+};
+
+export const curveTotals = (bins: ReliabilityBin[]) => ({
+  count: bins.reduce((sum, bin) => sum + bin.count, 0),
+  correct: bins.reduce((sum, bin) => sum + bin.correct, 0),
+});
+
+/**
+ * The observed accuracy of labelled scans in the same stage and confidence bin, shrunk toward
+ * the raw confidence by CALIBRATION_PRIOR. Undefined when no labelled scan covers the bin.
+ */
+export const calibrateConfidence = (confidence: number, stage: DiseaseStage, curves: ReliabilityCurves): number | undefined => {
+  const bin = curves[stage]?.[binIndex(confidence)];
+  if (!bin?.count) return undefined;
+  return (bin.correct + CALIBRATION_PRIOR * confidence) / (bin.count + CALIBRATION_PRIOR);
+};
+
+export const effectiveConfidence = (result: Pick<AnalysisResult, 'confidence' | 'calibratedConfidence'>) =>
+  result.calibratedConfidence ?? result.confidence;
+
+export interface AccuracyReport {
+  total: number;
+  correct: number;
+  // Right stage, wrong disease
+  diseaseMismatches: number;
+  // Scan counts by AI stage, then expert stage
+  confusion: Record<DiseaseStage, Record<DiseaseStage, number>>;
+}
+
+// How the AI verdicts of labelled scans compare with the expert labels
+export const buildAccuracyReport = (records: ScanRecord[]): AccuracyReport => {
+  const confusion = Object.fromEntries(DIAGNOSIS_STAGES.map((predicted) => [
+    predicted,
+    Object.fromEntries(DIAGNOSIS_STAGES.map((actual) => [actual, 0])),
+  ])) as AccuracyReport['confusion'];
+  const report: AccuracyReport = { total: 0, correct: 0, diseaseMismatches: 0, confusion };
+
+  for (const record of records) {
+    if (!record.label || record.result.rejectedByQualityGate) continue;
+    report.total++;
+    confusion[record.result.stage][record.label.stage]++;
+    if (isLabelCorrect(record)) report.correct++;
+    else if (record.label.stage === record.result.stage) report.diseaseMismatches++;
+  }
+  return report;
+};
+
+// N0 is already an abstention, so only healthy and disease verdicts can be held back
+export const shouldAbstain = (stage: DiseaseStage, confidence: number, threshold: number) =>
+  stage !== 'N0' && confidence < threshold;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildConsensus } from './consensus';
+import { Diagnosis, DiseaseStage } from './types';
+
+const shot = (stage: DiseaseStage, confidence: number, extra: Partial<Diagnosis> = {}): Diagnosis => ({
+  diseaseId: stage === 'H0' || stage === 'N0' ? undefined : 'cercospora',
+  stage,
+  confidence,
+  lesionCount: 0,
+  avgLesionSize: 0,
+  explanation: '',
+  detectedSymptoms: [],
+  visualEvidenceRegions: '',
+  lesions: [],
+  coInfections: [],
+  ...extra,
+});
+
+describe('buildConsensus', () => {
+  it('gives a split vote to the more advanced stage, however sure the milder shot was', () => {
+    const { diagnosis, summary, agreeing } = buildConsensus([shot('H0', 0.9), shot('E2', 0.6)], 2);
+    expect(diagnosis.stage).toBe('E2');
+    expect(agreeing).toEqual([1]);
+    expect(summary.agreement).toBe(0.5);
+    expect(diagnosis.confidence).toBeCloseTo(0.3);
+  });
+
+  it('breaks a tie between equally advanced verdicts on confidence', () => {
+    const { diagnosis } = buildConsensus([shot('E1', 0.5), shot('E1', 0.9, { diseaseId: 'alternaria_leaf_spot' })], 2);
+    expect(diagnosis.diseaseId).toBe('alternaria_leaf_spot');
+  });
+
+  it('lets the majority win over a more advanced minority', () => {
+    const { diagnosis, summary } = buildConsensus([shot('H0', 0.8), shot('H0', 0.7), shot('E3', 0.95)], 3);
+    expect(diagnosis.stage).toBe('H0');
+    expect(summary.votes.map((v) => v.stage)).toEqual(['H0', 'E3']);
+  });
+
+  it('lets N0 shots abstain unless nothing else voted', () => {
+    expect(buildConsensus([shot('N0', 0.9), shot('E1', 0.4)], 2).summary.abstained).toBe(1);
+    expect(buildConsensus([shot('N0', 0.9)], 1).diagnosis.stage).toBe('N0');
+  });
+});
@@ -0,0 +1,86 @@
+import { isInfectionStage } from './stages';
+import { ConsensusSummary, ConsensusVote, Diagnosis } from './types';
+
+// Views cut from each photo when multi-view consensus is on: the full frame, a centre crop and a mirror image
+export const VIEWS_PER_PHOTO = 3;
+// Each shot is a provider call, so runs are capped to keep cost and latency bounded
+export const MAX_CONSENSUS_SHOTS = 9;
+
+const CONSENSUS_VIEWS_STORAGE_KEY = 'phytoscan_consensus_views';
+
+export const loadConsensusViewsPreference = (): boolean => localStorage.getItem(CONSENSUS_VIEWS_STORAGE_KEY) === 'true';
+
+export const saveConsensusViewsPreference = (enabled: boolean) => {
+  localStorage.setItem(CONSENSUS_VIEWS_STORAGE_KEY, String(enabled));
+};
+
+interface Ballot extends ConsensusVote {
+  shots: number[];
+}
+
+export interface ConsensusOutcome {
+  diagnosis: Diagnosis;
+  summary: ConsensusSummary;
+  // Indexes of the shots that back the consensus verdict, most confident first
+  agreeing: number[];
+}
+
+// Ties go to the more advanced verdict so a split vote never plays a disease down
+const stageRank = (vote: ConsensusVote) => isInfectionStage(vote.stage) ? Number(vote.stage[1]) : 0;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Votes on the (disease, stage) verdict of several shots of one plant. Confidence is the share
+ * of voting shots that agree times their mean confidence, so a split vote reads as uncertain
+ * however sure each shot was. N0 shots abstain unless no shot gave a usable verdict.
+ */
+export const buildConsensus = (diagnoses: Diagnosis[], photos: number, failedShots = 0): ConsensusOutcome => {
+  const usable = diagnoses.map((d, i) => i).filter((i) => diagnoses[i].stage !== 'N0');
+  const voters = usable.length > 0 ? usable : diagnoses.map((d, i) => i);
+
+  const ballots = new Map<string, Ballot>();
+  for (const i of voters) {
+    const { diseaseId, stage, confidence } = diagnoses[i];
+    const key = `${diseaseId ?? ''}:${stage}`;
+    const ballot = ballots.get(key) ?? { diseaseId, stage, count: 0, meanConfidence: 0, shots: [] };
+    ballot.meanConfidence = (ballot.meanConfidence * ballot.count + confidence) / (ballot.count + 1);
+    ballot.count++;
+    ballot.shots.push(i);
+    ballots.set(key, ballot);
+  }
+  const ranked = [...ballots.values()].sort((a, b) =>
+    b.count - a.count || stageRank(b) - stageRank(a) || b.meanConfidence - a.meanConfidence
+  );
+
+  const winner = ranked[0];
+  const agreeing = [...winner.shots].sort((a, b) => diagnoses[b].confidence - diagnoses[a].confidence);
+  const backing = agreeing.map((i) => diagnoses[i]);
+  const agreement = winner.count / voters.length;
+  const estimates = backing.flatMap((d) => d.affectedAreaPercent === undefined ? [] : [d.affectedAreaPercent]);
+
+  const diagnosis: Diagnosis = {
+    ...backing[0],
+    confidence: agreement * winner.meanConfidence,
+    lesionCount: Math.round(median(backing.map((d) => d.lesionCount))),
+    avgLesionSize: median(backing.map((d) => d.avgLesionSize)),
+    affectedAreaPercent: estimates.length > 0 ? median(estimates) : undefined,
+    detectedSymptoms: [...new Set(backing.flatMap((d) => d.detectedSymptoms))],
+  };
+
+  return {
+    diagnosis,
+    agreeing,
+    summary: {
+      photos,
+      shots: diagnoses.length + failedShots,
+      abstained: diagnoses.length + failedShots - voters.length,
+      agreement,
+      votes: ranked.map(({ shots, ...vote }) => vote),
+    },
+  };
+};
@@ -1,8 +1,8 @@
+import { CheckCircle, AlertCircle, XCircle, Info, CloudSnow, CloudRain, CloudDrizzle, Droplets, Bug, Leaf, Sprout, Target } from 'lucide-react';
+import { DiseaseDefinition, DiseaseId, DiseaseInfo, DiseaseStage, FollowUpSchedule } from './types';
 
-import { CheckCircle, AlertCircle, XCircle, Info } from 'lucide-react';
-import { DiseaseInfo, DiseaseStage } from './types';
-
-export const DISEASE_DATABASE: Record<DiseaseStage, DiseaseInfo> = {
+// Verdicts about the leaf as a whole, independent of any disease
+export const LEAF_STATUS: Record<'H0' | 'N0', DiseaseInfo> = {
   H0: {
     name: "Healthy Plant",
     severity: 0,
@@ -32,167 +32,6 @@ export const DISEASE_DATABASE: Record<DiseaseStage, DiseaseInfo> = {
       cultural: ["Ensure adequate sunlight (6-8 hours)", "Maintain consistent watering schedule", "Use well-draining soil"]
     }
   },
-  E1: {
-    name: "Early Infection (Cercospora Leaf Spot)",
-    severity: 1,
-    color: "text-yellow-600",
-    bgColor: "bg-yellow-50",
-    borderColor: "border-yellow-300",
-    icon: AlertCircle,
-    description: "Initial fungal penetration with 1-3mm purple/brown dots and yellow halos.",
-    symptoms: [
-      "Small purple/brown dots (1-3mm diameter)",
-      "Yellow halo around each lesion",
-      "Light green patches on leaves",
-      "Leaf edges may curl slightly",
-      "Tips slightly pale",
-      "Growth slower than usual",
-      "Slightly leaf dropping in hot periods"
-    ],
-    biologicalInterpretation: "Initial fungal penetration through leaf stomata. Fungal spores germinating on moist leaf surfaces.",
-    visualDescription: "1-3mm purple/brown dots with yellow halo",
-    forAIUse: "Important for early detection model",
-    lesionSizeRange: "1-3mm",
-    treatment: {
-      immediate: [
-        "Remove affected leaves immediately (cut at stem)",
-        "Isolate plant if in group setting (2m distance)",
-        "Reduce overhead watering completely",
-        "Improve air circulation around plants"
-      ],
-      chemical: [
-        "Apply Chlorothalonil fungicide (500ppm solution)",
-        "Alternative: Copper-based fungicide (1% solution)",
-        "Spray in early morning (6-8am) or evening (5-7pm)",
-        "Repeat application every 7-10 days",
-        "Ensure thorough coverage of leaf surfaces"
-      ],
-      cultural: [
-        "Water only at base of plant (avoid leaf wetting)",
-        "Increase spacing between plants to 20-25cm",
-        "Remove lower leaves touching soil",
-        "Avoid working with plants when wet",
-        "Ensure proper drainage"
-      ],
-      preventive: [
-        "Apply preventive fungicide spray weekly",
-        "Improve drainage around plants",
-        "Ensure 6+ hours of direct sunlight"
-      ]
-    },
-    prognosis: "Excellent recovery rate (>90%) if treated within 3-5 days. Plant can return to full health."
-  },
-  E2: {
-    name: "Mid Infection (Cercospora Leaf Spot)",
-    severity: 2,
-    color: "text-orange-600",
-    bgColor: "bg-orange-50",
-    borderColor: "border-orange-300",
-    icon: AlertCircle,
-    description: "Sporulation phase with expanding lesions (5-12mm), turning brown-grey.",
-    symptoms: [
-      "Lesions expand to 5-12mm diameter",
-      "Color changes from purple to brown-grey",
-      "Yellowing on older leaves (chlorosis)",
-      "Turgor loss on leaves",
-      "Wilting that doesn't recover after watering",
-      "Edges turn brown and brittle",
-      "Stems become thin or weak",
-      "Stunted growth (50% slower)",
-      "Multiple lesions per leaf (3-8)"
-    ],
-    biologicalInterpretation: "Sporulation begins. Fungus spreading through leaf tissue, disrupting chlorophyll production and water transport.",
-    visualDescription: "Lesions expand (5-12mm), turn brown-grey",
-    forAIUse: "Helps severity classifier",
-    lesionSizeRange: "5-12mm",
-    treatment: {
-      immediate: [
-        "Remove all infected leaves (up to 30% of plant)",
-        "Dispose of removed leaves in sealed bag - do NOT compost",
-        "Stop overhead watering completely",
-        "Increase plant spacing to 25-30cm if possible"
-      ],
-      chemical: [
-        "Apply systemic fungicide (Mancozeb 80% WP at 2g/L or Propiconazole 25% EC at 1ml/L)",
-        "Alternate between two different fungicide classes to prevent resistance",
-        "Spray every 5-7 days for 3 weeks minimum",
-        "Ensure complete coverage including leaf undersides",
-        "Use spreader-sticker for better adhesion"
-      ],
-      cultural: [
-        "Water only in morning (6-9am) at soil level",
-        "Remove all plant debris around base daily",
-        "Improve soil drainage with sand/organic matter",
-        "Add 5cm organic mulch to prevent splash-back",
-        "Prune for better air circulation (remove dense foliage)"
-      ],
-      nutritional: [
-        "Apply balanced fertilizer (NPK 15-15-15) to boost immunity",
-        "Avoid high nitrogen fertilizers (>20% N)",
-        "Consider potassium supplement (K2O) for disease resistance",
-        "Foliar spray with calcium chloride (0.5%)"
-      ]
-    },
-    prognosis: "Good recovery possible (60-70%) with aggressive treatment. Yield may be reduced by 15-30%. Treatment must be consistent."
-  },
-  E3: {
-    name: "Late/Severe Infection (Cercospora Leaf Spot)",
-    severity: 3,
-    color: "text-red-600",
-    bgColor: "bg-red-50",
-    borderColor: "border-red-300",
-    icon: XCircle,
-    description: "Tissue death with large necrotic patches (>12mm), leaf yellowing, and defoliation.",
-    symptoms: [
-      "Large necrotic patches (>12mm, up to 30mm)",
-      "Severe leaf yellowing throughout plant",
-      "Significant defoliation (>40% leaf loss)",
-      "Crispy brown edges, leaf curling",
-      "Stems collapse or severe yellowing",
-      "Multiple coalescing lesions per leaf (8+)",
-      "Plant height stunted (<50% normal)",
-      "Root may rot if overwatered",
-      "Severe wilting even after watering",
-      "Plant may not recover"
-    ],
-    biologicalInterpretation: "Tissue death & chlorophyll collapse. Extensive fungal colonization has severely damaged vascular system. Photosynthesis critically impaired.",
-    visualDescription: "Large necrotic patches (>12mm), leaf yellowing, defoliation",
-    forAIUse: "Highest severity level",
-    lesionSizeRange: ">12mm",
-    treatment: {
-      immediate: [
-        "Assess plant viability (if >70% affected, consider removal)",
-        "Remove ALL diseased foliage (may be 50-80% of plant)",
-        "If roots healthy and firm, cut back to healthy green tissue",
-        "Isolate from other plants immediately (5m minimum)",
-        "Disinfect all tools with 10% bleach solution after use"
-      ],
-      chemical: [
-        "Apply high-strength systemic fungicide (Propiconazole 25% EC at 2ml/L)",
-        "Soil drench with fungicide to treat root zone (100ml per plant)",
-        "Spray every 5 days for immediate control (minimum 4 applications)",
-        "May need 4-6 weekly applications for any recovery",
-        "Consider tank-mixing compatible fungicides"
-      ],
-      cultural: [
-        "Remove plant from growing area if recovery unlikely",
-        "Do NOT compost diseased material - burn or dispose in sealed bag",
-        "Sterilize all tools with 70% alcohol or 10% bleach",
-        "Treat soil with fungicide or solarize before replanting",
-        "Let area rest for 3-4 weeks before new planting",
-        "Remove all fallen leaves and debris from surrounding area"
-      ],
-      recovery: [
-        "If attempting recovery: provide optimal conditions (25-30°C, high light)",
-        "Reduce watering to minimum (check soil moisture first)",
-        "Support weak stems with bamboo stakes",
-        "Monitor daily for improvement or further decline",
-        "Apply foliar nutrients (liquid fertilizer at half strength)",
-        "Expect 4-6 weeks for any visible improvement"
-      ]
-    },
-    prognosis: "Poor. Recovery rate is low (20-30%). Yield loss typically 60-100%. Priority is preventing spread to healthy plants. Consider replanting."
-  },
   N0: {
     name: "Non-Disease / Image Quality Issue",
     severity: 0,
@@ -240,3 +79,1076 @@ export const DISEASE_DATABASE: Record<DiseaseStage, DiseaseInfo> = {
     }
   }
 };
+
+// Used for scans recorded before multi-disease support and by the Cercospora-only local model
+export const DEFAULT_DISEASE: DiseaseId = 'cercospora';
+
+export const DISEASE_DATABASE: Record<DiseaseId, DiseaseDefinition> = {
+  cercospora: {
+    id: 'cercospora',
+    name: "Cercospora Leaf Spot",
+    agent: "Cercospora spp.",
+    category: 'Fungal',
+    icon: Sprout,
+    overview: "Circular purple-brown spots with yellow halos that enlarge into grey-brown necrotic patches. Spores spread in warm, humid weather and survive on crop debris.",
+    stages: {
+      E1: {
+        name: "Early Infection (Cercospora Leaf Spot)",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Initial fungal penetration with 1-3mm purple/brown dots and yellow halos.",
+        symptoms: [
+          "Small purple/brown dots (1-3mm diameter)",
+          "Yellow halo around each lesion",
+          "Light green patches on leaves",
+          "Leaf edges may curl slightly",
+          "Tips slightly pale",
+          "Growth slower than usual",
+          "Slightly leaf dropping in hot periods"
+        ],
+        biologicalInterpretation: "Initial fungal penetration through leaf stomata. Fungal spores germinating on moist leaf surfaces.",
+        visualDescription: "1-3mm purple/brown dots with yellow halo",
+        forAIUse: "Important for early detection model",
+        lesionSizeRange: "1-3mm",
+        treatment: {
+          immediate: [
+            "Remove affected leaves immediately (cut at stem)",
+            "Isolate plant if in group setting (2m distance)",
+            "Reduce overhead watering completely",
+            "Improve air circulation around plants"
+          ],
+          chemical: [
+            "Apply Chlorothalonil fungicide (500ppm solution)",
+            "Alternative: Copper-based fungicide (1% solution)",
+            "Spray in early morning (6-8am) or evening (5-7pm)",
+            "Repeat application every 7-10 days",
+            "Ensure thorough coverage of leaf surfaces"
+          ],
+          cultural: [
+            "Water only at base of plant (avoid leaf wetting)",
+            "Increase spacing between plants to 20-25cm",
+            "Remove lower leaves touching soil",
+            "Avoid working with plants when wet",
+            "Ensure proper drainage"
+          ],
+          preventive: [
+            "Apply preventive fungicide spray weekly",
+            "Improve drainage around plants",
+            "Ensure 6+ hours of direct sunlight"
+          ]
+        },
+        prognosis: "Excellent recovery rate (>90%) if treated within 3-5 days. Plant can return to full health."
+      },
+      E2: {
+        name: "Mid Infection (Cercospora Leaf Spot)",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Sporulation phase with expanding lesions (5-12mm), turning brown-grey.",
+        symptoms: [
+          "Lesions expand to 5-12mm diameter",
+          "Color changes from purple to brown-grey",
+          "Yellowing on older leaves (chlorosis)",
+          "Turgor loss on leaves",
+          "Wilting that doesn't recover after watering",
+          "Edges turn brown and brittle",
+          "Stems become thin or weak",
+          "Stunted growth (50% slower)",
+          "Multiple lesions per leaf (3-8)"
+        ],
+        biologicalInterpretation: "Sporulation begins. Fungus spreading through leaf tissue, disrupting chlorophyll production and water transport.",
+        visualDescription: "Lesions expand (5-12mm), turn brown-grey",
+        forAIUse: "Helps severity classifier",
+        lesionSizeRange: "5-12mm",
+        treatment: {
+          immediate: [
+            "Remove all infected leaves (up to 30% of plant)",
+            "Dispose of removed leaves in sealed bag - do NOT compost",
+            "Stop overhead watering completely",
+            "Increase plant spacing to 25-30cm if possible"
+          ],
+          chemical: [
+            "Apply systemic fungicide (Mancozeb 80% WP at 2g/L or Propiconazole 25% EC at 1ml/L)",
+            "Alternate between two different fungicide classes to prevent resistance",
+            "Spray every 5-7 days for 3 weeks minimum",
+            "Ensure complete coverage including leaf undersides",
+            "Use spreader-sticker for better adhesion"
+          ],
+          cultural: [
+            "Water only in morning (6-9am) at soil level",
+            "Remove all plant debris around base daily",
+            "Improve soil drainage with sand/organic matter",
+            "Add 5cm organic mulch to prevent splash-back",
+            "Prune for better air circulation (remove dense foliage)"
+          ],
+          nutritional: [
+            "Apply balanced fertilizer (NPK 15-15-15) to boost immunity",
+            "Avoid high nitrogen fertilizers (>20% N)",
+            "Consider potassium supplement (K2O) for disease resistance",
+            "Foliar spray with calcium chloride (0.5%)"
+          ]
+        },
+        prognosis: "Good recovery possible (60-70%) with aggressive treatment. Yield may be reduced by 15-30%. Treatment must be consistent."
+      },
+      E3: {
+        name: "Late/Severe Infection (Cercospora Leaf Spot)",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Tissue death with large necrotic patches (>12mm), leaf yellowing, and defoliation.",
+        symptoms: [
+          "Large necrotic patches (>12mm, up to 30mm)",
+          "Severe leaf yellowing throughout plant",
+          "Significant defoliation (>40% leaf loss)",
+          "Crispy brown edges, leaf curling",
+          "Stems collapse or severe yellowing",
+          "Multiple coalescing lesions per leaf (8+)",
+          "Plant height stunted (<50% normal)",
+          "Root may rot if overwatered",
+          "Severe wilting even after watering",
+          "Plant may not recover"
+        ],
+        biologicalInterpretation: "Tissue death & chlorophyll collapse. Extensive fungal colonization has severely damaged vascular system. Photosynthesis critically impaired.",
+        visualDescription: "Large necrotic patches (>12mm), leaf yellowing, defoliation",
+        forAIUse: "Highest severity level",
+        lesionSizeRange: ">12mm",
+        treatment: {
+          immediate: [
+            "Assess plant viability (if >70% affected, consider removal)",
+            "Remove ALL diseased foliage (may be 50-80% of plant)",
+            "If roots healthy and firm, cut back to healthy green tissue",
+            "Isolate from other plants immediately (5m minimum)",
+            "Disinfect all tools with 10% bleach solution after use"
+          ],
+          chemical: [
+            "Apply high-strength systemic fungicide (Propiconazole 25% EC at 2ml/L)",
+            "Soil drench with fungicide to treat root zone (100ml per plant)",
+            "Spray every 5 days for immediate control (minimum 4 applications)",
+            "May need 4-6 weekly applications for any recovery",
+            "Consider tank-mixing compatible fungicides"
+          ],
+          cultural: [
+            "Remove plant from growing area if recovery unlikely",
+            "Do NOT compost diseased material - burn or dispose in sealed bag",
+            "Sterilize all tools with 70% alcohol or 10% bleach",
+            "Treat soil with fungicide or solarize before replanting",
+            "Let area rest for 3-4 weeks before new planting",
+            "Remove all fallen leaves and debris from surrounding area"
+          ],
+          recovery: [
+            "If attempting recovery: provide optimal conditions (25-30°C, high light)",
+            "Reduce watering to minimum (check soil moisture first)",
+            "Support weak stems with bamboo stakes",
+            "Monitor daily for improvement or further decline",
+            "Apply foliar nutrients (liquid fertilizer at half strength)",
+            "Expect 4-6 weeks for any visible improvement"
+          ]
+        },
+        prognosis: "Poor. Recovery rate is low (20-30%). Yield loss typically 60-100%. Priority is preventing spread to healthy plants. Consider replanting."
+      }
+    }
+  },
+  white_rust: {
+    id: 'white_rust',
+    name: "White Rust",
+    agent: "Albugo ipomoeae-aquaticae",
+    category: 'Oomycete',
+    icon: CloudSnow,
+    overview: "The most damaging leaf disease of leafy greens in wet seasons. Creamy white blister-like pustules form on leaf undersides, matched by yellow spots on the upper surface; severe infections swell and distort stems.",
+    stages: {
+      E1: {
+        name: "Early White Rust",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Pale yellow spots on the upper leaf surface with a few small white pustules (1-2mm) underneath.",
+        symptoms: [
+          "Pale yellow or light green spots on the upper surface",
+          "Small raised white pustules (1-2mm) on the underside",
+          "Pustules scattered, not yet joined",
+          "Leaves still flat with normal texture"
+        ],
+        biologicalInterpretation: "Zoospores have infected through stomata under leaf wetness and the first sporangia are breaking through the lower epidermis.",
+        visualDescription: "Chlorotic upper-surface spots over scattered white underside pustules",
+        forAIUse: "Distinguish from Cercospora: white powdery pustules, no purple-brown ring",
+        lesionSizeRange: "1-2mm pustules",
+        treatment: {
+          immediate: [
+            "Pick off leaves showing pustules and bag them",
+            "Stop overhead or sprinkler irrigation",
+            "Harvest healthy shoots early to reduce inoculum"
+          ],
+          chemical: [
+            "Apply metalaxyl + mancozeb (e.g. 2.5g/L) as a protective spray",
+            "Alternative: copper hydroxide (2g/L)",
+            "Repeat every 7 days while wet weather continues",
+            "Observe the product's pre-harvest interval before cutting"
+          ],
+          cultural: [
+            "Widen spacing to let foliage dry quickly",
+            "Avoid dense planting in shaded, humid beds",
+            "Remove volunteer plants and related weeds nearby"
+          ]
+        },
+        prognosis: "Very good if infected leaves are removed and spraying starts before pustules spread."
+      },
+      E2: {
+        name: "Mid White Rust",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Numerous white pustules merging into patches, with yellowing and mild leaf distortion.",
+        symptoms: [
+          "Dense white pustules covering parts of the underside",
+          "Pustules merging into irregular patches",
+          "Yellow blotches on the upper surface",
+          "Leaves starting to cup or pucker",
+          "Pustules on petioles"
+        ],
+        biologicalInterpretation: "Secondary cycles of sporangia are spreading the pathogen leaf to leaf; systemic colonisation of petioles has begun.",
+        visualDescription: "Coalescing white pustules with yellow blotches and cupping",
+        forAIUse: "Mid severity white rust",
+        lesionSizeRange: "Patches 3-10mm",
+        treatment: {
+          immediate: [
+            "Cut back heavily infected shoots and remove from the field",
+            "Do not compost infected material",
+            "Keep foliage dry; irrigate at soil level in the morning"
+          ],
+          chemical: [
+            "Spray metalaxyl + mancozeb every 5-7 days for 3 applications",
+            "Rotate with a copper fungicide to limit resistance",
+            "Cover leaf undersides where pustules form"
+          ],
+          cultural: [
+            "Improve drainage and air movement between beds",
+            "Rogue badly affected plants to protect neighbours",
+            "Avoid working in the crop while foliage is wet"
+          ]
+        },
+        prognosis: "Fair (50-70% recovery) with removal of infected shoots and consistent spraying. Marketable yield is reduced."
+      },
+      E3: {
+        name: "Severe White Rust",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Leaves covered in pustules, swollen and twisted stems (galls), browning and leaf drop.",
+        symptoms: [
+          "Pustules covering most of the leaf underside",
+          "Swollen, distorted stems and petioles (galls)",
+          "Twisted, stunted shoot tips",
+          "Browning and death of infected tissue",
+          "Heavy leaf drop"
+        ],
+        biologicalInterpretation: "Systemic infection causing hypertrophy of stem tissue; oospores forming in galls will survive in crop debris.",
+        visualDescription: "Pustule-covered leaves with stem galls and distortion",
+        forAIUse: "Highest severity white rust",
+        lesionSizeRange: "Whole-leaf coverage",
+        treatment: {
+          immediate: [
+            "Remove and destroy galled plants; they cannot recover",
+            "Clear all crop debris from the bed",
+            "Isolate the bed from healthy plantings"
+          ],
+          chemical: [
+            "Protect surrounding beds with metalaxyl + mancozeb every 5 days",
+            "Do not rely on sprays to cure galled plants"
+          ],
+          cultural: [
+            "Rotate away from the same crop family for at least one season",
+            "Use seed or cuttings from clean plants only",
+            "Flood or solarize the bed before replanting where possible"
+          ]
+        },
+        prognosis: "Poor. Galled plants are unmarketable; focus on protecting healthy beds and clearing oospore-bearing debris."
+      }
+    }
+  },
+  bacterial_leaf_spot: {
+    id: 'bacterial_leaf_spot',
+    name: "Bacterial Leaf Spot",
+    agent: "Xanthomonas and Pseudomonas spp.",
+    category: 'Bacterial',
+    icon: Droplets,
+    overview: "Water-soaked spots that turn dark brown to black, often angular and bordered by leaf veins. Spread by rain splash, irrigation water and handling; fungicides alone do not control it.",
+    stages: {
+      E1: {
+        name: "Early Bacterial Leaf Spot",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Tiny water-soaked, greasy-looking spots (1-2mm) that darken, sometimes with a faint yellow margin.",
+        symptoms: [
+          "Small water-soaked or greasy spots",
+          "Spots dark green to brown, angular along veins",
+          "Faint yellow margin on some spots",
+          "No powdery growth or concentric rings"
+        ],
+        biologicalInterpretation: "Bacteria have entered through stomata or wounds and are multiplying in the spaces between leaf cells.",
+        visualDescription: "Water-soaked angular dark specks",
+        forAIUse: "Distinguish from Cercospora: greasy, angular, no grey centre",
+        lesionSizeRange: "1-2mm",
+        treatment: {
+          immediate: [
+            "Remove spotted leaves and bag them",
+            "Stop overhead irrigation to prevent splash spread",
+            "Disinfect knives and hands after handling affected plants"
+          ],
+          chemical: [
+            "Apply copper hydroxide or copper oxychloride (2g/L) every 7 days",
+            "Fungicides without copper are not effective against bacteria",
+            "Observe the product's pre-harvest interval before cutting"
+          ],
+          cultural: [
+            "Avoid harvesting or working when leaves are wet",
+            "Use clean water for irrigation where possible",
+            "Avoid excess nitrogen, which produces soft susceptible growth"
+          ]
+        },
+        prognosis: "Good when splash spread is stopped early; new growth is usually clean."
+      },
+      E2: {
+        name: "Mid Bacterial Leaf Spot",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Many dark brown to black spots (3-6mm) with yellow halos, starting to merge.",
+        symptoms: [
+          "Numerous dark brown to black angular spots",
+          "Bright yellow halos around spots",
+          "Spots merging along veins and margins",
+          "Centres may dry and crack"
+        ],
+        biologicalInterpretation: "Bacterial populations are high enough to kill tissue and ooze onto the leaf surface, driving splash spread.",
+        visualDescription: "Dark angular spots with yellow halos, merging",
+        forAIUse: "Mid severity bacterial spot",
+        lesionSizeRange: "3-6mm",
+        treatment: {
+          immediate: [
+            "Remove badly spotted leaves and shoots",
+            "Keep people and tools out of the bed when wet"
+          ],
+          chemical: [
+            "Spray copper every 5-7 days for 3 applications",
+            "Add mancozeb to copper to improve control where permitted"
+          ],
+          cultural: [
+            "Increase spacing and remove weeds to speed drying",
+            "Clean harvest tools between beds with 10% bleach"
+          ]
+        },
+        prognosis: "Fair. Spotted leaves do not recover but regrowth can be protected with copper and dry foliage."
+      },
+      E3: {
+        name: "Severe Bacterial Blight",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Spots coalesce into large black blighted areas; leaves wither and shoot tips rot.",
+        symptoms: [
+          "Large blackened blighted areas",
+          "Leaves yellowing and withering",
+          "Soft rot of shoot tips in wet weather",
+          "Leaf drop across the plant"
+        ],
+        biologicalInterpretation: "Extensive bacterial colonisation has collapsed leaf tissue; shoots act as a major inoculum source.",
+        visualDescription: "Blackened coalesced lesions with leaf collapse",
+        forAIUse: "Highest severity bacterial spot",
+        lesionSizeRange: ">6mm, coalescing",
+        treatment: {
+          immediate: [
+            "Remove and destroy severely affected plants",
+            "Stop irrigation water flowing from affected to healthy beds"
+          ],
+          chemical: [
+            "Protect neighbouring beds with copper every 5 days",
+            "Sprays will not rescue blighted plants"
+          ],
+          cultural: [
+            "Rotate away from kangkung and other Ipomoea for a season",
+            "Plant only cuttings from disease-free stock"
+          ]
+        },
+        prognosis: "Poor for affected plants. Remove them and protect the rest of the crop."
+      }
+    }
+  },
+  pest_damage: {
+    id: 'pest_damage',
+    name: "Aphid / Mite Damage",
+    agent: "Aphis gossypii, Tetranychus spp.",
+    category: 'Pest',
+    icon: Bug,
+    overview: "Sap-sucking pests rather than a pathogen. Aphids curl leaves and leave sticky honeydew and sooty mould; spider mites cause fine yellow stippling, bronzing and webbing in hot, dry weather.",
+    stages: {
+      E1: {
+        name: "Light Pest Damage",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Scattered pale stippling or a few aphid colonies on young shoots and leaf undersides.",
+        symptoms: [
+          "Fine pale speckles (stippling) on the upper surface",
+          "Small aphid colonies on shoot tips or undersides",
+          "Slight curling of young leaves",
+          "Shiny honeydew patches"
+        ],
+        biologicalInterpretation: "Pest populations are establishing; feeding removes cell contents but the plant is still growing normally.",
+        visualDescription: "Fine stippling or small insect colonies",
+        forAIUse: "Distinguish from disease: stippling, insects, honeydew; no discrete lesions",
+        treatment: {
+          immediate: [
+            "Inspect leaf undersides with a hand lens to confirm aphids or mites",
+            "Hose colonies off with a strong water spray",
+            "Remove the most infested shoots"
+          ],
+          chemical: [
+            "Spray neem oil or insecticidal soap, covering undersides",
+            "Repeat every 5-7 days while pests are present"
+          ],
+          cultural: [
+            "Keep beds weed-free to remove pest refuges",
+            "Encourage ladybirds and lacewings; avoid broad-spectrum sprays"
+          ]
+        },
+        prognosis: "Excellent. Light infestations are easily controlled and new growth is unaffected."
+      },
+      E2: {
+        name: "Moderate Pest Damage",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Widespread stippling or bronzing, curled leaves, honeydew with sooty mould, possible fine webbing.",
+        symptoms: [
+          "Stippling merging into yellow or bronze areas",
+          "Curled, puckered young leaves",
+          "Black sooty mould on honeydew",
+          "Fine webbing on undersides (mites)",
+          "Slower shoot growth"
+        ],
+        biologicalInterpretation: "Feeding is reducing photosynthesis; aphids may also be spreading viruses between plants.",
+        visualDescription: "Bronzed or curled leaves with sooty mould or webbing",
+        forAIUse: "Mid severity pest damage",
+        treatment: {
+          immediate: [
+            "Remove heavily infested shoots",
+            "Wash foliage to remove honeydew and mites"
+          ],
+          chemical: [
+            "Aphids: use a registered insecticide for leafy vegetables if soap and neem fail",
+            "Mites: use a dedicated miticide (e.g. abamectin); most insecticides do not kill mites",
+            "Observe the product's pre-harvest interval before cutting"
+          ],
+          cultural: [
+            "Keep soil moist in hot spells; drought stress favours mites",
+            "Avoid excess nitrogen, which favours aphid build-up"
+          ]
+        },
+        prognosis: "Good with control. Damaged leaves stay marked, but regrowth is clean."
+      },
+      E3: {
+        name: "Severe Pest Damage",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Leaves bronzed, dried or heavily distorted; dense colonies or webbing covering shoots.",
+        symptoms: [
+          "Leaves bronzed, dry and brittle",
+          "Dense webbing over shoot tips",
+          "Heavy sooty mould coating leaves",
+          "Severely stunted and distorted shoots",
+          "Leaf drop"
+        ],
+        biologicalInterpretation: "Pest pressure exceeds the plant's capacity to regrow; the bed is a source for neighbouring crops.",
+        visualDescription: "Bronzed, webbed or heavily distorted shoots",
+        forAIUse: "Highest severity pest damage",
+        treatment: {
+          immediate: [
+            "Cut back and remove the worst shoots from the field",
+            "Treat neighbouring beds before pests move across"
+          ],
+          chemical: [
+            "Apply a miticide or insecticide matched to the confirmed pest",
+            "Rotate chemical groups between applications to slow resistance"
+          ],
+          cultural: [
+            "Consider clearing and replanting badly damaged beds",
+            "Monitor weekly with sticky traps and leaf checks after replanting"
+          ]
+        },
+        prognosis: "Fair. Plants often regrow after cutting back if the pest is controlled."
+      }
+    },
+    // Soap and neem only kill the pests they touch, so they are reapplied more often than fungicides
+    followUp: {
+      E1: { sprayIntervalDays: 5, rescanAfterDays: 5 },
+      E2: { sprayIntervalDays: 5, rescanAfterDays: 5 },
+      E3: { sprayIntervalDays: 5, rescanAfterDays: 3 }
+    }
+  },
+  nutrient_deficiency: {
+    id: 'nutrient_deficiency',
+    name: "Nutrient Deficiency",
+    agent: "Lack of N, Fe, K or Mg",
+    category: 'Abiotic',
+    icon: Leaf,
+    overview: "Discoloration caused by nutrition rather than infection. Uniform yellowing of older leaves points to nitrogen, yellowing between veins of young leaves to iron, and scorched margins on older leaves to potassium.",
+    stages: {
+      E1: {
+        name: "Mild Nutrient Deficiency",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Slight, even paling or interveinal yellowing without spots or lesions.",
+        symptoms: [
+          "Even pale green to yellow colour on older leaves",
+          "Or yellowing between veins on young leaves, veins stay green",
+          "No spots, pustules or halos",
+          "Symptoms symmetric across leaves"
+        ],
+        biologicalInterpretation: "Supply of one or more nutrients is below demand; chlorophyll production is starting to fall.",
+        visualDescription: "Uniform or interveinal chlorosis, no lesions",
+        forAIUse: "Distinguish from disease: symmetric colour change, no discrete lesions",
+        treatment: {
+          immediate: [
+            "Note which leaves are affected: old leaves (N, K, Mg) or young leaves (Fe)",
+            "Check water level and soil pH; high pH locks up iron"
+          ],
+          nutritional: [
+            "Nitrogen: side-dress with urea or a balanced NPK",
+            "Iron: apply chelated iron as a foliar spray",
+            "Magnesium: foliar Epsom salt (magnesium sulphate, 2%)"
+          ],
+          cultural: [
+            "Add compost or well-rotted manure before the next planting",
+            "Test the soil to confirm the deficient nutrient"
+          ]
+        },
+        prognosis: "Excellent. New growth greens up within 1-2 weeks once the nutrient is supplied."
+      },
+      E2: {
+        name: "Moderate Nutrient Deficiency",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Clear yellowing across much of the plant, slower growth, possible marginal scorch on older leaves.",
+        symptoms: [
+          "Widespread yellow leaves",
+          "Brown scorched margins on older leaves (potassium)",
+          "Thin stems and small new leaves",
+          "Noticeably slower regrowth after harvest"
+        ],
+        biologicalInterpretation: "Deficiency is limiting growth; the plant is relocating mobile nutrients from old leaves to new growth.",
+        visualDescription: "Widespread chlorosis with marginal scorch",
+        forAIUse: "Mid severity deficiency",
+        treatment: {
+          immediate: [
+            "Apply the corrective fertilizer identified from the symptom pattern",
+            "Remove badly yellowed leaves that will not recover"
+          ],
+          nutritional: [
+            "Nitrogen: repeat side-dressing after each harvest",
+            "Potassium: apply muriate or sulphate of potash",
+            "Combine soil application with a foliar feed for faster response"
+          ],
+          cultural: [
+            "Adjust pH towards 6.0-7.0 if a soil test shows it is out of range",
+            "Avoid waterlogging, which limits root uptake"
+          ]
+        },
+        prognosis: "Good. Growth recovers after correction; yield from the current cut is reduced."
+      },
+      E3: {
+        name: "Severe Nutrient Deficiency",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Pale or bleached plants with necrotic margins and severely stunted growth.",
+        symptoms: [
+          "Leaves almost white or bright yellow",
+          "Necrotic brown margins and tips",
+          "Severely stunted shoots",
+          "Premature leaf drop"
+        ],
+        biologicalInterpretation: "Prolonged deficiency has damaged leaf tissue; stressed plants are also more susceptible to infection.",
+        visualDescription: "Bleached, necrotic, stunted foliage",
+        forAIUse: "Highest severity deficiency",
+        treatment: {
+          immediate: [
+            "Cut back damaged growth and feed to support regrowth",
+            "Get a soil or water test before the next planting"
+          ],
+          nutritional: [
+            "Apply a complete fertilizer plus the specific deficient nutrient",
+            "Follow up with foliar feeds every 7 days until new growth is green"
+          ],
+          cultural: [
+            "Rebuild soil organic matter with compost",
+            "Check irrigation water for high pH or salinity"
+          ]
+        },
+        prognosis: "Fair. Plants regrow after cutting back if roots are healthy and nutrition is corrected."
+      }
+    },
+    // Nutrient problems need a re-check after feeding, not a spray schedule
+    followUp: {
+      E1: { rescanAfterDays: 10 },
+      E2: { rescanAfterDays: 7 },
+      E3: { rescanAfterDays: 7 }
+    }
+  },
+  choanephora_wet_rot: {
+    id: 'choanephora_wet_rot',
+    name: "Choanephora Wet Rot",
+    agent: "Choanephora cucurbitarum",
+    category: 'Fungal',
+    icon: CloudRain,
+    overview: "A soft, wet rot of growing tips and young leaves in hot, rainy weather. Infected tissue turns dark and water-soaked, and a hairy grey-black fungal growth with pin-head spore heads appears on the rot.",
+    stages: {
+      E1: {
+        name: "Early Wet Rot",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Water-soaked, darkening patches on leaf tips or margins of young leaves.",
+        symptoms: [
+          "Water-soaked patches at leaf tips or margins",
+          "Tissue turning dull brown to dark green",
+          "Usually starts on young or wounded leaves",
+          "No fungal growth visible yet"
+        ],
+        biologicalInterpretation: "Spores landing on wet, wounded or senescing tissue have germinated and started to rot it.",
+        visualDescription: "Water-soaked darkening leaf tips",
+        forAIUse: "Distinguish from bacterial spot: rot spreads from tips, not angular specks",
+        treatment: {
+          immediate: [
+            "Remove rotting leaves and shoot tips",
+            "Avoid wetting foliage in the late afternoon"
+          ],
+          chemical: [
+            "Apply mancozeb or a copper fungicide after heavy rain",
+            "Observe the product's pre-harvest interval before cutting"
+          ],
+          cultural: [
+            "Increase spacing so beds dry quickly",
+            "Avoid wounding plants during weeding and harvest"
+          ]
+        },
+        prognosis: "Good. Removing affected tips usually stops spread once weather dries."
+      },
+      E2: {
+        name: "Mid Wet Rot",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Rotting growing tips covered with hairy grey-black fungal growth.",
+        symptoms: [
+          "Soft, blackened growing tips",
+          "Hair-like grey growth with dark pin-head spore heads",
+          "Rot spreading down into petioles",
+          "Wilting of affected shoots"
+        ],
+        biologicalInterpretation: "The fungus is sporulating on rotted tissue and spreading to neighbouring shoots by wind and splash.",
+        visualDescription: "Blackened tips with hairy fungal growth",
+        forAIUse: "Mid severity wet rot",
+        treatment: {
+          immediate: [
+            "Cut out rotted shoots below the affected tissue",
+            "Remove debris from the bed; do not leave it between rows"
+          ],
+          chemical: [
+            "Spray mancozeb or copper every 7 days during rainy spells"
+          ],
+          cultural: [
+            "Improve drainage and avoid overhead irrigation",
+            "Reduce nitrogen, which makes growth soft and susceptible"
+          ]
+        },
+        prognosis: "Fair. Plants regrow from healthy nodes once rotted tips are removed."
+      },
+      E3: {
+        name: "Severe Wet Rot",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Shoots and stems collapse into black rot, with fungal growth across the plant.",
+        symptoms: [
+          "Stem rot and collapse of shoots",
+          "Fungal growth covering much of the plant",
+          "Foul-smelling soft tissue",
+          "Plants dying in patches"
+        ],
+        biologicalInterpretation: "The rot has reached stems and the plant can no longer support new growth.",
+        visualDescription: "Collapsed black shoots with widespread fungal growth",
+        forAIUse: "Highest severity wet rot",
+        treatment: {
+          immediate: [
+            "Pull out and destroy collapsed plants",
+            "Protect nearby plants with a fungicide spray"
+          ],
+          cultural: [
+            "Replant in raised, well-drained beds",
+            "Avoid planting during the peak of the wet season"
+          ]
+        },
+        prognosis: "Poor. Collapsed plants should be removed to protect the rest of the bed."
+      }
+    }
+  },
+  alternaria_leaf_spot: {
+    id: 'alternaria_leaf_spot',
+    name: "Alternaria Leaf Spot",
+    agent: "Alternaria brassicae, A. brassicicola",
+    category: 'Fungal',
+    icon: Target,
+    overview: "The most common leaf spot of mustard greens. Round brown spots develop concentric target-like rings and a yellow margin, and spread fastest in warm, humid weather.",
+    stages: {
+      E1: {
+        name: "Early Alternaria Leaf Spot",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Small dark brown to black specks (1-3mm), mostly on older leaves.",
+        symptoms: [
+          "Small dark specks on older leaves",
+          "Faint yellow margin around some specks",
+          "Few spots per leaf"
+        ],
+        biologicalInterpretation: "Airborne or seed-borne spores have infected leaves during periods of leaf wetness.",
+        visualDescription: "1-3mm dark specks on older leaves",
+        forAIUse: "Early Alternaria; rings not yet visible",
+        lesionSizeRange: "1-3mm",
+        treatment: {
+          immediate: [
+            "Remove spotted lower leaves",
+            "Keep foliage dry; irrigate in the morning at soil level"
+          ],
+          chemical: [
+            "Apply mancozeb or chlorothalonil every 7-10 days",
+            "Observe the product's pre-harvest interval before cutting"
+          ],
+          cultural: [
+            "Use certified or hot-water-treated seed",
+            "Control cruciferous weeds that carry the fungus"
+          ]
+        },
+        prognosis: "Very good with early removal of spotted leaves and protective sprays."
+      },
+      E2: {
+        name: "Mid Alternaria Leaf Spot",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Brown spots (5-15mm) with concentric target rings and yellow halos.",
+        symptoms: [
+          "Round brown spots with concentric rings",
+          "Yellow halos around spots",
+          "Dark sooty spore growth in spot centres",
+          "Spots on younger leaves as well"
+        ],
+        biologicalInterpretation: "Lesions are sporulating and repeated infection cycles are moving up the plant.",
+        visualDescription: "Target-ringed brown spots with yellow halos",
+        forAIUse: "Mid severity Alternaria",
+        lesionSizeRange: "5-15mm",
+        treatment: {
+          immediate: [
+            "Remove heavily spotted leaves and bag them",
+            "Harvest marketable leaves early"
+          ],
+          chemical: [
+            "Spray every 7 days, alternating mancozeb with a different fungicide group",
+            "Cover both leaf surfaces"
+          ],
+          cultural: [
+            "Widen spacing to improve airflow",
+            "Avoid excess nitrogen"
+          ]
+        },
+        prognosis: "Good with consistent spraying; spotted leaves lose market value."
+      },
+      E3: {
+        name: "Severe Alternaria Blight",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Target spots merge into large blighted areas; leaves yellow, dry and fall.",
+        symptoms: [
+          "Coalescing spots covering much of the leaf",
+          "Leaf yellowing and drying",
+          "Spots on stems and petioles",
+          "Heavy leaf loss"
+        ],
+        biologicalInterpretation: "Extensive lesion coverage has destroyed photosynthetic area; the crop is a heavy spore source.",
+        visualDescription: "Blighted leaves covered in merged target spots",
+        forAIUse: "Highest severity Alternaria",
+        lesionSizeRange: ">15mm, coalescing",
+        treatment: {
+          immediate: [
+            "Harvest what is marketable and clear the bed",
+            "Plough in or remove crop residue promptly"
+          ],
+          cultural: [
+            "Rotate away from brassicas for at least 2 seasons",
+            "Start the next crop from clean seed"
+          ]
+        },
+        prognosis: "Poor for the current crop. Clear residue to protect later plantings."
+      }
+    }
+  },
+  downy_mildew: {
+    id: 'downy_mildew',
+    name: "Downy Mildew",
+    agent: "Hyaloperonospora brassicae",
+    category: 'Oomycete',
+    icon: CloudDrizzle,
+    overview: "Angular yellow patches on the upper leaf surface with grey-white downy growth underneath. Favoured by cool nights, dew and high humidity; young plants are most at risk.",
+    stages: {
+      E1: {
+        name: "Early Downy Mildew",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Faint yellow angular patches bounded by veins, with sparse grey growth underneath in the morning.",
+        symptoms: [
+          "Pale yellow angular patches between veins",
+          "Sparse grey-white down on the underside",
+          "Most visible after dewy nights"
+        ],
+        biologicalInterpretation: "Spores have infected during leaf wetness and the pathogen is growing between leaf cells.",
+        visualDescription: "Angular yellow patches with sparse underside down",
+        forAIUse: "Distinguish from white rust: fluffy down, not raised pustules",
+        treatment: {
+          immediate: [
+            "Remove affected leaves",
+            "Avoid evening irrigation"
+          ],
+          chemical: [
+            "Apply metalaxyl + mancozeb or a copper fungicide",
+            "Observe the product's pre-harvest interval before cutting"
+          ],
+          cultural: [
+            "Thin seedlings to improve airflow",
+            "Avoid planting in low, damp spots"
+          ]
+        },
+        prognosis: "Very good if humidity is reduced and a protective spray is applied."
+      },
+      E2: {
+        name: "Mid Downy Mildew",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Many yellow patches turning tan, with dense grey down underneath.",
+        symptoms: [
+          "Numerous yellow to tan angular patches",
+          "Dense grey down on the underside",
+          "Patches merging across the leaf"
+        ],
+        biologicalInterpretation: "Heavy sporulation is spreading the pathogen through the planting each humid night.",
+        visualDescription: "Tan angular patches with dense grey down",
+        forAIUse: "Mid severity downy mildew",
+        treatment: {
+          immediate: [
+            "Remove badly affected leaves and seedlings"
+          ],
+          chemical: [
+            "Spray every 7 days, rotating metalaxyl + mancozeb with copper"
+          ],
+          cultural: [
+            "Water in the morning so leaves dry by nightfall",
+            "Increase spacing between rows"
+          ]
+        },
+        prognosis: "Fair. Spray programmes protect new growth; affected leaves remain damaged."
+      },
+      E3: {
+        name: "Severe Downy Mildew",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Leaves brown and papery over large areas; seedlings may die.",
+        symptoms: [
+          "Large brown papery areas",
+          "Leaves shrivelling and dropping",
+          "Seedling death"
+        ],
+        biologicalInterpretation: "Most leaf tissue has been colonised and killed.",
+        visualDescription: "Brown, papery, shrivelled leaves",
+        forAIUse: "Highest severity downy mildew",
+        treatment: {
+          immediate: [
+            "Remove dead plants and debris",
+            "Protect younger plantings nearby"
+          ],
+          cultural: [
+            "Rotate away from brassicas for a season",
+            "Avoid sowing during prolonged cool, wet spells"
+          ]
+        },
+        prognosis: "Poor. Replant once conditions are drier."
+      }
+    }
+  },
+  black_rot: {
+    id: 'black_rot',
+    name: "Black Rot",
+    agent: "Xanthomonas campestris pv. campestris",
+    category: 'Bacterial',
+    icon: Droplets,
+    overview: "A bacterial disease of brassicas that enters at leaf margins. It causes V-shaped yellow lesions pointing towards the midrib, with blackened veins inside. Spread by seed, rain splash and tools.",
+    stages: {
+      E1: {
+        name: "Early Black Rot",
+        severity: 1,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-300",
+        icon: AlertCircle,
+        description: "Small yellow V-shaped areas at the leaf margin.",
+        symptoms: [
+          "Yellow V-shaped patches at the leaf edge",
+          "Point of the V directed towards the midrib",
+          "Slight darkening of veins inside the patch"
+        ],
+        biologicalInterpretation: "Bacteria have entered through water pores at the leaf margin and are moving into the veins.",
+        visualDescription: "Yellow marginal V-shaped lesions",
+        forAIUse: "Distinguish from nutrient scorch: V shape with dark veins",
+        treatment: {
+          immediate: [
+            "Remove affected leaves and bag them",
+            "Disinfect tools and hands after handling"
+          ],
+          chemical: [
+            "Apply copper hydroxide to slow splash spread",
+            "Observe the product's pre-harvest interval before cutting"
+          ],
+          cultural: [
+            "Stop overhead irrigation",
+            "Use hot-water-treated seed for the next crop"
+          ]
+        },
+        prognosis: "Fair. Early removal limits spread, but infected plants rarely clear the bacteria."
+      },
+      E2: {
+        name: "Mid Black Rot",
+        severity: 2,
+        color: "text-orange-600",
+        bgColor: "bg-orange-50",
+        borderColor: "border-orange-300",
+        icon: AlertCircle,
+        description: "Enlarging V-shaped lesions turning brown, with black veins extending into the leaf.",
+        symptoms: [
+          "Brown, drying V-shaped lesions",
+          "Black veins running towards the midrib",
+          "Several leaves affected per plant",
+          "Wilting of affected leaves"
+        ],
+        biologicalInterpretation: "The infection is systemic in the vascular tissue and moving into the stem.",
+        visualDescription: "Brown V-lesions with blackened veins",
+        forAIUse: "Mid severity black rot",
+        treatment: {
+          immediate: [
+            "Rogue plants with several infected leaves",
+            "Avoid working in the crop when wet"
+          ],
+          chemical: [
+            "Protect healthy plants with copper every 7 days"
+          ],
+          cultural: [
+            "Control cruciferous weeds that host the bacteria",
+            "Clean tools between beds with 10% bleach"
+          ]
+        },
+        prognosis: "Poor for affected plants; protect the rest of the bed."
+      },
+      E3: {
+        name: "Severe Black Rot",
+        severity: 3,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-300",
+        icon: XCircle,
+        description: "Leaves yellow, brown and drop; stems show blackened vascular tissue.",
+        symptoms: [
+          "Widespread leaf yellowing and collapse",
+          "Black ring visible in cut stems",
+          "Stunted, dying plants"
+        ],
+        biologicalInterpretation: "Vascular blockage is killing the plant; residue will carry the bacteria to the next crop.",
+        visualDescription: "Collapsed leaves with blackened veins and stems",
+        forAIUse: "Highest severity black rot",
+        treatment: {
+          immediate: [
+            "Remove and destroy infected plants",
+            "Do not compost infected material"
+          ],
+          cultural: [
+            "Rotate away from brassicas for at least 2 years",
+            "Start from certified, treated seed"
+          ]
+        },
+        prognosis: "Very poor. Remove affected plants and plan a long rotation."
+      }
+    }
+  }
+};
+
+// Lower ends of the spray intervals in each chemical protocol; re-scan before the stage can advance
+export const FOLLOW_UP_SCHEDULE: Record<DiseaseStage, FollowUpSchedule> = {
+  H0: { rescanAfterDays: 14 },
+  E1: { sprayIntervalDays: 7, rescanAfterDays: 7 },
+  E2: { sprayIntervalDays: 5, rescanAfterDays: 5 },
+  E3: { sprayIntervalDays: 5, rescanAfterDays: 3 },
+  N0: { rescanAfterDays: 1 }
+};
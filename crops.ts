@@ -0,0 +1,67 @@
+import { DISEASE_DATABASE } from './constants';
+import { getLocale } from './i18n';
+import { CropDefinition, CropId, DiseaseId } from './types';
+
+export const CROP_REGISTRY: Record<CropId, CropDefinition> = {
+  kangkung: {
+    id: 'kangkung',
+    name: 'Kangkung',
+    englishName: 'Water Spinach',
+    scientificName: 'Ipomoea aquatica',
+    diseases: ['cercospora', 'white_rust', 'bacterial_leaf_spot', 'pest_damage', 'nutrient_deficiency'],
+    promptNotes: 'Leaves are arrow- or lance-shaped on hollow stems. White rust pustules sit on the leaf underside; Cercospora spots show purple-brown rings.'
+  },
+  bayam: {
+    id: 'bayam',
+    name: 'Bayam',
+    englishName: 'Amaranth',
+    scientificName: 'Amaranthus spp.',
+    diseases: ['cercospora', 'white_rust', 'choanephora_wet_rot', 'pest_damage', 'nutrient_deficiency'],
+    agents: {
+      white_rust: 'Albugo bliti (syn. Wilsoniana bliti)',
+      pest_damage: 'Aphids, spider mites, leaf miners'
+    },
+    promptNotes: 'Red or variegated amaranth varieties are naturally purple or red; do not read pigmentation as disease. Choanephora causes dark wet rot of growing tips with hair-like fungal growth.'
+  },
+  sawi: {
+    id: 'sawi',
+    name: 'Sawi',
+    englishName: 'Mustard Greens',
+    scientificName: 'Brassica juncea / B. rapa',
+    diseases: ['alternaria_leaf_spot', 'downy_mildew', 'black_rot', 'white_rust', 'pest_damage', 'nutrient_deficiency'],
+    agents: {
+      white_rust: 'Albugo candida',
+      pest_damage: 'Aphids (Lipaphis erysimi), diamondback moth, flea beetles',
+      nutrient_deficiency: 'Lack of N, K, Mg or B'
+    },
+    promptNotes: 'Alternaria spots have concentric target rings; black rot causes V-shaped yellow lesions from the leaf margin with blackened veins; downy mildew shows angular yellow patches with grey growth underneath. Shot holes from caterpillar feeding count as pest damage.'
+  }
+};
+
+export const DEFAULT_CROP: CropId = 'kangkung';
+
+const CROP_STORAGE_KEY = 'phytoscan_crop';
+
+export const isCropId = (value: string): value is CropId => Object.hasOwn(CROP_REGISTRY, value);
+
+export const getCrop = (id: CropId = DEFAULT_CROP): CropDefinition => CROP_REGISTRY[id];
+
+export const loadCropPreference = (): CropId => {
+  const saved = localStorage.getItem(CROP_STORAGE_KEY);
+  return saved && isCropId(saved) ? saved : DEFAULT_CROP;
+};
+
+export const saveCropPreference = (id: CropId) => {
+  localStorage.setItem(CROP_STORAGE_KEY, id);
+};
+
+export const getDiseaseAgent = (diseaseId: DiseaseId, cropId: CropId = DEFAULT_CROP) =>
+  CROP_REGISTRY[cropId].agents?.[diseaseId] ?? DISEASE_DATABASE[diseaseId].agent;
+
+// Crops whose catalogue includes the disease, for the encyclopedia
+export const cropsWithDisease = (diseaseId: DiseaseId): CropDefinition[] =>
+  Object.values(CROP_REGISTRY).filter((crop) => crop.diseases.includes(diseaseId));
+
+// "kangkung, bayam and sawi" joined the way the active language joins lists
+export const formatCropList = (crops: CropDefinition[] = Object.values(CROP_REGISTRY)) =>
+  new Intl.ListFormat(getLocale(), { type: 'conjunction' }).format(crops.map((crop) => crop.name.toLowerCase()));
@@ -0,0 +1,40 @@
+import { geminiProvider } from "./geminiService";
+import { localModelProvider } from "./localModelService";
+import { DEFAULT_CROP } from "./crops";
+import { t } from "./i18n";
+import { CropId, DiagnosisProvider, DiagnosisProviderId } from "./types";
+
+export const DIAGNOSIS_PROVIDERS: Record<DiagnosisProviderId, DiagnosisProvider> = {
+  gemini: geminiProvider,
+  local: localModelProvider,
+};
+
+export const isDiagnosisProviderId = (value: string): value is DiagnosisProviderId => Object.hasOwn(DIAGNOSIS_PROVIDERS, value);
+
+// Display text lives in the message catalogue so it follows the language setting
+export const providerName = (id: DiagnosisProviderId) => t(`provider.${id}.name`);
+export const providerDescription = (id: DiagnosisProviderId) => t(`provider.${id}.description`);
+
+const PROVIDER_STORAGE_KEY = 'phytoscan_diagnosis_provider';
+
+export const loadProviderPreference = (): DiagnosisProviderId => {
+  const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  return saved && isDiagnosisProviderId(saved) ? saved : 'gemini';
+};
+
+export const saveProviderPreference = (id: DiagnosisProviderId) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+// Providers without a crop list handle every crop
+export const supportsCrop = (provider: DiagnosisProvider, cropId: CropId) =>
+  !provider.crops || provider.crops.includes(cropId);
+
+// Falls back to an offline-capable provider when the preferred one cannot be reached,
+// and to any provider that knows the crop when the preferred one does not
+export const resolveProvider = (preferred: DiagnosisProviderId, isOnline: boolean, cropId: CropId = DEFAULT_CROP): DiagnosisProvider => {
+  const provider = DIAGNOSIS_PROVIDERS[preferred];
+  const usable = (p: DiagnosisProvider) => supportsCrop(p, cropId) && (isOnline || !p.requiresNetwork);
+  if (usable(provider)) return provider;
+  return Object.values(DIAGNOSIS_PROVIDERS).find(usable) || provider;
+};
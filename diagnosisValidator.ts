@@ -0,0 +1,293 @@
+import { CropDefinition, Diagnosis, DiagnosisProvider, DiseaseFinding, DiseaseId, DiseaseStage, LesionRegion } from "./types";
+import { DIAGNOSIS_STAGES, isDiagnosisStage, isDiseaseId, isInfectionStage } from "./diseases";
+import { getCrop } from "./crops";
+import { t } from "./i18n";
+
+const MAX_LESION_SIZE_MM = 100;
+const MAX_LESION_COUNT = 500;
+
+export class DiagnosisValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid diagnosis response: ${issues.join('; ')}`);
+    this.name = 'DiagnosisValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ValidatedDiagnosis {
+  diagnosis: Diagnosis;
+  repairs: string[];
+}
+
+// Accepts "white_rust", "White Rust" or "white-rust"
+const normalizeDiseaseId = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Models sometimes state confidence as a percentage; 1-100 is rescaled, anything else outside 0-1 clamped
+const isPercentConfidence = (value: number) => value > 1 && value <= 100;
+
+const normalizeConfidence = (value: number) => (isPercentConfidence(value) ? value / 100 : clamp(value, 0, 1));
+
+const describeConfidenceRepair = (field: string, value: number) =>
+  isPercentConfidence(value)
+    ? `${field}: rescaled ${value} to ${normalizeConfidence(value).toFixed(2)}`
+    : `${field}: clamped ${value} to ${normalizeConfidence(value)}`;
+
+const isLesionRegion = (value: unknown): value is LesionRegion => {
+  if (!value || typeof value !== 'object') return false;
+  const l = value as Record<string, unknown>;
+  return [l.x, l.y, l.width, l.height, l.sizeMm, l.confidence].every((v) => typeof v === 'number' && Number.isFinite(v));
+};
+
+/**
+ * Checks a provider response against the AnalysisResult contract.
+ * Recoverable values are coerced or clamped and listed in `repairs`;
+ * a missing or unknown stage or confidence throws DiagnosisValidationError.
+ * Diseases outside the crop's catalogue are treated as unknown.
+ */
+export const validateDiagnosis = (raw: unknown, crop: CropDefinition = getCrop()): ValidatedDiagnosis => {
+  if (!raw || typeof raw !== 'object') {
+    throw new DiagnosisValidationError(['response is not an object']);
+  }
+  const data = raw as Record<string, unknown>;
+  const repairs: string[] = [];
+  const issues: string[] = [];
+
+  let stage: DiseaseStage = 'N0';
+  const rawStage = typeof data.stage === 'string' ? data.stage.trim().toUpperCase() : '';
+  if (isDiagnosisStage(rawStage)) {
+    stage = rawStage;
+    if (rawStage !== data.stage) repairs.push(`stage: normalized "${data.stage}" to ${rawStage}`);
+  } else {
+    issues.push(`stage: "${data.stage}" is not one of ${DIAGNOSIS_STAGES.join(', ')}`);
+  }
+
+  let confidence = toNumber(data.confidence);
+  if (!Number.isFinite(confidence)) {
+    issues.push(`confidence: "${data.confidence}" is not a number`);
+    confidence = 0;
+  } else if (confidence < 0 || confidence > 1) {
+    repairs.push(describeConfidenceRepair('confidence', confidence));
+    confidence = normalizeConfidence(confidence);
+  }
+
+  if (issues.length > 0) throw new DiagnosisValidationError(issues);
+
+  const hasLesions = isInfectionStage(stage);
+  const inCatalogue = (id: string): id is DiseaseId => isDiseaseId(id) && crop.diseases.includes(id);
+
+  // A stage without a known disease is read as the crop's main disease
+  // (Cercospora for Kangkung, the only disease older models know)
+  let diseaseId: DiseaseId | undefined;
+  const rawDisease = normalizeDiseaseId(data.disease);
+  if (hasLesions) {
+    if (inCatalogue(rawDisease)) {
+      diseaseId = rawDisease;
+    } else {
+      diseaseId = crop.diseases[0];
+      repairs.push(`disease: "${data.disease ?? ''}" is not one of ${crop.diseases.join(', ')} for ${crop.name}; assumed ${diseaseId}`);
+    }
+  } else if (rawDisease && rawDisease !== 'none') {
+    repairs.push(`disease: dropped "${data.disease}" for stage ${stage}`);
+  }
+
+  let lesionCount = toNumber(data.lesionCount);
+  if (!Number.isFinite(lesionCount)) {
+    repairs.push(`lesionCount: replaced "${data.lesionCount}" with 0`);
+    lesionCount = 0;
+  } else if (!hasLesions && lesionCount !== 0) {
+    repairs.push(`lesionCount: reset ${lesionCount} to 0 for stage ${stage}`);
+    lesionCount = 0;
+  } else if (lesionCount < 0 || lesionCount > MAX_LESION_COUNT || !Number.isInteger(lesionCount)) {
+    const fixed = clamp(Math.round(lesionCount), 0, MAX_LESION_COUNT);
+    repairs.push(`lesionCount: corrected ${lesionCount} to ${fixed}`);
+    lesionCount = fixed;
+  }
+
+  let avgLesionSize = toNumber(data.avgLesionSize);
+  if (!Number.isFinite(avgLesionSize)) {
+    repairs.push(`avgLesionSize: replaced "${data.avgLesionSize}" with 0`);
+    avgLesionSize = 0;
+  } else if (!hasLesions && avgLesionSize !== 0) {
+    repairs.push(`avgLesionSize: reset ${avgLesionSize} to 0 for stage ${stage}`);
+    avgLesionSize = 0;
+  } else if (avgLesionSize < 0 || avgLesionSize > MAX_LESION_SIZE_MM) {
+    const clamped = clamp(avgLesionSize, 0, MAX_LESION_SIZE_MM);
+    repairs.push(`avgLesionSize: clamped ${avgLesionSize}mm to ${clamped}mm`);
+    avgLesionSize = clamped;
+  }
+
+  // Optional: providers that cannot estimate area leave it out
+  let affectedAreaPercent: number | undefined;
+  if (data.affectedAreaPercent != null) {
+    affectedAreaPercent = toNumber(data.affectedAreaPercent);
+    if (!Number.isFinite(affectedAreaPercent)) {
+      repairs.push(`affectedAreaPercent: discarded "${data.affectedAreaPercent}"`);
+      affectedAreaPercent = undefined;
+    } else if (!hasLesions && affectedAreaPercent !== 0) {
+      repairs.push(`affectedAreaPercent: reset ${affectedAreaPercent}% to 0 for stage ${stage}`);
+      affectedAreaPercent = 0;
+    } else if (affectedAreaPercent < 0 || affectedAreaPercent > 100) {
+      const clamped = clamp(affectedAreaPercent, 0, 100);
+      repairs.push(`affectedAreaPercent: clamped ${affectedAreaPercent}% to ${clamped}%`);
+      affectedAreaPercent = clamped;
+    }
+  }
+
+  let explanation = '';
+  if (typeof data.explanation === 'string') {
+    explanation = data.explanation.trim();
+  } else if (data.explanation != null) {
+    repairs.push('explanation: discarded non-text value');
+  }
+
+  let detectedSymptoms: string[] = [];
+  if (Array.isArray(data.detectedSymptoms)) {
+    detectedSymptoms = data.detectedSymptoms.filter((s: unknown): s is string => typeof s === 'string' && s.trim() !== '');
+    if (detectedSymptoms.length !== data.detectedSymptoms.length) {
+      repairs.push(`detectedSymptoms: dropped ${data.detectedSymptoms.length - detectedSymptoms.length} invalid entries`);
+    }
+  } else if (typeof data.detectedSymptoms === 'string') {
+    detectedSymptoms = [data.detectedSymptoms];
+    repairs.push('detectedSymptoms: wrapped single value in a list');
+  } else if (data.detectedSymptoms != null) {
+    repairs.push('detectedSymptoms: discarded non-list value');
+  }
+
+  let visualEvidenceRegions = '';
+  if (typeof data.visualEvidenceRegions === 'string') {
+    visualEvidenceRegions = data.visualEvidenceRegions.trim();
+  } else if (data.visualEvidenceRegions != null) {
+    repairs.push('visualEvidenceRegions: discarded non-text value');
+  }
+
+  let lesions: LesionRegion[] = [];
+  if (Array.isArray(data.lesions)) {
+    lesions = data.lesions.filter(isLesionRegion).map((l: LesionRegion) => ({
+      x: clamp(l.x, 0, 1),
+      y: clamp(l.y, 0, 1),
+      width: clamp(l.width, 0, 1 - clamp(l.x, 0, 1)),
+      height: clamp(l.height, 0, 1 - clamp(l.y, 0, 1)),
+      sizeMm: clamp(l.sizeMm, 0, MAX_LESION_SIZE_MM),
+      confidence: clamp(l.confidence, 0, 1),
+    })).filter((l: LesionRegion) => l.width > 0 && l.height > 0);
+    if (lesions.length !== data.lesions.length) {
+      repairs.push(`lesions: dropped ${data.lesions.length - lesions.length} invalid boxes`);
+    }
+  }
+  if (!hasLesions && lesions.length > 0) {
+    repairs.push(`lesions: removed ${lesions.length} boxes for stage ${stage}`);
+    lesions = [];
+  }
+
+  let coInfections: DiseaseFinding[] = [];
+  if (Array.isArray(data.coInfections)) {
+    const findings = data.coInfections
+      .map((value: unknown) => {
+        const c = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+        return {
+          diseaseId: normalizeDiseaseId(c.disease),
+          stage: typeof c.stage === 'string' ? c.stage.trim().toUpperCase() : '',
+          confidence: toNumber(c.confidence),
+        };
+      })
+      .filter((c): c is DiseaseFinding =>
+        inCatalogue(c.diseaseId) && isDiagnosisStage(c.stage) && isInfectionStage(c.stage) && Number.isFinite(c.confidence));
+    if (findings.length !== data.coInfections.length) {
+      repairs.push(`coInfections: dropped ${data.coInfections.length - findings.length} invalid entries`);
+    }
+
+    // One finding per disease, the most confident, and none repeating the primary diagnosis
+    const byDisease = new Map<DiseaseId, DiseaseFinding>();
+    for (const finding of findings) {
+      if (finding.confidence < 0 || finding.confidence > 1) {
+        repairs.push(describeConfidenceRepair(`coInfections: ${finding.diseaseId} confidence`, finding.confidence));
+      }
+      const normalized = { ...finding, confidence: normalizeConfidence(finding.confidence) };
+      const kept = byDisease.get(normalized.diseaseId);
+      if (normalized.diseaseId !== diseaseId && (!kept || normalized.confidence > kept.confidence)) {
+        byDisease.set(normalized.diseaseId, normalized);
+      }
+    }
+    coInfections = [...byDisease.values()];
+    if (coInfections.length !== findings.length) {
+      repairs.push(`coInfections: dropped ${findings.length - coInfections.length} entries repeating a disease already found`);
+    }
+  }
+  if (!hasLesions && coInfections.length > 0) {
+    repairs.push(`coInfections: removed ${coInfections.length} findings for stage ${stage}`);
+    coInfections = [];
+  }
+
+  // The primary diagnosis drives severity and treatment, so it must be the worst finding.
+  // The model's lesion boxes, counts and area estimate describe the finding it named first, so they
+  // are dropped rather than credited to the promoted one; severity then comes from the pixel measurement.
+  const worst = coInfections.reduce<DiseaseFinding | null>((w, c) => (c.stage > (w?.stage ?? stage) ? c : w), null);
+  if (worst && diseaseId && isInfectionStage(stage)) {
+    repairs.push(`disease: promoted ${worst.diseaseId} ${worst.stage} above ${diseaseId} ${stage} as the primary diagnosis`);
+    repairs.push(`lesions: cleared ${lesions.length} boxes and the lesion estimates that described ${diseaseId}`);
+    coInfections = [...coInfections.filter((c) => c !== worst), { diseaseId, stage, confidence }];
+    diseaseId = worst.diseaseId;
+    stage = worst.stage;
+    confidence = worst.confidence;
+    lesions = [];
+    lesionCount = 0;
+    avgLesionSize = 0;
+    affectedAreaPercent = undefined;
+  }
+
+  return {
+    diagnosis: { diseaseId, stage, confidence, lesionCount, avgLesionSize, affectedAreaPercent, explanation, detectedSymptoms, visualEvidenceRegions, lesions, coInfections },
+    repairs,
+  };
+};
+
+const fallbackDiagnosis = (issues: string[]): ValidatedDiagnosis => ({
+  diagnosis: {
+    stage: 'N0',
+    confidence: 0,
+    lesionCount: 0,
+    avgLesionSize: 0,
+    explanation: t('analysis.unvalidated'),
+    detectedSymptoms: [],
+    visualEvidenceRegions: '',
+    lesions: [],
+    coInfections: [],
+  },
+  repairs: [...issues, 'stage: fell back to N0 after invalid responses'],
+});
+
+/**
+ * Runs a provider and validates its answer, retrying malformed responses.
+ * Network and model errors are rethrown; persistent invalid output becomes N0.
+ */
+export const runValidatedDiagnosis = async (
+  provider: DiagnosisProvider,
+  base64Image: string,
+  crop: CropDefinition,
+  maxAttempts = 2
+): Promise<ValidatedDiagnosis> => {
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return validateDiagnosis(await provider.analyze(base64Image, crop), crop);
+    } catch (error) {
+      if (error instanceof DiagnosisValidationError) {
+        issues = error.issues;
+      } else if (error instanceof SyntaxError) {
+        issues = ['response: not valid JSON'];
+      } else {
+        throw error;
+      }
+      console.warn(`Diagnosis attempt ${attempt} rejected:`, issues);
+    }
+  }
+  return fallbackDiagnosis(issues);
+};
@@ -0,0 +1,912 @@
+import { DiseaseContentTranslation, Locale } from './types';
+
+// Malay text for LEAF_STATUS and DISEASE_DATABASE, entry for entry
+const DISEASE_TEXT_MS: DiseaseContentTranslation = {
+  leafStatus: {
+    H0: {
+      name: "Tanaman Sihat",
+      description: "Daun hijau sepenuhnya tanpa lesi atau simptom penyakit yang kelihatan.",
+      symptoms: [
+        "Daun hijau segar",
+        "Batang tegap dan tegak",
+        "Tiada bintik, layu atau perubahan warna",
+        "Corak pertumbuhan seragam",
+        "Tekstur daun sihat"
+      ],
+      biologicalInterpretation: "Aktiviti fisiologi yang kuat dengan fotosintesis optimum. Kelas asas untuk perbandingan.",
+      visualDescription: "Daun hijau sepenuhnya, tiada lesi",
+      treatment: {
+        immediate: ["Teruskan amalan penjagaan semasa", "Pantau secara berkala untuk sebarang perubahan"],
+        preventive: [
+          "Kekalkan jarak tanaman yang sesuai (15-20cm) untuk pengudaraan yang baik",
+          "Siram di pangkal supaya daun kekal kering",
+          "Buang sisa tanaman setiap hari",
+          "Amalkan giliran tanaman (elakkan lokasi yang sama selama 3 bulan)"
+        ],
+        cultural: ["Pastikan cahaya matahari mencukupi (6-8 jam)", "Kekalkan jadual penyiraman yang konsisten", "Gunakan tanah yang bersaliran baik"]
+      }
+    },
+    N0: {
+      name: "Bukan Penyakit / Masalah Kualiti Imej",
+      description: "Imej mengandungi bayang, kotoran, titisan air atau masalah kualiti yang menjejaskan ketepatan analisis.",
+      symptoms: [
+        "Bayang tebal menutup butiran daun",
+        "Ciri tanaman tidak jelas atau kabur",
+        "Kotoran, lumpur atau sisa pada permukaan daun",
+        "Titisan air menyebabkan pantulan",
+        "Pencahayaan tidak mencukupi atau tidak sekata",
+        "Daun tidak fokus",
+        "Terlalu jauh dari daun",
+        "Kabur akibat pergerakan"
+      ],
+      biologicalInterpretation: "Digunakan untuk imej yang tidak menunjukkan simptom penyakit yang jelas atau mempunyai masalah kualiti. Membantu model AI membezakan penyakit sebenar daripada kecacatan imej.",
+      visualDescription: "Bayang, kotoran atau kualiti imej yang rendah",
+      treatment: {
+        immediate: [
+          "Bersihkan daun perlahan-lahan dengan kain kering yang lembut",
+          "Buang titisan air sebelum mengambil gambar",
+          "Tunggu cahaya matahari terus atau gunakan denyar yang diresapkan",
+          "Letakkan daun di atas latar belakang neutral jika boleh"
+        ],
+        photographyTips: [
+          "Ambil gambar dalam cahaya siang semula jadi (10 pagi-3 petang untuk hasil terbaik)",
+          "Pegang kamera dengan stabil atau gunakan tripod untuk mengelakkan kabur",
+          "Fokus terus pada kawasan bersimptom atau keseluruhan daun",
+          "Masukkan keseluruhan lesi serta 2cm tisu sihat di sekelilingnya",
+          "Pegang kamera 10-20cm dari daun untuk butiran",
+          "Elakkan cahaya dari belakang daun - pastikan matahari di belakang anda",
+          "Gunakan mod makro jika ada pada kamera telefon",
+          "Ambil beberapa gambar dari sudut berbeza"
+        ],
+        tips: [
+          "Bersihkan permukaan daun perlahan-lahan sebelum mengambil gambar",
+          "Pastikan tiada bayang jatuh pada daun",
+          "Gunakan cahaya semula jadi yang terang dan sekata",
+          "Pegang daun supaya rata jika boleh (sokong dengan kertas)"
+        ]
+      }
+    }
+  },
+  diseases: {
+    cercospora: {
+      name: "Bintik Daun Cercospora",
+      overview: "Bintik bulat ungu-perang dengan lingkaran kuning yang membesar menjadi tompok nekrotik kelabu-perang. Spora merebak dalam cuaca panas dan lembap serta hidup pada sisa tanaman.",
+      stages: {
+        E1: {
+          name: "Jangkitan Awal (Bintik Daun Cercospora)",
+          description: "Penembusan awal kulat dengan bintik ungu/perang 1-3mm dan lingkaran kuning.",
+          symptoms: [
+            "Bintik kecil ungu/perang (diameter 1-3mm)",
+            "Lingkaran kuning di sekeliling setiap lesi",
+            "Tompok hijau muda pada daun",
+            "Tepi daun mungkin sedikit bergulung",
+            "Hujung daun sedikit pucat",
+            "Pertumbuhan lebih perlahan daripada biasa",
+            "Daun sedikit terkulai pada waktu panas"
+          ],
+          biologicalInterpretation: "Penembusan awal kulat melalui stomata daun. Spora kulat bercambah pada permukaan daun yang lembap.",
+          visualDescription: "Bintik ungu/perang 1-3mm dengan lingkaran kuning",
+          treatment: {
+            immediate: [
+              "Buang daun yang dijangkiti dengan segera (potong di batang)",
+              "Asingkan tanaman jika ditanam berkelompok (jarak 2m)",
+              "Hentikan sepenuhnya penyiraman dari atas",
+              "Tingkatkan pengudaraan di sekeliling tanaman"
+            ],
+            chemical: [
+              "Sembur racun kulat Klorotalonil (larutan 500ppm)",
+              "Alternatif: racun kulat berasaskan kuprum (larutan 1%)",
+              "Sembur pada awal pagi (6-8 pagi) atau petang (5-7 petang)",
+              "Ulang semburan setiap 7-10 hari",
+              "Pastikan seluruh permukaan daun disembur"
+            ],
+            cultural: [
+              "Siram hanya di pangkal tanaman (elakkan daun basah)",
+              "Tambah jarak antara tanaman kepada 20-25cm",
+              "Buang daun bawah yang menyentuh tanah",
+              "Elakkan mengendalikan tanaman ketika basah",
+              "Pastikan saliran yang baik"
+            ],
+            preventive: [
+              "Sembur racun kulat pencegahan setiap minggu",
+              "Perbaiki saliran di sekeliling tanaman",
+              "Pastikan lebih 6 jam cahaya matahari terus"
+            ]
+          },
+          prognosis: "Kadar pemulihan sangat baik (>90%) jika dirawat dalam 3-5 hari. Tanaman boleh pulih sepenuhnya."
+        },
+        E2: {
+          name: "Jangkitan Pertengahan (Bintik Daun Cercospora)",
+          description: "Fasa pensporaan dengan lesi yang membesar (5-12mm) dan bertukar perang-kelabu.",
+          symptoms: [
+            "Lesi membesar kepada diameter 5-12mm",
+            "Warna berubah dari ungu kepada perang-kelabu",
+            "Daun tua menguning (klorosis)",
+            "Daun hilang kesegaran",
+            "Layu yang tidak pulih selepas disiram",
+            "Tepi daun menjadi perang dan rapuh",
+            "Batang menjadi kurus atau lemah",
+            "Pertumbuhan terbantut (50% lebih perlahan)",
+            "Beberapa lesi pada setiap daun (3-8)"
+          ],
+          biologicalInterpretation: "Pensporaan bermula. Kulat merebak melalui tisu daun dan mengganggu penghasilan klorofil serta pengangkutan air.",
+          visualDescription: "Lesi membesar (5-12mm), bertukar perang-kelabu",
+          treatment: {
+            immediate: [
+              "Buang semua daun yang dijangkiti (sehingga 30% tanaman)",
+              "Buang daun dalam beg bertutup - JANGAN jadikan kompos",
+              "Hentikan sepenuhnya penyiraman dari atas",
+              "Tambah jarak tanaman kepada 25-30cm jika boleh"
+            ],
+            chemical: [
+              "Sembur racun kulat sistemik (Mankozeb 80% WP pada 2g/L atau Propikonazol 25% EC pada 1ml/L)",
+              "Selang-selikan dua kelas racun kulat berbeza untuk mengelakkan kerintangan",
+              "Sembur setiap 5-7 hari selama sekurang-kurangnya 3 minggu",
+              "Pastikan liputan penuh termasuk bahagian bawah daun",
+              "Gunakan bahan perata-pelekat untuk lekatan yang lebih baik"
+            ],
+            cultural: [
+              "Siram hanya pada waktu pagi (6-9 pagi) di paras tanah",
+              "Buang semua sisa tanaman di sekeliling pangkal setiap hari",
+              "Perbaiki saliran tanah dengan pasir/bahan organik",
+              "Letakkan sungkupan organik 5cm untuk mengelakkan percikan",
+              "Cantas untuk pengudaraan lebih baik (buang dedaun yang padat)"
+            ],
+            nutritional: [
+              "Beri baja seimbang (NPK 15-15-15) untuk meningkatkan daya tahan",
+              "Elakkan baja nitrogen tinggi (>20% N)",
+              "Pertimbangkan tambahan kalium (K2O) untuk ketahanan penyakit",
+              "Sembur daun dengan kalsium klorida (0.5%)"
+            ]
+          },
+          prognosis: "Pemulihan baik mungkin (60-70%) dengan rawatan agresif. Hasil mungkin berkurang 15-30%. Rawatan mesti konsisten."
+        },
+        E3: {
+          name: "Jangkitan Lewat/Teruk (Bintik Daun Cercospora)",
+          description: "Kematian tisu dengan tompok nekrotik besar (>12mm), daun menguning dan luruh.",
+          symptoms: [
+            "Tompok nekrotik besar (>12mm, sehingga 30mm)",
+            "Daun menguning teruk di seluruh tanaman",
+            "Keguguran daun yang ketara (>40% daun hilang)",
+            "Tepi daun perang rangup, daun bergulung",
+            "Batang rebah atau menguning teruk",
+            "Banyak lesi bercantum pada setiap daun (8+)",
+            "Ketinggian tanaman terbantut (<50% normal)",
+            "Akar mungkin reput jika terlebih siram",
+            "Layu teruk walaupun selepas disiram",
+            "Tanaman mungkin tidak pulih"
+          ],
+          biologicalInterpretation: "Kematian tisu dan kemusnahan klorofil. Kolonisasi kulat yang meluas telah merosakkan sistem vaskular dengan teruk. Fotosintesis terjejas secara kritikal.",
+          visualDescription: "Tompok nekrotik besar (>12mm), daun menguning, keguguran daun",
+          treatment: {
+            immediate: [
+              "Nilai daya hidup tanaman (jika >70% terjejas, pertimbangkan untuk membuangnya)",
+              "Buang SEMUA dedaun berpenyakit (mungkin 50-80% tanaman)",
+              "Jika akar sihat dan kukuh, potong sehingga ke tisu hijau yang sihat",
+              "Asingkan daripada tanaman lain dengan segera (sekurang-kurangnya 5m)",
+              "Nyahjangkit semua alatan dengan larutan peluntur 10% selepas digunakan"
+            ],
+            chemical: [
+              "Sembur racun kulat sistemik berkekuatan tinggi (Propikonazol 25% EC pada 2ml/L)",
+              "Siram tanah dengan racun kulat untuk merawat zon akar (100ml setiap pokok)",
+              "Sembur setiap 5 hari untuk kawalan segera (sekurang-kurangnya 4 kali)",
+              "Mungkin perlu 4-6 semburan mingguan untuk sebarang pemulihan",
+              "Pertimbangkan campuran tangki racun kulat yang serasi"
+            ],
+            cultural: [
+              "Buang tanaman dari kawasan tanaman jika pemulihan tidak mungkin",
+              "JANGAN jadikan bahan berpenyakit kompos - bakar atau buang dalam beg bertutup",
+              "Sterilkan semua alatan dengan alkohol 70% atau peluntur 10%",
+              "Rawat tanah dengan racun kulat atau solarisasi sebelum menanam semula",
+              "Rehatkan kawasan selama 3-4 minggu sebelum tanaman baharu",
+              "Buang semua daun gugur dan sisa di kawasan sekeliling"
+            ],
+            recovery: [
+              "Jika mencuba pemulihan: sediakan keadaan optimum (25-30°C, cahaya tinggi)",
+              "Kurangkan penyiraman ke tahap minimum (periksa kelembapan tanah dahulu)",
+              "Sokong batang yang lemah dengan pancang buluh",
+              "Pantau setiap hari untuk tanda pulih atau semakin teruk",
+              "Beri nutrien melalui daun (baja cecair pada separuh kekuatan)",
+              "Jangka 4-6 minggu sebelum sebarang pemulihan kelihatan"
+            ]
+          },
+          prognosis: "Lemah. Kadar pemulihan rendah (20-30%). Kehilangan hasil biasanya 60-100%. Keutamaan ialah mengelakkan rebakan kepada tanaman sihat. Pertimbangkan untuk menanam semula."
+        }
+      }
+    },
+    white_rust: {
+      name: "Karat Putih",
+      overview: "Penyakit daun paling merosakkan bagi sayuran berdaun pada musim hujan. Pustul putih krim seperti lepuh terbentuk di bawah daun, dengan bintik kuning di permukaan atas; jangkitan teruk menyebabkan batang membengkak dan herot.",
+      stages: {
+        E1: {
+          name: "Karat Putih Awal",
+          description: "Bintik kuning pucat di permukaan atas daun dengan beberapa pustul putih kecil (1-2mm) di bawahnya.",
+          symptoms: [
+            "Bintik kuning pucat atau hijau muda di permukaan atas",
+            "Pustul putih kecil timbul (1-2mm) di bawah daun",
+            "Pustul bertaburan, belum bercantum",
+            "Daun masih rata dengan tekstur normal"
+          ],
+          biologicalInterpretation: "Zoospora telah menjangkiti melalui stomata ketika daun basah dan sporangium pertama mula menembusi epidermis bawah.",
+          visualDescription: "Bintik klorotik di atas daun dengan pustul putih bertaburan di bawah",
+          treatment: {
+            immediate: [
+              "Petik daun yang mempunyai pustul dan masukkan ke dalam beg",
+              "Hentikan penyiraman dari atas atau pemercik",
+              "Tuai pucuk yang sihat lebih awal untuk mengurangkan sumber jangkitan"
+            ],
+            chemical: [
+              "Sembur metalaksil + mankozeb (cth. 2.5g/L) sebagai semburan perlindungan",
+              "Alternatif: kuprum hidroksida (2g/L)",
+              "Ulang setiap 7 hari selagi cuaca basah berterusan",
+              "Patuhi tempoh sebelum tuai produk sebelum memotong"
+            ],
+            cultural: [
+              "Lebarkan jarak supaya dedaun cepat kering",
+              "Elakkan tanaman padat di batas yang teduh dan lembap",
+              "Buang anak pokok liar dan rumpai berkaitan di sekitar"
+            ]
+          },
+          prognosis: "Sangat baik jika daun dijangkiti dibuang dan semburan dimulakan sebelum pustul merebak."
+        },
+        E2: {
+          name: "Karat Putih Pertengahan",
+          description: "Banyak pustul putih bercantum menjadi tompok, dengan daun menguning dan sedikit herot.",
+          symptoms: [
+            "Pustul putih padat menutupi sebahagian bawah daun",
+            "Pustul bercantum menjadi tompok tidak sekata",
+            "Tompok kuning di permukaan atas",
+            "Daun mula mencekung atau berkedut",
+            "Pustul pada tangkai daun"
+          ],
+          biologicalInterpretation: "Kitaran sekunder sporangium menyebarkan patogen dari daun ke daun; kolonisasi sistemik tangkai daun telah bermula.",
+          visualDescription: "Pustul putih bercantum dengan tompok kuning dan daun mencekung",
+          treatment: {
+            immediate: [
+              "Potong pucuk yang dijangkiti teruk dan bawa keluar dari ladang",
+              "Jangan jadikan bahan dijangkiti kompos",
+              "Pastikan dedaun kering; siram di paras tanah pada waktu pagi"
+            ],
+            chemical: [
+              "Sembur metalaksil + mankozeb setiap 5-7 hari sebanyak 3 kali",
+              "Selang-selikan dengan racun kulat kuprum untuk mengehadkan kerintangan",
+              "Sembur bahagian bawah daun di mana pustul terbentuk"
+            ],
+            cultural: [
+              "Perbaiki saliran dan pengaliran udara antara batas",
+              "Cabut tanaman yang teruk dijangkiti untuk melindungi tanaman berhampiran",
+              "Elakkan bekerja di ladang ketika dedaun basah"
+            ]
+          },
+          prognosis: "Sederhana (50-70% pulih) dengan membuang pucuk dijangkiti dan semburan yang konsisten. Hasil boleh pasar berkurang."
+        },
+        E3: {
+          name: "Karat Putih Teruk",
+          description: "Daun dipenuhi pustul, batang bengkak dan berpintal (gal), daun menjadi perang dan gugur.",
+          symptoms: [
+            "Pustul menutupi sebahagian besar bawah daun",
+            "Batang dan tangkai daun bengkak dan herot (gal)",
+            "Hujung pucuk berpintal dan terbantut",
+            "Tisu dijangkiti menjadi perang dan mati",
+            "Daun gugur dengan banyak"
+          ],
+          biologicalInterpretation: "Jangkitan sistemik menyebabkan hipertrofi tisu batang; oospora yang terbentuk dalam gal akan hidup dalam sisa tanaman.",
+          visualDescription: "Daun dipenuhi pustul dengan gal dan batang herot",
+          treatment: {
+            immediate: [
+              "Cabut dan musnahkan tanaman bergal; ia tidak dapat pulih",
+              "Bersihkan semua sisa tanaman dari batas",
+              "Asingkan batas daripada tanaman yang sihat"
+            ],
+            chemical: [
+              "Lindungi batas sekeliling dengan metalaksil + mankozeb setiap 5 hari",
+              "Jangan bergantung pada semburan untuk memulihkan tanaman bergal"
+            ],
+            cultural: [
+              "Giliran tanaman daripada famili yang sama sekurang-kurangnya satu musim",
+              "Gunakan benih atau keratan daripada tanaman bersih sahaja",
+              "Banjirkan atau solarisasi batas sebelum menanam semula jika boleh"
+            ]
+          },
+          prognosis: "Lemah. Tanaman bergal tidak boleh dipasarkan; fokus pada melindungi batas yang sihat dan membersihkan sisa yang mengandungi oospora."
+        }
+      }
+    },
+    bacterial_leaf_spot: {
+      name: "Bintik Daun Bakteria",
+      overview: "Bintik lebam air yang bertukar perang gelap hingga hitam, selalunya bersudut dan dibatasi urat daun. Merebak melalui percikan hujan, air pengairan dan sentuhan; racun kulat sahaja tidak dapat mengawalnya.",
+      stages: {
+        E1: {
+          name: "Bintik Daun Bakteria Awal",
+          description: "Bintik halus lebam air dan berminyak (1-2mm) yang menjadi gelap, kadangkala dengan tepi kuning samar.",
+          symptoms: [
+            "Bintik kecil lebam air atau berminyak",
+            "Bintik hijau gelap hingga perang, bersudut mengikut urat",
+            "Tepi kuning samar pada sesetengah bintik",
+            "Tiada pertumbuhan berserbuk atau gelang sepusat"
+          ],
+          biologicalInterpretation: "Bakteria telah masuk melalui stomata atau luka dan membiak di ruang antara sel daun.",
+          visualDescription: "Bintik gelap bersudut dan lebam air",
+          treatment: {
+            immediate: [
+              "Buang daun berbintik dan masukkan ke dalam beg",
+              "Hentikan penyiraman dari atas untuk mengelakkan rebakan percikan",
+              "Nyahjangkit pisau dan tangan selepas mengendalikan tanaman dijangkiti"
+            ],
+            chemical: [
+              "Sembur kuprum hidroksida atau kuprum oksiklorida (2g/L) setiap 7 hari",
+              "Racun kulat tanpa kuprum tidak berkesan terhadap bakteria",
+              "Patuhi tempoh sebelum tuai produk sebelum memotong"
+            ],
+            cultural: [
+              "Elakkan menuai atau bekerja ketika daun basah",
+              "Gunakan air bersih untuk pengairan jika boleh",
+              "Elakkan nitrogen berlebihan yang menghasilkan pertumbuhan lembut dan mudah dijangkiti"
+            ]
+          },
+          prognosis: "Baik jika rebakan percikan dihentikan awal; pertumbuhan baharu biasanya bersih."
+        },
+        E2: {
+          name: "Bintik Daun Bakteria Pertengahan",
+          description: "Banyak bintik perang gelap hingga hitam (3-6mm) dengan lingkaran kuning, mula bercantum.",
+          symptoms: [
+            "Banyak bintik bersudut perang gelap hingga hitam",
+            "Lingkaran kuning terang di sekeliling bintik",
+            "Bintik bercantum di sepanjang urat dan tepi daun",
+            "Bahagian tengah mungkin kering dan merekah"
+          ],
+          biologicalInterpretation: "Populasi bakteria cukup tinggi untuk membunuh tisu dan meleleh ke permukaan daun, mendorong rebakan melalui percikan.",
+          visualDescription: "Bintik gelap bersudut dengan lingkaran kuning, bercantum",
+          treatment: {
+            immediate: [
+              "Buang daun dan pucuk yang teruk berbintik",
+              "Jauhkan orang dan alatan dari batas ketika basah"
+            ],
+            chemical: [
+              "Sembur kuprum setiap 5-7 hari sebanyak 3 kali",
+              "Tambah mankozeb kepada kuprum untuk kawalan lebih baik jika dibenarkan"
+            ],
+            cultural: [
+              "Tambah jarak dan buang rumpai supaya cepat kering",
+              "Bersihkan alat menuai antara batas dengan peluntur 10%"
+            ]
+          },
+          prognosis: "Sederhana. Daun berbintik tidak pulih tetapi pertumbuhan semula boleh dilindungi dengan kuprum dan dedaun yang kering."
+        },
+        E3: {
+          name: "Hawar Bakteria Teruk",
+          description: "Bintik bercantum menjadi kawasan hawar hitam yang besar; daun layu dan hujung pucuk reput.",
+          symptoms: [
+            "Kawasan hawar besar yang menghitam",
+            "Daun menguning dan layu",
+            "Reput lembut pada hujung pucuk dalam cuaca basah",
+            "Daun gugur di seluruh tanaman"
+          ],
+          biologicalInterpretation: "Kolonisasi bakteria yang meluas telah meruntuhkan tisu daun; pucuk menjadi sumber jangkitan utama.",
+          visualDescription: "Lesi hitam bercantum dengan daun rebah",
+          treatment: {
+            immediate: [
+              "Cabut dan musnahkan tanaman yang teruk dijangkiti",
+              "Hentikan aliran air pengairan dari batas dijangkiti ke batas sihat"
+            ],
+            chemical: [
+              "Lindungi batas berhampiran dengan kuprum setiap 5 hari",
+              "Semburan tidak akan menyelamatkan tanaman yang telah hawar"
+            ],
+            cultural: [
+              "Giliran tanaman daripada kangkung dan Ipomoea lain selama satu musim",
+              "Tanam hanya keratan daripada stok bebas penyakit"
+            ]
+          },
+          prognosis: "Lemah bagi tanaman yang terjejas. Buang tanaman tersebut dan lindungi tanaman selebihnya."
+        }
+      }
+    },
+    pest_damage: {
+      name: "Kerosakan Afid / Hama",
+      overview: "Disebabkan oleh perosak penghisap sap, bukan patogen. Afid menggulungkan daun dan meninggalkan embun madu melekit serta kulapuk jelaga; hama labah-labah menyebabkan bintik kuning halus, daun keperangan dan sarang halus dalam cuaca panas dan kering.",
+      stages: {
+        E1: {
+          name: "Kerosakan Perosak Ringan",
+          description: "Bintik pucat halus yang bertaburan atau beberapa koloni afid pada pucuk muda dan bawah daun.",
+          symptoms: [
+            "Bintik pucat halus di permukaan atas",
+            "Koloni afid kecil pada hujung pucuk atau bawah daun",
+            "Daun muda sedikit bergulung",
+            "Tompok embun madu berkilat"
+          ],
+          biologicalInterpretation: "Populasi perosak sedang bertapak; pemakanan mengeluarkan kandungan sel tetapi tanaman masih tumbuh seperti biasa.",
+          visualDescription: "Bintik halus atau koloni serangga kecil",
+          treatment: {
+            immediate: [
+              "Periksa bawah daun dengan kanta tangan untuk mengesahkan afid atau hama",
+              "Semburkan air yang kuat untuk menanggalkan koloni",
+              "Buang pucuk yang paling teruk diserang"
+            ],
+            chemical: [
+              "Sembur minyak neem atau sabun racun serangga, termasuk bawah daun",
+              "Ulang setiap 5-7 hari selagi perosak ada"
+            ],
+            cultural: [
+              "Pastikan batas bebas rumpai untuk menghapuskan tempat perlindungan perosak",
+              "Galakkan kumbang kura-kura dan lacewing; elakkan semburan spektrum luas"
+            ]
+          },
+          prognosis: "Sangat baik. Serangan ringan mudah dikawal dan pertumbuhan baharu tidak terjejas."
+        },
+        E2: {
+          name: "Kerosakan Perosak Sederhana",
+          description: "Bintik halus atau daun keperangan yang meluas, daun bergulung, embun madu dengan kulapuk jelaga, mungkin ada sarang halus.",
+          symptoms: [
+            "Bintik halus bercantum menjadi kawasan kuning atau keperangan",
+            "Daun muda bergulung dan berkedut",
+            "Kulapuk jelaga hitam pada embun madu",
+            "Sarang halus di bawah daun (hama)",
+            "Pertumbuhan pucuk lebih perlahan"
+          ],
+          biologicalInterpretation: "Pemakanan mengurangkan fotosintesis; afid juga mungkin menyebarkan virus antara tanaman.",
+          visualDescription: "Daun keperangan atau bergulung dengan kulapuk jelaga atau sarang",
+          treatment: {
+            immediate: [
+              "Buang pucuk yang teruk diserang",
+              "Basuh dedaun untuk menanggalkan embun madu dan hama"
+            ],
+            chemical: [
+              "Afid: gunakan racun serangga berdaftar untuk sayuran berdaun jika sabun dan neem gagal",
+              "Hama: gunakan racun hama khusus (cth. abamektin); kebanyakan racun serangga tidak membunuh hama",
+              "Patuhi tempoh sebelum tuai produk sebelum memotong"
+            ],
+            cultural: [
+              "Pastikan tanah lembap semasa cuaca panas; tekanan kemarau menggalakkan hama",
+              "Elakkan nitrogen berlebihan yang menggalakkan pembiakan afid"
+            ]
+          },
+          prognosis: "Baik jika dikawal. Daun yang rosak kekal berparut, tetapi pertumbuhan semula bersih."
+        },
+        E3: {
+          name: "Kerosakan Perosak Teruk",
+          description: "Daun keperangan, kering atau sangat herot; koloni padat atau sarang menutupi pucuk.",
+          symptoms: [
+            "Daun keperangan, kering dan rapuh",
+            "Sarang padat di atas hujung pucuk",
+            "Lapisan kulapuk jelaga tebal pada daun",
+            "Pucuk sangat terbantut dan herot",
+            "Daun gugur"
+          ],
+          biologicalInterpretation: "Tekanan perosak melebihi keupayaan tanaman untuk tumbuh semula; batas ini menjadi sumber serangan kepada tanaman berhampiran.",
+          visualDescription: "Pucuk keperangan, bersarang atau sangat herot",
+          treatment: {
+            immediate: [
+              "Potong dan buang pucuk yang paling teruk dari ladang",
+              "Rawat batas berhampiran sebelum perosak berpindah"
+            ],
+            chemical: [
+              "Gunakan racun hama atau racun serangga yang sesuai dengan perosak yang disahkan",
+              "Selang-selikan kumpulan kimia antara semburan untuk melambatkan kerintangan"
+            ],
+            cultural: [
+              "Pertimbangkan untuk membersihkan dan menanam semula batas yang rosak teruk",
+              "Pantau setiap minggu dengan perangkap melekit dan pemeriksaan daun selepas menanam semula"
+            ]
+          },
+          prognosis: "Sederhana. Tanaman selalunya tumbuh semula selepas dipotong jika perosak dikawal."
+        }
+      }
+    },
+    nutrient_deficiency: {
+      name: "Kekurangan Nutrien",
+      overview: "Perubahan warna yang disebabkan oleh pemakanan, bukan jangkitan. Daun tua menguning secara sekata menunjukkan kekurangan nitrogen, kuning di antara urat daun muda menunjukkan kekurangan besi, dan tepi hangus pada daun tua menunjukkan kekurangan kalium.",
+      stages: {
+        E1: {
+          name: "Kekurangan Nutrien Ringan",
+          description: "Sedikit pucat sekata atau kuning di antara urat tanpa bintik atau lesi.",
+          symptoms: [
+            "Warna hijau pucat hingga kuning sekata pada daun tua",
+            "Atau kuning di antara urat daun muda, urat kekal hijau",
+            "Tiada bintik, pustul atau lingkaran",
+            "Simptom simetri pada daun"
+          ],
+          biologicalInterpretation: "Bekalan satu atau lebih nutrien di bawah keperluan; penghasilan klorofil mula menurun.",
+          visualDescription: "Klorosis sekata atau di antara urat, tiada lesi",
+          treatment: {
+            immediate: [
+              "Perhatikan daun yang terjejas: daun tua (N, K, Mg) atau daun muda (Fe)",
+              "Periksa paras air dan pH tanah; pH tinggi mengunci besi"
+            ],
+            nutritional: [
+              "Nitrogen: tabur urea atau NPK seimbang di tepi tanaman",
+              "Besi: sembur besi terkelat pada daun",
+              "Magnesium: sembur garam Epsom (magnesium sulfat, 2%) pada daun"
+            ],
+            cultural: [
+              "Tambah kompos atau baja kandang yang sudah reput sebelum tanaman seterusnya",
+              "Uji tanah untuk mengesahkan nutrien yang kurang"
+            ]
+          },
+          prognosis: "Sangat baik. Pertumbuhan baharu kembali hijau dalam 1-2 minggu selepas nutrien dibekalkan."
+        },
+        E2: {
+          name: "Kekurangan Nutrien Sederhana",
+          description: "Kuning yang jelas pada sebahagian besar tanaman, pertumbuhan lebih perlahan, mungkin tepi hangus pada daun tua.",
+          symptoms: [
+            "Daun kuning yang meluas",
+            "Tepi perang hangus pada daun tua (kalium)",
+            "Batang kurus dan daun baharu kecil",
+            "Pertumbuhan semula selepas tuai jelas lebih perlahan"
+          ],
+          biologicalInterpretation: "Kekurangan menghadkan pertumbuhan; tanaman memindahkan nutrien mudah alih dari daun tua ke pertumbuhan baharu.",
+          visualDescription: "Klorosis meluas dengan tepi hangus",
+          treatment: {
+            immediate: [
+              "Beri baja pembetulan berdasarkan corak simptom",
+              "Buang daun yang sangat kuning yang tidak akan pulih"
+            ],
+            nutritional: [
+              "Nitrogen: ulang pembajaan tepi selepas setiap tuaian",
+              "Kalium: beri muriat atau sulfat potash",
+              "Gabungkan baja tanah dengan baja daun untuk tindak balas lebih cepat"
+            ],
+            cultural: [
+              "Laraskan pH ke arah 6.0-7.0 jika ujian tanah menunjukkan di luar julat",
+              "Elakkan tanah bertakung air yang mengehadkan penyerapan akar"
+            ]
+          },
+          prognosis: "Baik. Pertumbuhan pulih selepas pembetulan; hasil tuaian semasa berkurang."
+        },
+        E3: {
+          name: "Kekurangan Nutrien Teruk",
+          description: "Tanaman pucat atau keputihan dengan tepi nekrotik dan pertumbuhan sangat terbantut.",
+          symptoms: [
+            "Daun hampir putih atau kuning terang",
+            "Tepi dan hujung perang nekrotik",
+            "Pucuk sangat terbantut",
+            "Daun gugur pramatang"
+          ],
+          biologicalInterpretation: "Kekurangan berpanjangan telah merosakkan tisu daun; tanaman yang tertekan juga lebih mudah dijangkiti.",
+          visualDescription: "Dedaun keputihan, nekrotik dan terbantut",
+          treatment: {
+            immediate: [
+              "Potong pertumbuhan yang rosak dan beri baja untuk menyokong pertumbuhan semula",
+              "Dapatkan ujian tanah atau air sebelum tanaman seterusnya"
+            ],
+            nutritional: [
+              "Beri baja lengkap serta nutrien khusus yang kurang",
+              "Susuli dengan baja daun setiap 7 hari sehingga pertumbuhan baharu hijau"
+            ],
+            cultural: [
+              "Bina semula bahan organik tanah dengan kompos",
+              "Periksa air pengairan untuk pH atau kemasinan yang tinggi"
+            ]
+          },
+          prognosis: "Sederhana. Tanaman tumbuh semula selepas dipotong jika akar sihat dan pemakanan dibetulkan."
+        }
+      }
+    },
+    choanephora_wet_rot: {
+      name: "Reput Basah Choanephora",
+      overview: "Reput lembut dan basah pada pucuk dan daun muda dalam cuaca panas dan hujan. Tisu dijangkiti menjadi gelap dan lebam air, dan kulat berbulu kelabu-hitam dengan kepala spora sebesar kepala jarum tumbuh pada bahagian reput.",
+      stages: {
+        E1: {
+          name: "Reput Basah Awal",
+          description: "Tompok lebam air yang semakin gelap pada hujung atau tepi daun muda.",
+          symptoms: [
+            "Tompok lebam air pada hujung atau tepi daun",
+            "Tisu bertukar perang kusam hingga hijau gelap",
+            "Biasanya bermula pada daun muda atau yang luka",
+            "Belum ada pertumbuhan kulat yang kelihatan"
+          ],
+          biologicalInterpretation: "Spora yang jatuh pada tisu basah, luka atau tua telah bercambah dan mula mereputkannya.",
+          visualDescription: "Hujung daun lebam air dan semakin gelap",
+          treatment: {
+            immediate: [
+              "Buang daun dan hujung pucuk yang reput",
+              "Elakkan membasahkan dedaun pada lewat petang"
+            ],
+            chemical: [
+              "Sembur mankozeb atau racun kulat kuprum selepas hujan lebat",
+              "Patuhi tempoh sebelum tuai produk sebelum memotong"
+            ],
+            cultural: [
+              "Tambah jarak supaya batas cepat kering",
+              "Elakkan melukakan tanaman semasa merumput dan menuai"
+            ]
+          },
+          prognosis: "Baik. Membuang hujung yang terjejas biasanya menghentikan rebakan apabila cuaca kering."
+        },
+        E2: {
+          name: "Reput Basah Pertengahan",
+          description: "Hujung pucuk reput diliputi kulat berbulu kelabu-hitam.",
+          symptoms: [
+            "Hujung pucuk lembut dan menghitam",
+            "Kulat seperti rambut kelabu dengan kepala spora gelap",
+            "Reput merebak ke tangkai daun",
+            "Pucuk yang terjejas layu"
+          ],
+          biologicalInterpretation: "Kulat sedang bersporaan pada tisu reput dan merebak ke pucuk berhampiran melalui angin dan percikan.",
+          visualDescription: "Hujung menghitam dengan kulat berbulu",
+          treatment: {
+            immediate: [
+              "Potong pucuk reput di bawah tisu yang terjejas",
+              "Buang sisa dari batas; jangan tinggalkan di antara barisan"
+            ],
+            chemical: [
+              "Sembur mankozeb atau kuprum setiap 7 hari semasa musim hujan"
+            ],
+            cultural: [
+              "Perbaiki saliran dan elakkan penyiraman dari atas",
+              "Kurangkan nitrogen yang menjadikan pertumbuhan lembut dan mudah dijangkiti"
+            ]
+          },
+          prognosis: "Sederhana. Tanaman tumbuh semula dari buku yang sihat selepas hujung reput dibuang."
+        },
+        E3: {
+          name: "Reput Basah Teruk",
+          description: "Pucuk dan batang rebah menjadi reput hitam, dengan kulat di seluruh tanaman.",
+          symptoms: [
+            "Batang reput dan pucuk rebah",
+            "Kulat menutupi sebahagian besar tanaman",
+            "Tisu lembut berbau busuk",
+            "Tanaman mati bertompok-tompok"
+          ],
+          biologicalInterpretation: "Reput telah sampai ke batang dan tanaman tidak lagi dapat menyokong pertumbuhan baharu.",
+          visualDescription: "Pucuk hitam yang rebah dengan kulat meluas",
+          treatment: {
+            immediate: [
+              "Cabut dan musnahkan tanaman yang rebah",
+              "Lindungi tanaman berhampiran dengan semburan racun kulat"
+            ],
+            cultural: [
+              "Tanam semula di batas tinggi yang bersaliran baik",
+              "Elakkan menanam pada kemuncak musim hujan"
+            ]
+          },
+          prognosis: "Lemah. Tanaman yang rebah perlu dibuang untuk melindungi batas selebihnya."
+        }
+      }
+    },
+    alternaria_leaf_spot: {
+      name: "Bintik Daun Alternaria",
+      overview: "Bintik daun paling biasa pada sawi. Bintik perang bulat membentuk gelang sepusat seperti sasaran dengan tepi kuning, dan merebak paling cepat dalam cuaca panas dan lembap.",
+      stages: {
+        E1: {
+          name: "Bintik Daun Alternaria Awal",
+          description: "Bintik kecil perang gelap hingga hitam (1-3mm), kebanyakannya pada daun tua.",
+          symptoms: [
+            "Bintik kecil gelap pada daun tua",
+            "Tepi kuning samar di sekeliling sesetengah bintik",
+            "Sedikit bintik pada setiap daun"
+          ],
+          biologicalInterpretation: "Spora bawaan udara atau benih telah menjangkiti daun semasa daun basah.",
+          visualDescription: "Bintik gelap 1-3mm pada daun tua",
+          treatment: {
+            immediate: [
+              "Buang daun bawah yang berbintik",
+              "Pastikan dedaun kering; siram pada waktu pagi di paras tanah"
+            ],
+            chemical: [
+              "Sembur mankozeb atau klorotalonil setiap 7-10 hari",
+              "Patuhi tempoh sebelum tuai produk sebelum memotong"
+            ],
+            cultural: [
+              "Gunakan benih diperakui atau benih yang dirawat air panas",
+              "Kawal rumpai kubis-kubisan yang membawa kulat"
+            ]
+          },
+          prognosis: "Sangat baik dengan membuang daun berbintik awal dan semburan perlindungan."
+        },
+        E2: {
+          name: "Bintik Daun Alternaria Pertengahan",
+          description: "Bintik perang (5-15mm) dengan gelang sasaran sepusat dan lingkaran kuning.",
+          symptoms: [
+            "Bintik perang bulat dengan gelang sepusat",
+            "Lingkaran kuning di sekeliling bintik",
+            "Pertumbuhan spora gelap seperti jelaga di tengah bintik",
+            "Bintik juga pada daun muda"
+          ],
+          biologicalInterpretation: "Lesi sedang bersporaan dan kitaran jangkitan berulang bergerak ke atas tanaman.",
+          visualDescription: "Bintik perang bergelang sasaran dengan lingkaran kuning",
+          treatment: {
+            immediate: [
+              "Buang daun yang teruk berbintik dan masukkan ke dalam beg",
+              "Tuai daun yang boleh dipasarkan lebih awal"
+            ],
+            chemical: [
+              "Sembur setiap 7 hari, selang-selikan mankozeb dengan kumpulan racun kulat lain",
+              "Sembur kedua-dua permukaan daun"
+            ],
+            cultural: [
+              "Lebarkan jarak untuk pengudaraan yang lebih baik",
+              "Elakkan nitrogen berlebihan"
+            ]
+          },
+          prognosis: "Baik dengan semburan yang konsisten; daun berbintik hilang nilai pasaran."
+        },
+        E3: {
+          name: "Hawar Alternaria Teruk",
+          description: "Bintik sasaran bercantum menjadi kawasan hawar besar; daun menguning, kering dan gugur.",
+          symptoms: [
+            "Bintik bercantum menutupi sebahagian besar daun",
+            "Daun menguning dan kering",
+            "Bintik pada batang dan tangkai daun",
+            "Kehilangan daun yang banyak"
+          ],
+          biologicalInterpretation: "Liputan lesi yang meluas telah memusnahkan kawasan fotosintesis; tanaman menjadi sumber spora yang besar.",
+          visualDescription: "Daun hawar dipenuhi bintik sasaran yang bercantum",
+          treatment: {
+            immediate: [
+              "Tuai apa yang boleh dipasarkan dan bersihkan batas",
+              "Bajak atau buang sisa tanaman dengan segera"
+            ],
+            cultural: [
+              "Giliran tanaman daripada kubis-kubisan sekurang-kurangnya 2 musim",
+              "Mulakan tanaman seterusnya dengan benih bersih"
+            ]
+          },
+          prognosis: "Lemah bagi tanaman semasa. Bersihkan sisa untuk melindungi tanaman kemudian."
+        }
+      }
+    },
+    downy_mildew: {
+      name: "Cendawan Berbulu",
+      overview: "Tompok kuning bersudut di permukaan atas daun dengan pertumbuhan berbulu kelabu-putih di bawahnya. Digalakkan oleh malam sejuk, embun dan kelembapan tinggi; anak pokok paling berisiko.",
+      stages: {
+        E1: {
+          name: "Cendawan Berbulu Awal",
+          description: "Tompok kuning bersudut samar yang dibatasi urat, dengan pertumbuhan kelabu jarang di bawah daun pada waktu pagi.",
+          symptoms: [
+            "Tompok kuning pucat bersudut di antara urat",
+            "Bulu kelabu-putih jarang di bawah daun",
+            "Paling jelas selepas malam berembun"
+          ],
+          biologicalInterpretation: "Spora telah menjangkiti ketika daun basah dan patogen sedang tumbuh di antara sel daun.",
+          visualDescription: "Tompok kuning bersudut dengan bulu jarang di bawah daun",
+          treatment: {
+            immediate: [
+              "Buang daun yang terjejas",
+              "Elakkan penyiraman pada waktu petang"
+            ],
+            chemical: [
+              "Sembur metalaksil + mankozeb atau racun kulat kuprum",
+              "Patuhi tempoh sebelum tuai produk sebelum memotong"
+            ],
+            cultural: [
+              "Jarangkan anak pokok untuk pengudaraan yang lebih baik",
+              "Elakkan menanam di kawasan rendah dan lembap"
+            ]
+          },
+          prognosis: "Sangat baik jika kelembapan dikurangkan dan semburan perlindungan diberi."
+        },
+        E2: {
+          name: "Cendawan Berbulu Pertengahan",
+          description: "Banyak tompok kuning bertukar perang muda, dengan bulu kelabu padat di bawah daun.",
+          symptoms: [
+            "Banyak tompok bersudut kuning hingga perang muda",
+            "Bulu kelabu padat di bawah daun",
+            "Tompok bercantum di seluruh daun"
+          ],
+          biologicalInterpretation: "Pensporaan yang banyak menyebarkan patogen ke seluruh tanaman setiap malam yang lembap.",
+          visualDescription: "Tompok bersudut perang muda dengan bulu kelabu padat",
+          treatment: {
+            immediate: [
+              "Buang daun dan anak pokok yang teruk terjejas"
+            ],
+            chemical: [
+              "Sembur setiap 7 hari, selang-selikan metalaksil + mankozeb dengan kuprum"
+            ],
+            cultural: [
+              "Siram pada waktu pagi supaya daun kering sebelum malam",
+              "Tambah jarak antara barisan"
+            ]
+          },
+          prognosis: "Sederhana. Program semburan melindungi pertumbuhan baharu; daun yang terjejas kekal rosak."
+        },
+        E3: {
+          name: "Cendawan Berbulu Teruk",
+          description: "Kawasan besar daun menjadi perang dan nipis seperti kertas; anak pokok mungkin mati.",
+          symptoms: [
+            "Kawasan besar perang seperti kertas",
+            "Daun mengecut dan gugur",
+            "Anak pokok mati"
+          ],
+          biologicalInterpretation: "Kebanyakan tisu daun telah dikolonisasi dan dibunuh.",
+          visualDescription: "Daun perang, seperti kertas dan mengecut",
+          treatment: {
+            immediate: [
+              "Buang tanaman mati dan sisa",
+              "Lindungi tanaman muda berhampiran"
+            ],
+            cultural: [
+              "Giliran tanaman daripada kubis-kubisan selama satu musim",
+              "Elakkan menyemai semasa cuaca sejuk dan basah yang berpanjangan"
+            ]
+          },
+          prognosis: "Lemah. Tanam semula apabila keadaan lebih kering."
+        }
+      }
+    },
+    black_rot: {
+      name: "Reput Hitam",
+      overview: "Penyakit bakteria kubis-kubisan yang masuk melalui tepi daun. Ia menyebabkan lesi kuning berbentuk V yang menghala ke tulang daun, dengan urat menghitam di dalamnya. Merebak melalui benih, percikan hujan dan alatan.",
+      stages: {
+        E1: {
+          name: "Reput Hitam Awal",
+          description: "Kawasan kuning kecil berbentuk V di tepi daun.",
+          symptoms: [
+            "Tompok kuning berbentuk V di tepi daun",
+            "Hujung V menghala ke tulang daun",
+            "Urat di dalam tompok sedikit gelap"
+          ],
+          biologicalInterpretation: "Bakteria telah masuk melalui liang air di tepi daun dan sedang bergerak ke dalam urat.",
+          visualDescription: "Lesi kuning berbentuk V di tepi daun",
+          treatment: {
+            immediate: [
+              "Buang daun yang terjejas dan masukkan ke dalam beg",
+              "Nyahjangkit alatan dan tangan selepas mengendalikan tanaman"
+            ],
+            chemical: [
+              "Sembur kuprum hidroksida untuk melambatkan rebakan percikan",
+              "Patuhi tempoh sebelum tuai produk sebelum memotong"
+            ],
+            cultural: [
+              "Hentikan penyiraman dari atas",
+              "Gunakan benih yang dirawat air panas untuk tanaman seterusnya"
+            ]
+          },
+          prognosis: "Sederhana. Membuang awal mengehadkan rebakan, tetapi tanaman dijangkiti jarang bebas daripada bakteria."
+        },
+        E2: {
+          name: "Reput Hitam Pertengahan",
+          description: "Lesi berbentuk V membesar dan bertukar perang, dengan urat hitam memanjang ke dalam daun.",
+          symptoms: [
+            "Lesi berbentuk V yang perang dan kering",
+            "Urat hitam memanjang ke arah tulang daun",
+            "Beberapa daun terjejas pada setiap tanaman",
+            "Daun yang terjejas layu"
+          ],
+          biologicalInterpretation: "Jangkitan bersifat sistemik dalam tisu vaskular dan sedang bergerak ke dalam batang.",
+          visualDescription: "Lesi V perang dengan urat menghitam",
+          treatment: {
+            immediate: [
+              "Cabut tanaman yang mempunyai beberapa daun dijangkiti",
+              "Elakkan bekerja di ladang ketika basah"
+            ],
+            chemical: [
+              "Lindungi tanaman sihat dengan kuprum setiap 7 hari"
+            ],
+            cultural: [
+              "Kawal rumpai kubis-kubisan yang menjadi perumah bakteria",
+              "Bersihkan alatan antara batas dengan peluntur 10%"
+            ]
+          },
+          prognosis: "Lemah bagi tanaman yang terjejas; lindungi tanaman selebihnya di batas."
+        },
+        E3: {
+          name: "Reput Hitam Teruk",
+          description: "Daun menguning, menjadi perang dan gugur; batang menunjukkan tisu vaskular menghitam.",
+          symptoms: [
+            "Daun menguning dan rebah secara meluas",
+            "Gelang hitam kelihatan pada keratan batang",
+            "Tanaman terbantut dan mati"
+          ],
+          biologicalInterpretation: "Sekatan vaskular sedang membunuh tanaman; sisa akan membawa bakteria ke tanaman seterusnya.",
+          visualDescription: "Daun rebah dengan urat dan batang menghitam",
+          treatment: {
+            immediate: [
+              "Cabut dan musnahkan tanaman dijangkiti",
+              "Jangan jadikan bahan dijangkiti kompos"
+            ],
+            cultural: [
+              "Giliran tanaman daripada kubis-kubisan sekurang-kurangnya 2 tahun",
+              "Mulakan dengan benih diperakui yang telah dirawat"
+            ]
+          },
+          prognosis: "Sangat lemah. Buang tanaman terjejas dan rancang giliran tanaman yang panjang."
+        }
+      }
+    }
+  }
+};
+
+export const DISEASE_TRANSLATIONS: Partial<Record<Locale, DiseaseContentTranslation>> = {
+  ms: DISEASE_TEXT_MS,
+};
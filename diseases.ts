@@ -0,0 +1,55 @@
+import { DEFAULT_DISEASE, DISEASE_DATABASE, FOLLOW_UP_SCHEDULE, LEAF_STATUS } from './constants';
+import { DiseaseContentTranslation, DiseaseDefinition, DiseaseFinding, DiseaseId, DiseaseInfo, DiseaseStage, FollowUpSchedule } from './types';
+import { DISEASE_TRANSLATIONS } from './diseaseTranslations';
+import { localeChain } from './i18n';
+import { DIAGNOSIS_STAGES, isDiagnosisStage, isInfectionStage } from './stages';
+
+// Re-exported for the screens that already take the stage helpers from here
+export { DIAGNOSIS_STAGES, isDiagnosisStage, isInfectionStage };
+
+export const DISEASE_IDS = Object.keys(DISEASE_DATABASE) as DiseaseId[];
+
+export const isDiseaseId = (value: string): value is DiseaseId => Object.hasOwn(DISEASE_DATABASE, value);
+
+// Disease text in the active locale, or undefined when only the English entries apply
+const activeTranslation = (): DiseaseContentTranslation | undefined =>
+  localeChain().map((locale) => DISEASE_TRANSLATIONS[locale]).find(Boolean);
+
+export const getDiseaseInfo = (stage: DiseaseStage, diseaseId: DiseaseId = DEFAULT_DISEASE): DiseaseInfo => {
+  const translation = activeTranslation();
+  if (isInfectionStage(stage)) {
+    return { ...DISEASE_DATABASE[diseaseId].stages[stage], ...translation?.diseases[diseaseId].stages[stage] };
+  }
+  return { ...LEAF_STATUS[stage], ...translation?.leafStatus[stage] };
+};
+
+// A disease entry with its name, overview and stages in the active locale
+export const getDisease = (diseaseId: DiseaseId): DiseaseDefinition => {
+  const definition = DISEASE_DATABASE[diseaseId];
+  const text = activeTranslation()?.diseases[diseaseId];
+  if (!text) return definition;
+  return {
+    ...definition,
+    name: text.name,
+    overview: text.overview,
+    stages: {
+      E1: getDiseaseInfo('E1', diseaseId),
+      E2: getDiseaseInfo('E2', diseaseId),
+      E3: getDiseaseInfo('E3', diseaseId),
+    },
+  };
+};
+
+export const getFollowUpSchedule = (stage: DiseaseStage, diseaseId: DiseaseId = DEFAULT_DISEASE): FollowUpSchedule =>
+  (isInfectionStage(stage) && DISEASE_DATABASE[diseaseId].followUp?.[stage]) || FOLLOW_UP_SCHEDULE[stage];
+
+// Encyclopedia anchor for a stage entry; H0 and N0 have a single shared card
+export const guideAnchor = (stage: DiseaseStage, diseaseId: DiseaseId = DEFAULT_DISEASE) =>
+  isInfectionStage(stage) ? `${diseaseId}-${stage}` : stage;
+
+export const describeFinding = (finding: DiseaseFinding) =>
+  `${getDisease(finding.diseaseId).name} (${finding.stage})`;
+
+// Primary name plus any co-infections, e.g. for history lists
+export const describeDiagnosis = (stage: DiseaseStage, diseaseId?: DiseaseId, coInfections: DiseaseFinding[] = []) =>
+  [getDiseaseInfo(stage, diseaseId).name, ...coInfections.map(describeFinding)].join(' + ');
@@ -0,0 +1,222 @@
+import { ExportedScan, HistoryBackup, Plant, ScanRecord, TreatmentLog, TreatmentProtocol } from './types';
+import { describeDiagnosis, describeFinding, getDisease, getDiseaseInfo } from './diseases';
+import { getCrop, getDiseaseAgent } from './crops';
+import { getReviewStatus } from './review';
+import { formatSeverityClass, getSeverityScale, gradeSeverity } from './severityScales';
+import { severityScaleShortName } from './severityScaleNames';
+import { providerName } from './diagnosisProviders';
+import { getLocale, t } from './i18n';
+import { MessageKey } from './messages';
+
+const CSV_COLUMNS = [
+  'id', 'createdAt', 'plantId', 'plantName', 'cropId', 'timestamp', 'stage', 'diseaseId', 'diseaseName', 'coInfections', 'confidence',
+  'calibratedConfidence', 'needsReview', 'reviewStatus', 'labelStage', 'labelDiseaseId', 'reviewer', 'reviewNotes', 'expertLesionCount',
+  'severityScore', 'severityGrade', 'lesionCount', 'avgLesionSize', 'diseasedAreaPercent', 'leafCoveragePercent', 'leafAreaMm2', 'meanLesionDiameterMm', 'referenceId', 'consensusShots', 'consensusAgreement', 'leafCount', 'diseasedLeaves', 'leafIncidence', 'provider', 'rejectedByQualityGate',
+  'qualityIssues', 'detectedSymptoms', 'visualEvidenceRegions', 'lesions', 'repairedFields', 'aiExplanation'
+] as const;
+
+// Bump when the backup layout changes and teach importService to upgrade the old one
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Result fields plus context that only lives on the record
+const toExportedScan = (record: ScanRecord, plants: Plant[]): ExportedScan => ({
+  id: record.id,
+  createdAt: new Date(record.createdAt).toISOString(),
+  plantId: record.plantId,
+  plantName: plants.find((p) => p.id === record.plantId)?.name,
+  diseaseName: describeDiagnosis(record.result.stage, record.result.diseaseId, record.result.coInfections),
+  result: record.result,
+  image: record.image,
+  thumbnail: record.thumbnail,
+  label: record.label,
+  legacy: record.legacy
+});
+
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildHistoryCsv = (records: ScanRecord[], plants: Plant[]): string => {
+  const scale = getSeverityScale();
+  const rows = records.map((record) => {
+    const { result, image, thumbnail, label, ...scan } = toExportedScan(record, plants);
+    const row = { ...scan, ...result };
+    const cells: Partial<Record<(typeof CSV_COLUMNS)[number], unknown>> = {
+      ...row,
+      // Flatten the list fields so spreadsheets show them in a single readable cell
+      qualityIssues: Object.entries(row.qualityIssues ?? {}).filter(([, failed]) => failed).map(([issue]) => issue).join('; '),
+      detectedSymptoms: row.detectedSymptoms.join('; '),
+      repairedFields: row.repairedFields.join('; '),
+      coInfections: (row.coInfections ?? []).map(describeFinding).join('; '),
+      severityGrade: `${severityScaleShortName(scale.id)} ${gradeSeverity(parseFloat(row.severityScore) || 0, scale).grade}`,
+      diseasedAreaPercent: row.measurement?.diseasedAreaPercent,
+      leafCoveragePercent: row.leaf?.coveragePercent,
+      leafAreaMm2: row.measurement?.leafAreaMm2,
+      meanLesionDiameterMm: row.measurement?.meanLesionDiameterMm,
+      referenceId: row.measurement?.referenceId,
+      labelStage: label?.stage,
+      labelDiseaseId: label?.diseaseId,
+      reviewStatus: getReviewStatus(record),
+      reviewer: label?.reviewer,
+      reviewNotes: label?.notes,
+      expertLesionCount: label?.lesions?.length,
+      consensusShots: row.consensus?.shots,
+      consensusAgreement: row.consensus?.agreement.toFixed(2),
+      leafCount: row.leafSummary?.leafCount,
+      diseasedLeaves: row.leafSummary?.diseasedLeaves,
+      leafIncidence: row.leafSummary?.incidence.toFixed(2),
+      cropId: getCrop(row.cropId).id
+    };
+    return CSV_COLUMNS.map((col) => escapeCsv(cells[col])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// A full backup, images included, that importService can restore on another device
+export const buildHistoryBackup = (records: ScanRecord[], plants: Plant[], treatments: TreatmentLog[]): HistoryBackup => ({
+  app: 'phytoscan',
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  scans: records.map((record) => toExportedScan(record, plants)),
+  plants,
+  treatments
+});
+
+export const exportHistoryCsv = (records: ScanRecord[], plants: Plant[]) =>
+  // The BOM lets Excel detect UTF-8 instead of mangling non-ASCII text
+  downloadFile('\uFEFF' + buildHistoryCsv(records, plants), `phytoscan-history-${dateStamp()}.csv`, 'text/csv;charset=utf-8');
+
+export const exportHistoryJson = (records: ScanRecord[], plants: Plant[], treatments: TreatmentLog[]) =>
+  downloadFile(JSON.stringify(buildHistoryBackup(records, plants, treatments)), `phytoscan-backup-${dateStamp()}.json`, 'application/json');
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Imported backups reach the report too, so numbers are checked rather than trusted
+const htmlNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? String(value) : '–');
+
+// Only inline images the app itself stores; any other URL could load or run content in the report window
+export const isDataImageUrl = (src: unknown): src is string =>
+  typeof src === 'string' && /^data:image\/[a-z+.-]+;base64,[a-z0-9+/]+=*$/i.test(src);
+
+const htmlList = (items: string[]) =>
+  items.length ? `<ul>${items.map((i) => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : `<p class="muted">${escapeHtml(t('report.noneRecorded'))}</p>`;
+
+// Headings and labels of the printable report; values are escaped as whole strings
+const htmlText = (key: MessageKey, params?: Record<string, string | number>) => escapeHtml(t(key, params));
+
+/**
+ * Builds a self-contained HTML report for one scan, laid out for A4 printing
+ * so extension officers can save it as PDF from the browser print dialog.
+ */
+export const buildScanReportHtml = (record: ScanRecord, plant?: Plant, log?: TreatmentLog | null): string => {
+  const { result } = record;
+  const locale = getLocale();
+  const disease = getDiseaseInfo(result.stage, result.diseaseId);
+  const scale = getSeverityScale();
+  const grade = gradeSeverity(parseFloat(result.severityScore) || 0, scale);
+  const definition = result.diseaseId ? getDisease(result.diseaseId) : null;
+  const crop = getCrop(result.cropId);
+  const coInfections = (result.coInfections ?? [])
+    .map((finding) => {
+      const info = getDiseaseInfo(finding.stage, finding.diseaseId);
+      return `<h3>${escapeHtml(info.name)} (${(finding.confidence * 100).toFixed(0)}%)</h3>${htmlList(info.treatment.immediate)}`;
+    })
+    .join('');
+  // A reviewed scan is treated for the expert verdict
+  const treated = record.label ?? result;
+  const treatment = getDiseaseInfo(treated.stage, treated.diseaseId).treatment;
+  const protocolSections = (Object.keys(treatment) as (keyof TreatmentProtocol)[])
+    .map((category) => `<h3>${htmlText(`treatment.${category}`)}</h3>${htmlList(treatment[category] ?? [])}`)
+    .join('');
+  const applications = log?.applications.length
+    ? `<h2>${htmlText('report.applications')}</h2><table><tr><th>${htmlText('report.date')}</th><th>${htmlText('report.product')}</th><th>${htmlText('report.concentration')}</th><th>${htmlText('report.notes')}</th></tr>${log.applications
+        .map((a) => `<tr><td>${new Date(a.date).toLocaleDateString(locale)}</td><td>${escapeHtml(a.product)}</td><td>${escapeHtml(a.concentration)}</td><td>${escapeHtml(a.notes || '')}</td></tr>`)
+        .join('')}</table>`
+    : '';
+  const calibration = result.measurement?.pxPerMm
+    ? t('report.calibratedAt', { pxPerMm: htmlNumber(result.measurement.pxPerMm) })
+    : t('report.uncalibrated');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+<meta charset="UTF-8" />
+<title>${htmlText('report.documentTitle', { id: record.id })}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: system-ui, sans-serif; color: #0f172a; font-size: 12px; line-height: 1.5; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 14px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin-top: 20px; }
+  h3 { font-size: 11px; text-transform: uppercase; color: #475569; margin: 12px 0 4px; }
+  .header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 3px solid #047857; padding-bottom: 8px; }
+  .muted { color: #64748b; }
+  .summary { display: flex; gap: 16px; margin-top: 16px; }
+  .summary img { width: 240px; max-height: 240px; object-fit: contain; border: 1px solid #e2e8f0; border-radius: 8px; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  th { color: #64748b; font-weight: 600; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div><h1>${htmlText('report.title')}</h1><div class="muted">${definition ? htmlText('report.diseaseAssessment', { disease: definition.name, agent: getDiseaseAgent(definition.id, crop.id) }) : htmlText('report.leafAssessment')}</div></div>
+    <div class="muted">${htmlText('report.scan', { id: record.id })}<br />${new Date(record.createdAt).toLocaleString(locale)}</div>
+  </div>
+  <div class="summary">
+    ${isDataImageUrl(record.image) ? `<img src="${escapeHtml(record.image)}" alt="${htmlText('report.imageAlt')}" />` : `<p class="muted">${htmlText('report.noImage')}</p>`}
+    <table>
+      <tr><th>${htmlText('report.crop')}</th><td>${escapeHtml(`${crop.name} (${crop.englishName})`)}</td></tr>
+      <tr><th>${htmlText('detail.plant')}</th><td>${plant ? escapeHtml(plant.name + (plant.location ? ` (${plant.location})` : '')) : htmlText('detail.untagged')}</td></tr>
+      <tr><th>${htmlText('report.stage')}</th><td><strong>${escapeHtml(result.stage)} – ${escapeHtml(disease.name)}</strong></td></tr>
+      <tr><th>${htmlText('report.severity')}</th><td>${htmlText('report.severityValue', { percent: String(result.severityScore), scale: severityScaleShortName(scale.id), grade: grade.grade, range: formatSeverityClass(grade) })}</td></tr>
+      <tr><th>${htmlText('report.confidence')}</th><td>${(result.confidence * 100).toFixed(1)}%${result.calibratedConfidence !== undefined ? ` (${htmlText('report.calibrated', { percent: (result.calibratedConfidence * 100).toFixed(1) })})` : ''}${result.needsReview ? ` – <strong>${htmlText('report.needsReview')}</strong>` : ''}</td></tr>
+      ${record.label ? `<tr><th>${htmlText('report.expertReview')}</th><td>${htmlText(getReviewStatus(record) === 'verified' ? 'review.verified' : 'review.corrected')}: ${escapeHtml(record.label.stage)} – ${escapeHtml(getDiseaseInfo(record.label.stage, record.label.diseaseId).name)}${record.label.reviewer ? ` (${escapeHtml(record.label.reviewer)})` : ''}${record.label.notes ? `<br /><span class="muted">${escapeHtml(record.label.notes)}</span>` : ''}</td></tr>` : ''}
+      ${result.leaves && result.leafSummary ? `<tr><th>${htmlText('report.leaves')}</th><td>${htmlText('leaves.incidence', { diseased: htmlNumber(result.leafSummary.diseasedLeaves), assessed: htmlNumber(result.leafSummary.assessedLeaves), percent: Math.round(result.leafSummary.incidence * 100) })}: ${escapeHtml(result.leaves.map((leaf) => `${t('leaves.leaf', { index: leaf.index })} ${leaf.stage} ${getDiseaseInfo(leaf.stage, leaf.diseaseId).name}`).join(', '))}</td></tr>` : ''}
+      ${result.consensus ? `<tr><th>${htmlText('report.consensus')}</th><td>${htmlText('report.consensusValue', { percent: (result.consensus.agreement * 100).toFixed(0), shots: htmlNumber(result.consensus.shots - result.consensus.abstained), votes: result.consensus.votes.map((v) => `${v.count} × ${v.stage} ${getDiseaseInfo(v.stage, v.diseaseId).name}`).join(', ') })}</td></tr>` : ''}
+      <tr><th>${htmlText('report.lesions')}</th><td>${htmlText('report.lesionsValue', { count: htmlNumber(result.lesionCount), size: htmlNumber(result.avgLesionSize) })}</td></tr>
+      ${result.measurement ? `<tr><th>${htmlText('report.diseasedArea')}</th><td>${htmlText('report.diseasedAreaValue', { percent: htmlNumber(result.measurement.diseasedAreaPercent), calibration })}</td></tr>` : ''}
+      <tr><th>${htmlText('report.analyzedBy')}</th><td>${escapeHtml(providerName(result.provider))}</td></tr>
+    </table>
+  </div>
+  <h2>${htmlText('report.assessment')}</h2>
+  <p>${escapeHtml(disease.description)}</p>
+  ${result.aiExplanation ? `<p>${escapeHtml(result.aiExplanation)}</p>` : ''}
+  <h3>${htmlText('report.symptoms')}</h3>
+  ${htmlList(result.detectedSymptoms)}
+  ${disease.prognosis ? `<h3>${htmlText('report.prognosis')}</h3><p>${escapeHtml(disease.prognosis)}</p>` : ''}
+  <h2>${htmlText('report.protocol')}</h2>
+  ${result.needsReview && !record.label ? `<p><strong>${htmlText('report.withheldTitle')}</strong> ${htmlText('report.withheld')}</p>` : protocolSections}
+  ${coInfections ? `<h2>${htmlText('report.coInfections')}</h2>${coInfections}` : ''}
+  ${applications}
+</body>
+</html>`;
+};
+
+export const printScanReport = (record: ScanRecord, plant?: Plant, log?: TreatmentLog | null) => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    alert(t('report.popupBlocked'));
+    return;
+  }
+  win.document.write(buildScanReportHtml(record, plant, log));
+  win.document.close();
+  // Wait for the embedded image so it makes it onto the page
+  const pending = Array.from(win.document.images)
+    .filter((img) => !img.complete)
+    .map((img) => new Promise((resolve) => { img.onload = img.onerror = resolve; }));
+  Promise.all(pending).then(() => win.print());
+};
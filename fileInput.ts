@@ -0,0 +1,54 @@
+import { t } from './i18n';
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Returns a user-facing reason when the file cannot be analyzed
+export const validateImageFile = (file: File): string | null => {
+  if (!file.type.startsWith('image/')) return t('file.notImage');
+  if (file.size > MAX_IMAGE_BYTES) return t('file.tooLarge');
+  return null;
+};
+
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => reader.error ? reject(reader.error) : resolve(reader.result as string);
+    reader.readAsDataURL(file);
+  });
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve) => (entry as FileSystemFileEntry).file((f) => resolve([f]), () => resolve([])));
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in chunks until it yields an empty list
+    for (;;) {
+      const chunk = await new Promise<FileSystemEntry[]>((resolve) => reader.readEntries(resolve, () => resolve([])));
+      if (chunk.length === 0) break;
+      entries.push(...chunk);
+    }
+    const nested = await Promise.all(entries.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+/**
+ * Collects image files from a drop, descending into dropped folders.
+ * Falls back to the flat file list where directory entries are unsupported.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.kind === 'file' ? item.webkitGetAsEntry?.() : null)
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(readEntry))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files
+    .filter((f) => f.type.startsWith('image/'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
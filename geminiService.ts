@@ -1,35 +1,102 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { DISEASE_DATABASE } from "./constants";
-import { DiseaseStage } from "./types";
+import { getDiseaseAgent } from "./crops";
+import { getLocale, LOCALES } from "./i18n";
+import { CropDefinition, DiagnosisProvider, DiseaseStage, LesionRegion, RawDiagnosis } from "./types";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+export const GEMINI_MODEL = "gemini-3-flash-preview";
 
-export const analyzePlantImage = async (base64Image: string) => {
+// Created on first use so the app can start (and run the local provider) without an API key
+let ai: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+  return ai;
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+interface GeminiLesion {
+  box_2d: number[];
+  sizeMm?: unknown;
+  confidence?: unknown;
+}
+
+const isGeminiLesion = (value: unknown): value is GeminiLesion => {
+  const box = value && typeof value === 'object' ? (value as { box_2d?: unknown }).box_2d : undefined;
+  return Array.isArray(box) && box.length === 4 && box.every((v) => typeof v === 'number' && Number.isFinite(v));
+};
+
+const finiteOrZero = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
+// Gemini returns boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const toLesionRegions = (lesions: unknown): LesionRegion[] =>
+  (Array.isArray(lesions) ? lesions : [])
+    .filter(isGeminiLesion)
+    .map((l) => {
+      const [ymin, xmin, ymax, xmax] = l.box_2d.map((v) => clamp01(v / 1000));
+      return {
+        x: Math.min(xmin, xmax),
+        y: Math.min(ymin, ymax),
+        width: Math.abs(xmax - xmin),
+        height: Math.abs(ymax - ymin),
+        sizeMm: finiteOrZero(l.sizeMm),
+        confidence: clamp01(finiteOrZero(l.confidence)),
+      };
+    })
+    .filter((l) => l.width > 0 && l.height > 0);
+
+// One line per condition in the crop's catalogue with the visual marker of each stage, so the model can tell them apart
+const describeConditions = (crop: CropDefinition) =>
+  crop.diseases
+    .map((id) => DISEASE_DATABASE[id])
+    .map((d) => `- ${d.id}: ${d.name} (${getDiseaseAgent(d.id, crop.id)}). ${Object.entries(d.stages).map(([stage, info]) => `${stage}: ${info.visualDescription}`).join('; ')}.`)
+    .join('\n');
+
+// Preprocessed images are WebP or JPEG; the data URL header says which
+const dataUrlMimeType = (dataUrl: string) => /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? "image/jpeg";
+
+export const analyzePlantImage = async (base64Image: string, crop: CropDefinition): Promise<RawDiagnosis> => {
+  const language = LOCALES[getLocale()].promptLanguage;
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODEL,
       contents: [
         {
           parts: [
             {
               inlineData: {
-                mimeType: "image/jpeg",
+                mimeType: dataUrlMimeType(base64Image),
                 data: base64Image.split(',')[1],
               },
             },
             {
-              text: `Analyze this Kangkung (Water Spinach) leaf for Cercospora Leaf Spot.
-              Classify it into one of these categories: H0 (Healthy), E1 (Early), E2 (Mid), E3 (Severe), or N0 (Invalid/Poor quality).
+              text: `Analyze this ${crop.name} (${crop.englishName}, ${crop.scientificName}) leaf for diseases, pest damage and nutrient disorders.
+              Possible conditions:
+${describeConditions(crop)}
+              Notes for this crop: ${crop.promptNotes}
+              A coin or a printed black square may lie beside the leaf as a size reference; never count it as a lesion.
+              The background around the leaf may have been blanked to flat grey; treat it as background, not as a symptom.
+              Write explanation, detectedSymptoms and visualEvidenceRegions in ${language}. Keep disease ids and stage codes exactly as given.
+              Stage the most severe condition as E1 (Early), E2 (Mid) or E3 (Severe). Use H0 (Healthy) when no condition is present, or N0 (Invalid/Poor quality) when the image cannot be assessed.
               
               Return the results in strict JSON format with these fields:
+              - disease: (the most severe condition's id from the list above, or "none" for H0 and N0)
               - stage: (H0, E1, E2, E3, or N0)
               - confidence: (0 to 1)
               - lesionCount: (number)
               - avgLesionSize: (number in mm)
+              - affectedAreaPercent: (percent of the visible leaf area covered by lesions, 0 to 100; 0 for H0 and N0)
               - explanation: (short summary)
               - detectedSymptoms: (list of specific visual cues you see in this EXACT image, e.g., "Distinct purple borders", "Small circular spots", "Yellow halos")
               - visualEvidenceRegions: (description of where the most prominent lesions are, e.g., "center-left", "along leaf edges")
+              - lesions: (one entry per visible lesion, at most 30, each with:
+                  box_2d: [ymin, xmin, ymax, xmax] bounding box normalized to 0-1000,
+                  sizeMm: estimated lesion diameter in mm,
+                  confidence: 0 to 1 that this region is a lesion of the reported disease)
+                Return an empty list for H0 and N0.
+              - coInfections: (other conditions also visible on this leaf, each with disease id, stage E1-E3 and confidence 0 to 1;
+                an empty list when only one condition is present)
               `
             }
           ]
@@ -40,26 +107,62 @@ export const analyzePlantImage = async (base64Image: string) => {
         responseSchema: {
           type: Type.OBJECT,
           properties: {
+            disease: { type: Type.STRING },
             stage: { type: Type.STRING },
             confidence: { type: Type.NUMBER },
             lesionCount: { type: Type.NUMBER },
             avgLesionSize: { type: Type.NUMBER },
+            affectedAreaPercent: { type: Type.NUMBER },
             explanation: { type: Type.STRING },
             detectedSymptoms: {
               type: Type.ARRAY,
               items: { type: Type.STRING }
             },
-            visualEvidenceRegions: { type: Type.STRING }
+            visualEvidenceRegions: { type: Type.STRING },
+            lesions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  box_2d: {
+                    type: Type.ARRAY,
+                    items: { type: Type.NUMBER }
+                  },
+                  sizeMm: { type: Type.NUMBER },
+                  confidence: { type: Type.NUMBER }
+                },
+                required: ["box_2d", "sizeMm", "confidence"]
+              }
+            },
+            coInfections: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  disease: { type: Type.STRING },
+                  stage: { type: Type.STRING },
+                  confidence: { type: Type.NUMBER }
+                },
+                required: ["disease", "stage", "confidence"]
+              }
+            }
           },
-          required: ["stage", "confidence", "lesionCount", "avgLesionSize", "explanation", "detectedSymptoms", "visualEvidenceRegions"]
+          required: ["disease", "stage", "confidence", "lesionCount", "avgLesionSize", "explanation", "detectedSymptoms", "visualEvidenceRegions", "lesions", "coInfections"]
         }
       }
     });
 
-    const data = JSON.parse(response.text);
+    const data = JSON.parse(response.text || '{}');
+    data.lesions = toLesionRegions(data.lesions);
     return data;
   } catch (error) {
     console.error("Gemini analysis error:", error);
     throw error;
   }
 };
+
+export const geminiProvider: DiagnosisProvider = {
+  id: 'gemini',
+  requiresNetwork: true,
+  analyze: analyzePlantImage,
+};
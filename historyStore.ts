@@ -0,0 +1,217 @@
+import { AnalysisResult, HistoryItem, OutboxItem, Plant, ScanLabel, ScanRecord, StoredAnalysisResult, TreatmentLog } from './types';
+import { describeDiagnosis, getDiseaseInfo } from './diseases';
+import { DEFAULT_CROP } from './crops';
+import { effectiveConfidence } from './calibration';
+import { getReviewStatus } from './review';
+
+const DB_NAME = 'phytoscan';
+const DB_VERSION = 4;
+const SCAN_STORE = 'scans';
+const PLANT_STORE = 'plants';
+const TREATMENT_STORE = 'treatments';
+const OUTBOX_STORE = 'outbox';
+const LEGACY_HISTORY_KEY = 'kangkung_analysis_history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(SCAN_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (event.oldVersion < 2) {
+          request.transaction!.objectStore(SCAN_STORE).createIndex('plantId', 'plantId');
+          db.createObjectStore(PLANT_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(TREATMENT_STORE, { keyPath: 'scanId' });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+  storeName = SCAN_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = operation(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// The DiseaseInfo (with its icon component) is not cloneable, so records keep only the stage
+export const toStoredResult = ({ disease, ...rest }: AnalysisResult): StoredAnalysisResult => rest;
+
+export const toAnalysisResult = (stored: StoredAnalysisResult): AnalysisResult => ({
+  ...stored,
+  disease: getDiseaseInfo(stored.stage, stored.diseaseId),
+});
+
+export const toHistoryItem = (record: ScanRecord): HistoryItem => ({
+  id: record.id,
+  timestamp: record.result.timestamp,
+  // Scans from before multi-crop support are all Kangkung
+  cropId: record.result.cropId ?? DEFAULT_CROP,
+  stage: record.result.stage,
+  diseaseId: record.result.diseaseId,
+  diseaseName: describeDiagnosis(record.result.stage, record.result.diseaseId, record.result.coInfections),
+  confidence: effectiveConfidence(record.result),
+  severityScore: record.result.severityScore,
+  needsReview: record.result.needsReview && !record.label,
+  review: getReviewStatus(record),
+  thumbnail: record.thumbnail,
+  plantId: record.plantId,
+});
+
+export const saveScan = (record: ScanRecord): Promise<void> =>
+  runRequest('readwrite', (store) => store.put(record));
+
+export const getScan = (id: string): Promise<ScanRecord | undefined> =>
+  runRequest('readonly', (store) => store.get(id));
+
+// Newest first
+export const getAllScans = async (): Promise<ScanRecord[]> => {
+  const records = await runRequest<ScanRecord[]>('readonly', (store) => store.index('createdAt').getAll());
+  return records.reverse();
+};
+
+// Oldest first, for timelines
+export const getScansForPlant = async (plantId: string): Promise<ScanRecord[]> => {
+  const records = await runRequest<ScanRecord[]>('readonly', (store) => store.index('plantId').getAll(plantId));
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const setScanPlant = async (id: string, plantId: string | undefined): Promise<void> => {
+  const record = await getScan(id);
+  if (!record) return;
+  await saveScan({ ...record, plantId });
+};
+
+export const setScanLabel = async (id: string, label: ScanLabel | undefined): Promise<void> => {
+  const record = await getScan(id);
+  if (!record) return;
+  await saveScan({ ...record, label });
+};
+
+export const deleteScan = (id: string): Promise<void> =>
+  runRequest('readwrite', (store) => store.delete(id));
+
+export const clearScans = (): Promise<void> =>
+  runRequest('readwrite', (store) => store.clear());
+
+export const savePlant = (plant: Plant): Promise<void> =>
+  runRequest('readwrite', (store) => store.put(plant), PLANT_STORE);
+
+export const getAllPlants = async (): Promise<Plant[]> => {
+  const plants = await runRequest<Plant[]>('readonly', (store) => store.getAll(), PLANT_STORE);
+  return plants.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const clearPlants = (): Promise<void> =>
+  runRequest('readwrite', (store) => store.clear(), PLANT_STORE);
+
+// Scans keep their data but lose the tag
+export const deletePlant = async (id: string): Promise<void> => {
+  const scans = await getScansForPlant(id);
+  for (const scan of scans) {
+    await saveScan({ ...scan, plantId: undefined });
+  }
+  await runRequest('readwrite', (store) => store.delete(id), PLANT_STORE);
+};
+
+export const getTreatmentLog = (scanId: string): Promise<TreatmentLog | undefined> =>
+  runRequest('readonly', (store) => store.get(scanId), TREATMENT_STORE);
+
+export const getAllTreatmentLogs = (): Promise<TreatmentLog[]> =>
+  runRequest('readonly', (store) => store.getAll(), TREATMENT_STORE);
+
+export const saveTreatmentLog = (log: TreatmentLog): Promise<void> =>
+  runRequest('readwrite', (store) => store.put(log), TREATMENT_STORE);
+
+export const clearTreatmentLogs = (): Promise<void> =>
+  runRequest('readwrite', (store) => store.clear(), TREATMENT_STORE);
+
+export const saveOutboxItem = (item: OutboxItem): Promise<void> =>
+  runRequest('readwrite', (store) => store.put(item), OUTBOX_STORE);
+
+// Oldest first, the order the queue is analysed in
+export const getAllOutboxItems = async (): Promise<OutboxItem[]> => {
+  const items = await runRequest<OutboxItem[]>('readonly', (store) => store.getAll(), OUTBOX_STORE);
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteOutboxItem = (id: string): Promise<void> =>
+  runRequest('readwrite', (store) => store.delete(id), OUTBOX_STORE);
+
+/**
+ * Moves summaries saved by earlier versions from localStorage into IndexedDB.
+ * They have no image or symptom detail, so they are stored as partial records.
+ */
+export const migrateLegacyHistory = async (): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+
+  let items: HistoryItem[] = [];
+  try {
+    items = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to read legacy history", e);
+    return;
+  }
+
+  const count = items.length;
+  for (const [i, item] of items.entries()) {
+    const parsed = Date.parse(item.timestamp);
+    await saveScan({
+      id: item.id,
+      // Legacy timestamps are locale strings; keep the original newest-first order when they don't parse
+      createdAt: Number.isNaN(parsed) ? count - i : parsed,
+      legacy: true,
+      result: {
+        stage: item.stage,
+        confidence: item.confidence,
+        lesionCount: 0,
+        avgLesionSize: 0,
+        severityScore: item.severityScore,
+        timestamp: item.timestamp,
+        qualityIssues: null,
+        detectedSymptoms: [],
+        visualEvidenceRegions: '',
+        lesions: [],
+        provider: 'gemini',
+        repairedFields: [],
+      },
+    });
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+// Ask the browser not to evict scans under storage pressure
+export const requestPersistentStorage = async (): Promise<void> => {
+  try {
+    await navigator.storage?.persist?.();
+  } catch (e) {
+    console.warn("Persistent storage unavailable", e);
+  }
+};
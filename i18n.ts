@@ -0,0 +1,54 @@
+import { MESSAGES, MessageKey } from './messages';
+import { Locale, LocaleDefinition } from './types';
+
+// Indonesian can be added with `fallback: 'ms'` and only the strings that differ from Malay
+export const LOCALES: Record<Locale, LocaleDefinition> = {
+  en: { id: 'en', name: 'English', promptLanguage: 'English' },
+  ms: { id: 'ms', name: 'Bahasa Malaysia', promptLanguage: 'Bahasa Malaysia (Malay)', fallback: 'en' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const LOCALE_STORAGE_KEY = 'phytoscan_locale';
+
+export const isLocale = (value: string): value is Locale => Object.hasOwn(LOCALES, value);
+
+// A saved choice wins, then the first browser language we support
+export const loadLocalePreference = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (saved && isLocale(saved)) return saved;
+  const browser = navigator.languages.map((lang) => lang.split('-')[0].toLowerCase()).find(isLocale);
+  return browser ?? DEFAULT_LOCALE;
+};
+
+export const saveLocalePreference = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+// Module state so services, prompts and reports can translate without threading the locale
+// through every call; App owns the value and re-renders the tree when it changes
+let activeLocale: Locale = loadLocalePreference();
+document.documentElement.lang = activeLocale;
+
+export const getLocale = () => activeLocale;
+
+export const setLocale = (locale: Locale) => {
+  activeLocale = locale;
+  document.documentElement.lang = locale;
+  saveLocalePreference(locale);
+};
+
+// Locales consulted for the active one, most specific first and always ending in English
+export const localeChain = (locale: Locale = activeLocale): Locale[] => {
+  const chain: Locale[] = [];
+  for (let next: Locale | undefined = locale; next && !chain.includes(next); next = LOCALES[next].fallback) {
+    chain.push(next);
+  }
+  return chain.includes(DEFAULT_LOCALE) ? chain : [...chain, DEFAULT_LOCALE];
+};
+
+/** Looks up a UI string in the active locale and fills `{name}` placeholders from `params`. */
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const template = localeChain().map((locale) => MESSAGES[locale][key]).find((text) => text !== undefined) ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
@@ -1,60 +1,839 @@
+import { AnalysisResult, Diagnosis, ImageQuality, LeafSegmentationSummary, LesionBox, LesionMeasurement, LesionRegion, PreprocessingOptions, PreprocessingSummary, ReferenceObject } from './types';
+import { t } from './i18n';
 
-import { ImageQuality } from './types';
+// Metrics are computed on a copy no larger than this so thresholds hold across camera resolutions
+const QUALITY_SAMPLE_MAX_DIMENSION = 1024;
 
-export const analyzeImageQuality = (imageData: string): Promise<ImageQuality> => {
-  return new Promise((resolve) => {
+// Variance of the 4-neighbour Laplacian on 0-255 luminance; lower means blurrier
+const BLUR_VARIANCE_THRESHOLD = 60;
+// Near-white, unsaturated highlights from wet or waxy leaf surfaces
+const GLARE_RATIO_THRESHOLD = 0.03;
+// Share of pixels with foliage hues (yellow through green) needed to count as a leaf photo
+const LEAF_COVERAGE_THRESHOLD = 0.15;
+// Lesion components smaller than this many sample pixels are sensor noise or vein glints
+const MIN_LESION_PIXELS = 6;
+// A reference object has to cover at least this share of the sample to be measured reliably
+const MIN_REFERENCE_RATIO = 0.002;
+// RGB distance from the surface colour that separates a coin from what it lies on
+const REFERENCE_CONTRAST = 60;
+// Only the largest lesion diameters are kept on the scan record
+const MAX_STORED_DIAMETERS = 100;
+// A segmented leaf smaller than this share of the frame is more likely a stray patch of weeds
+const MIN_SEGMENTED_LEAF_SHARE = 0.02;
+
+const isFoliagePixel = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (max < 30 || delta / max < 0.15) return false;
+
+  let hue: number;
+  if (max === r) hue = 60 * (((g - b) / delta) % 6);
+  else if (max === g) hue = 60 * ((b - r) / delta + 2);
+  else hue = 60 * ((r - g) / delta + 4);
+  if (hue < 0) hue += 360;
+
+  return hue >= 35 && hue <= 170;
+};
+
+export const measureImageQuality = (
+  pixels: ImageData,
+  resolution: { width: number; height: number }
+): ImageQuality => {
+  const { data, width, height } = pixels;
+  const pixelCount = width * height;
+  const luminance = new Float32Array(pixelCount);
+
+  let darkPixels = 0;
+  let brightPixels = 0;
+  let glarePixels = 0;
+  let leafPixels = 0;
+  let totalBrightness = 0;
+  
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const brightness = (r + g + b) / 3;
+    totalBrightness += brightness;
+    luminance[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+    if (brightness < 50) darkPixels++;
+    if (brightness > 200) brightPixels++;
+    if (brightness > 240 && Math.max(r, g, b) - Math.min(r, g, b) < 25) glarePixels++;
+    if (isFoliagePixel(r, g, b)) leafPixels++;
+  }
+
+  let lapSum = 0;
+  let lapSqSum = 0;
+  let lapCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const lap = luminance[p - width] + luminance[p + width] + luminance[p - 1] + luminance[p + 1] - 4 * luminance[p];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapMean = lapCount ? lapSum / lapCount : 0;
+  const sharpness = lapCount ? lapSqSum / lapCount - lapMean * lapMean : 0;
+  
+  const avgBrightness = totalBrightness / pixelCount;
+  const darkRatio = darkPixels / pixelCount;
+  const brightRatio = brightPixels / pixelCount;
+  const glareRatio = glarePixels / pixelCount;
+  const leafCoverage = leafPixels / pixelCount;
+  
+  return {
+    avgBrightness: avgBrightness,
+    isTooDark: avgBrightness < 80,
+    isTooBright: avgBrightness > 200,
+    hasShadows: darkRatio > 0.3,
+    hasOverexposure: brightRatio > 0.3,
+    resolution,
+    isLowRes: resolution.width < 400 || resolution.height < 400,
+    sharpness,
+    isBlurry: sharpness < BLUR_VARIANCE_THRESHOLD,
+    glareRatio,
+    hasGlare: glareRatio > GLARE_RATIO_THRESHOLD,
+    leafCoverage,
+    hasLowLeafCoverage: leafCoverage < LEAF_COVERAGE_THRESHOLD
+  };
+};
+
+// The live preview samples frames at this size too, so a frame that passes there passes on analysis
+export const qualitySampleSize = (width: number, height: number) => {
+  const scale = Math.min(1, QUALITY_SAMPLE_MAX_DIMENSION / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Decodes an image onto a canvas no larger than QUALITY_SAMPLE_MAX_DIMENSION for pixel analysis
+export const loadImageSample = (imageData: string): Promise<{ pixels: ImageData; resolution: { width: number; height: number } }> => {
+  return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
-      if (!ctx) return resolve({} as ImageQuality);
-      
+      if (!ctx) return reject(new Error("Canvas 2D context unavailable"));
+
+      const size = qualitySampleSize(img.width, img.height);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+      resolve({ pixels: ctx.getImageData(0, 0, canvas.width, canvas.height), resolution: { width: img.width, height: img.height } });
+    };
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = imageData;
+  });
+};
+
+export interface PixelComponent {
+  pixels: number[];
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  touchesBorder: boolean;
+}
+
+// 4-connected runs of set pixels in a width x height mask
+const findComponents = (mask: Uint8Array, width: number, height: number): PixelComponent[] => {
+  const seen = new Uint8Array(mask.length);
+  const components: PixelComponent[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const component: PixelComponent = { pixels: [], minX: width, maxX: 0, minY: height, maxY: 0, touchesBorder: false };
+    seen[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      component.pixels.push(p);
+      component.minX = Math.min(component.minX, x);
+      component.maxX = Math.max(component.maxX, x);
+      component.minY = Math.min(component.minY, y);
+      component.maxY = Math.max(component.maxY, y);
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) component.touchesBorder = true;
+
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+};
+
+// 3x3 erosion or dilation of a binary mask; pixels beyond the edge are ignored
+const morph = (mask: Uint8Array, width: number, height: number, dilate: boolean): Uint8Array => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = dilate ? 0 : 1;
+      for (let dy = Math.max(0, y - 1); dy <= Math.min(height - 1, y + 1); dy++) {
+        for (let dx = Math.max(0, x - 1); dx <= Math.min(width - 1, x + 1); dx++) {
+          if (dilate) value |= mask[dy * width + dx];
+          else value &= mask[dy * width + dx];
+        }
+      }
+      out[y * width + x] = value;
+    }
+  }
+  return out;
+};
+
+export interface LeafSegmentation {
+  // 1 on the leaf, including the lesions and other spots it encloses
+  mask: Uint8Array;
+  width: number;
+  height: number;
+  area: number;
+  box: LesionBox;
+  // Non-foliage spots enclosed by the leaf, the lesion candidates
+  holes: PixelComponent[];
+}
+
+// Foliage blobs, largest first, after an opening that cuts thin bridges between leaves and
+// stems and drops speckle from soil and hands
+const findFoliageBlobs = (pixels: ImageData): PixelComponent[] => {
+  const { data, width, height } = pixels;
+  const foliage = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    foliage[p] = isFoliagePixel(data[i], data[i + 1], data[i + 2]) ? 1 : 0;
+  }
+  const opened = morph(morph(foliage, width, height, false), width, height, true);
+  return findComponents(opened, width, height).sort((a, b) => b.pixels.length - a.pixels.length);
+};
+
+// A blob with the spots it encloses filled back in
+const fillLeaf = (leaf: PixelComponent, width: number, height: number): LeafSegmentation => {
+  const pixelCount = width * height;
+  const mask = new Uint8Array(pixelCount);
+  leaf.pixels.forEach((p) => { mask[p] = 1; });
+  const outside = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) outside[p] = mask[p] ? 0 : 1;
+  const holes = findComponents(outside, width, height).filter((component) => !component.touchesBorder);
+  holes.forEach((hole) => hole.pixels.forEach((p) => { mask[p] = 1; }));
+
+  return {
+    mask,
+    width,
+    height,
+    area: leaf.pixels.length + holes.reduce((sum, hole) => sum + hole.pixels.length, 0),
+    box: {
+      x: leaf.minX / width,
+      y: leaf.minY / height,
+      width: (leaf.maxX - leaf.minX + 1) / width,
+      height: (leaf.maxY - leaf.minY + 1) / height,
+    },
+    holes,
+  };
+};
+
+/**
+ * Separates the leaf from soil, hands and neighbouring plants by colour and shape: the largest
+ * foliage blob is kept as the leaf and the spots it encloses are filled back in.
+ * Returns null when no leaf-sized blob is found.
+ */
+export const segmentLeaf = (pixels: ImageData): LeafSegmentation | null => {
+  const leaf = findFoliageBlobs(pixels)[0];
+  if (!leaf || leaf.pixels.length < pixels.width * pixels.height * MIN_SEGMENTED_LEAF_SHARE) return null;
+  return fillLeaf(leaf, pixels.width, pixels.height);
+};
+
+// Every leaf-sized blob, largest first. Leaves that touch or overlap come out as one blob.
+export const findLeaves = (pixels: ImageData, maxLeaves: number): LeafSegmentation[] =>
+  findFoliageBlobs(pixels)
+    .filter((blob) => blob.pixels.length >= pixels.width * pixels.height * MIN_SEGMENTED_LEAF_SHARE)
+    .slice(0, maxLeaves)
+    .map((blob) => fillLeaf(blob, pixels.width, pixels.height));
+
+// Several leaves of one sample as a single segmentation, for showing them all in one mask
+export const mergeLeafSegmentations = (leaves: LeafSegmentation[]): LeafSegmentation => {
+  const { width, height } = leaves[0];
+  const mask = new Uint8Array(width * height);
+  leaves.forEach((leaf) => leaf.mask.forEach((value, p) => { if (value) mask[p] = 1; }));
+  const x0 = Math.min(...leaves.map((leaf) => leaf.box.x));
+  const y0 = Math.min(...leaves.map((leaf) => leaf.box.y));
+  const x1 = Math.max(...leaves.map((leaf) => leaf.box.x + leaf.box.width));
+  const y1 = Math.max(...leaves.map((leaf) => leaf.box.y + leaf.box.height));
+  return {
+    mask,
+    width,
+    height,
+    area: leaves.reduce((sum, leaf) => sum + leaf.area, 0),
+    box: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 },
+    holes: leaves.flatMap((leaf) => leaf.holes),
+  };
+};
+
+// The mask as a PNG the size of the sample: everything but the leaf dimmed
+const renderLeafMask = (segmentation: LeafSegmentation): string | undefined => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+  canvas.width = segmentation.width;
+  canvas.height = segmentation.height;
+  const image = ctx.createImageData(segmentation.width, segmentation.height);
+  for (let p = 0; p < segmentation.mask.length; p++) {
+    if (segmentation.mask[p]) continue;
+    image.data.set([15, 23, 42, 170], p * 4);
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const summarizeLeafSegmentation = (segmentation: LeafSegmentation): LeafSegmentationSummary => ({
+  coveragePercent: Math.round((segmentation.area / segmentation.mask.length) * 1000) / 10,
+  box: segmentation.box,
+  mask: renderLeafMask(segmentation),
+});
+
+// Coins fill about pi/4 of their bounding box, the printed square nearly all of it
+const matchesReferenceShape = (component: PixelComponent, reference: ReferenceObject, minPixels: number) => {
+  const boxWidth = component.maxX - component.minX + 1;
+  const boxHeight = component.maxY - component.minY + 1;
+  const aspect = boxWidth / boxHeight;
+  const fill = component.pixels.length / (boxWidth * boxHeight);
+  if (component.touchesBorder || component.pixels.length < minPixels || aspect < 0.8 || aspect > 1.25) return false;
+  return reference.shape === 'circle' ? fill >= 0.68 && fill <= 0.88 : fill >= 0.85;
+};
+
+// The printed square is found as a dark, unsaturated blob anywhere in the frame; a coin as a
+// round blob that stands out from the surface the leaf lies on (sampled along the image border)
+const findReference = (
+  pixels: ImageData,
+  background: Uint8Array,
+  reference: ReferenceObject
+): PixelComponent | undefined => {
+  const { data, width, height } = pixels;
+  const mask = new Uint8Array(width * height);
+
+  if (reference.shape === 'square') {
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      mask[p] = 0.299 * r + 0.587 * g + 0.114 * b < 70 && Math.max(r, g, b) - Math.min(r, g, b) < 40 ? 1 : 0;
+    }
+  } else {
+    let sumR = 0, sumG = 0, sumB = 0, count = 0;
+    for (let p = 0; p < width * height; p++) {
+      const x = p % width;
+      const y = (p - x) / width;
+      if (!background[p] || (x > 0 && y > 0 && x < width - 1 && y < height - 1)) continue;
+      sumR += data[p * 4];
+      sumG += data[p * 4 + 1];
+      sumB += data[p * 4 + 2];
+      count++;
+    }
+    if (count === 0) return undefined;
+    const [bgR, bgG, bgB] = [sumR / count, sumG / count, sumB / count];
+    for (let p = 0; p < width * height; p++) {
+      const distance = Math.hypot(data[p * 4] - bgR, data[p * 4 + 1] - bgG, data[p * 4 + 2] - bgB);
+      mask[p] = distance > REFERENCE_CONTRAST ? 1 : 0;
+    }
+  }
+
+  // Brass coins have foliage hues, so the leaf itself (the largest blob) is the only one ruled out by size
+  const minPixels = width * height * MIN_REFERENCE_RATIO;
+  const components = findComponents(mask, width, height).sort((a, b) => b.pixels.length - a.pixels.length);
+  return (reference.shape === 'circle' ? components.slice(1) : components)
+    .find((c) => matchesReferenceShape(c, reference, minPixels));
+};
+
+const equivalentDiameter = (areaPx: number) => 2 * Math.sqrt(areaPx / Math.PI);
+
+/**
+ * Measures the lesions on a segmented leaf; they are the non-foliage spots it encloses. Lesions
+ * cut by the leaf margin merge with the background and are missed, so the diseased area is a lower bound.
+ *
+ * With a reference object in the frame, diameters and areas are converted to millimetres and the
+ * model's lesion boxes get measured sizes. Returns null when there is too little leaf to measure.
+ */
+export const measureLesions = (
+  pixels: ImageData,
+  segmentation: LeafSegmentation | null,
+  reference?: ReferenceObject,
+  regions: LesionRegion[] = []
+): { measurement: LesionMeasurement; lesions: LesionRegion[] } | null => {
+  if (!segmentation) return null;
+  const { width, height } = pixels;
+  const pixelCount = width * height;
+
+  const background = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) background[p] = segmentation.mask[p] ? 0 : 1;
+
+  const referenceMask = new Uint8Array(pixelCount);
+  const referenceComponent = reference && findReference(pixels, background, reference);
+  referenceComponent?.pixels.forEach((p) => { referenceMask[p] = 1; });
+
+  let leafArea = 0;
+  for (let p = 0; p < pixelCount; p++) {
+    if (!background[p] && !referenceMask[p]) leafArea++;
+  }
+  // A reference lying on a small leaf can leave too little of it to measure
+  if (leafArea < pixelCount * MIN_SEGMENTED_LEAF_SHARE) return null;
+
+  const lesionMask = new Uint8Array(pixelCount);
+  const lesionAreas: number[] = [];
+  for (const component of segmentation.holes) {
+    if (component.pixels.length < MIN_LESION_PIXELS) continue;
+    // A printed square lying on the leaf is enclosed too
+    if (component.pixels.filter((p) => referenceMask[p]).length > component.pixels.length / 2) continue;
+    component.pixels.forEach((p) => { lesionMask[p] = 1; });
+    lesionAreas.push(component.pixels.length);
+  }
+  const lesionArea = lesionAreas.reduce((sum, area) => sum + area, 0);
+
+  const measurement: LesionMeasurement = {
+    diseasedAreaPercent: Math.round((lesionArea / leafArea) * 1000) / 10,
+    lesionCount: lesionAreas.length,
+    referenceId: reference?.id,
+  };
+  if (!reference || !referenceComponent) return { measurement, lesions: regions };
+
+  const referencePx = reference.shape === 'circle'
+    ? equivalentDiameter(referenceComponent.pixels.length)
+    : Math.sqrt(referenceComponent.pixels.length);
+  const pxPerMm = referencePx / reference.sizeMm;
+  const toMm = (areaPx: number) => Math.round((equivalentDiameter(areaPx) / pxPerMm) * 10) / 10;
+  const diameters = lesionAreas.sort((a, b) => b - a).map(toMm);
+
+  measurement.pxPerMm = Math.round(pxPerMm * 100) / 100;
+  measurement.lesionDiametersMm = diameters.slice(0, MAX_STORED_DIAMETERS);
+  measurement.meanLesionDiameterMm = diameters.length
+    ? Math.round((diameters.reduce((sum, d) => sum + d, 0) / diameters.length) * 10) / 10
+    : 0;
+  measurement.leafAreaMm2 = Math.round(leafArea / (pxPerMm * pxPerMm));
+
+  // Each box keeps the model's estimate unless it actually contains segmented lesion pixels
+  const lesions = regions.map((region) => {
+    let area = 0;
+    const x0 = Math.floor(region.x * width), x1 = Math.ceil((region.x + region.width) * width);
+    const y0 = Math.floor(region.y * height), y1 = Math.ceil((region.y + region.height) * height);
+    for (let y = Math.max(0, y0); y < Math.min(height, y1); y++) {
+      for (let x = Math.max(0, x0); x < Math.min(width, x1); x++) {
+        area += lesionMask[y * width + x];
+      }
+    }
+    return area >= MIN_LESION_PIXELS ? { ...region, sizeMm: toMm(area), measured: true } : region;
+  });
+
+  return { measurement, lesions };
+};
+
+// Re-encodes an image as JPEG, scaled so its longest side is at most maxDimension
+export const compressImage = (imageData: string, maxDimension: number, quality = 0.85): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas 2D context unavailable"));
+
+      const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = imageData;
+  });
+};
+
+// Share of each side kept by the centre crop, which zooms in on the middle of the leaf
+const CENTER_CROP_RATIO = 0.7;
+
+/**
+ * The full frame, a centre crop and a mirror image of one photo, as JPEGs. Consensus runs
+ * diagnose each so a verdict that hinges on framing or orientation shows up as disagreement.
+ */
+export const buildShotViews = (imageData: string, quality = 0.9): Promise<string[]> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas 2D context unavailable"));
+
+      const cropWidth = Math.max(1, Math.round(img.width * CENTER_CROP_RATIO));
+      const cropHeight = Math.max(1, Math.round(img.height * CENTER_CROP_RATIO));
+      canvas.width = cropWidth;
+      canvas.height = cropHeight;
+      ctx.drawImage(img, (img.width - cropWidth) / 2, (img.height - cropHeight) / 2, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+      const centerCrop = canvas.toDataURL('image/jpeg', quality);
+
       canvas.width = img.width;
       canvas.height = img.height;
+      ctx.setTransform(-1, 0, 0, 1, img.width, 0);
       ctx.drawImage(img, 0, 0);
+      const mirrored = canvas.toDataURL('image/jpeg', quality);
 
-      const imageDataObj = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageDataObj.data;
-      
-      let darkPixels = 0;
-      let brightPixels = 0;
-      let totalBrightness = 0;
-      
-      for (let i = 0; i < data.length; i += 4) {
-        const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-        totalBrightness += brightness;
-        if (brightness < 50) darkPixels++;
-        if (brightness > 200) brightPixels++;
-      }
-      
-      const avgBrightness = totalBrightness / (data.length / 4);
-      const darkRatio = darkPixels / (data.length / 4);
-      const brightRatio = brightPixels / (data.length / 4);
-      
-      const quality = {
-        avgBrightness: avgBrightness,
-        isTooDark: avgBrightness < 80,
-        isTooBright: avgBrightness > 200,
-        hasShadows: darkRatio > 0.3,
-        hasOverexposure: brightRatio > 0.3,
-        resolution: { width: img.width, height: img.height },
-        isLowRes: img.width < 400 || img.height < 400
-      };
-      
-      resolve(quality);
+      resolve([imageData, centerCrop, mirrored]);
     };
+    img.onerror = () => reject(new Error("Could not decode image"));
     img.src = imageData;
   });
 };
 
-export const calculateSeverity = (stage: string, lesionCount: number, avgLesionSize: number): string => {
-  const severityScores: Record<string, number> = {
-    'H0': 0,
-    'E1': Math.min((lesionCount * avgLesionSize * 0.2), 15),
-    'E2': Math.min((lesionCount * avgLesionSize * 0.8), 45),
-    'E3': Math.min((lesionCount * avgLesionSize * 2.0), 100),
-    'N0': 0
+// Long side of the image sent to a model; Gemini downsamples anything larger, the local model uses 224
+export const MODEL_INPUT_MAX_DIMENSION = 1024;
+// Orientation and cropping are worked at up to this size before the final downscale
+const PREPROCESS_WORKING_MAX_DIMENSION = 3072;
+// The leaf mask is found on a copy this size; its edges are softened when scaled back up
+const LEAF_DETECTION_MAX_DIMENSION = 512;
+// Neutral grey carries no colour a model could mistake for a symptom
+const BACKGROUND_FILL = '#808080';
+// Padding kept around the leaf so its margin and nearby reference objects survive the crop
+const LEAF_CROP_MARGIN = 0.06;
+// A leaf box covering more of the frame than this is not worth cropping to
+const LEAF_CROP_MIN_SAVING = 0.85;
+// The brightest unclipped pixels serve as the white reference; they must be near-neutral already
+const WHITE_REFERENCE_SHARE = 0.02;
+const WHITE_REFERENCE_MAX_TINT = 0.25;
+const WHITE_BALANCE_GAIN_RANGE = { min: 0.8, max: 1.25 };
+
+const PREPROCESSING_STORAGE_KEY = 'phytoscan_preprocessing';
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = { whiteBalance: false, cropToLeaf: false, removeBackground: false };
+
+export const loadPreprocessingPreference = (): PreprocessingOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PREPROCESSING_STORAGE_KEY) ?? '{}');
+    return { whiteBalance: saved.whiteBalance === true, cropToLeaf: saved.cropToLeaf === true, removeBackground: saved.removeBackground === true };
+  } catch {
+    return DEFAULT_PREPROCESSING;
+  }
+};
+
+export const savePreprocessingPreference = (options: PreprocessingOptions) => {
+  localStorage.setItem(PREPROCESSING_STORAGE_KEY, JSON.stringify(options));
+};
+
+const decodeImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+};
+
+export const dataUrlByteSize = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+/**
+ * The EXIF orientation tag (1-8) of a JPEG data URL, or 1 when there is none.
+ * Only the first 96 KB are decoded; EXIF has to sit in the APP1 segment before the image data.
+ */
+export const readExifOrientation = (dataUrl: string): number => {
+  if (!dataUrl.startsWith('data:image/jpeg')) return 1;
+  let binary: string;
+  try {
+    binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1, dataUrl.indexOf(',') + 1 + 131072));
+  } catch {
+    return 1;
+  }
+  const byte = (i: number) => binary.charCodeAt(i);
+  if (byte(0) !== 0xff || byte(1) !== 0xd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= binary.length && byte(offset) === 0xff) {
+    const marker = byte(offset + 1);
+    const length = (byte(offset + 2) << 8) | byte(offset + 3);
+    // Start of scan: no metadata follows
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && binary.slice(offset + 4, offset + 10) === 'Exif\0\0') {
+      const tiff = offset + 10;
+      const little = binary.slice(tiff, tiff + 2) === 'II';
+      const read16 = (i: number) => little ? byte(i) | (byte(i + 1) << 8) : (byte(i) << 8) | byte(i + 1);
+      const read32 = (i: number) => little
+        ? (byte(i) | (byte(i + 1) << 8) | (byte(i + 2) << 16)) + byte(i + 3) * 0x1000000
+        : byte(i) * 0x1000000 + ((byte(i + 1) << 16) | (byte(i + 2) << 8) | byte(i + 3));
+      const ifd = tiff + read32(tiff + 4);
+      const entries = read16(ifd);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > binary.length) break;
+        if (read16(entry) === 0x0112) {
+          const orientation = read16(entry + 8);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Browsers that understand image-orientation already decode photos upright, canvas included
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+// Draws the image upright, applying the EXIF transform by hand where the browser does not
+const drawUpright = (img: HTMLImageElement, orientation: number, maxDimension: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const transpose = orientation >= 5;
+  canvas.width = transpose ? height : width;
+  canvas.height = transpose ? width : height;
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas;
+};
+
+// Segments a downscaled copy; the mask is scaled back up wherever it is applied
+const segmentCanvas = (source: HTMLCanvasElement): LeafSegmentation | null => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const scale = Math.min(1, LEAF_DETECTION_MAX_DIMENSION / Math.max(source.width, source.height));
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return segmentLeaf(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+const padBox = (box: LesionBox): LesionBox => {
+  const x0 = Math.max(0, box.x - LEAF_CROP_MARGIN);
+  const y0 = Math.max(0, box.y - LEAF_CROP_MARGIN);
+  const x1 = Math.min(1, box.x + box.width + LEAF_CROP_MARGIN);
+  const y1 = Math.min(1, box.y + box.height + LEAF_CROP_MARGIN);
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+// The leaf box with a margin, or undefined when cropping to it would gain little
+const leafCropBox = ({ box }: LeafSegmentation): LesionBox | undefined => {
+  const padded = padBox(box);
+  return padded.width * padded.height > LEAF_CROP_MIN_SAVING ? undefined : padded;
+};
+
+// Paints everything outside the leaf flat grey, so the model sees no soil, hands or other plants
+const blankBackground = (canvas: HTMLCanvasElement, segmentation: LeafSegmentation, region: LesionBox) => {
+  const maskCanvas = document.createElement('canvas');
+  const maskCtx = maskCanvas.getContext('2d');
+  const ctx = canvas.getContext('2d');
+  if (!maskCtx || !ctx) return false;
+  maskCanvas.width = segmentation.width;
+  maskCanvas.height = segmentation.height;
+  const image = maskCtx.createImageData(segmentation.width, segmentation.height);
+  for (let p = 0; p < segmentation.mask.length; p++) {
+    if (segmentation.mask[p]) image.data[p * 4 + 3] = 255;
+  }
+  maskCtx.putImageData(image, 0, 0);
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(
+    maskCanvas,
+    region.x * segmentation.width, region.y * segmentation.height, region.width * segmentation.width, region.height * segmentation.height,
+    0, 0, canvas.width, canvas.height
+  );
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = BACKGROUND_FILL;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.restore();
+  return true;
+};
+
+/**
+ * White-patch correction: the brightest unclipped pixels are scaled to neutral grey. Skipped
+ * when they are clearly tinted (a yellowing leaf rather than a white card or sky glint),
+ * since correcting toward them would wash out the symptom colours. Returns whether it ran.
+ */
+const applyWhiteBalance = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    if (Math.max(data[i], data[i + 1], data[i + 2]) < 250) {
+      histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+    }
+  }
+  const wanted = (data.length / 4) * WHITE_REFERENCE_SHARE;
+  let cutoff = 255;
+  for (let seen = 0; cutoff > 0 && seen < wanted; cutoff--) seen += histogram[cutoff];
+
+  let sumR = 0, sumG = 0, sumB = 0, count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    if (Math.max(r, g, b) >= 250 || 0.299 * r + 0.587 * g + 0.114 * b < cutoff) continue;
+    sumR += r;
+    sumG += g;
+    sumB += b;
+    count++;
+  }
+  if (count === 0) return false;
+  const means = [sumR / count, sumG / count, sumB / count];
+  const brightest = Math.max(...means);
+  if (brightest === 0 || (brightest - Math.min(...means)) / brightest > WHITE_REFERENCE_MAX_TINT) return false;
+
+  const grey = (means[0] + means[1] + means[2]) / 3;
+  const gains = means.map((mean) => Math.min(Math.max(grey / mean, WHITE_BALANCE_GAIN_RANGE.min), WHITE_BALANCE_GAIN_RANGE.max));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.min(255, data[i] * gains[0]);
+    data[i + 1] = Math.min(255, data[i + 1] * gains[1]);
+    data[i + 2] = Math.min(255, data[i + 2] * gains[2]);
+  }
+  ctx.putImageData(image, 0, 0);
+  return true;
+};
+
+// WebP is smaller at the same quality; browsers that cannot encode it return a PNG, so those send JPEG
+const encodeCanvas = (canvas: HTMLCanvasElement, quality: number): { dataUrl: string; mimeType: string } => {
+  const webp = canvas.toDataURL('image/webp', quality);
+  if (webp.startsWith('data:image/webp')) return { dataUrl: webp, mimeType: 'image/webp' };
+  return { dataUrl: canvas.toDataURL('image/jpeg', quality), mimeType: 'image/jpeg' };
+};
+
+/**
+ * Prepares a photo for a model: turned upright, optionally cropped to the leaf, white-balanced
+ * and cut out of its background, downscaled to MODEL_INPUT_MAX_DIMENSION and re-encoded, which also drops EXIF and GPS metadata.
+ */
+export const preprocessImage = async (
+  imageData: string,
+  options: PreprocessingOptions = DEFAULT_PREPROCESSING,
+  quality = 0.85
+): Promise<{ image: string; summary: PreprocessingSummary }> => {
+  const img = await decodeImage(imageData);
+  const orientation = readExifOrientation(imageData);
+  const upright = drawUpright(img, browserAppliesOrientation() ? 1 : orientation, PREPROCESS_WORKING_MAX_DIMENSION);
+  // A removed background is wasted pixels, so it is cropped away too
+  const segmentation = options.cropToLeaf || options.removeBackground ? segmentCanvas(upright) : null;
+  const leafCrop = segmentation ? leafCropBox(segmentation) : undefined;
+  const region = leafCrop ?? { x: 0, y: 0, width: 1, height: 1 };
+
+  const sourceWidth = region.width * upright.width;
+  const sourceHeight = region.height * upright.height;
+  const scale = Math.min(1, MODEL_INPUT_MAX_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  ctx.drawImage(upright, region.x * upright.width, region.y * upright.height, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+
+  // Balanced first, while a white card or paper behind the leaf can still serve as reference
+  const whiteBalanced = options.whiteBalance && applyWhiteBalance(canvas);
+  const backgroundRemoved = options.removeBackground && !!segmentation && blankBackground(canvas, segmentation, region);
+  const { dataUrl, mimeType } = encodeCanvas(canvas, quality);
+  return {
+    image: dataUrl,
+    summary: {
+      mimeType,
+      width: canvas.width,
+      height: canvas.height,
+      bytes: dataUrlByteSize(dataUrl),
+      sourceBytes: dataUrlByteSize(imageData),
+      orientation,
+      whiteBalanced,
+      backgroundRemoved,
+      leafCrop,
+    },
   };
+};
+
+/**
+ * One leaf of a photo on its own: cropped to its box with a margin and everything else, other
+ * leaves included, painted grey. `segmentation` comes from a sample of the same photo.
+ */
+export const extractLeaf = async (imageData: string, segmentation: LeafSegmentation, quality = 0.92): Promise<{ image: string; crop: LesionBox }> => {
+  const img = await decodeImage(imageData);
+  const crop = padBox(segmentation.box);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const sourceWidth = crop.width * img.width;
+  const sourceHeight = crop.height * img.height;
+  const scale = Math.min(1, PREPROCESS_WORKING_MAX_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  ctx.drawImage(img, crop.x * img.width, crop.y * img.height, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+  blankBackground(canvas, segmentation, crop);
+  return { image: canvas.toDataURL('image/jpeg', quality), crop };
+};
+
+// Boxes the model drew on a leaf crop, moved back onto the full photo
+export const uncropRegions = <T extends LesionBox>(regions: T[], crop?: LesionBox): T[] =>
+  crop ? regions.map((region) => ({
+    ...region,
+    x: crop.x + region.x * crop.width,
+    y: crop.y + region.y * crop.height,
+    width: region.width * crop.width,
+    height: region.height * crop.height,
+  })) : regions;
+
+export const getFailedQualityChecks = (quality: ImageQuality): string[] => {
+  const failed: string[] = [];
+  if (quality.isTooDark) failed.push(t('quality.tooDark'));
+  if (quality.hasShadows) failed.push(t('quality.shadows'));
+  if (quality.hasOverexposure || quality.isTooBright) failed.push(t('quality.overexposed'));
+  if (quality.isLowRes) failed.push(t('quality.lowRes'));
+  if (quality.isBlurry) failed.push(t('quality.blurry'));
+  if (quality.hasGlare) failed.push(t('quality.glare'));
+  if (quality.hasLowLeafCoverage) failed.push(t('quality.noLeaf'));
+  return failed;
+};
 
-  return Math.min(severityScores[stage] || 0, 100).toFixed(1);
+// Problems that make a diagnosis meaningless, so the image is rejected before any model call
+export const getRejectionReasons = (quality: ImageQuality): string[] => {
+  const reasons: string[] = [];
+  if (quality.isBlurry) reasons.push(t('quality.rejectBlurry'));
+  if (quality.hasGlare) reasons.push(t('quality.rejectGlare'));
+  if (quality.hasLowLeafCoverage) reasons.push(t('quality.rejectDistance'));
+  return reasons;
+};
+
+export const buildQualityRejection = (reasons: string[]): Diagnosis => ({
+  stage: 'N0',
+  confidence: 1,
+  lesionCount: 0,
+  avgLesionSize: 0,
+  explanation: t('quality.rejectedExplanation', { reasons: reasons.join(', ').toLowerCase() }),
+  detectedSymptoms: reasons,
+  visualEvidenceRegions: '',
+  lesions: [],
+  coInfections: []
+});
+
+export const buildQualityIssues = (quality: ImageQuality): AnalysisResult['qualityIssues'] => {
+  const issues = {
+    tooDark: quality.isTooDark,
+    shadows: quality.hasShadows,
+    lowRes: quality.isLowRes,
+    overexposed: quality.hasOverexposure,
+    blurry: quality.isBlurry,
+    glare: quality.hasGlare,
+    lowLeafCoverage: quality.hasLowLeafCoverage
+  };
+  return Object.values(issues).some(Boolean) ? issues : null;
 };
@@ -0,0 +1,254 @@
+import {
+  DiseaseFinding, DiseaseStage, ExportedScan, HistoryBackup, LeafDiagnosis, LeafSegmentationSummary, LeafSummary,
+  ConsensusSummary, LesionBox, LesionMeasurement, LesionRegion, ScanLabel, ScanRecord, StoredAnalysisResult
+} from './types';
+import { BACKUP_SCHEMA_VERSION, isDataImageUrl } from './exportService';
+import { isDiagnosisStage, isDiseaseId, isInfectionStage } from './diseases';
+import { isCropId } from './crops';
+import { isDiagnosisProviderId } from './diagnosisProviders';
+import { t } from './i18n';
+import {
+  getAllScans, saveScan, clearScans, getAllPlants, savePlant, clearPlants,
+  getAllTreatmentLogs, saveTreatmentLog, clearTreatmentLogs
+} from './historyStore';
+
+export type ImportMode = 'merge' | 'replace';
+
+export class BackupImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupImportError';
+  }
+}
+
+export interface ImportPreview {
+  backup: HistoryBackup;
+  // Scans in the file that already exist on this device
+  duplicateCount: number;
+  // Scans dropped because they are malformed
+  invalidCount: number;
+}
+
+export interface ImportSummary {
+  scansAdded: number;
+  duplicatesSkipped: number;
+  invalidSkipped: number;
+  plantsAdded: number;
+  treatmentsAdded: number;
+}
+
+// A backup is user-supplied JSON, so every field is checked before it reaches the store and the UI
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isStage = (value: unknown): value is DiseaseStage => isString(value) && isDiagnosisStage(value);
+
+const isKnownDiseaseId = (value: unknown) => isString(value) && isDiseaseId(value);
+
+const isLesionBox = (value: unknown): value is LesionBox =>
+  isRecord(value) && [value.x, value.y, value.width, value.height].every(isFiniteNumber);
+
+const isLesionRegion = (value: unknown): value is LesionRegion =>
+  isRecord(value) && [value.x, value.y, value.width, value.height, value.sizeMm, value.confidence].every(isFiniteNumber);
+
+const isDiseaseFinding = (value: unknown): value is DiseaseFinding =>
+  isRecord(value) && isStage(value.stage) && isInfectionStage(value.stage) && isKnownDiseaseId(value.diseaseId) && isFiniteNumber(value.confidence);
+
+const isMeasurement = (value: unknown): value is LesionMeasurement =>
+  isRecord(value) && isFiniteNumber(value.diseasedAreaPercent) && isFiniteNumber(value.lesionCount) &&
+  [value.pxPerMm, value.meanLesionDiameterMm, value.leafAreaMm2].every((v) => isOptional(v, isFiniteNumber)) &&
+  isOptional(value.lesionDiametersMm, (v) => Array.isArray(v) && v.every(isFiniteNumber)) &&
+  isOptional(value.referenceId, isString);
+
+const isConsensus = (value: unknown): value is ConsensusSummary =>
+  isRecord(value) && [value.photos, value.shots, value.abstained, value.agreement].every(isFiniteNumber) &&
+  Array.isArray(value.votes) && value.votes.every((vote) =>
+    isRecord(vote) && isStage(vote.stage) && isOptional(vote.diseaseId, isKnownDiseaseId) &&
+    isFiniteNumber(vote.count) && isFiniteNumber(vote.meanConfidence));
+
+const isLeafSegmentation = (value: unknown): value is LeafSegmentationSummary =>
+  isRecord(value) && isFiniteNumber(value.coveragePercent) && isLesionBox(value.box) && isOptional(value.mask, isDataImageUrl);
+
+const isLeafDiagnosis = (value: unknown): value is LeafDiagnosis =>
+  isRecord(value) && isFiniteNumber(value.index) && isLesionBox(value.box) && isStage(value.stage) &&
+  isOptional(value.diseaseId, isKnownDiseaseId) && isFiniteNumber(value.confidence) && isFiniteNumber(value.lesionCount) &&
+  isString(value.severityScore) && isOptional(value.coInfections, (v) => Array.isArray(v) && v.every(isDiseaseFinding));
+
+const isLeafSummary = (value: unknown): value is LeafSummary =>
+  isRecord(value) && [value.leafCount, value.assessedLeaves, value.diseasedLeaves, value.incidence, value.worstLeaf].every(isFiniteNumber);
+
+const isValidLabel = (value: unknown): value is ScanLabel =>
+  isRecord(value) && isStage(value.stage) && isOptional(value.diseaseId, isKnownDiseaseId) &&
+  isOptional(value.reviewer, isString) && isOptional(value.notes, isString) &&
+  isOptional(value.lesions, (v) => Array.isArray(v) && v.every(isLesionBox));
+
+// What cannot be repaired: identity, date, verdict and the images that get rendered
+const isValidScan = (scan: unknown): scan is ExportedScan =>
+  isRecord(scan) &&
+  isString(scan.id) &&
+  isString(scan.createdAt) && !Number.isNaN(Date.parse(scan.createdAt)) &&
+  isRecord(scan.result) &&
+  isStage(scan.result.stage) &&
+  isOptional(scan.result.diseaseId, isKnownDiseaseId) &&
+  isOptional(scan.result.cropId, (v) => isString(v) && isCropId(v)) &&
+  isFiniteNumber(scan.result.confidence) &&
+  isOptional(scan.image, isDataImageUrl) &&
+  isOptional(scan.thumbnail, isDataImageUrl);
+
+// Missing or malformed fields get the same defaults a new scan without them would have
+const toStoredResult = (result: StoredAnalysisResult, createdAt: number): StoredAnalysisResult => {
+  const leaves = Array.isArray(result.leaves) && result.leaves.every(isLeafDiagnosis) && isLeafSummary(result.leafSummary);
+  return {
+    ...result,
+    lesionCount: isFiniteNumber(result.lesionCount) ? result.lesionCount : 0,
+    avgLesionSize: isFiniteNumber(result.avgLesionSize) ? result.avgLesionSize : 0,
+    severityScore: isString(result.severityScore) ? result.severityScore : '0',
+    timestamp: isString(result.timestamp) ? result.timestamp : new Date(createdAt).toLocaleString(),
+    qualityIssues: isRecord(result.qualityIssues) ? result.qualityIssues : null,
+    aiExplanation: isString(result.aiExplanation) ? result.aiExplanation : undefined,
+    detectedSymptoms: isStringArray(result.detectedSymptoms) ? result.detectedSymptoms : [],
+    visualEvidenceRegions: isString(result.visualEvidenceRegions) ? result.visualEvidenceRegions : '',
+    lesions: Array.isArray(result.lesions) ? result.lesions.filter(isLesionRegion) : [],
+    repairedFields: isStringArray(result.repairedFields) ? result.repairedFields : [],
+    coInfections: Array.isArray(result.coInfections) ? result.coInfections.filter(isDiseaseFinding) : undefined,
+    measurement: isMeasurement(result.measurement) ? result.measurement : undefined,
+    consensus: isConsensus(result.consensus) ? result.consensus : undefined,
+    leaf: isLeafSegmentation(result.leaf) ? result.leaf : undefined,
+    leaves: leaves ? result.leaves : undefined,
+    leafSummary: leaves ? result.leafSummary : undefined,
+    preprocessing: isRecord(result.preprocessing) ? result.preprocessing : undefined,
+    calibratedConfidence: isFiniteNumber(result.calibratedConfidence) ? result.calibratedConfidence : undefined,
+    needsReview: typeof result.needsReview === 'boolean' ? result.needsReview : undefined,
+    rejectedByQualityGate: typeof result.rejectedByQualityGate === 'boolean' ? result.rejectedByQualityGate : undefined,
+    provider: isString(result.provider) && isDiagnosisProviderId(result.provider) ? result.provider : 'gemini'
+  };
+};
+
+const toScanRecord = (scan: ExportedScan): ScanRecord => {
+  const createdAt = Date.parse(scan.createdAt);
+  return {
+    id: scan.id,
+    createdAt,
+    plantId: isString(scan.plantId) ? scan.plantId : undefined,
+    image: scan.image,
+    thumbnail: scan.thumbnail,
+    legacy: scan.legacy === true ? true : undefined,
+    // A malformed label is dropped rather than letting it skew calibration
+    label: isValidLabel(scan.label) ? scan.label : undefined,
+    result: toStoredResult(scan.result, createdAt)
+  };
+};
+
+/**
+ * Parses a JSON backup written by exportHistoryJson. Throws BackupImportError when
+ * the file is not a PhytoScan backup or comes from a newer, unsupported schema.
+ */
+export const parseBackup = (text: string): HistoryBackup => {
+  let data: Partial<HistoryBackup>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupImportError(t('import.notJson'));
+  }
+
+  if (data?.app !== 'phytoscan' || typeof data.schemaVersion !== 'number' || !Array.isArray(data.scans)) {
+    throw new BackupImportError(t('import.notBackup'));
+  }
+  if (data.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new BackupImportError(t('import.newerSchema', { version: data.schemaVersion }));
+  }
+
+  return {
+    app: 'phytoscan',
+    schemaVersion: data.schemaVersion,
+    exportedAt: data.exportedAt ?? '',
+    scans: data.scans,
+    plants: Array.isArray(data.plants) ? data.plants : [],
+    treatments: Array.isArray(data.treatments) ? data.treatments : []
+  };
+};
+
+// Same id, or the same creation instant (a scan re-saved under a different id on another device)
+const createDuplicateCheck = (existing: ScanRecord[]) => {
+  const ids = new Set(existing.map((r) => r.id));
+  const createdAts = new Set(existing.map((r) => r.createdAt));
+  return {
+    isDuplicate: (record: ScanRecord) => ids.has(record.id) || createdAts.has(record.createdAt),
+    add: (record: ScanRecord) => {
+      ids.add(record.id);
+      createdAts.add(record.createdAt);
+    }
+  };
+};
+
+export const previewImport = async (text: string): Promise<ImportPreview> => {
+  const backup = parseBackup(text);
+  const duplicates = createDuplicateCheck(await getAllScans());
+  const valid = backup.scans.filter(isValidScan);
+  return {
+    backup,
+    duplicateCount: valid.filter((scan) => duplicates.isDuplicate(toScanRecord(scan))).length,
+    invalidCount: backup.scans.length - valid.length
+  };
+};
+
+/**
+ * Writes a parsed backup into the local store. `merge` keeps everything already on
+ * this device and skips duplicate scans; `replace` wipes scans, plants and treatment
+ * logs first, so the device ends up with exactly the backup's contents.
+ */
+export const importBackup = async (backup: HistoryBackup, mode: ImportMode): Promise<ImportSummary> => {
+  if (mode === 'replace') {
+    await clearScans();
+    await clearPlants();
+    await clearTreatmentLogs();
+  }
+
+  const [existingScans, existingPlants, existingLogs] = await Promise.all([getAllScans(), getAllPlants(), getAllTreatmentLogs()]);
+  const duplicates = createDuplicateCheck(existingScans);
+  const summary: ImportSummary = { scansAdded: 0, duplicatesSkipped: 0, invalidSkipped: 0, plantsAdded: 0, treatmentsAdded: 0 };
+
+  const plantIds = new Set(existingPlants.map((p) => p.id));
+  for (const plant of backup.plants) {
+    if (typeof plant?.id !== 'string' || plantIds.has(plant.id)) continue;
+    await savePlant(plant);
+    plantIds.add(plant.id);
+    summary.plantsAdded++;
+  }
+
+  const importedScanIds = new Set<string>();
+  for (const scan of backup.scans) {
+    if (!isValidScan(scan)) {
+      summary.invalidSkipped++;
+      continue;
+    }
+    const record = toScanRecord(scan);
+    if (duplicates.isDuplicate(record)) {
+      summary.duplicatesSkipped++;
+      continue;
+    }
+    // Drop tags that point at plants missing from both the backup and this device
+    await saveScan(record.plantId && !plantIds.has(record.plantId) ? { ...record, plantId: undefined } : record);
+    duplicates.add(record);
+    importedScanIds.add(record.id);
+    summary.scansAdded++;
+  }
+
+  // Treatment logs follow their scan; a log for a scan that was skipped would overwrite local progress
+  const loggedScanIds = new Set(existingLogs.map((l) => l.scanId));
+  for (const log of backup.treatments) {
+    if (!importedScanIds.has(log?.scanId) || loggedScanIds.has(log.scanId)) continue;
+    await saveTreatmentLog(log.plantId && !plantIds.has(log.plantId) ? { ...log, plantId: undefined } : log);
+    summary.treatmentsAdded++;
+  }
+
+  return summary;
+};
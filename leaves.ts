@@ -0,0 +1,38 @@
+import { isInfectionStage } from './diseases';
+import { LeafDiagnosis, LeafSummary } from './types';
+
+// Each leaf is a provider call, so only the largest leaves of a crowded photo are diagnosed
+export const MAX_LEAVES = 8;
+
+const PER_LEAF_STORAGE_KEY = 'phytoscan_per_leaf';
+
+export const loadPerLeafPreference = (): boolean => localStorage.getItem(PER_LEAF_STORAGE_KEY) === 'true';
+
+export const savePerLeafPreference = (enabled: boolean) => {
+  localStorage.setItem(PER_LEAF_STORAGE_KEY, String(enabled));
+};
+
+// N0 below H0, so an unreadable leaf never outranks a healthy one
+const stageRank = (leaf: LeafDiagnosis) =>
+  leaf.stage === 'N0' ? -1 : isInfectionStage(leaf.stage) ? Number(leaf.stage[1]) : 0;
+
+// The plant is as sick as its sickest leaf: most advanced stage, then most diseased area, then most confident
+export const pickWorstLeaf = (leaves: LeafDiagnosis[]): LeafDiagnosis =>
+  [...leaves].sort((a, b) =>
+    stageRank(b) - stageRank(a) ||
+    (parseFloat(b.severityScore) || 0) - (parseFloat(a.severityScore) || 0) ||
+    b.confidence - a.confidence
+  )[0];
+
+export const summarizeLeaves = (leaves: LeafDiagnosis[], failedLeaves = 0): LeafSummary => {
+  const assessed = leaves.filter((leaf) => leaf.stage !== 'N0');
+  const diseased = assessed.filter((leaf) => isInfectionStage(leaf.stage));
+  return {
+    leafCount: leaves.length + failedLeaves,
+    assessedLeaves: assessed.length,
+    diseasedLeaves: diseased.length,
+    incidence: assessed.length ? diseased.length / assessed.length : 0,
+    worstLeaf: pickWorstLeaf(leaves).index,
+    failedLeaves,
+  };
+};
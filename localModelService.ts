@@ -0,0 +1,106 @@
+import type { InferenceSession } from "onnxruntime-web";
+import { DiagnosisProvider, DiseaseStage, RawDiagnosis } from "./types";
+import { DEFAULT_DISEASE } from "./constants";
+import { isInfectionStage } from "./diseases";
+import { t } from "./i18n";
+
+// Exported classifier contract: 1x3x224x224 RGB input, 5 logits in this order
+export const LOCAL_MODEL_LABELS: DiseaseStage[] = ['H0', 'E1', 'E2', 'E3', 'N0'];
+const INPUT_SIZE = 224;
+const MEAN = [0.485, 0.456, 0.406];
+const STD = [0.229, 0.224, 0.225];
+
+const MODEL_URL = process.env.LOCAL_MODEL_URL || '/models/kangkung-stage-classifier.onnx';
+
+let sessionPromise: Promise<InferenceSession> | null = null;
+
+const loadSession = () => {
+  if (!sessionPromise) {
+    // onnxruntime-web is large, so it is only fetched once the local provider is used
+    sessionPromise = import("onnxruntime-web")
+      .then((ort) => ort.InferenceSession.create(MODEL_URL, { executionProviders: ['wasm'] }))
+      .catch((error) => {
+        sessionPromise = null;
+        throw error;
+      });
+  }
+  return sessionPromise;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+
+const toInputTensor = async (base64Image: string): Promise<Float32Array> => {
+  const img = await loadImage(base64Image);
+  const canvas = document.createElement('canvas');
+  canvas.width = INPUT_SIZE;
+  canvas.height = INPUT_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0, INPUT_SIZE, INPUT_SIZE);
+
+  const { data } = ctx.getImageData(0, 0, INPUT_SIZE, INPUT_SIZE);
+  const plane = INPUT_SIZE * INPUT_SIZE;
+  const tensor = new Float32Array(3 * plane);
+  for (let p = 0; p < plane; p++) {
+    for (let c = 0; c < 3; c++) {
+      tensor[c * plane + p] = (data[p * 4 + c] / 255 - MEAN[c]) / STD[c];
+    }
+  }
+  return tensor;
+};
+
+const softmax = (logits: number[]) => {
+  const max = Math.max(...logits);
+  const exps = logits.map((v) => Math.exp(v - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map((v) => v / sum);
+};
+
+export const analyzeWithLocalModel = async (base64Image: string): Promise<RawDiagnosis> => {
+  try {
+    const [session, ort, input] = await Promise.all([
+      loadSession(),
+      import("onnxruntime-web"),
+      toInputTensor(base64Image),
+    ]);
+
+    const feeds = { [session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, INPUT_SIZE, INPUT_SIZE]) };
+    const output = await session.run(feeds);
+    const logits = Array.from(output[session.outputNames[0]].data as Float32Array);
+    const probabilities = softmax(logits.slice(0, LOCAL_MODEL_LABELS.length));
+
+    const ranked = probabilities
+      .map((p, i) => ({ stage: LOCAL_MODEL_LABELS[i], p }))
+      .sort((a, b) => b.p - a.p);
+
+    return {
+      // The classifier is trained on Cercospora stages only
+      disease: isInfectionStage(ranked[0].stage) ? DEFAULT_DISEASE : null,
+      stage: ranked[0].stage,
+      confidence: ranked[0].p,
+      lesionCount: 0,
+      avgLesionSize: 0,
+      explanation: t('analysis.localExplanation', { ranking: ranked.slice(0, 3).map((r) => `${r.stage} ${(r.p * 100).toFixed(0)}%`).join(', ') }),
+      detectedSymptoms: [],
+      visualEvidenceRegions: "",
+      lesions: [],
+    };
+  } catch (error) {
+    console.error("Local model analysis error:", error);
+    throw error;
+  }
+};
+
+export const localModelProvider: DiagnosisProvider = {
+  id: 'local',
+  // The classifier is trained on Kangkung leaves only
+  crops: ['kangkung'],
+  requiresNetwork: false,
+  analyze: analyzeWithLocalModel,
+};
@@ -0,0 +1,941 @@
+import { Locale } from './types';
+
+// English is the source of truth: every key must exist here, other locales may leave keys out
+const EN_MESSAGES = {
+  'app.tagline': 'Expert Leafy Greens Disease Diagnosis',
+  'app.language': 'Language',
+  'nav.scanner': 'Scanner',
+  'nav.history': 'History',
+  'nav.encyclopedia': 'Encyclopedia',
+  'nav.plants': 'Plants',
+
+  'crops.all': 'All crops',
+  'common.cancel': 'Cancel',
+
+  'provider.gemini.name': 'Gemini Cloud',
+  'provider.gemini.description': 'Full diagnosis with lesion localization. Requires an internet connection.',
+  'provider.local.name': 'On-Device Model',
+  'provider.local.description': 'Kangkung Cercospora stage classification in the browser. Works without connectivity, no lesion localization.',
+  'provider.unsupportedCrop': 'Not trained on {crop}; another provider will be used.',
+  'provider.offlineFallback': 'Offline: {provider} will be used instead.',
+
+  'scanner.imageInput': 'Image Input',
+  'scanner.noPlant': 'No plant / plot',
+  'scanner.registerPlantHint': 'Register a plant or plot to track scans over time',
+  'scanner.selectImage': 'Select Leaf Image',
+  'scanner.selectImageHint': 'Upload or drop a clear photo of the infected leaf, or several for a batch',
+  'scanner.browse': 'Browse Files',
+  'scanner.liveCamera': 'Use Live Camera',
+  'scanner.analyzeFolder': 'Analyze Folder',
+  'scanner.qualityConcerns': 'Quality Concerns Detected',
+  'scanner.qualityConcernsDetail': '{issues}. Poor quality images may yield inaccurate results.',
+  'scanner.offlineLocal': 'No connection. Analysis will run on this device.',
+  'scanner.offlineNoModel': 'No connection, and no on-device model covers {crop} yet. Scans are queued and analyzed when you reconnect.',
+  'scanner.analyzing': 'Analyzing...',
+  'scanner.start': 'Start AI Detection',
+  'leaves.perLeaf': 'Diagnose each leaf',
+  'leaves.hint': 'Each leaf in the photo, up to {max}, is diagnosed on its own. The plant verdict is the worst leaf.',
+  'leaves.title': '{count} leaves diagnosed',
+  'leaves.incidence': '{diseased} of {assessed} leaves diseased ({percent}%)',
+  'leaves.severityIndex': '{scale} index {index}%',
+  'leaves.leaf': 'Leaf {index}',
+  'leaves.worst': 'Worst leaf',
+  'leaves.detail': '{confidence}% confidence • {lesions} lesions • {severity}% area',
+  'leaves.failed': '{count} more leaves were found but could not be analyzed.',
+  'preprocessing.cropToLeaf': 'Crop to the leaf',
+  'preprocessing.whiteBalance': 'Correct white balance',
+  'preprocessing.removeBackground': 'Remove background',
+  'preprocessing.hint': 'Photos are turned upright, resized and stripped of location data before analysis.',
+  'consensus.multiView': 'Analyze 3 views of each photo',
+  'consensus.addPhoto': 'Add photo of same plant',
+  'consensus.extraPhoto': 'Extra photo {index}',
+  'consensus.removePhoto': 'Remove photo',
+  'consensus.hint': 'Add more photos of this plant or analyze several views to get a consensus verdict.',
+  'consensus.shotCount': '{shots} shots will vote on a consensus verdict.',
+  'scanner.readyTitle': 'Ready for Analysis',
+  'scanner.readyHint': 'Upload an image and run the AI scanner to see detailed disease diagnostic data.',
+  'guidelines.title': 'Capture Guidelines',
+  'guidelines.sunlight': 'Use direct, natural sunlight',
+  'guidelines.distance': 'Hold camera 15-20cm away',
+  'guidelines.flat': 'Keep leaf flat and clean',
+  'guidelines.focus': 'Focus on main lesion area',
+  'guidelines.reference': 'For measured lesion sizes, lay the chosen coin or scale card flat beside the leaf',
+
+  'reference.label': 'Size reference',
+  'reference.none': 'No size reference',
+  'reference.sen10': '10 sen coin',
+  'reference.sen20': '20 sen coin',
+  'reference.sen50': '50 sen coin',
+  'reference.scaleCard': 'Scale card (20 mm square)',
+
+  'scale.label': 'Severity scale',
+  'scale.horsfallBarratt.name': 'Horsfall–Barratt (0–11)',
+  'scale.horsfallBarratt.short': 'H-B',
+  'scale.fiveClass.name': 'Leaf spot scale (0–5)',
+  'scale.fiveClass.short': '0–5',
+  'scale.ses.name': 'IRRI SES leaf spot (0–9)',
+  'scale.ses.short': 'SES',
+
+  'quality.tooDark': 'Too dark',
+  'quality.shadows': 'Heavy shadows',
+  'quality.overexposed': 'Overexposed',
+  'quality.lowRes': 'Resolution too low',
+  'quality.blurry': 'Blurry / out of focus',
+  'quality.glare': 'Glare or water droplets',
+  'quality.noLeaf': 'No leaf in frame',
+  'quality.rejectBlurry': 'Leaf out of focus',
+  'quality.rejectGlare': 'Water droplets causing reflections',
+  'quality.rejectDistance': 'Too far from subject',
+  'quality.rejectedExplanation': 'Rejected before analysis: {reasons}. Retake the photo to get a diagnosis.',
+
+  'file.notImage': 'Not an image file',
+  'file.tooLarge': 'Image file is too large (max 10MB)',
+
+  'analysis.networkError': 'Failed to reach {provider}. Check your internet connection, or switch to the {fallback} and try again.',
+  'analysis.localError': 'The {provider} could not analyze this image. Make sure the model file is installed on this device.',
+  'analysis.localExplanation': 'On-device classifier ranking: {ranking}. Lesion counts and locations are not available offline.',
+  'analysis.unvalidated': 'The model response could not be validated, so no diagnosis was made. Retake the photo and try again.',
+
+  'severity.0': 'Healthy / No Disease',
+  'severity.1': 'Low Severity',
+  'severity.2': 'Medium Severity',
+  'severity.3': 'High Severity',
+  'confidence.low': 'Low Confidence',
+  'confidence.medium': 'Medium Confidence',
+  'confidence.high': 'High Confidence',
+
+  'result.reliability': 'AI Reliability',
+  'result.confidenceNote': 'The model is {percent}% sure based on current visual evidence.',
+  'result.calibratedNote': 'Calibrated to {percent}% from the {raw}% the model stated, using your labelled scans.',
+  'result.needsReview': 'Needs expert review',
+  'result.needsReviewDetail': 'Confidence is below your {threshold}% review threshold, so the treatment plan is withheld. Have an extension officer or experienced grower confirm the diagnosis first.',
+  'result.precautions': 'Precautions Until Confirmed',
+  'result.reviewVerified': 'Verified by expert review',
+  'result.reviewCorrected': 'Expert review corrected this to {verdict}',
+  'result.reviewedBy': 'Reviewed by {reviewer} on {date}. The steps below follow the expert verdict.',
+  'result.reviewedOn': 'Reviewed on {date}. The steps below follow the expert verdict.',
+  'review.isolate': 'Keep the plant apart from healthy ones where practical and avoid overhead watering.',
+  'review.retake': 'Retake sharper photos in daylight, or add more photos for a consensus verdict.',
+  'review.holdSprays': 'Hold off on fungicide sprays until the diagnosis is confirmed.',
+  'review.title': 'Expert Review',
+  'review.verified': 'Verified',
+  'review.corrected': 'Corrected',
+  'review.aiVerdict': 'AI verdict:',
+  'review.expertVerdict': 'Expert verdict:',
+  'review.reviewerName': 'Reviewer name',
+  'review.notes': 'Notes (what you saw, why the verdict changed)',
+  'review.annotateAlt': 'Scan to annotate',
+  'review.outlined': '{count} outlined • dashed boxes are from the model',
+  'review.startFromModel': 'Start from model boxes',
+  'review.outlineLesions': 'Outline lesions',
+  'review.editLesions': 'Edit {count} outlined lesions',
+  'review.confirm': 'Confirm AI Verdict',
+  'review.save': 'Save Review',
+  'review.clear': 'Clear',
+  'review.reviewedBy': 'Reviewed {date} by {reviewer}',
+  'review.reviewedOn': 'Reviewed {date}',
+  'review.compareTitle': 'Verdict Comparison',
+  'review.compareSame': 'Same verdict',
+  'review.compareDifferentDisease': 'Different disease',
+  'review.compareInconclusive': 'Inconclusive change',
+  'review.compareWorse': 'Worse: {from} → {to}',
+  'review.compareMilder': 'Milder: {from} → {to}',
+  'review.compareStage': 'Stage',
+  'review.compareDiagnosis': 'Diagnosis',
+  'review.compareConfidence': 'Confidence',
+  'review.compareModel': 'Model',
+  'result.detection': 'Detection Result',
+  'result.lesions': 'Lesions',
+  'result.avgSize': 'Avg Size',
+  'result.severity': 'Severity',
+  'result.coInfection': 'Co-infection Detected',
+  'result.coInfectionNote': 'Management below follows the most severe condition; check each guide for conflicts.',
+  'result.qualityRejected': 'No model call was made because the photo failed the quality checks.',
+  'result.analyzeAnyway': 'Analyze Anyway',
+  'result.analyzedOn': 'Analyzed on {time} • {provider}',
+  'result.preprocessedSent': 'Sent as {format}, {width}×{height}, {size} (from {original})',
+  'result.preprocessedRotated': 'rotated upright',
+  'result.preprocessedCropped': 'cropped to leaf',
+  'result.preprocessedWhiteBalanced': 'white-balanced',
+  'result.preprocessedBackgroundRemoved': 'background removed',
+  'result.breakdown': 'Diagnostic Breakdown',
+  'result.markerHint': 'Click markers to view guide',
+  'result.visibleMarkers': 'Visible Markers Detected',
+  'result.evidenceLocation': 'Evidence Location',
+  'result.evidenceConcentrated': 'Primarily concentrated in the {region}.',
+  'result.modelVerification': 'Model Verification',
+  'result.responseCorrected': 'Response Corrected ({count})',
+  'result.managementSteps': 'Management Steps',
+  'result.exploreGuide': 'Explore Complete Diagnosis Guide',
+  'result.measurement': 'Leaf Measurement',
+  'result.diseasedArea': 'Diseased leaf area',
+  'result.measuredLesions': 'Segmented lesions',
+  'result.meanDiameter': 'Mean diameter',
+  'result.leafArea': 'Leaf area',
+  'result.leafCoverage': 'Leaf in frame',
+  'result.calibratedWith': 'Calibrated against the {reference} ({pxPerMm} px/mm).',
+  'result.referenceMissing': 'The {reference} was not found in the photo, so lesion sizes are model estimates.',
+  'result.uncalibrated': 'No size reference in the photo, so lesion sizes are model estimates.',
+  'result.severityMeasured': 'Severity is the measured share of diseased leaf area.',
+  'result.grade': '{scale} grade {grade} ({range})',
+  'result.consensus': 'Consensus of {shots} shots from {photos} photo(s)',
+  'result.agreement': '{percent}% agreement',
+  'result.votes': '{count} vote(s), {confidence}% avg',
+  'result.consensusSplit': 'The shots disagree. Treat this verdict with caution and retake sharper photos if you can.',
+  'result.consensusUnanimous': 'Every voting shot gave the same verdict.',
+  'result.abstained': '{count} shot(s) gave no usable verdict and did not vote.',
+
+  'history.title': 'Analysis History',
+  'history.subtitle': 'Review your previous plant health assessments. Your history is stored locally on this device.',
+  'history.import': 'Import Backup',
+  'history.exportCsv': 'Export CSV',
+  'history.backupJson': 'Backup JSON',
+  'history.clear': 'Clear All History',
+  'history.confirmClear': 'Are you sure you want to clear your entire analysis history?',
+  'history.emptyTitle': 'No History Yet',
+  'history.emptyHint': 'Your successful disease analyses will appear here once you start scanning.',
+  'history.startScanning': 'Start Scanning',
+  'history.confidence': '{value}% Confidence',
+  'history.needsReview': 'Needs review',
+  'history.verified': 'Expert verified',
+  'history.corrected': 'Expert corrected',
+  'accuracy.title': 'Accuracy Against Expert Reviews',
+  'accuracy.summary': '{correct} of {total} reviewed scans right ({percent}%)',
+  'accuracy.diseaseMismatches': '{count} had the right stage but the wrong disease.',
+  'accuracy.aiStage': 'AI stage',
+  'accuracy.expertStage': 'Expert stage',
+  'outbox.title': 'Waiting to Analyze',
+  'outbox.subtitle': 'Scans taken without a connection. They are analyzed and added to your history as soon as you are back online.',
+  'outbox.offlineHint': 'Offline. Queued scans will be analyzed when the connection returns.',
+  'outbox.queued': 'No connection. The scan was saved and will be analyzed when you are back online.',
+  'outbox.queueFailed': 'The scan could not be saved for later. Please try again.',
+  'outbox.drainFailed': 'Queued scans could not be analyzed right now. They stay queued for the next try.',
+  'outbox.photos': '{count} photos',
+  'outbox.statusQueued': 'Queued',
+  'outbox.statusAnalyzing': 'Analyzing…',
+  'outbox.statusFailed': 'Failed after {count} attempts',
+  'outbox.retry': 'Retry now',
+  'outbox.remove': 'Remove',
+  'calibration.title': 'Confidence Calibration',
+  'calibration.subtitle': 'Review scans from the scan detail page to see how often the model is right at each confidence level.',
+  'calibration.threshold': 'Review threshold',
+  'calibration.thresholdHint': 'New verdicts below {percent}% confidence are marked for expert review and their treatment plans withheld.',
+  'calibration.stageSummary': '{count} labelled • {percent}% correct',
+  'calibration.empty': 'No reviewed scans yet.',
+  'calibration.bin': '{range}: {correct} of {count} correct',
+  'calibration.legend': 'Bars show how often labelled scans in each confidence band were right; the marker shows the confidence the model stated.',
+  'history.severity': '{value}% Severity',
+  'history.viewGuide': 'View Guide',
+  'history.openScan': 'Open Scan',
+  'history.exportFailed': 'Could not read your history for export.',
+
+  'import.ready': 'Backup ready to import',
+  'import.previewCounts': '{scans} scans and {plants} plants',
+  'import.previewExportedAt': ', exported {date}',
+  'import.previewDuplicates': '{count} already on this device',
+  'import.previewInvalid': ', {count} unreadable',
+  'import.merge': 'Merge',
+  'import.replace': 'Replace All',
+  'import.confirmReplace': 'Replace all scans, plants and treatment logs on this device with the backup? This cannot be undone.',
+  'import.done': 'Imported {scans} scans, {plants} plants and {treatments} treatment logs. Skipped {duplicates} duplicates and {invalid} invalid entries.',
+  'import.failed': 'The import stopped part way. Some scans may have been added.',
+  'import.unreadable': 'Could not read the backup file.',
+  'import.notJson': 'The file is not valid JSON.',
+  'import.notBackup': 'This is not a PhytoScan backup file.',
+  'import.newerSchema': 'This backup was made by a newer version of PhytoScan (schema {version}). Update the app and try again.',
+
+  'camera.unsupported': 'Live camera is not supported in this browser.',
+  'camera.denied': 'Camera access was denied or no camera is available.',
+  'camera.frameOk': 'Frame OK',
+  'camera.adjust': 'Adjust the shot to enable the shutter',
+  'camera.capture': 'Capture Leaf',
+  'camera.waiting': 'Waiting for a usable frame...',
+
+  'viewer.imageAlt': 'Leaf photo',
+  'viewer.lesion': 'Lesion #{index}',
+  'viewer.diameter': '{size}mm diameter',
+  'viewer.confidence': '{percent}% confidence',
+  'viewer.lesionsLocalized': '{count} lesions localized',
+  'viewer.noLesions': 'No lesions localized',
+  'viewer.showLesionMap': 'Show lesion map',
+  'viewer.hideLesionMap': 'Hide lesion map',
+  'viewer.leafMask': 'Leaf mask • {percent}% of frame',
+  'viewer.hideLeafMask': 'Hide leaf mask',
+
+  'detail.notFound': 'This scan could not be found.',
+  'detail.back': 'Back to History',
+  'detail.original': 'Original',
+  'detail.rerun': 'Re-run',
+  'detail.print': 'Print Report',
+  'detail.rerunAnalysis': 'Re-run Analysis',
+  'detail.noImage': 'No image stored',
+  'detail.noImageHint': 'This scan was saved by an earlier version of PhytoScan and cannot be re-analyzed.',
+  'detail.plant': 'Plant / Plot',
+  'detail.untagged': 'Untagged',
+  'detail.saved': 'Saved to History',
+  'detail.saveRerun': 'Save Re-run as New Scan',
+
+  'batch.title': 'Batch Analysis',
+  'batch.progress': '{total} images • {finished} processed',
+  'batch.failed': '{count} failed',
+  'batch.stop': 'Stop',
+  'batch.resume': 'Resume / Retry Failed',
+  'batch.start': 'Start Batch',
+  'batch.status.queued': 'Queued',
+  'batch.status.running': 'Running',
+  'batch.status.retrying': 'Retrying',
+  'batch.status.done': 'Done',
+  'batch.status.failed': 'Failed',
+  'batch.attempt': '(attempt {count})',
+  'batch.summary': 'Batch Summary',
+  'batch.incidence': 'Incidence',
+  'batch.diseased': '{diseased}/{total} diseased',
+  'batch.meanSeverity': 'Mean Severity',
+  'batch.excludesN0': 'excl. N0 images',
+  'batch.stageDistribution': 'Stage Distribution',
+  'batch.conditionsFound': 'Conditions Found',
+  'batch.imageCount': '{count} image(s)',
+
+  'plants.title': 'Plants & Plots',
+  'plants.subtitle': 'Register individual plants or beds, tag scans with them, and follow how the disease stage and severity change over time.',
+  'plants.namePlaceholder': 'Name, e.g. Bed A3',
+  'plants.kindPlant': 'Plant',
+  'plants.kindPlot': 'Plot / Bed',
+  'plants.locationPlaceholder': 'Location (optional)',
+  'plants.register': 'Register',
+  'plants.emptyTitle': 'No Plants Registered',
+  'plants.emptyHint': 'Register a plant or plot above, then select it on the scanner before taking photos.',
+  'plants.confirmRemove': 'Remove "{name}"? Its scans stay in your history without a plant tag.',
+  'plants.plantTimeline': 'Plant Timeline',
+  'plants.plotTimeline': 'Plot Timeline',
+  'plants.scanCount': '{count} scans',
+  'plants.currently': 'Currently',
+  'plants.severityIndex': 'Disease Severity Index',
+  'plants.survey': '{count} leaf/leaves scanned {date}',
+  'plants.noScansPlant': 'No scans tagged with this plant yet.',
+  'plants.noScansPlot': 'No scans tagged with this plot yet.',
+  'plants.legendStage': 'Stage',
+  'plants.legendSeverity': 'Severity %',
+  'plants.legendProgression': 'Progression',
+  'plants.stageChanges': 'Stage Changes',
+  'plants.progressed': 'Progressed {from} → {to} on {date}',
+  'plants.improved': 'Improved {from} → {to} on {date}',
+  'plants.scanSeverity': '{severity}% severity ({scale} {grade})',
+  'plants.selectHint': 'Select a plant or plot to see its timeline.',
+  'plants.chartNotDiagnostic': '{date}: N0 (not diagnostic)',
+  'plants.chartPoint': '{date}: {stage}, {severity}% severity',
+
+  'treatmentLog.title': 'Treatment Log',
+  'treatmentLog.stepsDone': '{done}/{total} steps done',
+  'treatmentLog.applications': 'Applications',
+  'treatmentLog.productPlaceholder': 'Product, e.g. Chlorothalonil',
+  'treatmentLog.concentrationPlaceholder': 'e.g. 500ppm',
+  'treatmentLog.log': 'Log',
+  'treatmentLog.followUp': 'Follow-up',
+  'treatmentLog.nextSpray': 'Next spray',
+  'treatmentLog.nextSprayPending': 'Set after the first application (every {days} days)',
+  'treatmentLog.rescan': 'Re-scan',
+  'treatmentLog.enableNotifications': 'Enable Reminder Notifications',
+
+  'reminders.title': 'Follow-up Reminders',
+  'reminders.due': 'Due',
+  'reminders.spray': 'Next treatment application ({label})',
+  'reminders.rescan': 'Re-scan to check {label} progress',
+  'reminders.notificationTitle': 'PhytoScan follow-up',
+  'reminders.notificationBody': '{reminder} is due {date}.',
+
+  'weather.title': 'Cercospora Risk',
+  'weather.level.low': 'Low',
+  'weather.level.moderate': 'Moderate',
+  'weather.level.high': 'High',
+  'weather.level.severe': 'Severe',
+  'weather.latestReading': 'latest reading',
+  'weather.conditions': '{temperature}°C • {humidity}% RH • {rain} mm rain • {wetness} h leaf wetness',
+  'weather.empty': 'Add temperature, humidity, rainfall and leaf-wetness readings to get a daily infection risk and spray advice.',
+  'weather.fetch': 'Fetch',
+  'weather.csv': 'CSV',
+  'weather.reading': 'Reading',
+  'weather.saveReading': 'Save Reading',
+  'weather.field.temperature': 'Temp °C',
+  'weather.field.humidity': 'RH %',
+  'weather.field.rain': 'Rain mm',
+  'weather.field.wetness': 'Wet hours',
+  'weather.loaded': 'Loaded {count} days from {source}.',
+  'weather.fetchFailed': 'Could not reach {source}.',
+  'weather.imported': 'Imported {count} days.',
+  'weather.importedSkipped': 'Imported {count} days, skipped {skipped} invalid rows.',
+  'weather.readFailed': 'Could not read the file.',
+  'weather.saved': 'Saved the reading for {date}.',
+  'weather.csv.noRows': 'The file has no data rows.',
+  'weather.csv.missingColumn': 'Missing column "{column}". Expected: {expected}.',
+  'weather.csv.noValidRows': 'No row had a valid date and readings.',
+  'weather.source.mock.name': 'Simulated station',
+  'weather.source.mock.description': 'Generated lowland tropical weather. No connection or station needed.',
+  'weather.advice.severe.headline': 'Severe risk: protect the crop now',
+  'weather.advice.severe.spray': 'Spray a protectant today, following the E1 protocol in the guide.',
+  'weather.advice.severe.sprayWhenDry': 'Spray a protectant as soon as the foliage is dry; rain washes it off.',
+  'weather.advice.severe.water': 'Stop overhead watering until conditions ease.',
+  'weather.advice.severe.sanitize': 'Remove and destroy spotted leaves, then scan the rest of the bed.',
+  'weather.advice.high.headline': 'High risk: protect before the next wet spell',
+  'weather.advice.high.spray': 'Spray a protectant if Cercospora has been found on the farm this season.',
+  'weather.advice.high.holdSpray': 'Hold the spray until the foliage is dry; rain washes it off.',
+  'weather.advice.high.water': 'Water at the base in the morning, not overhead.',
+  'weather.advice.high.scout': 'Scout lower leaves for new spots within 2 days.',
+  'weather.advice.moderate.headline': 'Moderate risk: scout closely',
+  'weather.advice.moderate.noSpray': 'No spray needed yet.',
+  'weather.advice.moderate.water': 'Water at the base in the morning, not overhead, so leaves dry before night.',
+  'weather.advice.moderate.scout': 'Check lower leaves for new spots this week.',
+  'weather.advice.low.headline': 'Low risk: no spray needed',
+  'weather.advice.low.scout': 'Keep scouting weekly.',
+
+  'report.title': 'PhytoScan Diagnosis Report',
+  'report.documentTitle': 'PhytoScan Report {id}',
+  'report.diseaseAssessment': '{disease} ({agent}) assessment',
+  'report.leafAssessment': 'Leaf health assessment',
+  'report.scan': 'Scan {id}',
+  'report.imageAlt': 'Scanned leaf',
+  'report.noImage': 'No image stored for this scan.',
+  'report.crop': 'Crop',
+  'report.stage': 'Stage',
+  'report.severity': 'Severity',
+  'report.severityValue': '{percent}% of leaf area ({scale} grade {grade}, {range})',
+  'report.confidence': 'Confidence',
+  'report.calibrated': '{percent}% calibrated',
+  'report.needsReview': 'needs expert review',
+  'report.expertReview': 'Expert review',
+  'report.leaves': 'Leaves',
+  'report.consensus': 'Consensus',
+  'report.consensusValue': '{percent}% of {shots} voting shots ({votes})',
+  'report.lesions': 'Lesions',
+  'report.lesionsValue': '{count} (avg {size} mm)',
+  'report.diseasedArea': 'Diseased area',
+  'report.diseasedAreaValue': '{percent}% of leaf ({calibration})',
+  'report.calibratedAt': 'calibrated, {pxPerMm} px/mm',
+  'report.uncalibrated': 'uncalibrated',
+  'report.analyzedBy': 'Analyzed by',
+  'report.assessment': 'Assessment',
+  'report.symptoms': 'Detected Symptoms',
+  'report.prognosis': 'Prognosis',
+  'report.protocol': 'Treatment Protocol',
+  'report.withheldTitle': 'Withheld.',
+  'report.withheld': 'Confidence is below the review threshold, so have an extension officer confirm the diagnosis before treating.',
+  'report.coInfections': 'Co-infections: Immediate Steps',
+  'report.applications': 'Treatment Applications',
+  'report.date': 'Date',
+  'report.product': 'Product',
+  'report.concentration': 'Concentration',
+  'report.notes': 'Notes',
+  'report.noneRecorded': 'None recorded',
+  'report.popupBlocked': 'Allow pop-ups for PhytoScan to open the printable report.',
+
+  'guide.title': 'Staging Encyclopedia',
+  'guide.intro': 'Standardized H0-E3 classification for the main diseases and disorders of {crops}.',
+  'guide.introStages': 'Each condition is staged E1 (early) to E3 (severe); H0 and N0 apply to the whole leaf.',
+  'guide.stage': 'Stage {code}',
+  'guide.symptoms': 'Observable Symptoms',
+  'guide.protocol': 'Protocol',
+  'guide.biologicalNote': 'Biological Note',
+  'guide.prognosis': 'Prognosis',
+  'guide.visualMarker': 'Visual Marker',
+
+  'treatment.immediate': 'Immediate',
+  'treatment.preventive': 'Preventive',
+  'treatment.cultural': 'Cultural',
+  'treatment.chemical': 'Chemical',
+  'treatment.nutritional': 'Nutritional',
+  'treatment.recovery': 'Recovery',
+  'treatment.photographyTips': 'Photography Tips',
+  'treatment.tips': 'Tips',
+
+  'category.Fungal': 'Fungal',
+  'category.Oomycete': 'Oomycete',
+  'category.Bacterial': 'Bacterial',
+  'category.Pest': 'Pest',
+  'category.Abiotic': 'Abiotic',
+
+  'footer.about': 'Advanced AI-driven diagnosis for {crops}, providing precision tools for modern agriculture.',
+  'footer.stagingStandards': 'Staging Standards',
+  'footer.stageH0': 'H0: Healthy Baseline',
+  'footer.stageE1': 'E1: Early Infection',
+  'footer.stageE2': 'E2: Mid Infection',
+  'footer.stageE3': 'E3: Late / Severe Infection',
+  'footer.conditions': 'Conditions Covered',
+  'footer.support': 'Support',
+  'footer.documentation': 'Documentation',
+  'footer.citation': 'Research Citation',
+  'footer.poweredBy': 'Powered by Gemini 3 Flash',
+  'footer.copyright': '© 2024 PhytoScan Initiative • Professional Diagnosis Advised',
+};
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+const MS_MESSAGES: Record<MessageKey, string> = {
+  'app.tagline': 'Diagnosis Pakar Penyakit Sayuran Berdaun',
+  'app.language': 'Bahasa',
+  'nav.scanner': 'Pengimbas',
+  'nav.history': 'Sejarah',
+  'nav.encyclopedia': 'Ensiklopedia',
+  'nav.plants': 'Tanaman',
+
+  'crops.all': 'Semua tanaman',
+  'common.cancel': 'Batal',
+
+  'provider.gemini.name': 'Gemini Awan',
+  'provider.gemini.description': 'Diagnosis penuh dengan lokasi lesi. Memerlukan sambungan internet.',
+  'provider.local.name': 'Model Dalam Peranti',
+  'provider.local.description': 'Pengelasan peringkat Cercospora kangkung dalam pelayar. Berfungsi tanpa sambungan, tiada lokasi lesi.',
+  'provider.unsupportedCrop': 'Tidak dilatih untuk {crop}; penyedia lain akan digunakan.',
+  'provider.offlineFallback': 'Luar talian: {provider} akan digunakan.',
+
+  'scanner.imageInput': 'Input Imej',
+  'scanner.noPlant': 'Tiada tanaman / plot',
+  'scanner.registerPlantHint': 'Daftar tanaman atau plot untuk menjejak imbasan dari semasa ke semasa',
+  'scanner.selectImage': 'Pilih Imej Daun',
+  'scanner.selectImageHint': 'Muat naik atau seret gambar jelas daun yang dijangkiti, atau beberapa gambar sekali gus',
+  'scanner.browse': 'Cari Fail',
+  'scanner.liveCamera': 'Guna Kamera Langsung',
+  'scanner.analyzeFolder': 'Analisis Folder',
+  'scanner.qualityConcerns': 'Masalah Kualiti Dikesan',
+  'scanner.qualityConcernsDetail': '{issues}. Imej berkualiti rendah mungkin memberi keputusan yang tidak tepat.',
+  'scanner.offlineLocal': 'Tiada sambungan. Analisis akan dijalankan pada peranti ini.',
+  'scanner.offlineNoModel': 'Tiada sambungan, dan belum ada model dalam peranti untuk {crop}. Imbasan disimpan dalam baris gilir dan dianalisis apabila anda bersambung semula.',
+  'scanner.analyzing': 'Menganalisis...',
+  'scanner.start': 'Mulakan Pengesanan AI',
+  'leaves.perLeaf': 'Diagnosis setiap daun',
+  'leaves.hint': 'Setiap daun dalam foto, sehingga {max}, didiagnosis secara berasingan. Keputusan pokok ialah daun yang paling teruk.',
+  'leaves.title': '{count} daun didiagnosis',
+  'leaves.incidence': '{diseased} daripada {assessed} daun berpenyakit ({percent}%)',
+  'leaves.severityIndex': 'Indeks {scale} {index}%',
+  'leaves.leaf': 'Daun {index}',
+  'leaves.worst': 'Daun paling teruk',
+  'leaves.detail': 'Keyakinan {confidence}% • {lesions} lesi • Luas {severity}%',
+  'leaves.failed': '{count} lagi daun ditemui tetapi tidak dapat dianalisis.',
+  'preprocessing.cropToLeaf': 'Potong pada daun',
+  'preprocessing.whiteBalance': 'Betulkan imbangan putih',
+  'preprocessing.removeBackground': 'Buang latar belakang',
+  'preprocessing.hint': 'Foto ditegakkan, diubah saiz dan dibuang data lokasinya sebelum analisis.',
+  'consensus.multiView': 'Analisis 3 pandangan setiap foto',
+  'consensus.addPhoto': 'Tambah foto pokok yang sama',
+  'consensus.extraPhoto': 'Foto tambahan {index}',
+  'consensus.removePhoto': 'Buang foto',
+  'consensus.hint': 'Tambah lebih banyak foto pokok ini atau analisis beberapa pandangan untuk mendapat keputusan konsensus.',
+  'consensus.shotCount': '{shots} tangkapan akan mengundi keputusan konsensus.',
+  'scanner.readyTitle': 'Sedia untuk Analisis',
+  'scanner.readyHint': 'Muat naik imej dan jalankan pengimbas AI untuk melihat data diagnosis penyakit yang terperinci.',
+  'guidelines.title': 'Panduan Mengambil Gambar',
+  'guidelines.sunlight': 'Gunakan cahaya matahari semula jadi',
+  'guidelines.distance': 'Pegang kamera 15-20cm dari daun',
+  'guidelines.flat': 'Pastikan daun rata dan bersih',
+  'guidelines.focus': 'Fokus pada kawasan lesi utama',
+  'guidelines.reference': 'Untuk saiz lesi yang diukur, letakkan syiling atau kad skala yang dipilih rata di sebelah daun',
+
+  'reference.label': 'Rujukan saiz',
+  'reference.none': 'Tiada rujukan saiz',
+  'reference.sen10': 'Syiling 10 sen',
+  'reference.sen20': 'Syiling 20 sen',
+  'reference.sen50': 'Syiling 50 sen',
+  'reference.scaleCard': 'Kad skala (segi empat 20 mm)',
+
+  'scale.label': 'Skala keterukan',
+  'scale.horsfallBarratt.name': 'Horsfall–Barratt (0–11)',
+  'scale.horsfallBarratt.short': 'H-B',
+  'scale.fiveClass.name': 'Skala bintik daun (0–5)',
+  'scale.fiveClass.short': '0–5',
+  'scale.ses.name': 'IRRI SES bintik daun (0–9)',
+  'scale.ses.short': 'SES',
+
+  'quality.tooDark': 'Terlalu gelap',
+  'quality.shadows': 'Bayang tebal',
+  'quality.overexposed': 'Terlebih dedah',
+  'quality.lowRes': 'Resolusi terlalu rendah',
+  'quality.blurry': 'Kabur / tidak fokus',
+  'quality.glare': 'Silau atau titisan air',
+  'quality.noLeaf': 'Tiada daun dalam bingkai',
+  'quality.rejectBlurry': 'Daun tidak fokus',
+  'quality.rejectGlare': 'Titisan air menyebabkan pantulan',
+  'quality.rejectDistance': 'Terlalu jauh dari daun',
+  'quality.rejectedExplanation': 'Ditolak sebelum analisis: {reasons}. Ambil gambar semula untuk mendapatkan diagnosis.',
+
+  'file.notImage': 'Bukan fail imej',
+  'file.tooLarge': 'Fail imej terlalu besar (maksimum 10MB)',
+
+  'analysis.networkError': 'Gagal menghubungi {provider}. Semak sambungan internet anda, atau tukar kepada {fallback} dan cuba lagi.',
+  'analysis.localError': '{provider} tidak dapat menganalisis imej ini. Pastikan fail model dipasang pada peranti ini.',
+  'analysis.localExplanation': 'Kedudukan pengelas dalam peranti: {ranking}. Bilangan dan lokasi lesi tidak tersedia di luar talian.',
+  'analysis.unvalidated': 'Jawapan model tidak dapat disahkan, jadi tiada diagnosis dibuat. Ambil semula foto dan cuba lagi.',
+
+  'severity.0': 'Sihat / Tiada Penyakit',
+  'severity.1': 'Keterukan Rendah',
+  'severity.2': 'Keterukan Sederhana',
+  'severity.3': 'Keterukan Tinggi',
+  'confidence.low': 'Keyakinan Rendah',
+  'confidence.medium': 'Keyakinan Sederhana',
+  'confidence.high': 'Keyakinan Tinggi',
+
+  'result.reliability': 'Kebolehpercayaan AI',
+  'result.confidenceNote': 'Model {percent}% yakin berdasarkan bukti visual semasa.',
+  'result.calibratedNote': 'Dikalibrasi kepada {percent}% daripada {raw}% yang dinyatakan model menggunakan imbasan berlabel anda.',
+  'result.needsReview': 'Perlu semakan pakar',
+  'result.needsReviewDetail': 'Keyakinan di bawah ambang semakan {threshold}% anda, jadi pelan rawatan ditahan. Minta pegawai pengembangan atau penanam berpengalaman mengesahkan diagnosis terlebih dahulu.',
+  'result.precautions': 'Langkah Berjaga-jaga Sehingga Disahkan',
+  'result.reviewVerified': 'Disahkan melalui semakan pakar',
+  'result.reviewCorrected': 'Semakan pakar membetulkan ini kepada {verdict}',
+  'result.reviewedBy': 'Disemak oleh {reviewer} pada {date}. Langkah di bawah mengikut keputusan pakar.',
+  'result.reviewedOn': 'Disemak pada {date}. Langkah di bawah mengikut keputusan pakar.',
+  'review.isolate': 'Asingkan pokok daripada pokok sihat jika boleh dan elakkan penyiraman dari atas.',
+  'review.retake': 'Ambil semula foto yang lebih jelas pada waktu siang, atau tambah foto untuk keputusan konsensus.',
+  'review.holdSprays': 'Tangguhkan semburan racun kulat sehingga diagnosis disahkan.',
+  'review.title': 'Semakan Pakar',
+  'review.verified': 'Disahkan',
+  'review.corrected': 'Diperbetulkan',
+  'review.aiVerdict': 'Keputusan AI:',
+  'review.expertVerdict': 'Keputusan pakar:',
+  'review.reviewerName': 'Nama penyemak',
+  'review.notes': 'Nota (apa yang anda lihat, mengapa keputusan berubah)',
+  'review.annotateAlt': 'Imbasan untuk dianotasi',
+  'review.outlined': '{count} bergaris • kotak putus-putus daripada model',
+  'review.startFromModel': 'Mula daripada kotak model',
+  'review.outlineLesions': 'Gariskan lesi',
+  'review.editLesions': 'Sunting {count} lesi bergaris',
+  'review.confirm': 'Sahkan Keputusan AI',
+  'review.save': 'Simpan Semakan',
+  'review.clear': 'Kosongkan',
+  'review.reviewedBy': 'Disemak {date} oleh {reviewer}',
+  'review.reviewedOn': 'Disemak {date}',
+  'review.compareTitle': 'Perbandingan Keputusan',
+  'review.compareSame': 'Keputusan sama',
+  'review.compareDifferentDisease': 'Penyakit berbeza',
+  'review.compareInconclusive': 'Perubahan tidak muktamad',
+  'review.compareWorse': 'Lebih teruk: {from} → {to}',
+  'review.compareMilder': 'Lebih ringan: {from} → {to}',
+  'review.compareStage': 'Peringkat',
+  'review.compareDiagnosis': 'Diagnosis',
+  'review.compareConfidence': 'Keyakinan',
+  'review.compareModel': 'Model',
+  'result.detection': 'Hasil Pengesanan',
+  'result.lesions': 'Lesi',
+  'result.avgSize': 'Saiz Purata',
+  'result.severity': 'Keterukan',
+  'result.coInfection': 'Jangkitan Bersama Dikesan',
+  'result.coInfectionNote': 'Langkah pengurusan di bawah mengikut keadaan paling teruk; semak setiap panduan untuk percanggahan.',
+  'result.qualityRejected': 'Model tidak dipanggil kerana gambar gagal semakan kualiti.',
+  'result.analyzeAnyway': 'Analisis Juga',
+  'result.analyzedOn': 'Dianalisis pada {time} • {provider}',
+  'result.preprocessedSent': 'Dihantar sebagai {format}, {width}×{height}, {size} (daripada {original})',
+  'result.preprocessedRotated': 'diputar tegak',
+  'result.preprocessedCropped': 'dipotong pada daun',
+  'result.preprocessedWhiteBalanced': 'imbangan putih dibetulkan',
+  'result.preprocessedBackgroundRemoved': 'latar belakang dibuang',
+  'result.breakdown': 'Pecahan Diagnosis',
+  'result.markerHint': 'Klik penanda untuk melihat panduan',
+  'result.visibleMarkers': 'Penanda Yang Dikesan',
+  'result.evidenceLocation': 'Lokasi Bukti',
+  'result.evidenceConcentrated': 'Kebanyakannya tertumpu di bahagian {region}.',
+  'result.modelVerification': 'Pengesahan Model',
+  'result.responseCorrected': 'Jawapan Dibetulkan ({count})',
+  'result.managementSteps': 'Langkah Pengurusan',
+  'result.exploreGuide': 'Lihat Panduan Diagnosis Lengkap',
+  'result.measurement': 'Pengukuran Daun',
+  'result.diseasedArea': 'Luas daun berpenyakit',
+  'result.measuredLesions': 'Lesi tersegmen',
+  'result.meanDiameter': 'Diameter purata',
+  'result.leafArea': 'Luas daun',
+  'result.leafCoverage': 'Daun dalam bingkai',
+  'result.calibratedWith': 'Ditentukur dengan {reference} ({pxPerMm} px/mm).',
+  'result.referenceMissing': '{reference} tidak ditemui dalam foto, jadi saiz lesi ialah anggaran model.',
+  'result.uncalibrated': 'Tiada rujukan saiz dalam foto, jadi saiz lesi ialah anggaran model.',
+  'result.severityMeasured': 'Keterukan ialah bahagian luas daun berpenyakit yang diukur.',
+  'result.grade': '{scale} gred {grade} ({range})',
+  'result.consensus': 'Konsensus {shots} tangkapan daripada {photos} foto',
+  'result.agreement': '{percent}% persetujuan',
+  'result.votes': '{count} undi, purata {confidence}%',
+  'result.consensusSplit': 'Tangkapan tidak sepakat. Gunakan keputusan ini dengan berhati-hati dan ambil semula foto yang lebih jelas jika boleh.',
+  'result.consensusUnanimous': 'Setiap tangkapan yang mengundi memberi keputusan yang sama.',
+  'result.abstained': '{count} tangkapan tidak memberi keputusan yang boleh digunakan dan tidak mengundi.',
+
+  'history.title': 'Sejarah Analisis',
+  'history.subtitle': 'Semak penilaian kesihatan tanaman anda yang lepas. Sejarah anda disimpan dalam peranti ini sahaja.',
+  'history.import': 'Import Sandaran',
+  'history.exportCsv': 'Eksport CSV',
+  'history.backupJson': 'Sandaran JSON',
+  'history.clear': 'Padam Semua Sejarah',
+  'history.confirmClear': 'Adakah anda pasti mahu memadam keseluruhan sejarah analisis anda?',
+  'history.emptyTitle': 'Belum Ada Sejarah',
+  'history.emptyHint': 'Analisis penyakit yang berjaya akan dipaparkan di sini sebaik sahaja anda mula mengimbas.',
+  'history.startScanning': 'Mula Mengimbas',
+  'history.confidence': 'Keyakinan {value}%',
+  'history.needsReview': 'Perlu semakan',
+  'history.verified': 'Disahkan pakar',
+  'history.corrected': 'Dibetulkan pakar',
+  'accuracy.title': 'Ketepatan Berbanding Semakan Pakar',
+  'accuracy.summary': '{correct} daripada {total} imbasan disemak betul ({percent}%)',
+  'accuracy.diseaseMismatches': '{count} mempunyai peringkat yang betul tetapi penyakit yang salah.',
+  'accuracy.aiStage': 'Peringkat AI',
+  'accuracy.expertStage': 'Peringkat pakar',
+  'outbox.title': 'Menunggu Analisis',
+  'outbox.subtitle': 'Imbasan yang diambil tanpa sambungan. Ia dianalisis dan ditambah ke sejarah anda sebaik sahaja anda kembali dalam talian.',
+  'outbox.offlineHint': 'Luar talian. Imbasan dalam baris gilir akan dianalisis apabila sambungan pulih.',
+  'outbox.queued': 'Tiada sambungan. Imbasan telah disimpan dan akan dianalisis apabila anda kembali dalam talian.',
+  'outbox.queueFailed': 'Imbasan tidak dapat disimpan untuk kemudian. Sila cuba lagi.',
+  'outbox.drainFailed': 'Imbasan dalam baris gilir tidak dapat dianalisis sekarang. Ia kekal dalam baris gilir untuk cubaan seterusnya.',
+  'outbox.photos': '{count} foto',
+  'outbox.statusQueued': 'Dalam baris gilir',
+  'outbox.statusAnalyzing': 'Menganalisis…',
+  'outbox.statusFailed': 'Gagal selepas {count} cubaan',
+  'outbox.retry': 'Cuba sekarang',
+  'outbox.remove': 'Buang',
+  'calibration.title': 'Kalibrasi Keyakinan',
+  'calibration.subtitle': 'Semak imbasan dari halaman butiran imbasan untuk melihat kekerapan model betul pada setiap tahap keyakinan.',
+  'calibration.threshold': 'Ambang semakan',
+  'calibration.thresholdHint': 'Keputusan baharu di bawah keyakinan {percent}% ditandakan untuk semakan pakar dan pelan rawatannya ditahan.',
+  'calibration.stageSummary': '{count} berlabel • {percent}% betul',
+  'calibration.empty': 'Belum ada imbasan yang disemak.',
+  'calibration.bin': '{range}: {correct} daripada {count} betul',
+  'calibration.legend': 'Bar menunjukkan kekerapan imbasan berlabel dalam setiap julat keyakinan adalah betul; penanda menunjukkan keyakinan yang dinyatakan model.',
+  'history.severity': 'Keterukan {value}%',
+  'history.viewGuide': 'Lihat Panduan',
+  'history.openScan': 'Buka Imbasan',
+  'history.exportFailed': 'Sejarah anda tidak dapat dibaca untuk dieksport.',
+
+  'import.ready': 'Sandaran sedia untuk diimport',
+  'import.previewCounts': '{scans} imbasan dan {plants} tanaman',
+  'import.previewExportedAt': ', dieksport {date}',
+  'import.previewDuplicates': '{count} sudah ada dalam peranti ini',
+  'import.previewInvalid': ', {count} tidak dapat dibaca',
+  'import.merge': 'Gabung',
+  'import.replace': 'Ganti Semua',
+  'import.confirmReplace': 'Ganti semua imbasan, tanaman dan log rawatan dalam peranti ini dengan sandaran? Tindakan ini tidak boleh dibatalkan.',
+  'import.done': '{scans} imbasan, {plants} tanaman dan {treatments} log rawatan diimport. {duplicates} pendua dan {invalid} entri tidak sah dilangkau.',
+  'import.failed': 'Import terhenti separuh jalan. Sebahagian imbasan mungkin telah ditambah.',
+  'import.unreadable': 'Fail sandaran tidak dapat dibaca.',
+  'import.notJson': 'Fail ini bukan JSON yang sah.',
+  'import.notBackup': 'Ini bukan fail sandaran PhytoScan.',
+  'import.newerSchema': 'Sandaran ini dibuat oleh versi PhytoScan yang lebih baharu (skema {version}). Kemas kini aplikasi dan cuba lagi.',
+
+  'camera.unsupported': 'Kamera langsung tidak disokong dalam pelayar ini.',
+  'camera.denied': 'Akses kamera ditolak atau tiada kamera tersedia.',
+  'camera.frameOk': 'Bingkai OK',
+  'camera.adjust': 'Laraskan tangkapan untuk mengaktifkan pengatup',
+  'camera.capture': 'Tangkap Daun',
+  'camera.waiting': 'Menunggu bingkai yang boleh digunakan...',
+
+  'viewer.imageAlt': 'Foto daun',
+  'viewer.lesion': 'Lesi #{index}',
+  'viewer.diameter': 'Diameter {size}mm',
+  'viewer.confidence': 'Keyakinan {percent}%',
+  'viewer.lesionsLocalized': '{count} lesi dikesan',
+  'viewer.noLesions': 'Tiada lesi dikesan',
+  'viewer.showLesionMap': 'Tunjuk peta lesi',
+  'viewer.hideLesionMap': 'Sembunyi peta lesi',
+  'viewer.leafMask': 'Topeng daun • {percent}% bingkai',
+  'viewer.hideLeafMask': 'Sembunyi topeng daun',
+
+  'detail.notFound': 'Imbasan ini tidak dapat ditemui.',
+  'detail.back': 'Kembali ke Sejarah',
+  'detail.original': 'Asal',
+  'detail.rerun': 'Ulangan',
+  'detail.print': 'Cetak Laporan',
+  'detail.rerunAnalysis': 'Ulang Analisis',
+  'detail.noImage': 'Tiada imej disimpan',
+  'detail.noImageHint': 'Imbasan ini disimpan oleh versi PhytoScan yang lebih lama dan tidak boleh dianalisis semula.',
+  'detail.plant': 'Tanaman / Petak',
+  'detail.untagged': 'Tiada tag',
+  'detail.saved': 'Disimpan ke Sejarah',
+  'detail.saveRerun': 'Simpan Ulangan sebagai Imbasan Baharu',
+
+  'batch.title': 'Analisis Kelompok',
+  'batch.progress': '{total} imej • {finished} diproses',
+  'batch.failed': '{count} gagal',
+  'batch.stop': 'Henti',
+  'batch.resume': 'Sambung / Cuba Semula Yang Gagal',
+  'batch.start': 'Mula Kelompok',
+  'batch.status.queued': 'Dalam baris gilir',
+  'batch.status.running': 'Sedang berjalan',
+  'batch.status.retrying': 'Mencuba semula',
+  'batch.status.done': 'Selesai',
+  'batch.status.failed': 'Gagal',
+  'batch.attempt': '(cubaan {count})',
+  'batch.summary': 'Ringkasan Kelompok',
+  'batch.incidence': 'Insiden',
+  'batch.diseased': '{diseased}/{total} berpenyakit',
+  'batch.meanSeverity': 'Purata Keterukan',
+  'batch.excludesN0': 'tidak termasuk imej N0',
+  'batch.stageDistribution': 'Taburan Peringkat',
+  'batch.conditionsFound': 'Keadaan Yang Ditemui',
+  'batch.imageCount': '{count} imej',
+
+  'plants.title': 'Tanaman & Petak',
+  'plants.subtitle': 'Daftar tanaman atau batas secara individu, tandakan imbasan dengannya, dan ikuti perubahan peringkat dan keterukan penyakit dari semasa ke semasa.',
+  'plants.namePlaceholder': 'Nama, cth. Batas A3',
+  'plants.kindPlant': 'Tanaman',
+  'plants.kindPlot': 'Petak / Batas',
+  'plants.locationPlaceholder': 'Lokasi (pilihan)',
+  'plants.register': 'Daftar',
+  'plants.emptyTitle': 'Tiada Tanaman Didaftarkan',
+  'plants.emptyHint': 'Daftar tanaman atau petak di atas, kemudian pilihnya pada pengimbas sebelum mengambil foto.',
+  'plants.confirmRemove': 'Buang "{name}"? Imbasannya kekal dalam sejarah anda tanpa tag tanaman.',
+  'plants.plantTimeline': 'Garis Masa Tanaman',
+  'plants.plotTimeline': 'Garis Masa Petak',
+  'plants.scanCount': '{count} imbasan',
+  'plants.currently': 'Kini',
+  'plants.severityIndex': 'Indeks Keterukan Penyakit',
+  'plants.survey': '{count} daun diimbas {date}',
+  'plants.noScansPlant': 'Belum ada imbasan yang ditandakan dengan tanaman ini.',
+  'plants.noScansPlot': 'Belum ada imbasan yang ditandakan dengan petak ini.',
+  'plants.legendStage': 'Peringkat',
+  'plants.legendSeverity': 'Keterukan %',
+  'plants.legendProgression': 'Perkembangan',
+  'plants.stageChanges': 'Perubahan Peringkat',
+  'plants.progressed': 'Merosot {from} → {to} pada {date}',
+  'plants.improved': 'Pulih {from} → {to} pada {date}',
+  'plants.scanSeverity': 'Keterukan {severity}% ({scale} {grade})',
+  'plants.selectHint': 'Pilih tanaman atau petak untuk melihat garis masanya.',
+  'plants.chartNotDiagnostic': '{date}: N0 (bukan diagnostik)',
+  'plants.chartPoint': '{date}: {stage}, keterukan {severity}%',
+
+  'treatmentLog.title': 'Log Rawatan',
+  'treatmentLog.stepsDone': '{done}/{total} langkah selesai',
+  'treatmentLog.applications': 'Aplikasi',
+  'treatmentLog.productPlaceholder': 'Produk, cth. Chlorothalonil',
+  'treatmentLog.concentrationPlaceholder': 'cth. 500ppm',
+  'treatmentLog.log': 'Catat',
+  'treatmentLog.followUp': 'Susulan',
+  'treatmentLog.nextSpray': 'Semburan seterusnya',
+  'treatmentLog.nextSprayPending': 'Ditetapkan selepas aplikasi pertama (setiap {days} hari)',
+  'treatmentLog.rescan': 'Imbas semula',
+  'treatmentLog.enableNotifications': 'Aktifkan Pemberitahuan Peringatan',
+
+  'reminders.title': 'Peringatan Susulan',
+  'reminders.due': 'Tiba masa',
+  'reminders.spray': 'Aplikasi rawatan seterusnya ({label})',
+  'reminders.rescan': 'Imbas semula untuk menyemak perkembangan {label}',
+  'reminders.notificationTitle': 'Susulan PhytoScan',
+  'reminders.notificationBody': '{reminder} perlu dibuat pada {date}.',
+
+  'weather.title': 'Risiko Cercospora',
+  'weather.level.low': 'Rendah',
+  'weather.level.moderate': 'Sederhana',
+  'weather.level.high': 'Tinggi',
+  'weather.level.severe': 'Teruk',
+  'weather.latestReading': 'bacaan terkini',
+  'weather.conditions': '{temperature}°C • RH {humidity}% • Hujan {rain} mm • Kebasahan daun {wetness} j',
+  'weather.empty': 'Tambah bacaan suhu, kelembapan, hujan dan kebasahan daun untuk mendapatkan risiko jangkitan harian dan nasihat semburan.',
+  'weather.fetch': 'Ambil',
+  'weather.csv': 'CSV',
+  'weather.reading': 'Bacaan',
+  'weather.saveReading': 'Simpan Bacaan',
+  'weather.field.temperature': 'Suhu °C',
+  'weather.field.humidity': 'RH %',
+  'weather.field.rain': 'Hujan mm',
+  'weather.field.wetness': 'Jam basah',
+  'weather.loaded': '{count} hari dimuatkan daripada {source}.',
+  'weather.fetchFailed': 'Tidak dapat menghubungi {source}.',
+  'weather.imported': '{count} hari diimport.',
+  'weather.importedSkipped': '{count} hari diimport, {skipped} baris tidak sah dilangkau.',
+  'weather.readFailed': 'Fail tidak dapat dibaca.',
+  'weather.saved': 'Bacaan untuk {date} disimpan.',
+  'weather.csv.noRows': 'Fail ini tiada baris data.',
+  'weather.csv.missingColumn': 'Lajur "{column}" tiada. Dijangka: {expected}.',
+  'weather.csv.noValidRows': 'Tiada baris dengan tarikh dan bacaan yang sah.',
+  'weather.source.mock.name': 'Stesen simulasi',
+  'weather.source.mock.description': 'Cuaca tropika tanah rendah yang dijana. Tiada sambungan atau stesen diperlukan.',
+  'weather.advice.severe.headline': 'Risiko teruk: lindungi tanaman sekarang',
+  'weather.advice.severe.spray': 'Sembur racun pelindung hari ini, mengikut protokol E1 dalam panduan.',
+  'weather.advice.severe.sprayWhenDry': 'Sembur racun pelindung sebaik sahaja daun kering; hujan akan membasuhnya.',
+  'weather.advice.severe.water': 'Hentikan penyiraman dari atas sehingga keadaan reda.',
+  'weather.advice.severe.sanitize': 'Buang dan musnahkan daun bertompok, kemudian imbas daun lain di batas yang sama.',
+  'weather.advice.high.headline': 'Risiko tinggi: lindungi sebelum tempoh basah seterusnya',
+  'weather.advice.high.spray': 'Sembur racun pelindung jika Cercospora telah ditemui di ladang musim ini.',
+  'weather.advice.high.holdSpray': 'Tangguhkan semburan sehingga daun kering; hujan akan membasuhnya.',
+  'weather.advice.high.water': 'Siram di pangkal pada waktu pagi, bukan dari atas.',
+  'weather.advice.high.scout': 'Periksa daun bawah untuk tompok baharu dalam masa 2 hari.',
+  'weather.advice.moderate.headline': 'Risiko sederhana: pantau dengan teliti',
+  'weather.advice.moderate.noSpray': 'Semburan belum diperlukan.',
+  'weather.advice.moderate.water': 'Siram di pangkal pada waktu pagi, bukan dari atas, supaya daun kering sebelum malam.',
+  'weather.advice.moderate.scout': 'Periksa daun bawah untuk tompok baharu minggu ini.',
+  'weather.advice.low.headline': 'Risiko rendah: semburan tidak diperlukan',
+  'weather.advice.low.scout': 'Teruskan pemantauan setiap minggu.',
+
+  'report.title': 'Laporan Diagnosis PhytoScan',
+  'report.documentTitle': 'Laporan PhytoScan {id}',
+  'report.diseaseAssessment': 'Penilaian {disease} ({agent})',
+  'report.leafAssessment': 'Penilaian kesihatan daun',
+  'report.scan': 'Imbasan {id}',
+  'report.imageAlt': 'Daun yang diimbas',
+  'report.noImage': 'Tiada imej disimpan untuk imbasan ini.',
+  'report.crop': 'Tanaman',
+  'report.stage': 'Peringkat',
+  'report.severity': 'Keterukan',
+  'report.severityValue': '{percent}% luas daun (gred {scale} {grade}, {range})',
+  'report.confidence': 'Keyakinan',
+  'report.calibrated': '{percent}% dikalibrasi',
+  'report.needsReview': 'perlu semakan pakar',
+  'report.expertReview': 'Semakan pakar',
+  'report.leaves': 'Daun',
+  'report.consensus': 'Konsensus',
+  'report.consensusValue': '{percent}% daripada {shots} tangkapan yang mengundi ({votes})',
+  'report.lesions': 'Lesi',
+  'report.lesionsValue': '{count} (purata {size} mm)',
+  'report.diseasedArea': 'Luas berpenyakit',
+  'report.diseasedAreaValue': '{percent}% daun ({calibration})',
+  'report.calibratedAt': 'dikalibrasi, {pxPerMm} px/mm',
+  'report.uncalibrated': 'tidak dikalibrasi',
+  'report.analyzedBy': 'Dianalisis oleh',
+  'report.assessment': 'Penilaian',
+  'report.symptoms': 'Simptom Dikesan',
+  'report.prognosis': 'Prognosis',
+  'report.protocol': 'Protokol Rawatan',
+  'report.withheldTitle': 'Ditahan.',
+  'report.withheld': 'Keyakinan di bawah ambang semakan, jadi minta pegawai pengembangan mengesahkan diagnosis sebelum merawat.',
+  'report.coInfections': 'Jangkitan Bersama: Langkah Segera',
+  'report.applications': 'Aplikasi Rawatan',
+  'report.date': 'Tarikh',
+  'report.product': 'Produk',
+  'report.concentration': 'Kepekatan',
+  'report.notes': 'Catatan',
+  'report.noneRecorded': 'Tiada direkodkan',
+  'report.popupBlocked': 'Benarkan tetingkap timbul untuk PhytoScan bagi membuka laporan bercetak.',
+
+  'guide.title': 'Ensiklopedia Peringkat',
+  'guide.intro': 'Pengelasan piawai H0-E3 bagi penyakit dan gangguan utama {crops}.',
+  'guide.introStages': 'Setiap keadaan diberi peringkat E1 (awal) hingga E3 (teruk); H0 dan N0 merujuk kepada keseluruhan daun.',
+  'guide.stage': 'Peringkat {code}',
+  'guide.symptoms': 'Simptom Yang Dapat Dilihat',
+  'guide.protocol': 'Protokol',
+  'guide.biologicalNote': 'Nota Biologi',
+  'guide.prognosis': 'Prognosis',
+  'guide.visualMarker': 'Penanda Visual',
+
+  'treatment.immediate': 'Segera',
+  'treatment.preventive': 'Pencegahan',
+  'treatment.cultural': 'Amalan Kultur',
+  'treatment.chemical': 'Kimia',
+  'treatment.nutritional': 'Nutrien',
+  'treatment.recovery': 'Pemulihan',
+  'treatment.photographyTips': 'Tip Fotografi',
+  'treatment.tips': 'Tip',
+
+  'category.Fungal': 'Kulat',
+  'category.Oomycete': 'Oomiset',
+  'category.Bacterial': 'Bakteria',
+  'category.Pest': 'Perosak',
+  'category.Abiotic': 'Abiotik',
+
+  'footer.about': 'Diagnosis berasaskan AI untuk {crops}, menyediakan alat tepat untuk pertanian moden.',
+  'footer.stagingStandards': 'Piawaian Peringkat',
+  'footer.stageH0': 'H0: Garis Dasar Sihat',
+  'footer.stageE1': 'E1: Jangkitan Awal',
+  'footer.stageE2': 'E2: Jangkitan Pertengahan',
+  'footer.stageE3': 'E3: Jangkitan Lewat / Teruk',
+  'footer.conditions': 'Keadaan Yang Diliputi',
+  'footer.support': 'Sokongan',
+  'footer.documentation': 'Dokumentasi',
+  'footer.citation': 'Rujukan Penyelidikan',
+  'footer.poweredBy': 'Dikuasakan oleh Gemini 3 Flash',
+  'footer.copyright': '© 2024 Inisiatif PhytoScan • Nasihat Pakar Disyorkan',
+};
+
+export const MESSAGES: Record<Locale, Partial<Record<MessageKey, string>>> = {
+  en: EN_MESSAGES,
+  ms: MS_MESSAGES,
+};
@@ -0,0 +1,86 @@
+import { OutboxItem } from './types';
+import { getCrop } from './crops';
+import { resolveProvider } from './diagnosisProviders';
+import { getReferenceObject } from './referenceObjects';
+import { compressImage } from './imageProcessor';
+import { PipelineOutput, analyzeConsensus, analyzeImage, analyzeLeaves } from './analysisPipeline';
+import { deleteOutboxItem, getAllOutboxItems, saveOutboxItem } from './historyStore';
+
+// Queued photos are kept at the size history stores, which is plenty for the later analysis
+const OUTBOX_IMAGE_MAX_DIMENSION = 1600;
+
+export type OutboxRequest = Omit<OutboxItem, 'id' | 'createdAt' | 'status' | 'attempts' | 'error'>;
+
+export const queueScan = async (request: OutboxRequest): Promise<OutboxItem> => {
+  const item: OutboxItem = {
+    ...request,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    photos: await Promise.all(request.photos.map((photo) => compressImage(photo, OUTBOX_IMAGE_MAX_DIMENSION, 0.9))),
+    status: 'queued',
+    attempts: 0,
+  };
+  await saveOutboxItem(item);
+  return item;
+};
+
+// Replays the scan with the options it was captured with
+const analyzeOutboxItem = (item: OutboxItem): Promise<PipelineOutput> => {
+  const crop = getCrop(item.cropId);
+  const provider = resolveProvider(item.providerId, navigator.onLine, crop.id);
+  const reference = getReferenceObject(item.referenceId);
+  if (item.photos.length > 1 || item.multiView) {
+    return analyzeConsensus(item.photos, provider, crop, { multiView: item.multiView, reference });
+  }
+  return item.perLeaf
+    ? analyzeLeaves(item.photos[0], provider, crop, false, reference)
+    : analyzeImage(item.photos[0], provider, crop, false, reference);
+};
+
+let draining = false;
+
+/**
+ * Analyses the queue oldest first, one scan at a time, hands each result to `onAnalyzed`
+ * and drops it from the outbox. A failed scan stays queued with its error for the next
+ * attempt, and the run stops as soon as the connection drops again.
+ */
+export const drainOutbox = async (
+  onAnalyzed: (output: PipelineOutput, item: OutboxItem) => Promise<unknown>,
+  onChange: () => void
+): Promise<void> => {
+  if (draining) return;
+  draining = true;
+  try {
+    for (const queued of await getAllOutboxItems()) {
+      if (!navigator.onLine) break;
+      const item: OutboxItem = { ...queued, status: 'analyzing', attempts: queued.attempts + 1, error: undefined };
+      await saveOutboxItem(item);
+      onChange();
+      try {
+        await onAnalyzed(await analyzeOutboxItem(item), item);
+        await deleteOutboxItem(item.id);
+      } catch (error) {
+        console.error("Queued analysis failed", error);
+        await saveOutboxItem({ ...item, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+      onChange();
+    }
+  } finally {
+    draining = false;
+  }
+};
+
+// The worker caches the app shell so PhytoScan opens, and queues scans, without a connection
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        // The first visit loaded its modules before the worker existed, so hand it the list to cache
+        const urls = performance.getEntriesByType('resource').map((entry) => entry.name);
+        registration.active?.postMessage({ type: 'cache-urls', urls });
+      })
+      .catch((e) => console.warn("Service worker registration failed", e));
+  });
+};
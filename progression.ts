@@ -0,0 +1,78 @@
+import { DiseaseStage, ScanRecord } from './types';
+import { getDiseaseInfo } from './diseases';
+
+export type ProgressionDirection = 'worsened' | 'improved';
+
+export interface ProgressionEvent {
+  scanId: string;
+  date: number;
+  from: DiseaseStage;
+  to: DiseaseStage;
+  direction: ProgressionDirection;
+  note?: string;
+}
+
+export interface TimelinePoint {
+  scanId: string;
+  date: number;
+  stage: DiseaseStage;
+  severity: number;
+}
+
+// N0 scans say nothing about the plant itself, so they are left out of progression
+const isDiagnostic = (stage: DiseaseStage) => stage !== 'N0';
+
+export const toTimelinePoints = (scans: ScanRecord[]): TimelinePoint[] =>
+  scans.map((scan) => ({
+    scanId: scan.id,
+    date: scan.createdAt,
+    stage: scan.result.stage,
+    severity: parseFloat(scan.result.severityScore) || 0,
+  }));
+
+/**
+ * Compares each diagnostic scan with the previous one (oldest first) and
+ * flags stage changes, attaching the prognosis of the stage reached when it worsened.
+ */
+export const detectProgressions = (scans: ScanRecord[]): ProgressionEvent[] => {
+  const events: ProgressionEvent[] = [];
+  let previous: ScanRecord | null = null;
+
+  for (const scan of scans) {
+    if (!isDiagnostic(scan.result.stage)) continue;
+    if (previous) {
+      const from = previous.result.stage;
+      const to = scan.result.stage;
+      const reached = getDiseaseInfo(to, scan.result.diseaseId);
+      const delta = reached.severity - getDiseaseInfo(from, previous.result.diseaseId).severity;
+      if (delta !== 0) {
+        events.push({
+          scanId: scan.id,
+          date: scan.createdAt,
+          from,
+          to,
+          direction: delta > 0 ? 'worsened' : 'improved',
+          note: delta > 0 ? reached.prognosis : undefined,
+        });
+      }
+    }
+    previous = scan;
+  }
+
+  return events;
+};
+
+export const latestDiagnosticScan = (scans: ScanRecord[]): ScanRecord | null => {
+  for (let i = scans.length - 1; i >= 0; i--) {
+    if (isDiagnostic(scans[i].result.stage)) return scans[i];
+  }
+  return null;
+};
+
+// Diagnostic scans from the calendar day of the latest one: a plot is surveyed by scanning several leaves in one visit
+export const latestSurvey = (scans: ScanRecord[]): ScanRecord[] => {
+  const latest = latestDiagnosticScan(scans);
+  if (!latest) return [];
+  const day = new Date(latest.createdAt).toDateString();
+  return scans.filter((scan) => isDiagnostic(scan.result.stage) && new Date(scan.createdAt).toDateString() === day);
+};
@@ -0,0 +1,83 @@
+// PhytoScan service worker: keeps the app shell, its CDN modules and fonts available offline.
+// Bump the version when the precache list changes so old caches are cleared on activation.
+const CACHE_VERSION = 'phytoscan-v1';
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Versioned third-party assets the page loads through the import map, Tailwind and Google Fonts
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  // One missing shell file should not stop the rest from being cached
+  event.waitUntil(
+    caches.open(CACHE_VERSION)
+      .then((cache) => Promise.all(APP_SHELL.map((url) => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_VERSION).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCacheable = (url) => url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname);
+
+const putInCache = (request, response) => {
+  // Opaque responses come from no-cors requests such as the Tailwind script tag and are still usable
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE_VERSION).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+// Our own files change with every deploy, so the network wins and the cache is the offline fallback
+const networkFirst = async (request, fallbackUrl) => {
+  try {
+    return putInCache(request, await fetch(request));
+  } catch (error) {
+    const cached = await caches.match(request) || (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// CDN modules rarely change, so serve the cached copy at once and refresh it in the background
+const staleWhileRevalidate = async (request) => {
+  const cached = await caches.match(request);
+  const refresh = fetch(request).then((response) => putInCache(request, response));
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+};
+
+// The page sends what it loaded before this worker controlled it; fetch whatever is not cached yet
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls' || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter((url) => typeof url === 'string' && isCacheable(new URL(url)));
+  event.waitUntil(caches.open(CACHE_VERSION).then((cache) => Promise.all(urls.map(async (url) => {
+    if (await cache.match(url)) return;
+    const response = await fetch(url).catch(() => null);
+    if (response?.ok) await cache.put(url, response);
+  }))));
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (isCacheable(url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+  // Everything else, including the Gemini API, goes straight to the network
+});
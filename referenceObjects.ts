@@ -0,0 +1,30 @@
+import { t } from './i18n';
+import { ReferenceObject, ReferenceObjectId } from './types';
+
+// Malaysian third-series coins, and the black square on the printable scale card
+export const REFERENCE_OBJECTS: Record<ReferenceObjectId, ReferenceObject> = {
+  sen10: { id: 'sen10', shape: 'circle', sizeMm: 18.8 },
+  sen20: { id: 'sen20', shape: 'circle', sizeMm: 20.6 },
+  sen50: { id: 'sen50', shape: 'circle', sizeMm: 22.65 },
+  scaleCard: { id: 'scaleCard', shape: 'square', sizeMm: 20 },
+};
+
+const REFERENCE_STORAGE_KEY = 'phytoscan_reference';
+
+export const isReferenceObjectId = (value: string): value is ReferenceObjectId => Object.hasOwn(REFERENCE_OBJECTS, value);
+
+export const getReferenceObject = (id?: ReferenceObjectId): ReferenceObject | undefined =>
+  id ? REFERENCE_OBJECTS[id] : undefined;
+
+export const referenceName = (id: ReferenceObjectId) => t(`reference.${id}`);
+
+// Calibration is opt-in; no saved choice means the user is not placing a reference
+export const loadReferencePreference = (): ReferenceObjectId | undefined => {
+  const saved = localStorage.getItem(REFERENCE_STORAGE_KEY);
+  return saved && isReferenceObjectId(saved) ? saved : undefined;
+};
+
+export const saveReferencePreference = (id?: ReferenceObjectId) => {
+  if (id) localStorage.setItem(REFERENCE_STORAGE_KEY, id);
+  else localStorage.removeItem(REFERENCE_STORAGE_KEY);
+};
@@ -0,0 +1,130 @@
+import { DiseaseId, DiseaseStage, TreatmentLog } from './types';
+import { DEFAULT_DISEASE } from './constants';
+import { getDisease, getFollowUpSchedule, isInfectionStage } from './diseases';
+import { getLocale, t } from './i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOTIFIED_STORAGE_KEY = 'phytoscan_notified_reminders';
+// setTimeout cannot hold delays beyond ~24.8 days; later reminders are picked up on a future visit
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export type ReminderKind = 'spray' | 'rescan';
+
+export interface Reminder {
+  key: string;
+  scanId: string;
+  plantId?: string;
+  stage: DiseaseStage;
+  diseaseId?: DiseaseId;
+  kind: ReminderKind;
+  due: number;
+}
+
+export const addDays = (date: number, days: number) => date + days * DAY_MS;
+
+export const createTreatmentLog = (
+  scanId: string,
+  stage: DiseaseStage,
+  scannedAt: number,
+  plantId?: string,
+  diseaseId?: DiseaseId
+): TreatmentLog => ({
+  scanId,
+  plantId,
+  stage,
+  diseaseId,
+  scannedAt,
+  completedSteps: [],
+  applications: [],
+  rescanDate: addDays(scannedAt, getFollowUpSchedule(stage, diseaseId).rescanAfterDays),
+  updatedAt: Date.now()
+});
+
+// The next spray is due one protocol interval after the most recent application
+export const nextSprayAfter = (stage: DiseaseStage, appliedAt: number, diseaseId?: DiseaseId): number | undefined => {
+  const interval = getFollowUpSchedule(stage, diseaseId).sprayIntervalDays;
+  return interval ? addDays(appliedAt, interval) : undefined;
+};
+
+// Healthy scans only need a follow-up when they belong to a tracked plant
+export const needsFollowUp = (stage: DiseaseStage, plantId?: string) =>
+  stage === 'E1' || stage === 'E2' || stage === 'E3' || (stage === 'H0' && !!plantId);
+
+/**
+ * Builds the reminder list, soonest first. A newer scan of the same plant
+ * supersedes the older one, so only the latest plan per plant is followed.
+ */
+export const collectReminders = (logs: TreatmentLog[]): Reminder[] => {
+  const latestByPlant = new Map<string, number>();
+  for (const log of logs) {
+    if (log.plantId) latestByPlant.set(log.plantId, Math.max(latestByPlant.get(log.plantId) ?? 0, log.scannedAt));
+  }
+
+  const reminders: Reminder[] = [];
+  for (const log of logs) {
+    if (log.plantId && log.scannedAt < latestByPlant.get(log.plantId)!) continue;
+    if (log.nextSprayDate) {
+      reminders.push({ key: `${log.scanId}:spray:${log.nextSprayDate}`, scanId: log.scanId, plantId: log.plantId, stage: log.stage, diseaseId: log.diseaseId, kind: 'spray', due: log.nextSprayDate });
+    }
+    reminders.push({ key: `${log.scanId}:rescan:${log.rescanDate}`, scanId: log.scanId, plantId: log.plantId, stage: log.stage, diseaseId: log.diseaseId, kind: 'rescan', due: log.rescanDate });
+  }
+  return reminders.sort((a, b) => a.due - b.due);
+};
+
+export const describeReminder = (reminder: Reminder) => {
+  const label = isInfectionStage(reminder.stage)
+    ? `${getDisease(reminder.diseaseId ?? DEFAULT_DISEASE).name} ${reminder.stage}`
+    : reminder.stage;
+  return t(reminder.kind === 'spray' ? 'reminders.spray' : 'reminders.rescan', { label });
+};
+
+const loadNotified = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(NOTIFIED_STORAGE_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+const markNotified = (key: string) => {
+  const notified = loadNotified();
+  notified.add(key);
+  localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify([...notified]));
+};
+
+const notify = (reminder: Reminder) => {
+  if (loadNotified().has(reminder.key)) return;
+  new Notification(t('reminders.notificationTitle'), {
+    body: t('reminders.notificationBody', { reminder: describeReminder(reminder), date: new Date(reminder.due).toLocaleDateString(getLocale()) }),
+    tag: reminder.key
+  });
+  markNotified(reminder.key);
+};
+
+export const notificationsEnabled = () =>
+  typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (typeof Notification === 'undefined') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+/**
+ * Fires browser notifications for reminders that are already due and sets timers
+ * for those falling due while the app stays open. Returns a cleanup function.
+ */
+export const scheduleReminderNotifications = (reminders: Reminder[]): (() => void) => {
+  if (!notificationsEnabled()) return () => undefined;
+
+  const now = Date.now();
+  const timers: number[] = [];
+  for (const reminder of reminders) {
+    const delay = reminder.due - now;
+    if (delay <= 0) {
+      notify(reminder);
+    } else if (delay <= MAX_TIMER_DELAY_MS) {
+      timers.push(window.setTimeout(() => notify(reminder), delay));
+    }
+  }
+  return () => timers.forEach((t) => window.clearTimeout(t));
+};
@@ -0,0 +1,15 @@
+import { isLabelCorrect } from './calibration';
+import { ReviewStatus, ScanRecord } from './types';
+
+const REVIEWER_STORAGE_KEY = 'phytoscan_reviewer';
+
+// Remembered so a reviewer working through a backlog signs each scan without retyping
+export const loadReviewerName = (): string => localStorage.getItem(REVIEWER_STORAGE_KEY) ?? '';
+
+export const saveReviewerName = (name: string) => {
+  if (name) localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  else localStorage.removeItem(REVIEWER_STORAGE_KEY);
+};
+
+export const getReviewStatus = (record: Pick<ScanRecord, 'label' | 'result'>): ReviewStatus | undefined =>
+  record.label ? (isLabelCorrect(record) ? 'verified' : 'corrected') : undefined;
@@ -0,0 +1,6 @@
+import { t } from './i18n';
+import { SeverityScaleId } from './types';
+
+// Display names follow the language setting; kept out of severityScales.ts so the math stays free of the browser
+export const severityScaleName = (id: SeverityScaleId) => t(`scale.${id}.name`);
+export const severityScaleShortName = (id: SeverityScaleId) => t(`scale.${id}.short`);
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { SEVERITY_SCALES, calculateSeverity, diseaseSeverityIndex, gradeSeverity, maxGrade } from './severityScales';
+import { SeverityScaleId } from './types';
+
+const grade = (percent: number, id: SeverityScaleId) => gradeSeverity(percent, SEVERITY_SCALES[id]).grade;
+
+// [percent, expected grade]: each cut point belongs to the class it closes, the next value up to the following one
+const BOUNDARIES: Record<SeverityScaleId, [number, number][]> = {
+  horsfallBarratt: [
+    [0, 0], [0.1, 1], [3, 1], [3.1, 2], [6, 2], [6.1, 3], [12, 3], [12.1, 4], [25, 4], [25.1, 5], [50, 5],
+    [50.1, 6], [75, 6], [75.1, 7], [88, 7], [88.1, 8], [94, 8], [94.1, 9], [97, 9], [97.1, 10], [99.9, 10], [100, 11],
+  ],
+  fiveClass: [
+    [0, 0], [0.1, 1], [1, 1], [1.1, 2], [5, 2], [5.1, 3], [25, 3], [25.1, 4], [50, 4], [50.1, 5], [100, 5],
+  ],
+  ses: [
+    [0, 0], [0.1, 1], [1, 1], [1.1, 3], [5, 3], [5.1, 5], [25, 5], [25.1, 7], [50, 7], [50.1, 9], [100, 9],
+  ],
+};
+
+describe('gradeSeverity', () => {
+  for (const [id, cases] of Object.entries(BOUNDARIES) as [SeverityScaleId, [number, number][]][]) {
+    it.each(cases)(`grades %s%% as %s on ${id}`, (percent, expected) => {
+      expect(grade(percent, id)).toBe(expected);
+    });
+  }
+
+  it('clamps values outside 0-100 to the end classes', () => {
+    expect(grade(-5, 'fiveClass')).toBe(0);
+    expect(grade(120, 'horsfallBarratt')).toBe(11);
+    expect(grade(120, 'ses')).toBe(9);
+  });
+
+  it('leaves no gap between consecutive classes', () => {
+    for (const scale of Object.values(SEVERITY_SCALES)) {
+      scale.classes.slice(1).forEach((c, i) => expect(c.min).toBe(scale.classes[i].max));
+    }
+  });
+});
+
+describe('diseaseSeverityIndex', () => {
+  it('is 0 with no leaves', () => {
+    expect(diseaseSeverityIndex([], SEVERITY_SCALES.fiveClass)).toBe(0);
+  });
+
+  it('is the grade sum as a share of every leaf at the top grade', () => {
+    // Grades 0, 3 and 5 of a possible 15
+    expect(diseaseSeverityIndex([0, 10, 60], SEVERITY_SCALES.fiveClass)).toBeCloseTo((8 / 15) * 100);
+    // Grades 1 and 9 of a possible 18
+    expect(diseaseSeverityIndex([0.5, 80], SEVERITY_SCALES.ses)).toBeCloseTo((10 / 18) * 100);
+  });
+
+  it('is 0 for healthy leaves and 100 when every leaf is at the top grade', () => {
+    expect(diseaseSeverityIndex([0, 0, 0], SEVERITY_SCALES.horsfallBarratt)).toBe(0);
+    expect(diseaseSeverityIndex([100, 100], SEVERITY_SCALES.horsfallBarratt)).toBe(100);
+  });
+
+  it('uses the top grade of the scale', () => {
+    expect(maxGrade(SEVERITY_SCALES.horsfallBarratt)).toBe(11);
+    expect(maxGrade(SEVERITY_SCALES.fiveClass)).toBe(5);
+    expect(maxGrade(SEVERITY_SCALES.ses)).toBe(9);
+  });
+});
+
+describe('calculateSeverity', () => {
+  const measured = { diseasedAreaPercent: 12.34, lesionCount: 4 };
+
+  it('is 0 for healthy and invalid verdicts', () => {
+    expect(calculateSeverity('H0', measured, 30)).toBe('0.0');
+    expect(calculateSeverity('N0', measured, 30)).toBe('0.0');
+  });
+
+  it('prefers the pixel measurement when lesions were segmented', () => {
+    expect(calculateSeverity('E2', measured, 30)).toBe('12.3');
+  });
+
+  it('falls back to the model estimate when no lesion was segmented', () => {
+    expect(calculateSeverity('E1', { diseasedAreaPercent: 0, lesionCount: 0 }, 7.25)).toBe('7.3');
+    expect(calculateSeverity('E1', undefined, 7)).toBe('7.0');
+  });
+
+  it('uses the empty measurement when there is no estimate either', () => {
+    expect(calculateSeverity('E3', { diseasedAreaPercent: 0, lesionCount: 0 })).toBe('0.0');
+    expect(calculateSeverity('E3')).toBe('0.0');
+  });
+
+  it('clamps to 0-100', () => {
+    expect(calculateSeverity('E3', undefined, 140)).toBe('100.0');
+    expect(calculateSeverity('E3', undefined, -3)).toBe('0.0');
+  });
+});
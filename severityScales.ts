@@ -0,0 +1,101 @@
+import { isInfectionStage } from './stages';
+import { DiseaseStage, LesionMeasurement, SeverityClass, SeverityScale, SeverityScaleId } from './types';
+
+// Percent leaf area classes. Horsfall-Barratt steps by halving toward 50% (Horsfall & Barratt 1945);
+// the 0-5 scale is the usual leaf spot rating; SES is IRRI's Standard Evaluation System for leaf spots.
+export const SEVERITY_SCALES: Record<SeverityScaleId, SeverityScale> = {
+  horsfallBarratt: {
+    id: 'horsfallBarratt',
+    classes: [
+      { grade: 0, min: 0, max: 0 },
+      { grade: 1, min: 0, max: 3 },
+      { grade: 2, min: 3, max: 6 },
+      { grade: 3, min: 6, max: 12 },
+      { grade: 4, min: 12, max: 25 },
+      { grade: 5, min: 25, max: 50 },
+      { grade: 6, min: 50, max: 75 },
+      { grade: 7, min: 75, max: 88 },
+      { grade: 8, min: 88, max: 94 },
+      { grade: 9, min: 94, max: 97 },
+      { grade: 10, min: 97, max: 100 },
+      { grade: 11, min: 100, max: 100 },
+    ],
+  },
+  fiveClass: {
+    id: 'fiveClass',
+    classes: [
+      { grade: 0, min: 0, max: 0 },
+      { grade: 1, min: 0, max: 1 },
+      { grade: 2, min: 1, max: 5 },
+      { grade: 3, min: 5, max: 25 },
+      { grade: 4, min: 25, max: 50 },
+      { grade: 5, min: 50, max: 100 },
+    ],
+  },
+  ses: {
+    id: 'ses',
+    classes: [
+      { grade: 0, min: 0, max: 0 },
+      { grade: 1, min: 0, max: 1 },
+      { grade: 3, min: 1, max: 5 },
+      { grade: 5, min: 5, max: 25 },
+      { grade: 7, min: 25, max: 50 },
+      { grade: 9, min: 50, max: 100 },
+    ],
+  },
+};
+
+export const DEFAULT_SEVERITY_SCALE: SeverityScaleId = 'horsfallBarratt';
+
+const SEVERITY_SCALE_STORAGE_KEY = 'phytoscan_severity_scale';
+
+export const isSeverityScaleId = (value: string): value is SeverityScaleId => Object.hasOwn(SEVERITY_SCALES, value);
+
+export const loadSeverityScalePreference = (): SeverityScaleId => {
+  const saved = localStorage.getItem(SEVERITY_SCALE_STORAGE_KEY);
+  return saved && isSeverityScaleId(saved) ? saved : DEFAULT_SEVERITY_SCALE;
+};
+
+export const saveSeverityScalePreference = (id: SeverityScaleId) => {
+  localStorage.setItem(SEVERITY_SCALE_STORAGE_KEY, id);
+};
+
+// Without an id this is the scale the user picked, so screens follow the setting on re-render
+export const getSeverityScale = (id: SeverityScaleId = loadSeverityScalePreference()): SeverityScale => SEVERITY_SCALES[id];
+
+const clampPercent = (percent: number) => Math.min(Math.max(percent, 0), 100);
+
+/**
+ * Severity as percent leaf area affected. The pixel measurement wins when segmentation found
+ * lesions, then the model's visual estimate; healthy and invalid verdicts are 0.
+ */
+export const calculateSeverity = (stage: DiseaseStage, measurement?: LesionMeasurement, estimatedPercent?: number): string => {
+  if (!isInfectionStage(stage)) return '0.0';
+  const percent = measurement && measurement.lesionCount > 0
+    ? measurement.diseasedAreaPercent
+    : estimatedPercent ?? measurement?.diseasedAreaPercent ?? 0;
+  return clampPercent(percent).toFixed(1);
+};
+
+// Single-value classes (0% and 100%) are checked before the ranges that share their bound
+export const gradeSeverity = (percent: number, scale: SeverityScale): SeverityClass => {
+  const value = clampPercent(percent);
+  return scale.classes.find((c) => c.min === c.max && value === c.max)
+    ?? scale.classes.find((c) => c.min < value && value <= c.max)
+    ?? scale.classes[0];
+};
+
+export const maxGrade = (scale: SeverityScale) => scale.classes[scale.classes.length - 1].grade;
+
+export const formatSeverityClass = (severityClass: SeverityClass) =>
+  severityClass.min === severityClass.max ? `${severityClass.max}%` : `${severityClass.min}–${severityClass.max}%`;
+
+/**
+ * McKinney's disease severity index over a set of leaves: the sum of their grades as a
+ * percentage of every leaf at the top grade. Healthy leaves count with grade 0.
+ */
+export const diseaseSeverityIndex = (percents: number[], scale: SeverityScale): number => {
+  if (percents.length === 0) return 0;
+  const gradeSum = percents.reduce((sum, percent) => sum + gradeSeverity(percent, scale).grade, 0);
+  return (gradeSum / (percents.length * maxGrade(scale))) * 100;
+};
@@ -0,0 +1,7 @@
+import { DiseaseStage, InfectionStage } from './types';
+
+// Kept apart from diseases.ts, which loads the message catalogue, so grading and voting run outside the browser
+export const DIAGNOSIS_STAGES: DiseaseStage[] = ['H0', 'E1', 'E2', 'E3', 'N0'];
+
+export const isDiagnosisStage = (value: string): value is DiseaseStage => (DIAGNOSIS_STAGES as string[]).includes(value);
+export const isInfectionStage = (stage: DiseaseStage): stage is InfectionStage => stage === 'E1' || stage === 'E2' || stage === 'E3';
@@ -1,7 +1,28 @@
 
 import { LucideIcon } from 'lucide-react';
 
-export type DiseaseStage = 'H0' | 'E1' | 'E2' | 'E3' | 'N0';
+// E1-E3 are early/mid/severe for whichever disease is found; H0 and N0 are leaf-level verdicts
+export type InfectionStage = 'E1' | 'E2' | 'E3';
+export type DiseaseStage = 'H0' | InfectionStage | 'N0';
+
+export type DiseaseId =
+  | 'cercospora' | 'white_rust' | 'bacterial_leaf_spot' | 'pest_damage' | 'nutrient_deficiency'
+  | 'choanephora_wet_rot' | 'alternaria_leaf_spot' | 'downy_mildew' | 'black_rot';
+
+export type CropId = 'kangkung' | 'bayam' | 'sawi';
+
+export interface CropDefinition {
+  id: CropId;
+  name: string;
+  englishName: string;
+  scientificName: string;
+  // The crop's catalogue, most common condition first
+  diseases: DiseaseId[];
+  // Causal agents that differ from the shared disease entry on this crop
+  agents?: Partial<Record<DiseaseId, string>>;
+  // Crop-specific guidance appended to the diagnosis prompt
+  promptNotes: string;
+}
 
 export interface TreatmentProtocol {
   immediate: string[];
@@ -31,6 +52,51 @@ export interface DiseaseInfo {
   prognosis?: string;
 }
 
+export interface DiseaseDefinition {
+  id: DiseaseId;
+  name: string;
+  agent: string;
+  category: 'Fungal' | 'Oomycete' | 'Bacterial' | 'Pest' | 'Abiotic';
+  icon: LucideIcon;
+  overview: string;
+  stages: Record<InfectionStage, DiseaseInfo>;
+  // Overrides of the default follow-up schedule, e.g. no spray interval for nutrient problems
+  followUp?: Partial<Record<InfectionStage, FollowUpSchedule>>;
+}
+
+export type Locale = 'en' | 'ms';
+
+export interface LocaleDefinition {
+  id: Locale;
+  // Native name shown in the language picker
+  name: string;
+  // Language the diagnosis prompt asks the model to answer in
+  promptLanguage: string;
+  // Consulted for anything this locale does not translate; English is always last
+  fallback?: Locale;
+}
+
+// Translatable text of a stage entry; colours, icons and AI hints stay with the English entry
+export type DiseaseInfoText = Pick<DiseaseInfo, 'name' | 'description' | 'symptoms' | 'biologicalInterpretation' | 'visualDescription' | 'treatment' | 'prognosis'>;
+
+export interface DiseaseText {
+  name: string;
+  overview: string;
+  stages: Record<InfectionStage, DiseaseInfoText>;
+}
+
+export interface DiseaseContentTranslation {
+  leafStatus: Record<'H0' | 'N0', DiseaseInfoText>;
+  diseases: Record<DiseaseId, DiseaseText>;
+}
+
+// A secondary disease seen on the same leaf as the primary diagnosis
+export interface DiseaseFinding {
+  diseaseId: DiseaseId;
+  stage: InfectionStage;
+  confidence: number;
+}
+
 export interface ImageQuality {
   avgBrightness: number;
   isTooDark: boolean;
@@ -39,10 +105,181 @@ export interface ImageQuality {
   hasOverexposure: boolean;
   resolution: { width: number; height: number };
   isLowRes: boolean;
+  sharpness: number;
+  isBlurry: boolean;
+  glareRatio: number;
+  hasGlare: boolean;
+  leafCoverage: number;
+  hasLowLeafCoverage: boolean;
+}
+
+// Bounding box, normalized to 0-1 of the image width/height
+export interface LesionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LesionRegion extends LesionBox {
+  sizeMm: number;
+  confidence: number;
+  // True when sizeMm was measured from segmented pixels against a reference object
+  measured?: boolean;
+}
+
+export type ReferenceObjectId = 'sen10' | 'sen20' | 'sen50' | 'scaleCard';
+
+// An object of known size placed beside the leaf so pixels can be converted to millimetres
+export interface ReferenceObject {
+  id: ReferenceObjectId;
+  shape: 'circle' | 'square';
+  // Coin diameter or side of the printed square
+  sizeMm: number;
+}
+
+// Optional preprocessing steps; orientation, resizing, re-encoding and metadata stripping always run
+export interface PreprocessingOptions {
+  whiteBalance: boolean;
+  cropToLeaf: boolean;
+  removeBackground: boolean;
+}
+
+export interface PreprocessingSummary {
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  sourceBytes: number;
+  // EXIF orientation tag of the source, 1 when upright or missing
+  orientation: number;
+  whiteBalanced: boolean;
+  backgroundRemoved: boolean;
+  // Region of the upright source that was kept, in 0-1 coordinates
+  leafCrop?: LesionBox;
+}
+
+export interface LeafSegmentationSummary {
+  // Share of the frame the segmented leaf covers, 0-100
+  coveragePercent: number;
+  box: LesionBox;
+  // PNG overlay the size of the analysis sample, dimming everything but the leaf
+  mask?: string;
+}
+
+export interface LesionMeasurement {
+  // Lesion pixels as a share of the segmented leaf, 0-100
+  diseasedAreaPercent: number;
+  lesionCount: number;
+  // Reference the user placed in the frame; pxPerMm is missing when it was not found
+  referenceId?: ReferenceObjectId;
+  pxPerMm?: number;
+  // Equivalent-circle diameters, only known once the image is calibrated
+  lesionDiametersMm?: number[];
+  meanLesionDiameterMm?: number;
+  leafAreaMm2?: number;
+}
+
+export type SeverityScaleId = 'horsfallBarratt' | 'fiveClass' | 'ses';
+
+// A class covers percent leaf area in (min, max]; a class with min === max matches that value only
+export interface SeverityClass {
+  grade: number;
+  min: number;
+  max: number;
+}
+
+export interface SeverityScale {
+  id: SeverityScaleId;
+  // Ordered from healthy to fully diseased
+  classes: SeverityClass[];
+}
+
+export type DiagnosisProviderId = 'gemini' | 'local';
+
+export interface RawDiagnosis {
+  disease?: string | null;
+  stage: string;
+  confidence: number;
+  lesionCount: number;
+  avgLesionSize: number;
+  explanation: string;
+  detectedSymptoms: string[];
+  visualEvidenceRegions: string;
+  lesions: LesionRegion[];
+  // Model's visual estimate of percent leaf area affected, used when pixels cannot be measured
+  affectedAreaPercent?: number;
+  coInfections?: { disease: string; stage: string; confidence: number }[];
+}
+
+// A RawDiagnosis that has passed validation against the disease and stage catalogue
+export interface Diagnosis extends Omit<RawDiagnosis, 'disease' | 'stage' | 'coInfections'> {
+  diseaseId?: DiseaseId;
+  stage: DiseaseStage;
+  coInfections: DiseaseFinding[];
+}
+
+// One distinct verdict among the shots of a consensus run
+export interface ConsensusVote {
+  diseaseId?: DiseaseId;
+  stage: DiseaseStage;
+  count: number;
+  meanConfidence: number;
+}
+
+export interface ConsensusSummary {
+  // Photos of the same plant; shots exceed photos when several views were cut from each
+  photos: number;
+  shots: number;
+  // N0 verdicts and failed calls abstain from the vote
+  abstained: number;
+  // Share of voting shots that back the consensus verdict
+  agreement: number;
+  // Most votes first; more than one entry means the shots disagreed
+  votes: ConsensusVote[];
+}
+
+// One leaf of a photo diagnosed on its own
+export interface LeafDiagnosis {
+  // 1 is the largest leaf in the photo
+  index: number;
+  box: LesionBox;
+  stage: DiseaseStage;
+  diseaseId?: DiseaseId;
+  confidence: number;
+  lesionCount: number;
+  severityScore: string;
+  coInfections?: DiseaseFinding[];
+}
+
+export interface LeafSummary {
+  leafCount: number;
+  // Leaves with a usable verdict; N0 leaves are left out of the incidence
+  assessedLeaves: number;
+  diseasedLeaves: number;
+  // Diseased share of the assessed leaves, 0-1
+  incidence: number;
+  // Index of the leaf the plant verdict comes from
+  worstLeaf: number;
+  // Leaves found in the photo whose analysis failed
+  failedLeaves: number;
+}
+
+// Names and descriptions are in the message catalogue under provider.<id>
+export interface DiagnosisProvider {
+  id: DiagnosisProviderId;
+  // Crops the provider can diagnose; all crops when omitted
+  crops?: CropId[];
+  requiresNetwork: boolean;
+  analyze: (base64Image: string, crop: CropDefinition) => Promise<RawDiagnosis>;
 }
 
 export interface AnalysisResult {
+  // Scans saved before multi-crop support are Kangkung
+  cropId?: CropId;
   stage: DiseaseStage;
+  // Set for E1-E3; scans saved before multi-disease support are Cercospora
+  diseaseId?: DiseaseId;
   confidence: number;
   disease: DiseaseInfo;
   lesionCount: number;
@@ -54,18 +291,196 @@ export interface AnalysisResult {
     shadows?: boolean;
     lowRes?: boolean;
     overexposed?: boolean;
+    blurry?: boolean;
+    glare?: boolean;
+    lowLeafCoverage?: boolean;
   } | null;
   aiExplanation?: string;
   detectedSymptoms: string[];
   visualEvidenceRegions: string;
+  lesions: LesionRegion[];
+  // Pixel measurement of the leaf; missing for healthy/invalid verdicts and older scans
+  measurement?: LesionMeasurement;
+  // Set when the verdict was voted on across several shots
+  consensus?: ConsensusSummary;
+  leaf?: LeafSegmentationSummary;
+  // Set when each leaf in the photo was diagnosed separately; the verdict is the worst leaf's
+  leaves?: LeafDiagnosis[];
+  leafSummary?: LeafSummary;
+  // What was actually sent to the model after preprocessing
+  preprocessing?: PreprocessingSummary;
+  // Confidence mapped through the reliability curve of labelled scans, when any cover this verdict
+  calibratedConfidence?: number;
+  // Confidence fell below the abstention threshold, so treatment advice is withheld
+  needsReview?: boolean;
+  coInfections?: DiseaseFinding[];
+  provider: DiagnosisProviderId;
+  repairedFields: string[];
+  rejectedByQualityGate?: boolean;
+}
+
+export interface Plant {
+  id: string;
+  name: string;
+  kind: 'plant' | 'plot';
+  cropId?: CropId;
+  location?: string;
+  createdAt: number;
+}
+
+export interface TreatmentApplication {
+  id: string;
+  date: number;
+  product: string;
+  concentration: string;
+  notes?: string;
+}
+
+export interface TreatmentLog {
+  scanId: string;
+  plantId?: string;
+  stage: DiseaseStage;
+  diseaseId?: DiseaseId;
+  scannedAt: number;
+  // Keys are "<protocol category>:<step index>"
+  completedSteps: string[];
+  applications: TreatmentApplication[];
+  nextSprayDate?: number;
+  rescanDate: number;
+  updatedAt: number;
+}
+
+export interface FollowUpSchedule {
+  sprayIntervalDays?: number;
+  rescanAfterDays: number;
+}
+
+export type StoredAnalysisResult = Omit<AnalysisResult, 'disease'>;
+
+// An expert's verdict on what the leaf actually had, stored beside the AI result it reviews
+export interface ScanLabel {
+  stage: DiseaseStage;
+  diseaseId?: DiseaseId;
+  labelledAt: number;
+  reviewer?: string;
+  notes?: string;
+  // Lesions the reviewer outlined by hand
+  lesions?: LesionBox[];
+}
+
+// Verified when the expert agreed with the AI verdict, corrected when they overrode it
+export type ReviewStatus = 'verified' | 'corrected';
+
+export interface ScanRecord {
+  id: string;
+  createdAt: number;
+  result: StoredAnalysisResult;
+  image?: string;
+  thumbnail?: string;
+  plantId?: string;
+  label?: ScanLabel;
+  legacy?: boolean;
+}
+
+// Labelled scans whose predicted stage had a raw confidence in [min, max)
+export interface ReliabilityBin {
+  min: number;
+  max: number;
+  count: number;
+  correct: number;
+  meanConfidence: number;
+}
+
+// One reliability curve per predicted stage
+export type ReliabilityCurves = Partial<Record<DiseaseStage, ReliabilityBin[]>>;
+
+export type OutboxStatus = 'queued' | 'analyzing' | 'failed';
+
+// A scan captured while it could not be analysed, kept until connectivity returns
+export interface OutboxItem {
+  id: string;
+  createdAt: number;
+  // The first photo is the one saved with the result; the rest vote on a consensus
+  photos: string[];
+  multiView: boolean;
+  perLeaf?: boolean;
+  cropId: CropId;
+  providerId: DiagnosisProviderId;
+  referenceId?: ReferenceObjectId;
+  plantId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+}
+
+export type WeatherSourceId = 'mock';
+
+// One day of field conditions
+export interface WeatherObservation {
+  // Local calendar day, YYYY-MM-DD
+  date: string;
+  // Daily mean
+  temperatureC: number;
+  // Daily mean, 0-100
+  relativeHumidity: number;
+  rainfallMm: number;
+  // Hours the foliage stayed wet, 0-24
+  leafWetnessHours: number;
+  origin: 'manual' | 'csv' | WeatherSourceId;
+}
+
+// Names and descriptions are in the message catalogue under weather.source.<id>
+export interface WeatherSource {
+  id: WeatherSourceId;
+  // The most recent `days` days, oldest first
+  fetchObservations: (days: number) => Promise<WeatherObservation[]>;
+}
+
+export type RiskLevel = 'low' | 'moderate' | 'high' | 'severe';
+
+export interface DailyRisk {
+  date: string;
+  // 0-100
+  score: number;
+  level: RiskLevel;
+  // How favourable each condition was, 0-1
+  factors: { temperature: number; wetness: number; humidity: number; rain: number };
 }
 
 export interface HistoryItem {
   id: string;
   timestamp: string;
+  cropId?: CropId;
   stage: DiseaseStage;
+  diseaseId?: DiseaseId;
   diseaseName: string;
   confidence: number;
   severityScore: string;
+  needsReview?: boolean;
+  review?: ReviewStatus;
   thumbnail?: string;
+  plantId?: string;
+}
+
+export interface ExportedScan {
+  id: string;
+  // ISO 8601
+  createdAt: string;
+  plantId?: string;
+  plantName?: string;
+  diseaseName: string;
+  result: StoredAnalysisResult;
+  image?: string;
+  thumbnail?: string;
+  label?: ScanLabel;
+  legacy?: boolean;
+}
+
+export interface HistoryBackup {
+  app: 'phytoscan';
+  schemaVersion: number;
+  exportedAt: string;
+  scans: ExportedScan[];
+  plants: Plant[];
+  treatments: TreatmentLog[];
 }
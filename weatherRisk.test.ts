@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildSprayAdvisory, riskLevel, scoreDailyRisk } from './weatherRisk';
+import { DailyRisk, WeatherObservation } from './types';
+
+// The real catalogue reads browser storage on load; the message keys are enough to tell advice apart
+vi.mock('./i18n', () => ({ t: (key: string) => key }));
+
+const observation = (date: string, reading: Partial<WeatherObservation> = {}): WeatherObservation => ({
+  date,
+  temperatureC: 27,
+  relativeHumidity: 95,
+  rainfallMm: 10,
+  leafWetnessHours: 12,
+  origin: 'manual',
+  ...reading,
+});
+
+const day = (date: string, score: number): DailyRisk => ({
+  date,
+  score,
+  level: riskLevel(score),
+  factors: { temperature: 0, wetness: 0, humidity: 0, rain: 0 },
+});
+
+describe('scoreDailyRisk', () => {
+  it('scores a warm day with long leaf wetness, high humidity and heavy rain at 100', () => {
+    expect(scoreDailyRisk(observation('2026-10-18'))).toMatchObject({ date: '2026-10-18', score: 100, level: 'severe' });
+  });
+
+  it('keeps a wet day at 0 when it is too cold or too hot for infection', () => {
+    expect(scoreDailyRisk(observation('2026-10-18', { temperatureC: 14 })).score).toBe(0);
+    expect(scoreDailyRisk(observation('2026-10-18', { temperatureC: 15 })).score).toBe(0);
+    expect(scoreDailyRisk(observation('2026-10-18', { temperatureC: 35 })).score).toBe(0);
+  });
+
+  it('ramps temperature up from 15 °C to 25 °C and down from 30 °C to 35 °C', () => {
+    expect(scoreDailyRisk(observation('2026-10-18', { temperatureC: 20 })).score).toBe(50);
+    expect(scoreDailyRisk(observation('2026-10-18', { temperatureC: 25 })).score).toBe(100);
+    expect(scoreDailyRisk(observation('2026-10-18', { temperatureC: 30 })).score).toBe(100);
+    expect(scoreDailyRisk(observation('2026-10-18', { temperatureC: 32.5 })).score).toBe(50);
+  });
+
+  it('weights leaf wetness, humidity and rain', () => {
+    // Half the wetness needed, humidity below spore production and no rain
+    expect(scoreDailyRisk(observation('2026-10-18', { leafWetnessHours: 6, relativeHumidity: 60, rainfallMm: 0 })).score).toBe(25);
+    // Humidity halfway from 70% to 95% alone
+    expect(scoreDailyRisk(observation('2026-10-18', { leafWetnessHours: 0, relativeHumidity: 82.5, rainfallMm: 0 })).score).toBe(15);
+    // Rain alone at full weight
+    expect(scoreDailyRisk(observation('2026-10-18', { leafWetnessHours: 0, relativeHumidity: 50, rainfallMm: 10 })).score).toBe(20);
+  });
+
+  it('caps each moisture factor at fully favourable', () => {
+    const risk = scoreDailyRisk(observation('2026-10-18', { leafWetnessHours: 24, rainfallMm: 80, relativeHumidity: 100 }));
+    expect(risk.factors).toEqual({ temperature: 1, wetness: 1, humidity: 1, rain: 1 });
+    expect(risk.score).toBe(100);
+  });
+});
+
+describe('riskLevel', () => {
+  it.each([
+    [0, 'low'], [24, 'low'], [25, 'moderate'], [49, 'moderate'], [50, 'high'], [74, 'high'], [75, 'severe'], [100, 'severe'],
+  ])('puts a score of %s at %s', (score, level) => {
+    expect(riskLevel(score)).toBe(level);
+  });
+});
+
+describe('buildSprayAdvisory', () => {
+  const advise = (risks: DailyRisk[], rainfallMm = 0) =>
+    buildSprayAdvisory(risks, observation(risks[risks.length - 1].date, { rainfallMm }));
+
+  it('raises a moderate day to high when the day before was favourable too', () => {
+    const advisory = advise([day('2026-10-17', 30), day('2026-10-18', 30)]);
+    expect(advisory.level).toBe('high');
+    expect(advisory.headline).toBe('weather.advice.high.headline');
+  });
+
+  it('counts a run across a month end', () => {
+    expect(advise([day('2026-02-28', 40), day('2026-03-01', 30)]).level).toBe('high');
+  });
+
+  it('does not count a favourable day when a day without a reading lies between', () => {
+    expect(advise([day('2026-10-16', 30), day('2026-10-18', 30)]).level).toBe('moderate');
+    // 29 February 2028 exists, so the 28th is two days before 1 March
+    expect(advise([day('2028-02-28', 40), day('2028-03-01', 30)]).level).toBe('moderate');
+  });
+
+  it('does not count a favourable day before a low one', () => {
+    expect(advise([day('2026-10-16', 60), day('2026-10-17', 10), day('2026-10-18', 30)]).level).toBe('moderate');
+  });
+
+  it('keeps a lone moderate day moderate', () => {
+    const advisory = advise([day('2026-10-18', 30)]);
+    expect(advisory.level).toBe('moderate');
+    expect(advisory.actions[0]).toBe('weather.advice.moderate.noSpray');
+  });
+
+  it('leaves low, high and severe days at their own level', () => {
+    expect(advise([day('2026-10-17', 60), day('2026-10-18', 10)]).level).toBe('low');
+    expect(advise([day('2026-10-17', 60), day('2026-10-18', 60)]).level).toBe('high');
+    expect(advise([day('2026-10-17', 90), day('2026-10-18', 90)]).level).toBe('severe');
+  });
+
+  it('holds the spray when rain would wash it off', () => {
+    expect(advise([day('2026-10-18', 60)], 5).actions[0]).toBe('weather.advice.high.holdSpray');
+    expect(advise([day('2026-10-18', 60)], 4.9).actions[0]).toBe('weather.advice.high.spray');
+    expect(advise([day('2026-10-18', 80)], 12).actions[0]).toBe('weather.advice.severe.sprayWhenDry');
+    expect(advise([day('2026-10-18', 80)]).actions[0]).toBe('weather.advice.severe.spray');
+  });
+
+  it('only asks for weekly scouting on a low day', () => {
+    expect(advise([day('2026-10-18', 5)])).toEqual({
+      level: 'low',
+      headline: 'weather.advice.low.headline',
+      actions: ['weather.advice.low.scout'],
+    });
+  });
+});
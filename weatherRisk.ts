@@ -0,0 +1,152 @@
+import { DailyRisk, RiskLevel, WeatherObservation } from './types';
+import { t } from './i18n';
+
+// Score at or above which each level starts
+export const RISK_LEVELS: { level: RiskLevel; min: number }[] = [
+  { level: 'severe', min: 75 },
+  { level: 'high', min: 50 },
+  { level: 'moderate', min: 25 },
+  { level: 'low', min: 0 },
+];
+
+// Weights of the moisture conditions; temperature gates them rather than adding to them
+const WETNESS_WEIGHT = 0.5;
+const HUMIDITY_WEIGHT = 0.3;
+const RAIN_WEIGHT = 0.2;
+// Leaf wetness and rainfall at which a day counts as fully favourable
+const FULL_WETNESS_HOURS = 12;
+const FULL_RAIN_MM = 10;
+// Spraying onto foliage that rain will wash within the day is wasted
+const WASH_OFF_RAIN_MM = 5;
+// Observations kept on the device, about a year of daily entries
+const MAX_STORED_OBSERVATIONS = 366;
+
+const WEATHER_STORAGE_KEY = 'phytoscan_weather';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Cercospora sporulates and infects best at 25-30 °C and hardly at all below 15 or above 35 °C
+const temperatureFactor = (celsius: number) => {
+  if (celsius <= 15 || celsius >= 35) return 0;
+  if (celsius < 25) return (celsius - 15) / 10;
+  if (celsius <= 30) return 1;
+  return (35 - celsius) / 5;
+};
+
+// Spores are produced above about 70% relative humidity and abundantly from 95%
+const humidityFactor = (percent: number) => clamp01((percent - 70) / 25);
+
+/**
+ * Cercospora infection risk for one day. Infection needs warmth and a long wet period; humidity
+ * drives spore production and rain splashes spores onto new leaves. Temperature scales the
+ * moisture score, so a cold wet day stays low.
+ */
+export const scoreDailyRisk = (observation: WeatherObservation): DailyRisk => {
+  const factors = {
+    temperature: temperatureFactor(observation.temperatureC),
+    wetness: clamp01(observation.leafWetnessHours / FULL_WETNESS_HOURS),
+    humidity: humidityFactor(observation.relativeHumidity),
+    rain: clamp01(observation.rainfallMm / FULL_RAIN_MM),
+  };
+  const moisture = WETNESS_WEIGHT * factors.wetness + HUMIDITY_WEIGHT * factors.humidity + RAIN_WEIGHT * factors.rain;
+  const score = Math.round(100 * factors.temperature * moisture);
+  return { date: observation.date, score, level: riskLevel(score), factors };
+};
+
+export const riskLevel = (score: number): RiskLevel =>
+  RISK_LEVELS.find((band) => score >= band.min)?.level ?? 'low';
+
+// Date keys are calendar days, so step in UTC to stay clear of daylight-saving shifts
+const previousDay = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10);
+
+// Favourable days in a row ending at the latest reading; a day without a reading breaks the run
+const favourableRunLength = (risks: DailyRisk[]) => {
+  let run = 0;
+  for (let i = risks.length - 1; i >= 0 && risks[i].level !== 'low'; i--) {
+    if (i < risks.length - 1 && risks[i].date !== previousDay(risks[i + 1].date)) break;
+    run++;
+  }
+  return run;
+};
+
+export interface SprayAdvisory {
+  level: RiskLevel;
+  headline: string;
+  actions: string[];
+}
+
+/**
+ * What to do today. Two or more favourable days in a row raise a moderate day to high, since
+ * infections started on the first day are still developing. Readings must be on consecutive
+ * dates to count as a run.
+ */
+export const buildSprayAdvisory = (risks: DailyRisk[], today: WeatherObservation): SprayAdvisory => {
+  const latest = risks[risks.length - 1];
+  const favourableRun = favourableRunLength(risks);
+  const level: RiskLevel = latest.level === 'moderate' && favourableRun >= 2 ? 'high' : latest.level;
+  const washOff = today.rainfallMm >= WASH_OFF_RAIN_MM;
+
+  switch (level) {
+    case 'severe':
+      return {
+        level,
+        headline: t('weather.advice.severe.headline'),
+        actions: [
+          washOff ? t('weather.advice.severe.sprayWhenDry') : t('weather.advice.severe.spray'),
+          t('weather.advice.severe.water'),
+          t('weather.advice.severe.sanitize'),
+        ],
+      };
+    case 'high':
+      return {
+        level,
+        headline: t('weather.advice.high.headline'),
+        actions: [
+          washOff ? t('weather.advice.high.holdSpray') : t('weather.advice.high.spray'),
+          t('weather.advice.high.water'),
+          t('weather.advice.high.scout'),
+        ],
+      };
+    case 'moderate':
+      return {
+        level,
+        headline: t('weather.advice.moderate.headline'),
+        actions: [
+          t('weather.advice.moderate.noSpray'),
+          t('weather.advice.moderate.water'),
+          t('weather.advice.moderate.scout'),
+        ],
+      };
+    default:
+      return {
+        level,
+        headline: t('weather.advice.low.headline'),
+        actions: [t('weather.advice.low.scout')],
+      };
+  }
+};
+
+// Oldest first
+export const loadWeatherObservations = (): WeatherObservation[] => {
+  try {
+    const saved: WeatherObservation[] = JSON.parse(localStorage.getItem(WEATHER_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.sort((a, b) => a.date.localeCompare(b.date)) : [];
+  } catch {
+    return [];
+  }
+};
+
+// A new reading for a day replaces the stored one
+export const saveWeatherObservations = (added: WeatherObservation[]): WeatherObservation[] => {
+  const byDate = new Map(loadWeatherObservations().map((o) => [o.date, o]));
+  added.forEach((o) => byDate.set(o.date, o));
+  const merged = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)).slice(-MAX_STORED_OBSERVATIONS);
+  localStorage.setItem(WEATHER_STORAGE_KEY, JSON.stringify(merged));
+  return merged;
+};
+
+export const clearWeatherObservations = () => {
+  localStorage.removeItem(WEATHER_STORAGE_KEY);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { WeatherCsvError, mockWeatherSource, parseWeatherCsv, toDateKey } from './weatherSources';
+
+// The real catalogue reads browser storage on load; the message keys are enough to tell errors apart
+vi.mock('./i18n', () => ({ t: (key: string) => key }));
+
+const HEADER = 'date,temperatureC,relativeHumidity,rainfallMm,leafWetnessHours';
+
+const csv = (...rows: string[]) => [HEADER, ...rows].join('\n');
+
+const parsedDates = (...dates: string[]) =>
+  parseWeatherCsv(csv(...dates.map((date) => `${date},27,90,4,8`), '2026-10-01,27,90,4,8')).observations
+    .map((o) => o.date)
+    .filter((date) => date !== '2026-10-01');
+
+const csvError = (text: string) => {
+  try {
+    parseWeatherCsv(text);
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected parseWeatherCsv to throw');
+};
+
+const nextDay = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+describe('parseWeatherCsv', () => {
+  it('reads one observation per row', () => {
+    expect(parseWeatherCsv(csv('2026-10-18,27.5,91,12,9.5'))).toEqual({
+      observations: [{ date: '2026-10-18', temperatureC: 27.5, relativeHumidity: 91, rainfallMm: 12, leafWetnessHours: 9.5, origin: 'csv' }],
+      skippedRows: 0,
+    });
+  });
+
+  it('accepts header variants with units, semicolons, quotes and Windows line endings', () => {
+    const text = '"Day";"Temp (°C)";"RH";"Rain (mm)";"LWH"\r\n"2026-10-18";"26";"88";"0";"6"\r\n';
+    expect(parseWeatherCsv(text).observations).toEqual([
+      { date: '2026-10-18', temperatureC: 26, relativeHumidity: 88, rainfallMm: 0, leafWetnessHours: 6, origin: 'csv' },
+    ]);
+  });
+
+  it('skips rows with a missing or implausible value', () => {
+    const { observations, skippedRows } = parseWeatherCsv(csv(
+      '2026-10-15,27,120,0,6',
+      '2026-10-16,,90,0,6',
+      '2026-10-17,27,90,0,30',
+      '2026-10-18,27,90,0,6',
+    ));
+    expect(observations.map((o) => o.date)).toEqual(['2026-10-18']);
+    expect(skippedRows).toBe(3);
+  });
+
+  it('skips dates that do not exist instead of rolling them over', () => {
+    expect(parsedDates('2026-13-45', '2026-02-30', '2026-02-29', '2026-02-30T10:00', '02/30/2026', '30 Feb 2026')).toEqual([]);
+  });
+
+  it('accepts real dates in ISO and other common formats', () => {
+    expect(parsedDates('2028-02-29', '2026/10/18', 'Oct 19 2026', '20 Oct 2026')).toEqual(['2028-02-29', '2026-10-18', '2026-10-19', '2026-10-20']);
+  });
+
+  it('rejects a file without data rows', () => {
+    const error = csvError(`${HEADER}\n`);
+    expect(error).toBeInstanceOf(WeatherCsvError);
+    expect((error as WeatherCsvError).message).toBe('weather.csv.noRows');
+  });
+
+  it('rejects a file missing a column', () => {
+    const error = csvError('date,temperatureC,relativeHumidity,rainfallMm\n2026-10-18,27,90,0');
+    expect(error).toBeInstanceOf(WeatherCsvError);
+    expect((error as WeatherCsvError).message).toBe('weather.csv.missingColumn');
+  });
+
+  it('rejects a file in which no row is usable', () => {
+    const error = csvError(csv('2026-02-30,27,90,0,6', 'not a date,27,90,0,6'));
+    expect(error).toBeInstanceOf(WeatherCsvError);
+    expect((error as WeatherCsvError).message).toBe('weather.csv.noValidRows');
+  });
+});
+
+describe('mockWeatherSource', () => {
+  it('returns consecutive plausible days ending today, the same on every call', async () => {
+    const days = await mockWeatherSource.fetchObservations(7);
+    expect(days).toHaveLength(7);
+    expect(days[days.length - 1].date).toBe(toDateKey(Date.now()));
+    days.slice(1).forEach((d, i) => expect(d.date).toBe(nextDay(days[i].date)));
+    for (const d of days) {
+      expect(d.temperatureC).toBeGreaterThanOrEqual(-10);
+      expect(d.temperatureC).toBeLessThanOrEqual(50);
+      expect(d.relativeHumidity).toBeGreaterThanOrEqual(0);
+      expect(d.relativeHumidity).toBeLessThanOrEqual(100);
+      expect(d.rainfallMm).toBeGreaterThanOrEqual(0);
+      expect(d.leafWetnessHours).toBeGreaterThanOrEqual(0);
+      expect(d.leafWetnessHours).toBeLessThanOrEqual(24);
+    }
+    expect(await mockWeatherSource.fetchObservations(7)).toEqual(days);
+  });
+});
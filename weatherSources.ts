@@ -0,0 +1,156 @@
+import { WeatherObservation, WeatherSource, WeatherSourceId } from './types';
+import { t } from './i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day, so an evening reading is not filed under tomorrow
+export const toDateKey = (time: number) => new Date(time - new Date(time).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+// Stable 0-1 noise per day and channel, so the mock gives the same weather on every reload
+const dailyNoise = (date: string, channel: number) => {
+  let hash = 2166136261 ^ channel;
+  for (const ch of date) hash = Math.imul(hash ^ ch.charCodeAt(0), 16777619);
+  return ((hash >>> 0) % 10000) / 10000;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Offline stand-in for a weather station: plausible lowland tropical days with wet spells,
+ * for trying the forecast and for demos.
+ */
+export const mockWeatherSource: WeatherSource = {
+  id: 'mock',
+  fetchObservations: async (days) =>
+    Array.from({ length: days }, (_, i) => {
+      const date = toDateKey(Date.now() - (days - 1 - i) * DAY_MS);
+      const wet = dailyNoise(date, 1);
+      // About a third of days see heavy afternoon rain
+      const rainfallMm = wet > 0.65 ? round1(5 + (wet - 0.65) * 80) : wet > 0.4 ? round1((wet - 0.4) * 12) : 0;
+      const relativeHumidity = Math.round(68 + wet * 25 + dailyNoise(date, 2) * 5);
+      return {
+        date,
+        temperatureC: round1(25 + dailyNoise(date, 3) * 5 - wet * 1.5),
+        relativeHumidity,
+        rainfallMm,
+        leafWetnessHours: round1(Math.min(24, Math.max(0, (relativeHumidity - 75) * 0.4 + rainfallMm * 0.3 + dailyNoise(date, 4) * 3))),
+        origin: 'mock',
+      };
+    }),
+};
+
+// New sources (a station API, a farm logger) implement WeatherSource and register here
+export const WEATHER_SOURCES: Record<WeatherSourceId, WeatherSource> = {
+  mock: mockWeatherSource,
+};
+
+const WEATHER_SOURCE_STORAGE_KEY = 'phytoscan_weather_source';
+
+// Display text lives in the message catalogue so it follows the language setting
+export const weatherSourceName = (id: WeatherSourceId) => t(`weather.source.${id}.name`);
+export const weatherSourceDescription = (id: WeatherSourceId) => t(`weather.source.${id}.description`);
+
+export const loadWeatherSourcePreference = (): WeatherSourceId => {
+  const saved = localStorage.getItem(WEATHER_SOURCE_STORAGE_KEY);
+  return saved && Object.hasOwn(WEATHER_SOURCES, saved) ? (saved as WeatherSourceId) : 'mock';
+};
+
+export const saveWeatherSourcePreference = (id: WeatherSourceId) => {
+  localStorage.setItem(WEATHER_SOURCE_STORAGE_KEY, id);
+};
+
+export class WeatherCsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WeatherCsvError';
+  }
+}
+
+type ObservationField = Exclude<keyof WeatherObservation, 'origin'>;
+
+// Header spellings accepted for each column, compared lower-case without spaces or units
+const CSV_COLUMNS: Record<ObservationField, string[]> = {
+  date: ['date', 'day'],
+  temperatureC: ['temperaturec', 'temperature', 'temp', 'tempc', 'meantemp'],
+  relativeHumidity: ['relativehumidity', 'humidity', 'rh'],
+  rainfallMm: ['rainfallmm', 'rainfall', 'rain', 'rainmm', 'precipitation'],
+  leafWetnessHours: ['leafwetnesshours', 'leafwetness', 'wetness', 'wetnesshours', 'lwh'],
+};
+
+// Plausible daily values; anything outside is a typo or a unit mix-up
+const CSV_RANGES: Record<Exclude<ObservationField, 'date'>, [number, number]> = {
+  temperatureC: [-10, 50],
+  relativeHumidity: [0, 100],
+  rainfallMm: [0, 500],
+  leafWetnessHours: [0, 24],
+};
+
+export interface WeatherCsvImport {
+  observations: WeatherObservation[];
+  // Rows dropped because a value was missing or implausible
+  skippedRows: number;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\(.*?\)|[^a-z]/g, '');
+
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Date.parse rolls impossible dates over (30 Feb becomes 2 March), so the day and month it
+// settled on must both be written in the cell. A timestamp with a zone may name the UTC day.
+const isStatedDate = (value: string, time: number) => {
+  const date = new Date(time);
+  const numbers = (value.match(/\d+/g) ?? []).map(Number);
+  const stated = (day: number, month: number) =>
+    numbers.includes(day) && (numbers.includes(month + 1) || value.toLowerCase().includes(MONTH_ABBREVIATIONS[month]));
+  return stated(date.getDate(), date.getMonth()) || stated(date.getUTCDate(), date.getUTCMonth());
+};
+
+const parseDate = (value: string): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value ? value : null;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) || !isStatedDate(value, time) ? null : toDateKey(time);
+};
+
+/**
+ * Reads daily observations from a CSV with a header row naming the date, temperature (°C),
+ * relative humidity (%), rainfall (mm) and leaf-wetness hours. Throws WeatherCsvError when a
+ * column is missing or no row is usable.
+ */
+export const parseWeatherCsv = (text: string): WeatherCsvImport => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines.length < 2) throw new WeatherCsvError(t('weather.csv.noRows'));
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const split = (line: string) => line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+  const headers = split(lines[0]).map(normalizeHeader);
+  const fields = Object.keys(CSV_COLUMNS) as ObservationField[];
+  const columns = {} as Record<ObservationField, number>;
+  for (const field of fields) {
+    const index = headers.findIndex((h) => CSV_COLUMNS[field].includes(h));
+    if (index < 0) throw new WeatherCsvError(t('weather.csv.missingColumn', { column: field, expected: fields.join(', ') }));
+    columns[field] = index;
+  }
+
+  const observations: WeatherObservation[] = [];
+  let skippedRows = 0;
+  for (const line of lines.slice(1)) {
+    const cells = split(line);
+    const date = parseDate(cells[columns.date] ?? '');
+    const values = Object.entries(CSV_RANGES).map(([field, [min, max]]) => {
+      const value = parseFloat(cells[columns[field as ObservationField]]);
+      return Number.isFinite(value) && value >= min && value <= max ? value : null;
+    });
+    if (!date || values.some((value) => value === null)) {
+      skippedRows++;
+      continue;
+    }
+    const [temperatureC, relativeHumidity, rainfallMm, leafWetnessHours] = values as number[];
+    observations.push({ date, temperatureC, relativeHumidity, rainfallMm, leafWetnessHours, origin: 'csv' });
+  }
+
+  if (observations.length === 0) throw new WeatherCsvError(t('weather.csv.noValidRows'));
+  return { observations, skippedRows };
+};